@@ -0,0 +1,12 @@
+-- Cron expression and timezone support for fetch schedules
+
+ALTER TABLE fetch_schedules
+    ADD COLUMN IF NOT EXISTS cron_expression VARCHAR(100),
+    ADD COLUMN IF NOT EXISTS timezone VARCHAR(64) NOT NULL DEFAULT 'UTC';
+
+-- Partial index used by the schedule worker when claiming due rows
+CREATE INDEX IF NOT EXISTS idx_fetch_schedules_due ON fetch_schedules(next_fetch) WHERE active = true;
+
+COMMENT ON COLUMN fetch_schedules.frequency IS 'Fetch frequency: hourly, daily, weekly, monthly, or cron (see cron_expression)';
+COMMENT ON COLUMN fetch_schedules.cron_expression IS 'Cron expression (5 fields) used when frequency = cron, e.g. "0 8 * * 1-5"';
+COMMENT ON COLUMN fetch_schedules.timezone IS 'IANA timezone the cron expression is evaluated in, e.g. Asia/Ho_Chi_Minh';
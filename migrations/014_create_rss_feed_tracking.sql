@@ -0,0 +1,33 @@
+-- RSS feed tracking: per-user feed state and ingested items (dedup by guid/link)
+
+CREATE TABLE IF NOT EXISTS rss_feeds (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    feed_url TEXT NOT NULL,
+    title VARCHAR(500),
+    etag VARCHAR(500),
+    last_modified VARCHAR(100),
+    last_polled_at TIMESTAMP,
+    created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMP NOT NULL DEFAULT NOW(),
+    UNIQUE(user_id, feed_url)
+);
+
+CREATE INDEX IF NOT EXISTS idx_rss_feeds_user_id ON rss_feeds(user_id);
+
+CREATE TABLE IF NOT EXISTS rss_feed_items (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    feed_id UUID NOT NULL REFERENCES rss_feeds(id) ON DELETE CASCADE,
+    item_key TEXT NOT NULL, -- guid, falling back to link
+    article_id UUID REFERENCES articles(id) ON DELETE SET NULL,
+    created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+    UNIQUE(feed_id, item_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_rss_feed_items_feed_id ON rss_feed_items(feed_id);
+
+COMMENT ON TABLE rss_feeds IS 'RSS feeds polled per user, with HTTP validators for conditional fetching';
+COMMENT ON COLUMN rss_feeds.etag IS 'ETag from the last successful fetch (sent as If-None-Match)';
+COMMENT ON COLUMN rss_feeds.last_modified IS 'Last-Modified from the last successful fetch (sent as If-Modified-Since)';
+COMMENT ON TABLE rss_feed_items IS 'Feed items already ingested, so re-polling only picks up new items';
+COMMENT ON COLUMN rss_feed_items.item_key IS 'Item guid, or link when the feed does not provide a guid';
@@ -0,0 +1,25 @@
+-- Asynchronous ingestion jobs for /api/sources (url, rss item, file)
+
+ALTER TABLE articles
+    ADD COLUMN IF NOT EXISTS error_message TEXT;
+
+COMMENT ON COLUMN articles.error_message IS 'Reason the last ingestion attempt failed (null unless status = failed)';
+
+CREATE TABLE IF NOT EXISTS ingestion_jobs (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    article_id UUID NOT NULL UNIQUE REFERENCES articles(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    job_type VARCHAR(20) NOT NULL CHECK (job_type IN ('url', 'rss_item', 'file')),
+    payload JSONB NOT NULL DEFAULT '{}'::jsonb,
+    attempts INTEGER NOT NULL DEFAULT 0,
+    locked_until TIMESTAMP,
+    created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_ingestion_jobs_user_id ON ingestion_jobs(user_id);
+CREATE INDEX IF NOT EXISTS idx_ingestion_jobs_created_at ON ingestion_jobs(created_at);
+
+COMMENT ON TABLE ingestion_jobs IS 'Queued ingestion work; progress is tracked on the linked article status';
+COMMENT ON COLUMN ingestion_jobs.payload IS 'Job input: {url} | {content, link} | {file_url, file_name, mimetype}';
+COMMENT ON COLUMN ingestion_jobs.locked_until IS 'Lease held by the worker processing the job; expired leases are reclaimed';
@@ -0,0 +1,41 @@
+-- Security scan finding suppressions: seller-requested, admin-reviewed false positives
+
+CREATE TABLE IF NOT EXISTS security_finding_suppressions (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    product_id UUID NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+    artifact_id UUID NOT NULL REFERENCES product_artifacts(id) ON DELETE CASCADE,
+    artifact_checksum VARCHAR(128), -- Checksum the finding was reported against
+    finding_id VARCHAR(64) NOT NULL,
+    rule_id VARCHAR(100) NOT NULL,
+    file_path TEXT NOT NULL,
+    justification TEXT NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected')),
+    requested_by UUID NOT NULL REFERENCES users(id),
+    reviewed_by UUID REFERENCES users(id),
+    review_notes TEXT,
+    reviewed_at TIMESTAMP,
+    created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMP NOT NULL DEFAULT NOW(),
+    UNIQUE(artifact_id, finding_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_security_finding_suppressions_product_id ON security_finding_suppressions(product_id);
+CREATE INDEX IF NOT EXISTS idx_security_finding_suppressions_status ON security_finding_suppressions(status);
+
+CREATE OR REPLACE FUNCTION update_security_finding_suppressions_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.updated_at = NOW();
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_update_security_finding_suppressions_updated_at ON security_finding_suppressions;
+CREATE TRIGGER trigger_update_security_finding_suppressions_updated_at
+    BEFORE UPDATE ON security_finding_suppressions
+    FOR EACH ROW
+    EXECUTE FUNCTION update_security_finding_suppressions_updated_at();
+
+COMMENT ON TABLE security_finding_suppressions IS 'Security scan findings marked as false positives by sellers and reviewed by admins';
+COMMENT ON COLUMN security_finding_suppressions.artifact_checksum IS 'Artifact checksum at request time; approved suppressions only apply while the artifact is unchanged';
+COMMENT ON COLUMN security_finding_suppressions.finding_id IS 'Finding id from products.security_scan_result.findings';
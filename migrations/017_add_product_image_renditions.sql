@@ -0,0 +1,7 @@
+-- Processed image renditions (WebP) for product thumbnails and screenshots
+
+ALTER TABLE products
+    ADD COLUMN IF NOT EXISTS image_renditions JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+COMMENT ON COLUMN products.image_renditions IS 'Renditions keyed by original image URL: {"<url>": {"card": {"url", "width", "height"}, "detail": {...}, "og": {...}}}';
+COMMENT ON COLUMN product_artifacts.metadata IS 'Additional metadata; image artifacts store {"image": {...}, "renditions": {...}}';
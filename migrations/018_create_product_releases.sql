@@ -0,0 +1,48 @@
+-- Product releases: semver versions grouping artifacts, with release notes and their own review
+
+CREATE TABLE IF NOT EXISTS product_releases (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    product_id UUID NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+    version VARCHAR(50) NOT NULL,
+    release_notes TEXT,
+    status VARCHAR(20) NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'pending_review', 'approved', 'rejected')),
+    is_current BOOLEAN NOT NULL DEFAULT false,
+    submitted_at TIMESTAMP,
+    reviewed_by UUID REFERENCES users(id),
+    reviewed_at TIMESTAMP,
+    rejection_reason TEXT,
+    security_scan_status VARCHAR(20) CHECK (security_scan_status IN ('pending', 'passed', 'failed')),
+    security_scan_result JSONB,
+    security_scan_at TIMESTAMP,
+    created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMP NOT NULL DEFAULT NOW(),
+    UNIQUE(product_id, version)
+);
+
+CREATE INDEX IF NOT EXISTS idx_product_releases_product_id ON product_releases(product_id);
+CREATE INDEX IF NOT EXISTS idx_product_releases_status ON product_releases(status);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_product_releases_current ON product_releases(product_id) WHERE is_current;
+
+ALTER TABLE product_artifacts
+    ADD COLUMN IF NOT EXISTS release_id UUID REFERENCES product_releases(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_product_artifacts_release_id ON product_artifacts(release_id);
+
+CREATE OR REPLACE FUNCTION update_product_releases_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.updated_at = NOW();
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_update_product_releases_updated_at ON product_releases;
+CREATE TRIGGER trigger_update_product_releases_updated_at
+    BEFORE UPDATE ON product_releases
+    FOR EACH ROW
+    EXECUTE FUNCTION update_product_releases_updated_at();
+
+COMMENT ON TABLE product_releases IS 'Versioned releases of a product; each release is reviewed on its own';
+COMMENT ON COLUMN product_releases.version IS 'Semantic version (e.g. 1.2.0), unique per product';
+COMMENT ON COLUMN product_releases.is_current IS 'Release buyers get by default; at most one per product';
+COMMENT ON COLUMN product_artifacts.release_id IS 'Release the artifact belongs to (null for artifacts uploaded before releases)';
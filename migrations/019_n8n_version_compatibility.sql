@@ -0,0 +1,32 @@
+-- n8n version compatibility: product_workflows.n8n_version holds the minimum n8n release
+-- inferred from the workflow's nodes, always as "major.minor.patch"
+
+-- Values that are not versions (e.g. instance ids stored from workflow meta) are dropped
+UPDATE product_workflows
+SET n8n_version = NULL
+WHERE n8n_version IS NOT NULL AND n8n_version !~ '^v?\d+(\.\d+){0,2}$';
+
+-- "1.2" / "v1" become "1.2.0" / "1.0.0"
+UPDATE product_workflows
+SET n8n_version = array_to_string((string_to_array(ltrim(n8n_version, 'v'), '.') || ARRAY['0', '0'])[1:3], '.')
+WHERE n8n_version IS NOT NULL AND n8n_version !~ '^\d+\.\d+\.\d+$';
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_constraint WHERE conname = 'chk_product_workflows_n8n_version'
+    ) THEN
+        ALTER TABLE product_workflows
+            ADD CONSTRAINT chk_product_workflows_n8n_version CHECK (n8n_version IS NULL OR n8n_version ~ '^\d+\.\d+\.\d+$');
+    END IF;
+END $$;
+
+ALTER TABLE product_workflows
+    ADD COLUMN IF NOT EXISTS n8n_compatibility JSONB;
+
+-- Supports "works on n8n version X" filters (numeric comparison of version parts)
+CREATE INDEX IF NOT EXISTS idx_product_workflows_n8n_version_parts
+    ON product_workflows ((string_to_array(n8n_version, '.')::int[]));
+
+COMMENT ON COLUMN product_workflows.n8n_version IS 'Minimum n8n version (major.minor.patch) required by this workflow';
+COMMENT ON COLUMN product_workflows.n8n_compatibility IS 'Node analysis behind n8n_version: nodes requiring it, unknown and community nodes';
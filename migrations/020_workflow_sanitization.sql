@@ -0,0 +1,9 @@
+-- Workflow sanitization: workflow_json_url may point at a sanitized copy of the seller's export
+ALTER TABLE product_workflows
+    ADD COLUMN IF NOT EXISTS original_file_checksum VARCHAR(64),
+    ADD COLUMN IF NOT EXISTS sanitized_at TIMESTAMP,
+    ADD COLUMN IF NOT EXISTS sanitization_report JSONB;
+
+COMMENT ON COLUMN product_workflows.workflow_file_checksum IS 'SHA-256 of the stored workflow file (sanitized copy when sanitized_at is set)';
+COMMENT ON COLUMN product_workflows.original_file_checksum IS 'SHA-256 of the workflow file as uploaded by the seller, before sanitization';
+COMMENT ON COLUMN product_workflows.sanitization_report IS 'What the sanitizer removed: credential references, pinned data, instance ids, static data, webhook ids';
@@ -0,0 +1,5 @@
+-- Setup guide generated from the workflow JSON (credentials, env variables, webhooks, schedules)
+ALTER TABLE product_workflows
+    ADD COLUMN IF NOT EXISTS setup_guide JSONB;
+
+COMMENT ON COLUMN product_workflows.setup_guide IS 'Setup guide generated from workflow_json_url when the workflow is saved';
@@ -0,0 +1,51 @@
+-- Buyers' own n8n instances for one-click workflow deployment, and the deployment log
+
+CREATE TABLE IF NOT EXISTS buyer_n8n_instances (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    name VARCHAR(100) NOT NULL,
+    base_url TEXT NOT NULL,
+    api_key_encrypted TEXT NOT NULL,
+    api_key_last4 VARCHAR(4) NOT NULL,
+    last_verified_at TIMESTAMP,
+    created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMP NOT NULL DEFAULT NOW(),
+    UNIQUE(user_id, base_url)
+);
+
+CREATE INDEX IF NOT EXISTS idx_buyer_n8n_instances_user_id ON buyer_n8n_instances(user_id);
+
+CREATE OR REPLACE FUNCTION update_buyer_n8n_instances_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.updated_at = NOW();
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_update_buyer_n8n_instances_updated_at ON buyer_n8n_instances;
+CREATE TRIGGER trigger_update_buyer_n8n_instances_updated_at
+    BEFORE UPDATE ON buyer_n8n_instances
+    FOR EACH ROW
+    EXECUTE FUNCTION update_buyer_n8n_instances_updated_at();
+
+CREATE TABLE IF NOT EXISTS workflow_deployments (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    instance_id UUID REFERENCES buyer_n8n_instances(id) ON DELETE SET NULL,
+    product_id UUID NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+    release_id UUID REFERENCES product_releases(id) ON DELETE SET NULL,
+    status VARCHAR(20) NOT NULL CHECK (status IN ('succeeded', 'failed')),
+    n8n_workflow_id VARCHAR(100),
+    missing_credentials JSONB NOT NULL DEFAULT '[]',
+    error TEXT,
+    created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_workflow_deployments_user_id ON workflow_deployments(user_id);
+CREATE INDEX IF NOT EXISTS idx_workflow_deployments_product_id ON workflow_deployments(product_id);
+
+COMMENT ON TABLE buyer_n8n_instances IS 'n8n instances buyers deploy purchased workflows to';
+COMMENT ON COLUMN buyer_n8n_instances.api_key_encrypted IS 'n8n API key, AES-256-GCM encrypted with N8N_INSTANCE_SECRET';
+COMMENT ON TABLE workflow_deployments IS 'Imports of purchased workflows into buyer n8n instances';
+COMMENT ON COLUMN workflow_deployments.missing_credentials IS 'Credential types the buyer still has to create, with the nodes using them';
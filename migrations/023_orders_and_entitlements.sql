@@ -0,0 +1,86 @@
+-- Orders with line items and the entitlement ledger (what each user owns)
+
+-- 1) Downloads of purchased products
+ALTER TYPE download_type ADD VALUE IF NOT EXISTS 'purchase';
+
+-- 2) Orders
+CREATE TABLE IF NOT EXISTS orders (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'paid', 'cancelled', 'refunded')),
+    total_amount DECIMAL(12,2) NOT NULL CHECK (total_amount >= 0),
+    currency VARCHAR(10) NOT NULL,
+    paid_at TIMESTAMP,
+    cancelled_at TIMESTAMP,
+    refunded_at TIMESTAMP,
+    refund_reason TEXT,
+    created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_orders_user_id ON orders(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_orders_status ON orders(status);
+
+CREATE OR REPLACE FUNCTION update_orders_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.updated_at = NOW();
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_update_orders_updated_at ON orders;
+CREATE TRIGGER trigger_update_orders_updated_at
+    BEFORE UPDATE ON orders
+    FOR EACH ROW
+    EXECUTE FUNCTION update_orders_updated_at();
+
+-- 3) Order line items (price snapshot at checkout)
+CREATE TABLE IF NOT EXISTS order_items (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    order_id UUID NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+    product_id UUID REFERENCES products(id) ON DELETE SET NULL,
+    seller_id UUID REFERENCES users(id) ON DELETE SET NULL,
+    title VARCHAR(255) NOT NULL,
+    unit_price DECIMAL(10,2) NOT NULL CHECK (unit_price >= 0),
+    currency VARCHAR(10) NOT NULL,
+    created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+    UNIQUE(order_id, product_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_order_items_product_id ON order_items(product_id);
+CREATE INDEX IF NOT EXISTS idx_order_items_seller_id ON order_items(seller_id);
+
+-- 4) Entitlements
+CREATE TABLE IF NOT EXISTS entitlements (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    product_id UUID NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+    source VARCHAR(20) NOT NULL CHECK (source IN ('purchase', 'free', 'grant')),
+    order_id UUID REFERENCES orders(id) ON DELETE SET NULL,
+    granted_at TIMESTAMP NOT NULL DEFAULT NOW(),
+    revoked_at TIMESTAMP,
+    revoke_reason TEXT,
+    created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+-- At most one active entitlement per user and product
+CREATE UNIQUE INDEX IF NOT EXISTS idx_entitlements_active_user_product
+    ON entitlements(user_id, product_id) WHERE revoked_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_entitlements_order_id ON entitlements(order_id);
+
+-- 5) Buyers who obtained paid products before orders existed keep access
+INSERT INTO entitlements (user_id, product_id, source, granted_at)
+SELECT dl.buyer_id, dl.product_id, 'grant', MIN(dl.created_at)
+FROM download_logs dl
+JOIN products p ON p.id = dl.product_id
+WHERE dl.buyer_id IS NOT NULL AND p.is_free = false
+GROUP BY dl.buyer_id, dl.product_id
+ON CONFLICT (user_id, product_id) WHERE revoked_at IS NULL DO NOTHING;
+
+COMMENT ON TABLE orders IS 'Buyer orders; paid orders grant entitlements to their products';
+COMMENT ON COLUMN orders.total_amount IS 'Sum of order_items.unit_price, all in the order currency';
+COMMENT ON TABLE order_items IS 'Products of an order with their price at checkout';
+COMMENT ON COLUMN order_items.title IS 'Product title at checkout, kept when the product is deleted';
+COMMENT ON TABLE entitlements IS 'Ledger of products users own; revoked rows are kept for history';
+COMMENT ON COLUMN entitlements.source IS 'purchase: paid order, free: claimed free product, grant: given by an admin or migrated';
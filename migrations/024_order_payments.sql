@@ -0,0 +1,56 @@
+-- Payments of orders through a payment provider, and the webhook events they received
+
+CREATE TABLE IF NOT EXISTS payments (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    order_id UUID NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+    provider VARCHAR(20) NOT NULL,
+    provider_payment_id VARCHAR(255),
+    status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'succeeded', 'failed', 'refunded')),
+    amount DECIMAL(12,2) NOT NULL CHECK (amount >= 0),
+    currency VARCHAR(10) NOT NULL,
+    return_url TEXT NOT NULL,
+    redirect_url TEXT,
+    provider_data JSONB NOT NULL DEFAULT '{}',
+    failure_reason TEXT,
+    provider_refund_id VARCHAR(255),
+    paid_at TIMESTAMP,
+    refunded_at TIMESTAMP,
+    expires_at TIMESTAMP NOT NULL,
+    created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_payments_order_id ON payments(order_id);
+CREATE INDEX IF NOT EXISTS idx_payments_status ON payments(status);
+
+CREATE OR REPLACE FUNCTION update_payments_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.updated_at = NOW();
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_update_payments_updated_at ON payments;
+CREATE TRIGGER trigger_update_payments_updated_at
+    BEFORE UPDATE ON payments
+    FOR EACH ROW
+    EXECUTE FUNCTION update_payments_updated_at();
+
+CREATE TABLE IF NOT EXISTS payment_events (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    provider VARCHAR(20) NOT NULL,
+    event_id VARCHAR(255) NOT NULL,
+    payment_id UUID NOT NULL REFERENCES payments(id) ON DELETE CASCADE,
+    type VARCHAR(50) NOT NULL,
+    payload JSONB NOT NULL DEFAULT '{}',
+    created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+    UNIQUE(provider, event_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_payment_events_payment_id ON payment_events(payment_id);
+
+COMMENT ON TABLE payments IS 'Checkout attempts of orders; a succeeded payment marks its order paid';
+COMMENT ON COLUMN payments.provider_data IS 'Provider values needed later, e.g. for refunds';
+COMMENT ON COLUMN payments.return_url IS 'Frontend URL the buyer returns to; payment_id is appended';
+COMMENT ON TABLE payment_events IS 'Processed provider webhooks; the unique event ID makes replays no-ops';
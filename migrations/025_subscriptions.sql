@@ -0,0 +1,95 @@
+-- Subscription plans of subscription products, buyer subscriptions and their renewal orders
+
+-- 1) Plans (managed by the seller; deactivated rather than deleted once used)
+CREATE TABLE IF NOT EXISTS subscription_plans (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    product_id UUID NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+    name VARCHAR(100) NOT NULL,
+    billing_interval VARCHAR(10) NOT NULL CHECK (billing_interval IN ('day', 'week', 'month', 'year')),
+    interval_count INTEGER NOT NULL DEFAULT 1 CHECK (interval_count > 0),
+    price DECIMAL(10,2) NOT NULL CHECK (price > 0),
+    currency VARCHAR(10) NOT NULL DEFAULT 'VND',
+    trial_days INTEGER NOT NULL DEFAULT 0 CHECK (trial_days >= 0),
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_subscription_plans_product_id ON subscription_plans(product_id);
+
+CREATE OR REPLACE FUNCTION update_subscription_plans_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.updated_at = NOW();
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_update_subscription_plans_updated_at ON subscription_plans;
+CREATE TRIGGER trigger_update_subscription_plans_updated_at
+    BEFORE UPDATE ON subscription_plans
+    FOR EACH ROW
+    EXECUTE FUNCTION update_subscription_plans_updated_at();
+
+-- 2) Subscriptions
+CREATE TABLE IF NOT EXISTS subscriptions (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    plan_id UUID NOT NULL REFERENCES subscription_plans(id) ON DELETE RESTRICT,
+    product_id UUID NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+    status VARCHAR(20) NOT NULL CHECK (status IN ('incomplete', 'trialing', 'active', 'past_due', 'canceled', 'expired')),
+    current_period_start TIMESTAMP,
+    current_period_end TIMESTAMP,
+    trial_end TIMESTAMP,
+    grace_until TIMESTAMP,
+    cancel_at_period_end BOOLEAN NOT NULL DEFAULT false,
+    canceled_at TIMESTAMP,
+    ended_at TIMESTAMP,
+    latest_order_id UUID REFERENCES orders(id) ON DELETE SET NULL,
+    created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+-- At most one subscription per user and product that is not over yet
+CREATE UNIQUE INDEX IF NOT EXISTS idx_subscriptions_live_user_product
+    ON subscriptions(user_id, product_id) WHERE status IN ('incomplete', 'trialing', 'active', 'past_due');
+CREATE INDEX IF NOT EXISTS idx_subscriptions_user_id ON subscriptions(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_subscriptions_status_period_end ON subscriptions(status, current_period_end);
+
+CREATE OR REPLACE FUNCTION update_subscriptions_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.updated_at = NOW();
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_update_subscriptions_updated_at ON subscriptions;
+CREATE TRIGGER trigger_update_subscriptions_updated_at
+    BEFORE UPDATE ON subscriptions
+    FOR EACH ROW
+    EXECUTE FUNCTION update_subscriptions_updated_at();
+
+-- 3) Orders pay for subscription periods
+ALTER TABLE order_items
+    ADD COLUMN IF NOT EXISTS plan_id UUID REFERENCES subscription_plans(id) ON DELETE SET NULL,
+    ADD COLUMN IF NOT EXISTS subscription_id UUID REFERENCES subscriptions(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_order_items_subscription_id ON order_items(subscription_id);
+
+-- 4) Subscriptions grant entitlements while they last
+ALTER TABLE entitlements
+    ADD COLUMN IF NOT EXISTS subscription_id UUID REFERENCES subscriptions(id) ON DELETE CASCADE;
+
+ALTER TABLE entitlements DROP CONSTRAINT IF EXISTS entitlements_source_check;
+ALTER TABLE entitlements
+    ADD CONSTRAINT entitlements_source_check CHECK (source IN ('purchase', 'free', 'grant', 'subscription'));
+
+CREATE INDEX IF NOT EXISTS idx_entitlements_subscription_id ON entitlements(subscription_id);
+
+COMMENT ON TABLE subscription_plans IS 'Billing plans of subscription products';
+COMMENT ON COLUMN subscription_plans.trial_days IS 'Free days before the first payment; once per user and product';
+COMMENT ON TABLE subscriptions IS 'Buyer subscriptions; each period is paid with an order';
+COMMENT ON COLUMN subscriptions.status IS 'incomplete: first order unpaid, past_due: renewal order unpaid (access until grace_until), canceled/expired: over';
+COMMENT ON COLUMN subscriptions.latest_order_id IS 'Most recent order of the subscription (first payment or renewal)';
+COMMENT ON COLUMN entitlements.subscription_id IS 'Subscription granting the entitlement (source subscription)';
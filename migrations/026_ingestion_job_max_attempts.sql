@@ -0,0 +1,6 @@
+-- Cap how many times an ingestion job is reclaimed after its lease expires
+
+ALTER TABLE ingestion_jobs
+    ADD COLUMN IF NOT EXISTS max_attempts INTEGER NOT NULL DEFAULT 3;
+
+COMMENT ON COLUMN ingestion_jobs.max_attempts IS 'Claims allowed before the job is given up and its article marked failed';
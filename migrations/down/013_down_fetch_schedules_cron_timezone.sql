@@ -0,0 +1,10 @@
+-- Down migration for fetch schedule cron/timezone support
+
+DROP INDEX IF EXISTS idx_fetch_schedules_due;
+
+-- Cron schedules fall back to daily
+UPDATE fetch_schedules SET frequency = 'daily' WHERE frequency = 'cron';
+
+ALTER TABLE fetch_schedules
+    DROP COLUMN IF EXISTS cron_expression,
+    DROP COLUMN IF EXISTS timezone;
@@ -0,0 +1,4 @@
+-- Down migration for RSS feed tracking
+
+DROP TABLE IF EXISTS rss_feed_items;
+DROP TABLE IF EXISTS rss_feeds;
@@ -0,0 +1,6 @@
+-- Down migration for asynchronous ingestion jobs
+
+DROP TABLE IF EXISTS ingestion_jobs;
+
+ALTER TABLE articles
+    DROP COLUMN IF EXISTS error_message;
@@ -0,0 +1,5 @@
+-- Down migration for security finding suppressions
+
+DROP TRIGGER IF EXISTS trigger_update_security_finding_suppressions_updated_at ON security_finding_suppressions;
+DROP FUNCTION IF EXISTS update_security_finding_suppressions_updated_at();
+DROP TABLE IF EXISTS security_finding_suppressions;
@@ -0,0 +1,6 @@
+-- Down migration for product image renditions
+
+ALTER TABLE products
+    DROP COLUMN IF EXISTS image_renditions;
+
+COMMENT ON COLUMN product_artifacts.metadata IS NULL;
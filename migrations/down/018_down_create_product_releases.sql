@@ -0,0 +1,8 @@
+-- Down migration for product releases
+
+DROP INDEX IF EXISTS idx_product_artifacts_release_id;
+ALTER TABLE product_artifacts DROP COLUMN IF EXISTS release_id;
+
+DROP TRIGGER IF EXISTS trigger_update_product_releases_updated_at ON product_releases;
+DROP FUNCTION IF EXISTS update_product_releases_updated_at();
+DROP TABLE IF EXISTS product_releases;
@@ -0,0 +1,7 @@
+-- Down migration for n8n version compatibility
+
+DROP INDEX IF EXISTS idx_product_workflows_n8n_version_parts;
+ALTER TABLE product_workflows DROP COLUMN IF EXISTS n8n_compatibility;
+ALTER TABLE product_workflows DROP CONSTRAINT IF EXISTS chk_product_workflows_n8n_version;
+
+COMMENT ON COLUMN product_workflows.n8n_version IS 'Required n8n version for this workflow';
@@ -0,0 +1,6 @@
+-- Down migration for workflow sanitization
+
+ALTER TABLE product_workflows
+    DROP COLUMN IF EXISTS sanitization_report,
+    DROP COLUMN IF EXISTS sanitized_at,
+    DROP COLUMN IF EXISTS original_file_checksum;
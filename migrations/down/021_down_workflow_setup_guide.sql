@@ -0,0 +1,3 @@
+-- Down migration for workflow setup guide
+
+ALTER TABLE product_workflows DROP COLUMN IF EXISTS setup_guide;
@@ -0,0 +1,7 @@
+-- Down migration for buyer n8n instances
+
+DROP TABLE IF EXISTS workflow_deployments;
+
+DROP TRIGGER IF EXISTS trigger_update_buyer_n8n_instances_updated_at ON buyer_n8n_instances;
+DROP FUNCTION IF EXISTS update_buyer_n8n_instances_updated_at();
+DROP TABLE IF EXISTS buyer_n8n_instances;
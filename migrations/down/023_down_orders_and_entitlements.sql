@@ -0,0 +1,9 @@
+-- Down migration for orders and entitlements
+-- The 'purchase' value stays in download_type: PostgreSQL cannot drop enum values
+
+DROP TABLE IF EXISTS entitlements;
+DROP TABLE IF EXISTS order_items;
+
+DROP TRIGGER IF EXISTS trigger_update_orders_updated_at ON orders;
+DROP FUNCTION IF EXISTS update_orders_updated_at();
+DROP TABLE IF EXISTS orders;
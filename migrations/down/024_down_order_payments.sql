@@ -0,0 +1,7 @@
+-- Down migration for order payments
+
+DROP TABLE IF EXISTS payment_events;
+
+DROP TRIGGER IF EXISTS trigger_update_payments_updated_at ON payments;
+DROP FUNCTION IF EXISTS update_payments_updated_at();
+DROP TABLE IF EXISTS payments;
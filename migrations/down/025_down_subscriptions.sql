@@ -0,0 +1,21 @@
+-- Down migration for subscriptions
+
+DELETE FROM entitlements WHERE source = 'subscription';
+DROP INDEX IF EXISTS idx_entitlements_subscription_id;
+ALTER TABLE entitlements DROP COLUMN IF EXISTS subscription_id;
+ALTER TABLE entitlements DROP CONSTRAINT IF EXISTS entitlements_source_check;
+ALTER TABLE entitlements
+    ADD CONSTRAINT entitlements_source_check CHECK (source IN ('purchase', 'free', 'grant'));
+
+DROP INDEX IF EXISTS idx_order_items_subscription_id;
+ALTER TABLE order_items
+    DROP COLUMN IF EXISTS subscription_id,
+    DROP COLUMN IF EXISTS plan_id;
+
+DROP TRIGGER IF EXISTS trigger_update_subscriptions_updated_at ON subscriptions;
+DROP FUNCTION IF EXISTS update_subscriptions_updated_at();
+DROP TABLE IF EXISTS subscriptions;
+
+DROP TRIGGER IF EXISTS trigger_update_subscription_plans_updated_at ON subscription_plans;
+DROP FUNCTION IF EXISTS update_subscription_plans_updated_at();
+DROP TABLE IF EXISTS subscription_plans;
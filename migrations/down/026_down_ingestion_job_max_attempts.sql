@@ -0,0 +1,4 @@
+-- Down migration for ingestion job attempt cap
+
+ALTER TABLE ingestion_jobs
+    DROP COLUMN IF EXISTS max_attempts;
@@ -0,0 +1,54 @@
+#!/usr/bin/env node
+
+/**
+ * Stub n8n Server - minimal n8n public API for testing "deploy to my n8n"
+ * Usage: npm run n8n:stub
+ *
+ * Implements GET/POST /api/v1/workflows and GET /api/v1/credentials in memory.
+ * Register it as an instance with base URL http://localhost:5679 and API key "stub-api-key"
+ * (the API server needs N8N_DEPLOY_ALLOW_PRIVATE_URLS=true to reach localhost)
+ */
+
+import Fastify from 'fastify';
+import { randomUUID } from 'crypto';
+
+const PORT = parseInt(process.env.N8N_STUB_PORT || '5679', 10);
+const API_KEY = process.env.N8N_STUB_API_KEY || 'stub-api-key';
+// Comma-separated credential types that "already exist" on the stub instance
+const CREDENTIAL_TYPES = (process.env.N8N_STUB_CREDENTIAL_TYPES || '').split(',').map(t => t.trim()).filter(Boolean);
+
+const workflows: any[] = [];
+const app = Fastify({ logger: false });
+
+app.addHook('onRequest', async (request, reply) => {
+    if (request.headers['x-n8n-api-key'] !== API_KEY) {
+        return reply.status(401).send({ message: 'unauthorized' });
+    }
+});
+
+app.get('/api/v1/workflows', async () => ({ data: workflows, nextCursor: null }));
+
+app.post('/api/v1/workflows', async (request, reply) => {
+    const body = request.body as any;
+    // Like n8n, reject unknown top-level properties and require the core ones
+    const allowed = ['name', 'nodes', 'connections', 'settings', 'staticData'];
+    const unknown = Object.keys(body || {}).filter(key => !allowed.includes(key));
+    if (!body?.name || !Array.isArray(body.nodes) || !body.connections || !body.settings || unknown.length > 0) {
+        return reply.status(400).send({ message: `request/body invalid${unknown.length ? `: ${unknown.join(', ')}` : ''}` });
+    }
+
+    const now = new Date().toISOString();
+    const workflow = { ...body, id: randomUUID().replace(/-/g, '').slice(0, 16), active: false, createdAt: now, updatedAt: now };
+    workflows.push(workflow);
+    console.log(`📥 Imported workflow "${workflow.name}" (${workflow.nodes.length} nodes) as ${workflow.id}`);
+    return workflow;
+});
+
+app.get('/api/v1/credentials', async () => ({
+    data: CREDENTIAL_TYPES.map((type, index) => ({ id: String(index + 1), name: `${type} (stub)`, type })),
+    nextCursor: null,
+}));
+
+app.listen({ port: PORT, host: '127.0.0.1' }).then(() => {
+    console.log(`🧪 Stub n8n API on http://localhost:${PORT} (API key: ${API_KEY})`);
+});
@@ -41,6 +41,8 @@ export class ProductResponseDto implements ProductDto {
     authorContact?: string;
     supportUrl?: string;
     screenshots?: string[];
+    thumbnailRenditions?: Record<string, any> | null;
+    screenshotRenditions?: (Record<string, any> | null)[];
     platformRequirements?: Record<string, any>;
     requiredCredentials?: string[];
     ownershipDeclaration?: boolean;
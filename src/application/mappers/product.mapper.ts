@@ -49,6 +49,11 @@ export class ProductMapper {
             authorContact: (product as any).author_contact,
             supportUrl: (product as any).support_url,
             screenshots: (product as any).screenshots || [],
+            // WebP renditions (card, detail, og) of uploaded images, null when not processed
+            thumbnailRenditions: ProductMapper.imageRenditions(product, product.thumbnail_url),
+            screenshotRenditions: ((product as any).screenshots || []).map(
+                (url: string) => ProductMapper.imageRenditions(product, url)
+            ),
             platformRequirements: (product as any).platform_requirements || {},
             requiredCredentials: (product as any).required_credentials || [],
             ownershipDeclaration: (product as any).ownership_declaration || false,
@@ -62,6 +67,14 @@ export class ProductMapper {
         });
     }
 
+    /**
+     * Renditions recorded for one of the product's image URLs
+     */
+    private static imageRenditions(product: Product, url?: string | null): Record<string, any> | null {
+        if (!url) return null;
+        return (product as any).image_renditions?.[url] || null;
+    }
+
     /**
      * Convert array of Products to array of ProductResponseDto
      */
@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { SCAN_SEVERITIES } from '../utils/scan-severity';
 import dotenv from 'dotenv';
 
 dotenv.config();
@@ -57,6 +58,80 @@ const envSchema = z.object({
     // File Storage (Optional)
     UPLOAD_DIR: z.string().optional(),
     UPLOAD_BASE_URL: z.string().default('/uploads'),
+    // Storage driver: local filesystem (UPLOAD_DIR) or S3-compatible object storage
+    STORAGE_DRIVER: z.enum(['local', 's3']).default('local'),
+    S3_BUCKET: z.string().optional(),
+    S3_REGION: z.string().default('us-east-1'),
+    S3_ENDPOINT: z.string().optional(), // e.g. http://localhost:9000 for MinIO
+    S3_FORCE_PATH_STYLE: z.string().default('false').transform(v => v === 'true'),
+    S3_ACCESS_KEY_ID: z.string().optional(),
+    S3_SECRET_ACCESS_KEY: z.string().optional(),
+    S3_KEY_PREFIX: z.string().optional(),
+    // Per artifact type upload size limits in MB, e.g. "source_zip:200,thumbnail:2"
+    ARTIFACT_UPLOAD_LIMITS: z.string().default('').transform((value, ctx) => {
+        const limits: Record<string, number> = {};
+        for (const entry of value.split(',').map(e => e.trim()).filter(Boolean)) {
+            const [type, mb] = entry.split(':').map(part => part.trim());
+            const size = Number(mb);
+            if (!type || !mb || !Number.isFinite(size) || size <= 0) {
+                ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Invalid ARTIFACT_UPLOAD_LIMITS entry: ${entry}` });
+                return z.NEVER;
+            }
+            limits[type] = size;
+        }
+        return limits;
+    }),
+    // Signed product download links (secret defaults to JWT_SECRET)
+    DOWNLOAD_URL_SECRET: z.string().min(32, 'DOWNLOAD_URL_SECRET must be at least 32 characters').optional(),
+    DOWNLOAD_URL_TTL: z.string().default('300').transform(Number), // Seconds
+
+    // Deploying purchased workflows to buyers' n8n instances
+    // API keys are encrypted with N8N_INSTANCE_SECRET (defaults to JWT_SECRET)
+    N8N_INSTANCE_SECRET: z.string().min(32, 'N8N_INSTANCE_SECRET must be at least 32 characters').optional(),
+    N8N_DEPLOY_ALLOW_PRIVATE_URLS: z.string().default('false').transform(v => v === 'true'),
+    N8N_DEPLOY_TIMEOUT: z.string().default('30000').transform(Number),
+
+    // Order payments (fake: in-process test provider)
+    PAYMENT_PROVIDER: z.enum(['none', 'fake', 'vnpay']).default('none'),
+    PAYMENT_EXPIRY_MINUTES: z.string().default('15').transform(Number),
+    PAYMENT_PROVIDER_TIMEOUT: z.string().default('30000').transform(Number),
+    API_PUBLIC_URL: z.string().url().default('http://localhost:3001'),
+    PAYMENT_FAKE_SECRET: z.string().min(32, 'PAYMENT_FAKE_SECRET must be at least 32 characters').optional(),
+    VNPAY_TMN_CODE: z.string().optional(),
+    VNPAY_HASH_SECRET: z.string().optional(),
+    VNPAY_PAYMENT_URL: z.string().url().default('https://sandbox.vnpayment.vn/paymentv2/vpcpay.html'),
+    VNPAY_API_URL: z.string().url().default('https://sandbox.vnpayment.vn/merchant_webapi/api/transaction'),
+
+    // Background schedule worker
+    SCHEDULER_ENABLED: z.string().default('true').transform(v => v === 'true'),
+    SCHEDULER_POLL_INTERVAL: z.string().default('60000').transform(Number),
+
+    // Background ingestion worker (/api/sources jobs)
+    INGESTION_WORKER_ENABLED: z.string().default('true').transform(v => v === 'true'),
+    INGESTION_POLL_INTERVAL: z.string().default('5000').transform(Number),
+
+    // Storage garbage collection (orphaned files, artifacts with missing files)
+    STORAGE_GC_ENABLED: z.string().default('false').transform(v => v === 'true'),
+    STORAGE_GC_INTERVAL: z.string().default('21600000').transform(Number), // 6 hours
+    STORAGE_GC_GRACE_HOURS: z.string().default('24').transform(Number),
+    STORAGE_GC_DRY_RUN: z.string().default('true').transform(v => v === 'true'),
+
+    // Subscription renewals and expiry
+    SUBSCRIPTION_WORKER_ENABLED: z.string().default('true').transform(v => v === 'true'),
+    SUBSCRIPTION_WORKER_INTERVAL: z.string().default('300000').transform(Number), // 5 minutes
+    SUBSCRIPTION_GRACE_DAYS: z.string().default('3').transform(Number),
+    SUBSCRIPTION_INCOMPLETE_HOURS: z.string().default('24').transform(Number),
+
+    // Background security scan worker (Redis queue)
+    SCAN_WORKER_ENABLED: z.string().default('true').transform(v => v === 'true'),
+    // Findings at or above this severity fail a security scan
+    SECURITY_SCAN_FAIL_SEVERITY: z.enum(SCAN_SEVERITIES).default('high'),
+    // Malware scanning engine for artifacts (eicar is a test double)
+    MALWARE_SCANNER: z.enum(['none', 'clamd', 'eicar']).default('none'),
+    CLAMD_SOCKET: z.string().optional(),
+    CLAMD_HOST: z.string().default('127.0.0.1'),
+    CLAMD_PORT: z.string().default('3310').transform(Number),
+    CLAMD_TIMEOUT: z.string().default('60000').transform(Number),
 }).refine(
     (data) => {
         // If any Azure OAuth var is set, all must be set
@@ -81,6 +156,30 @@ const envSchema = z.object({
     {
         message: 'If using Google OAuth, all of GOOGLE_CLIENT_ID, GOOGLE_CLIENT_SECRET, and GOOGLE_REDIRECT_URI must be set',
     }
+).refine(
+    (data) => {
+        // The S3 driver needs a bucket
+        return data.STORAGE_DRIVER !== 's3' || !!data.S3_BUCKET;
+    },
+    {
+        message: 'S3_BUCKET must be set when STORAGE_DRIVER is s3',
+    }
+).refine(
+    (data) => {
+        // VNPay needs the merchant code and hash secret
+        return data.PAYMENT_PROVIDER !== 'vnpay' || !!(data.VNPAY_TMN_CODE && data.VNPAY_HASH_SECRET);
+    },
+    {
+        message: 'VNPAY_TMN_CODE and VNPAY_HASH_SECRET must be set when PAYMENT_PROVIDER is vnpay',
+    }
+).refine(
+    (data) => {
+        // The fake provider marks orders paid without money changing hands
+        return data.PAYMENT_PROVIDER !== 'fake' || data.NODE_ENV !== 'production';
+    },
+    {
+        message: 'PAYMENT_PROVIDER=fake is not allowed in production',
+    }
 ).refine(
     (data) => {
         // At least one LLM provider must be configured
@@ -122,5 +221,49 @@ export const {
     GOOGLE_CLIENT_ID,
     GOOGLE_CLIENT_SECRET,
     GOOGLE_REDIRECT_URI,
+    UPLOAD_DIR,
+    UPLOAD_BASE_URL,
+    STORAGE_DRIVER,
+    S3_BUCKET,
+    S3_REGION,
+    S3_ENDPOINT,
+    S3_FORCE_PATH_STYLE,
+    S3_ACCESS_KEY_ID,
+    S3_SECRET_ACCESS_KEY,
+    S3_KEY_PREFIX,
+    ARTIFACT_UPLOAD_LIMITS,
+    DOWNLOAD_URL_SECRET,
+    DOWNLOAD_URL_TTL,
+    N8N_INSTANCE_SECRET,
+    N8N_DEPLOY_ALLOW_PRIVATE_URLS,
+    N8N_DEPLOY_TIMEOUT,
+    PAYMENT_PROVIDER,
+    PAYMENT_EXPIRY_MINUTES,
+    PAYMENT_PROVIDER_TIMEOUT,
+    API_PUBLIC_URL,
+    PAYMENT_FAKE_SECRET,
+    VNPAY_TMN_CODE,
+    VNPAY_HASH_SECRET,
+    VNPAY_PAYMENT_URL,
+    VNPAY_API_URL,
+    SCHEDULER_ENABLED,
+    SCHEDULER_POLL_INTERVAL,
+    INGESTION_WORKER_ENABLED,
+    INGESTION_POLL_INTERVAL,
+    STORAGE_GC_ENABLED,
+    STORAGE_GC_INTERVAL,
+    STORAGE_GC_GRACE_HOURS,
+    STORAGE_GC_DRY_RUN,
+    SUBSCRIPTION_WORKER_ENABLED,
+    SUBSCRIPTION_WORKER_INTERVAL,
+    SUBSCRIPTION_GRACE_DAYS,
+    SUBSCRIPTION_INCOMPLETE_HOURS,
+    SCAN_WORKER_ENABLED,
+    SECURITY_SCAN_FAIL_SEVERITY,
+    MALWARE_SCANNER,
+    CLAMD_SOCKET,
+    CLAMD_HOST,
+    CLAMD_PORT,
+    CLAMD_TIMEOUT,
 } = env;
 
@@ -0,0 +1,112 @@
+/**
+ * Bundled n8n node catalog
+ * For each node type, the first n8n release that ships each typeVersion.
+ * Type versions that already existed in n8n 1.0 map to N8N_BASELINE_VERSION, the oldest
+ * release the marketplace supports. When adding entries for a newer n8n release,
+ * bump N8N_CATALOG_VERSION as well.
+ */
+
+export const N8N_BASELINE_VERSION = '1.0.0';
+
+// Newest n8n release the catalog has been checked against
+export const N8N_CATALOG_VERSION = '1.88.0';
+
+// Node packages maintained by n8n; other packages are community nodes
+export const N8N_CORE_NODE_PACKAGES = ['n8n-nodes-base', '@n8n/n8n-nodes-langchain'] as const;
+
+export const N8N_NODE_CATALOG: Record<string, Record<string, string>> = {
+    // Core
+    'n8n-nodes-base.manualTrigger': { '1': '1.0.0' },
+    'n8n-nodes-base.start': { '1': '1.0.0' },
+    'n8n-nodes-base.noOp': { '1': '1.0.0' },
+    'n8n-nodes-base.stickyNote': { '1': '1.0.0' },
+    'n8n-nodes-base.httpRequest': { '1': '1.0.0', '2': '1.0.0', '3': '1.0.0', '4': '1.0.0', '4.1': '1.6.0', '4.2': '1.41.0' },
+    'n8n-nodes-base.webhook': { '1': '1.0.0', '1.1': '1.0.0', '2': '1.22.0' },
+    'n8n-nodes-base.respondToWebhook': { '1': '1.0.0', '1.1': '1.41.0' },
+    'n8n-nodes-base.scheduleTrigger': { '1': '1.0.0', '1.1': '1.4.0', '1.2': '1.22.0' },
+    'n8n-nodes-base.cron': { '1': '1.0.0' },
+    'n8n-nodes-base.interval': { '1': '1.0.0' },
+    'n8n-nodes-base.executeWorkflow': { '1': '1.0.0', '1.1': '1.17.0', '1.2': '1.63.0' },
+    'n8n-nodes-base.executeWorkflowTrigger': { '1': '1.0.0', '1.1': '1.68.0' },
+    'n8n-nodes-base.errorTrigger': { '1': '1.0.0' },
+    'n8n-nodes-base.formTrigger': { '1': '1.18.0', '2': '1.27.0', '2.1': '1.42.0', '2.2': '1.65.0' },
+    'n8n-nodes-base.form': { '1': '1.65.0' },
+    'n8n-nodes-base.wait': { '1': '1.0.0', '1.1': '1.0.0' },
+
+    // Flow
+    'n8n-nodes-base.if': { '1': '1.0.0', '2': '1.21.0', '2.1': '1.67.0', '2.2': '1.74.0' },
+    'n8n-nodes-base.switch': { '1': '1.0.0', '2': '1.0.0', '3': '1.21.0', '3.1': '1.38.0', '3.2': '1.67.0' },
+    'n8n-nodes-base.filter': { '1': '1.0.0', '2': '1.21.0', '2.1': '1.67.0', '2.2': '1.74.0' },
+    'n8n-nodes-base.merge': { '1': '1.0.0', '2': '1.0.0', '2.1': '1.0.0', '3': '1.49.0', '3.1': '1.77.0' },
+    'n8n-nodes-base.splitInBatches': { '1': '1.0.0', '2': '1.0.0', '3': '1.11.0' },
+    'n8n-nodes-base.compareDatasets': { '1': '1.0.0', '2': '1.0.0', '2.1': '1.2.0', '2.2': '1.12.0', '2.3': '1.18.0' },
+
+    // Data transformation
+    'n8n-nodes-base.set': { '1': '1.0.0', '2': '1.0.0', '3': '1.0.0', '3.1': '1.6.0', '3.2': '1.13.0', '3.3': '1.22.0', '3.4': '1.42.0' },
+    'n8n-nodes-base.code': { '1': '1.0.0', '2': '1.10.0' },
+    'n8n-nodes-base.function': { '1': '1.0.0' },
+    'n8n-nodes-base.functionItem': { '1': '1.0.0' },
+    'n8n-nodes-base.itemLists': { '1': '1.0.0', '2': '1.0.0', '2.1': '1.0.0', '2.2': '1.0.0', '3': '1.0.0', '3.1': '1.16.0' },
+    'n8n-nodes-base.aggregate': { '1': '1.0.0' },
+    'n8n-nodes-base.splitOut': { '1': '1.0.0' },
+    'n8n-nodes-base.limit': { '1': '1.0.0' },
+    'n8n-nodes-base.sort': { '1': '1.0.0' },
+    'n8n-nodes-base.summarize': { '1': '1.0.0', '1.1': '1.64.0' },
+    'n8n-nodes-base.removeDuplicates': { '1': '1.0.0', '1.1': '1.31.0', '2': '1.67.0' },
+    'n8n-nodes-base.dateTime': { '1': '1.0.0', '2': '1.7.0' },
+    'n8n-nodes-base.crypto': { '1': '1.0.0' },
+    'n8n-nodes-base.html': { '1': '1.0.0', '1.1': '1.12.0', '1.2': '1.38.0' },
+    'n8n-nodes-base.xml': { '1': '1.0.0' },
+    'n8n-nodes-base.markdown': { '1': '1.0.0' },
+    'n8n-nodes-base.extractFromFile': { '1': '1.18.0' },
+    'n8n-nodes-base.convertToFile': { '1': '1.18.0', '1.1': '1.45.0' },
+    'n8n-nodes-base.aiTransform': { '1': '1.71.0' },
+
+    // Apps
+    'n8n-nodes-base.emailSend': { '1': '1.0.0', '2': '1.0.0', '2.1': '1.43.0' },
+    'n8n-nodes-base.emailReadImap': { '1': '1.0.0', '2': '1.0.0' },
+    'n8n-nodes-base.gmail': { '1': '1.0.0', '2': '1.0.0', '2.1': '1.37.0' },
+    'n8n-nodes-base.gmailTrigger': { '1': '1.0.0', '1.1': '1.30.0', '1.2': '1.62.0' },
+    'n8n-nodes-base.googleSheets': { '1': '1.0.0', '2': '1.0.0', '3': '1.0.0', '4': '1.0.0', '4.1': '1.9.0', '4.2': '1.20.0', '4.3': '1.25.0', '4.4': '1.37.0', '4.5': '1.46.0' },
+    'n8n-nodes-base.googleSheetsTrigger': { '1': '1.8.0' },
+    'n8n-nodes-base.googleDrive': { '1': '1.0.0', '2': '1.0.0', '3': '1.21.0' },
+    'n8n-nodes-base.slack': { '1': '1.0.0', '2': '1.0.0', '2.1': '1.5.0', '2.2': '1.41.0', '2.3': '1.76.0' },
+    'n8n-nodes-base.telegram': { '1': '1.0.0', '1.1': '1.22.0', '1.2': '1.41.0' },
+    'n8n-nodes-base.telegramTrigger': { '1': '1.0.0', '1.1': '1.22.0' },
+    'n8n-nodes-base.discord': { '1': '1.0.0', '2': '1.20.0' },
+    'n8n-nodes-base.notion': { '1': '1.0.0', '2': '1.0.0', '2.1': '1.11.0', '2.2': '1.27.0' },
+    'n8n-nodes-base.airtable': { '1': '1.0.0', '2': '1.12.0', '2.1': '1.34.0' },
+    'n8n-nodes-base.postgres': { '1': '1.0.0', '2': '1.0.0', '2.1': '1.0.0', '2.2': '1.1.0', '2.3': '1.13.0', '2.4': '1.24.0', '2.5': '1.51.0' },
+    'n8n-nodes-base.mySql': { '1': '1.0.0', '2': '1.0.0', '2.1': '1.0.0', '2.2': '1.8.0', '2.3': '1.21.0', '2.4': '1.46.0' },
+    'n8n-nodes-base.redis': { '1': '1.0.0' },
+    'n8n-nodes-base.openAi': { '1': '1.0.0', '1.1': '1.5.0' },
+
+    // AI (LangChain)
+    '@n8n/n8n-nodes-langchain.agent': { '1': '1.19.0', '1.1': '1.21.0', '1.2': '1.23.0', '1.3': '1.26.0', '1.4': '1.31.0', '1.5': '1.37.0', '1.6': '1.47.0', '1.7': '1.61.0' },
+    '@n8n/n8n-nodes-langchain.chainLlm': { '1': '1.19.0', '1.1': '1.19.0', '1.2': '1.19.0', '1.3': '1.22.0', '1.4': '1.32.0', '1.5': '1.60.0' },
+    '@n8n/n8n-nodes-langchain.chainSummarization': { '1': '1.19.0', '2': '1.38.0' },
+    '@n8n/n8n-nodes-langchain.chainRetrievalQa': { '1': '1.19.0', '1.1': '1.22.0', '1.2': '1.32.0', '1.3': '1.44.0', '1.4': '1.60.0' },
+    '@n8n/n8n-nodes-langchain.informationExtractor': { '1': '1.41.0' },
+    '@n8n/n8n-nodes-langchain.textClassifier': { '1': '1.41.0' },
+    '@n8n/n8n-nodes-langchain.sentimentAnalysis': { '1': '1.70.0' },
+    '@n8n/n8n-nodes-langchain.openAi': { '1': '1.33.0', '1.1': '1.35.0', '1.2': '1.40.0', '1.3': '1.44.0', '1.4': '1.46.0', '1.5': '1.50.0', '1.6': '1.58.0', '1.7': '1.66.0', '1.8': '1.76.0' },
+    '@n8n/n8n-nodes-langchain.lmChatOpenAi': { '1': '1.19.0' },
+    '@n8n/n8n-nodes-langchain.lmChatAnthropic': { '1': '1.19.0', '1.1': '1.30.0', '1.2': '1.48.0', '1.3': '1.76.0' },
+    '@n8n/n8n-nodes-langchain.lmChatGoogleGemini': { '1': '1.42.0' },
+    '@n8n/n8n-nodes-langchain.lmChatOllama': { '1': '1.19.0' },
+    '@n8n/n8n-nodes-langchain.memoryBufferWindow': { '1': '1.19.0', '1.1': '1.22.0', '1.2': '1.32.0', '1.3': '1.54.0' },
+    '@n8n/n8n-nodes-langchain.memoryPostgresChat': { '1': '1.40.0', '1.1': '1.54.0', '1.2': '1.60.0', '1.3': '1.70.0' },
+    '@n8n/n8n-nodes-langchain.embeddingsOpenAi': { '1': '1.19.0', '1.1': '1.38.0', '1.2': '1.71.0' },
+    '@n8n/n8n-nodes-langchain.vectorStoreInMemory': { '1': '1.19.0' },
+    '@n8n/n8n-nodes-langchain.vectorStorePinecone': { '1': '1.19.0' },
+    '@n8n/n8n-nodes-langchain.vectorStoreQdrant': { '1': '1.23.0' },
+    '@n8n/n8n-nodes-langchain.vectorStoreSupabase': { '1': '1.19.0' },
+    '@n8n/n8n-nodes-langchain.documentDefaultDataLoader': { '1': '1.19.0' },
+    '@n8n/n8n-nodes-langchain.textSplitterRecursiveCharacterTextSplitter': { '1': '1.19.0' },
+    '@n8n/n8n-nodes-langchain.outputParserStructured': { '1': '1.19.0', '1.1': '1.21.0', '1.2': '1.50.0' },
+    '@n8n/n8n-nodes-langchain.toolWorkflow': { '1': '1.19.0', '1.1': '1.22.0', '1.2': '1.31.0', '1.3': '1.52.0', '2': '1.74.0' },
+    '@n8n/n8n-nodes-langchain.toolHttpRequest': { '1': '1.47.0', '1.1': '1.52.0' },
+    '@n8n/n8n-nodes-langchain.toolCode': { '1': '1.19.0', '1.1': '1.30.0' },
+    '@n8n/n8n-nodes-langchain.chatTrigger': { '1': '1.24.0', '1.1': '1.37.0' },
+    '@n8n/n8n-nodes-langchain.mcpClientTool': { '1': '1.88.0' },
+};
@@ -1,4 +1,6 @@
-import axios from 'axios';
+import axios, { AxiosInstance } from 'axios';
+import http from 'http';
+import https from 'https';
 import dotenv from 'dotenv';
 
 dotenv.config();
@@ -15,32 +17,49 @@ export const n8nConfig = {
     },
 };
 
-// Create axios instance for n8n API calls
-export const n8nClient = axios.create({
-    baseURL: n8nConfig.baseUrl,
-    headers: {
-        'X-N8N-API-KEY': n8nConfig.apiKey,
-        'Content-Type': 'application/json',
-    },
-    timeout: 30000,
-});
-
-// Interceptor for logging
-n8nClient.interceptors.request.use(
-    (config) => {
-        console.log(`📤 n8n Request: ${config.method?.toUpperCase()} ${config.url}`);
-        return config;
-    },
-    (error) => Promise.reject(error)
-);
+/**
+ * Create an axios instance for an n8n instance's REST API (/api/v1)
+ * Used for the platform's own instance and for buyers' instances when deploying workflows
+ */
+export function createN8nClient(
+    baseUrl: string,
+    apiKey: string,
+    options: { timeout?: number; maxRedirects?: number; httpAgent?: http.Agent; httpsAgent?: https.Agent } = {}
+): AxiosInstance {
+    const client = axios.create({
+        baseURL: baseUrl,
+        headers: {
+            'X-N8N-API-KEY': apiKey,
+            'Content-Type': 'application/json',
+        },
+        timeout: options.timeout ?? 30000,
+        ...(options.maxRedirects !== undefined && { maxRedirects: options.maxRedirects }),
+        ...(options.httpAgent && { httpAgent: options.httpAgent }),
+        ...(options.httpsAgent && { httpsAgent: options.httpsAgent }),
+    });
 
-n8nClient.interceptors.response.use(
-    (response) => {
-        console.log(`📥 n8n Response: ${response.status} ${response.config.url}`);
-        return response;
-    },
-    (error) => {
-        console.error(`❌ n8n Error: ${error.message}`);
-        return Promise.reject(error);
-    }
-);
+    // Interceptor for logging
+    client.interceptors.request.use(
+        (config) => {
+            console.log(`📤 n8n Request: ${config.method?.toUpperCase()} ${config.url}`);
+            return config;
+        },
+        (error) => Promise.reject(error)
+    );
+
+    client.interceptors.response.use(
+        (response) => {
+            console.log(`📥 n8n Response: ${response.status} ${response.config.url}`);
+            return response;
+        },
+        (error) => {
+            console.error(`❌ n8n Error: ${error.message}`);
+            return Promise.reject(error);
+        }
+    );
+
+    return client;
+}
+
+// Create axios instance for n8n API calls
+export const n8nClient = createN8nClient(n8nConfig.baseUrl, n8nConfig.apiKey);
@@ -0,0 +1,48 @@
+import { ARTIFACT_UPLOAD_LIMITS } from './env';
+
+/**
+ * Upload rules per artifact type
+ * Size limits can be overridden with ARTIFACT_UPLOAD_LIMITS (e.g. "source_zip:200,thumbnail:2", in MB)
+ */
+
+export interface ArtifactUploadRule {
+    maxBytes: number;
+    allowedMimeTypes: readonly string[] | null; // Sniffed content types accepted (null: any)
+}
+
+const MB = 1024 * 1024;
+
+const IMAGE_MIME_TYPES = ['image/png', 'image/jpeg', 'image/gif', 'image/webp'] as const;
+
+const DEFAULT_RULES: Record<string, ArtifactUploadRule> = {
+    workflow_json: { maxBytes: 10 * MB, allowedMimeTypes: ['application/json'] },
+    readme: { maxBytes: 2 * MB, allowedMimeTypes: ['text/markdown', 'text/plain'] },
+    env_example: { maxBytes: 1 * MB, allowedMimeTypes: ['text/plain'] },
+    manifest: { maxBytes: 2 * MB, allowedMimeTypes: ['application/json', 'application/yaml', 'text/plain'] },
+    source_zip: { maxBytes: 100 * MB, allowedMimeTypes: ['application/zip'] },
+    thumbnail: { maxBytes: 5 * MB, allowedMimeTypes: IMAGE_MIME_TYPES },
+    screenshot: { maxBytes: 10 * MB, allowedMimeTypes: IMAGE_MIME_TYPES },
+    other: { maxBytes: 100 * MB, allowedMimeTypes: null },
+};
+
+/**
+ * Upload rule for an artifact type (unknown types fall back to "other")
+ */
+export function getArtifactUploadRule(artifactType: string): ArtifactUploadRule {
+    const type = DEFAULT_RULES[artifactType] ? artifactType : 'other';
+    const rule = DEFAULT_RULES[type];
+    const overrideMb = ARTIFACT_UPLOAD_LIMITS[type];
+
+    return overrideMb !== undefined
+        ? { ...rule, maxBytes: Math.floor(overrideMb * MB) }
+        : rule;
+}
+
+/**
+ * Upload rule for files sent to /api/sources/file (PDF, DOCX, plain text)
+ * DOCX is a zip container, so it is sniffed as application/zip
+ */
+export const SOURCE_FILE_UPLOAD_RULE: ArtifactUploadRule = {
+    maxBytes: 10 * MB,
+    allowedMimeTypes: ['application/pdf', 'application/zip', 'text/plain', 'text/markdown'],
+};
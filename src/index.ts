@@ -8,7 +8,7 @@ import { v4 as uuidv4 } from 'uuid';
 
 // Validate environment variables at startup
 // This will throw if required env vars are missing
-import { env, JWT_SECRET, FRONTEND_URL, RATE_LIMIT_MAX, RATE_LIMIT_WINDOW, PORT } from './config/env';
+import { env, JWT_SECRET, FRONTEND_URL, RATE_LIMIT_MAX, RATE_LIMIT_WINDOW, PORT, SCHEDULER_ENABLED, SCHEDULER_POLL_INTERVAL, INGESTION_WORKER_ENABLED, INGESTION_POLL_INTERVAL, STORAGE_GC_ENABLED, STORAGE_GC_INTERVAL, SUBSCRIPTION_WORKER_ENABLED, SUBSCRIPTION_WORKER_INTERVAL, SCAN_WORKER_ENABLED, UPLOAD_BASE_URL } from './config/env';
 import { checkDatabaseHealth } from './config/database';
 
 // Import routes
@@ -25,11 +25,24 @@ import productRoutes from './routes/product.routes';
 import adminRoutes from './routes/admin.routes';
 import sellerRoutes from './routes/seller.routes';
 import reviewRoutes from './routes/review.routes';
+import n8nInstanceRoutes from './routes/n8n-instance.routes';
+import orderRoutes from './routes/order.routes';
+import libraryRoutes from './routes/library.routes';
+import paymentRoutes from './routes/payment.routes';
+import subscriptionRoutes from './routes/subscription.routes';
+import fileRoutes from './routes/file.routes';
 
 // Import middleware
 import { errorHandler } from './middleware/error.middleware';
 import { authenticate } from './middleware/auth.middleware';
 
+// Import background workers
+import schedulerService from './services/scheduler.service';
+import ingestionQueueService from './services/ingestion-queue.service';
+import scanQueueService from './services/scan-queue.service';
+import storageGcService from './services/storage-gc.service';
+import subscriptionService from './services/subscription.service';
+
 const fastify = Fastify({
     logger: {
         level: process.env.NODE_ENV === 'production' ? 'info' : 'debug',
@@ -119,15 +132,57 @@ async function start() {
         await fastify.register(adminRoutes, { prefix: '/api/admin' });
         await fastify.register(sellerRoutes, { prefix: '/api/seller' });
         await fastify.register(reviewRoutes, { prefix: '/api/reviews' });
+        await fastify.register(n8nInstanceRoutes, { prefix: '/api/n8n-instances' });
+        await fastify.register(orderRoutes, { prefix: '/api/orders' });
+        await fastify.register(libraryRoutes, { prefix: '/api/library' });
+        await fastify.register(paymentRoutes, { prefix: '/api/payments' });
+        await fastify.register(subscriptionRoutes, { prefix: '/api/subscriptions' });
+
+        // Stored uploads (access-checked, Range-aware)
+        await fastify.register(fileRoutes, { prefix: UPLOAD_BASE_URL });
 
         // Error handler
         fastify.setErrorHandler(errorHandler);
 
+        // Stop background workers on shutdown
+        fastify.addHook('onClose', async () => {
+            schedulerService.stop();
+            ingestionQueueService.stop();
+            scanQueueService.stop();
+            storageGcService.stop();
+            subscriptionService.stop();
+        });
+
         // Start server
         await fastify.listen({ port: PORT, host: '0.0.0.0' });
 
         console.log(`🚀 Server running on http://localhost:${PORT}`);
         console.log(`📊 Health check: http://localhost:${PORT}/health`);
+
+        // Start schedule worker (disable with SCHEDULER_ENABLED=false, e.g. on API-only instances)
+        if (SCHEDULER_ENABLED) {
+            schedulerService.start(SCHEDULER_POLL_INTERVAL);
+        }
+
+        // Start ingestion worker for queued /api/sources jobs
+        if (INGESTION_WORKER_ENABLED) {
+            ingestionQueueService.start(INGESTION_POLL_INTERVAL);
+        }
+
+        // Start security scan worker (jobs are shared between instances through Redis)
+        if (SCAN_WORKER_ENABLED) {
+            scanQueueService.start();
+        }
+
+        // Start storage garbage collector (reports only while STORAGE_GC_DRY_RUN=true)
+        if (STORAGE_GC_ENABLED) {
+            storageGcService.start(STORAGE_GC_INTERVAL);
+        }
+
+        // Start subscription worker (renewal orders, cancellations and expiry)
+        if (SUBSCRIPTION_WORKER_ENABLED) {
+            subscriptionService.start(SUBSCRIPTION_WORKER_INTERVAL);
+        }
     } catch (err) {
         fastify.log.error(err);
         process.exit(1);
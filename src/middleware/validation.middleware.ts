@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { isValidCronExpression, isValidTimezone } from '../utils/schedule-utils';
 
 // Auth validation schemas
 export const registerSchema = z.object({
@@ -43,21 +44,40 @@ export const createArticleSchema = z.object({
 }));
 
 // Schedule validation schemas
-export const createScheduleSchema = z.object({
+const scheduleTimingSchema = z.object({
+    frequency: z.enum(['daily', 'weekly', 'monthly', 'hourly'], {
+        errorMap: () => ({ message: 'Frequency must be daily, weekly, monthly, or hourly' }),
+    }).optional(),
+    cron_expression: z.string().trim()
+        .refine(isValidCronExpression, { message: 'Invalid cron expression (expected 5 fields, e.g. "0 8 * * 1-5")' })
+        .optional(),
+    timezone: z.string().trim()
+        .refine(isValidTimezone, { message: 'Timezone must be a valid IANA name, e.g. "Asia/Ho_Chi_Minh"' })
+        .optional(),
+});
+
+export const createScheduleSchema = scheduleTimingSchema.extend({
     article_url: z.string().url('Invalid URL format').optional(),
     source_type: z.enum(['url', 'rss', 'file']).default('url'),
     source_value: z.string().optional(),
-    frequency: z.enum(['daily', 'weekly', 'monthly', 'hourly'], {
-        errorMap: () => ({ message: 'Frequency must be daily, weekly, monthly, or hourly' }),
-    }),
 }).refine(data => data.article_url || data.source_value, {
     message: 'Either article_url or source_value is required'
+}).refine(data => !!data.frequency !== !!data.cron_expression, {
+    message: 'Provide exactly one of frequency or cron_expression',
+    path: ['frequency'],
 }).transform(data => ({
     ...data,
     source_value: data.source_value || data.article_url || '',
     source_type: data.source_type as 'url' | 'rss' | 'file'
 }));
 
+export const updateScheduleSchema = scheduleTimingSchema.refine(data => !(data.frequency && data.cron_expression), {
+    message: 'Provide only one of frequency or cron_expression',
+    path: ['frequency'],
+}).refine(data => Object.keys(data).length > 0, {
+    message: 'At least one field must be provided for update',
+});
+
 // Tool request validation schemas
 export const createToolRequestSchema = z.object({
     request_payload: z.record(z.any()).refine(data => Object.keys(data).length > 0, {
@@ -247,6 +267,78 @@ export const updateProductSchema = z.object({
     };
 });
 
+/**
+ * Security finding suppression request (seller marks a finding as false positive)
+ */
+export const requestFindingSuppressionSchema = z.object({
+    justification: z.string().trim().min(10, 'Lý do phải có ít nhất 10 ký tự').max(2000),
+});
+
+/**
+ * Product release (seller)
+ */
+export const createReleaseSchema = z.object({
+    version: z.string().trim().min(1, 'Phiên bản là bắt buộc').max(50),
+    release_notes: z.string().trim().max(10000).optional(),
+});
+
+export const updateReleaseSchema = z.object({
+    release_notes: z.string().trim().max(10000),
+});
+
+/**
+ * Buyer n8n instances and workflow deployment
+ */
+export const createN8nInstanceSchema = z.object({
+    name: z.string().trim().min(1, 'Tên là bắt buộc').max(100),
+    base_url: z.string().trim().url('URL không hợp lệ'),
+    api_key: z.string().trim().min(1, 'API key là bắt buộc').max(2000),
+});
+
+export const updateN8nInstanceSchema = createN8nInstanceSchema.partial();
+
+export const deployWorkflowSchema = z.object({
+    instance_id: z.string().uuid('instance_id không hợp lệ'),
+});
+
+/**
+ * Orders
+ */
+export const createOrderSchema = z.object({
+    product_ids: z.array(z.string().uuid('product_id không hợp lệ')).min(1, 'Đơn hàng phải có ít nhất một sản phẩm').max(50),
+});
+
+export const checkoutOrderSchema = z.object({
+    return_url: z.string().trim().url('return_url không hợp lệ'),
+});
+
+export const refundOrderSchema = z.object({
+    reason: z.string().trim().min(1, 'Lý do hoàn tiền là bắt buộc').max(2000),
+});
+
+/**
+ * Subscriptions
+ */
+export const createSubscriptionPlanSchema = z.object({
+    name: z.string().trim().min(1, 'Tên gói là bắt buộc').max(100),
+    billing_interval: z.enum(['day', 'week', 'month', 'year']),
+    interval_count: z.number().int().min(1).max(365).optional(),
+    price: z.number().positive('Giá phải lớn hơn 0'),
+    currency: z.string().trim().min(3).max(10).optional(),
+    trial_days: z.number().int().min(0).max(365).optional(),
+});
+
+export const updateSubscriptionPlanSchema = z.object({
+    name: z.string().trim().min(1, 'Tên gói là bắt buộc').max(100).optional(),
+    price: z.number().positive('Giá phải lớn hơn 0').optional(),
+    trial_days: z.number().int().min(0).max(365).optional(),
+    is_active: z.boolean().optional(),
+});
+
+export const createSubscriptionSchema = z.object({
+    plan_id: z.string().uuid('plan_id không hợp lệ'),
+});
+
 /**
  * Validation helper function
  * @param schema - Zod schema to validate against
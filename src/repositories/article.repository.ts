@@ -88,6 +88,7 @@ export class ArticleRepository {
             metadata: Record<string, any>;
             workflow_id: string;
             status: ArticleStatus;
+            error_message: string | null;
         }>
     ): Promise<Article | null> {
         const updates: string[] = [];
@@ -122,6 +123,10 @@ export class ArticleRepository {
             updates.push(`status = $${paramIndex++}`);
             values.push(data.status);
         }
+        if (data.error_message !== undefined) {
+            updates.push(`error_message = $${paramIndex++}`);
+            values.push(data.error_message);
+        }
 
         if (updates.length === 0) return null;
 
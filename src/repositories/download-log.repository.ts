@@ -1,7 +1,8 @@
 import pool from '../config/database';
 import { v4 as uuidv4 } from 'uuid';
 
-export type DownloadLogType = 'free' | 'manual';
+// 'manual': sales recorded by hand before orders existed
+export type DownloadLogType = 'free' | 'manual' | 'purchase';
 
 export type DownloadLogRecord = {
     id: string;
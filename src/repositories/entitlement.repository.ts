@@ -0,0 +1,116 @@
+import pool from '../config/database';
+import { v4 as uuidv4 } from 'uuid';
+
+export type EntitlementSource = 'purchase' | 'free' | 'grant' | 'subscription';
+
+export type EntitlementRecord = {
+    id: string;
+    user_id: string;
+    product_id: string;
+    source: EntitlementSource;
+    order_id: string | null;
+    subscription_id: string | null;
+    granted_at: Date;
+    revoked_at: Date | null;
+    revoke_reason: string | null;
+    created_at: Date;
+};
+
+export class EntitlementRepository {
+    /**
+     * Find the user's active entitlement to a product
+     */
+    async findActive(userId: string, productId: string): Promise<EntitlementRecord | null> {
+        const result = await pool.query(
+            'SELECT * FROM entitlements WHERE user_id = $1 AND product_id = $2 AND revoked_at IS NULL',
+            [userId, productId]
+        );
+        return result.rows[0] || null;
+    }
+
+    /**
+     * Find the user's active entitlements, most recently granted first
+     */
+    async findActiveByUserId(userId: string, limit: number = 50, offset: number = 0): Promise<EntitlementRecord[]> {
+        const result = await pool.query(
+            `SELECT * FROM entitlements
+             WHERE user_id = $1 AND revoked_at IS NULL
+             ORDER BY granted_at DESC
+             LIMIT $2 OFFSET $3`,
+            [userId, limit, offset]
+        );
+        return result.rows;
+    }
+
+    /**
+     * Count the user's active entitlements
+     */
+    async countActiveByUserId(userId: string): Promise<number> {
+        const result = await pool.query(
+            'SELECT COUNT(*) FROM entitlements WHERE user_id = $1 AND revoked_at IS NULL',
+            [userId]
+        );
+        return parseInt(result.rows[0].count, 10);
+    }
+
+    /**
+     * Grant a product to a user
+     * Returns null if the user already has an active entitlement to it
+     */
+    async grant(data: {
+        user_id: string;
+        product_id: string;
+        source: EntitlementSource;
+        order_id?: string | null;
+        subscription_id?: string | null;
+    }): Promise<EntitlementRecord | null> {
+        const now = new Date();
+        const result = await pool.query(
+            `INSERT INTO entitlements (id, user_id, product_id, source, order_id, subscription_id, granted_at, created_at)
+             VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+             ON CONFLICT (user_id, product_id) WHERE revoked_at IS NULL DO NOTHING
+             RETURNING *`,
+            [
+                uuidv4(),
+                data.user_id,
+                data.product_id,
+                data.source,
+                data.order_id || null,
+                data.subscription_id || null,
+                now,
+                now,
+            ]
+        );
+        return result.rows[0] || null;
+    }
+
+    /**
+     * Revoke the active entitlements granted by an order
+     */
+    async revokeByOrderId(orderId: string, reason: string): Promise<EntitlementRecord[]> {
+        const result = await pool.query(
+            `UPDATE entitlements
+             SET revoked_at = $2, revoke_reason = $3
+             WHERE order_id = $1 AND revoked_at IS NULL
+             RETURNING *`,
+            [orderId, new Date(), reason]
+        );
+        return result.rows;
+    }
+
+    /**
+     * Revoke the active entitlement granted by a subscription
+     */
+    async revokeBySubscriptionId(subscriptionId: string, reason: string): Promise<EntitlementRecord[]> {
+        const result = await pool.query(
+            `UPDATE entitlements
+             SET revoked_at = $2, revoke_reason = $3
+             WHERE subscription_id = $1 AND revoked_at IS NULL
+             RETURNING *`,
+            [subscriptionId, new Date(), reason]
+        );
+        return result.rows;
+    }
+}
+
+export default new EntitlementRepository();
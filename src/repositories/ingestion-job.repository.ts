@@ -0,0 +1,117 @@
+import pool from '../config/database';
+import { v4 as uuidv4 } from 'uuid';
+import { mapDbRow } from '../utils/db-mapper';
+
+export type IngestionJobType = 'url' | 'rss_item' | 'file';
+
+export type IngestionJobRecord = {
+    id: string;
+    article_id: string;
+    user_id: string;
+    job_type: IngestionJobType;
+    payload: Record<string, any>;
+    attempts: number;
+    max_attempts: number;
+    locked_until?: Date | null;
+    created_at: Date;
+    updated_at: Date;
+};
+
+export class IngestionJobRepository {
+    /**
+     * Create job for an article
+     */
+    async create(data: {
+        article_id: string;
+        user_id: string;
+        job_type: IngestionJobType;
+        payload: Record<string, any>;
+    }): Promise<IngestionJobRecord> {
+        const now = new Date();
+        const result = await pool.query(
+            `INSERT INTO ingestion_jobs (id, article_id, user_id, job_type, payload, created_at, updated_at)
+             VALUES ($1, $2, $3, $4, $5, $6, $7)
+             RETURNING *`,
+            [uuidv4(), data.article_id, data.user_id, data.job_type, JSON.stringify(data.payload), now, now]
+        );
+        return this.mapRowToJob(result.rows[0]);
+    }
+
+    /**
+     * Find job by article ID
+     */
+    async findByArticleId(articleId: string): Promise<IngestionJobRecord | null> {
+        const result = await pool.query(
+            'SELECT * FROM ingestion_jobs WHERE article_id = $1',
+            [articleId]
+        );
+        return result.rows[0] ? this.mapRowToJob(result.rows[0]) : null;
+    }
+
+    /**
+     * Atomically claim jobs whose article is pending, or processing with an expired lease
+     * (worker crashed mid-run), and move their articles to processing.
+     * Jobs that already used up max_attempts are not reclaimed; their articles are marked failed.
+     */
+    async claim(limit: number, leaseMs: number): Promise<IngestionJobRecord[]> {
+        const result = await pool.query(
+            `WITH claimed AS (
+                UPDATE ingestion_jobs
+                SET locked_until = NOW() + ($2 * INTERVAL '1 millisecond'),
+                    attempts = attempts + 1,
+                    updated_at = NOW()
+                WHERE id IN (
+                    SELECT j.id FROM ingestion_jobs j
+                    JOIN articles a ON a.id = j.article_id
+                    WHERE a.status IN ('pending', 'processing')
+                      AND (j.locked_until IS NULL OR j.locked_until < NOW())
+                      AND j.attempts < j.max_attempts
+                    ORDER BY j.created_at ASC
+                    LIMIT $1
+                    FOR UPDATE OF j SKIP LOCKED
+                )
+                RETURNING *
+            ), started AS (
+                UPDATE articles SET status = 'processing', error_message = NULL
+                WHERE id IN (SELECT article_id FROM claimed)
+            ), exhausted AS (
+                UPDATE articles a
+                SET status = 'failed',
+                    error_message = 'Ingestion stopped after ' || j.attempts || ' attempts'
+                FROM ingestion_jobs j
+                WHERE j.article_id = a.id
+                  AND a.status IN ('pending', 'processing')
+                  AND (j.locked_until IS NULL OR j.locked_until < NOW())
+                  AND j.attempts >= j.max_attempts
+            )
+            SELECT * FROM claimed`,
+            [limit, leaseMs]
+        );
+        return result.rows.map(row => this.mapRowToJob(row));
+    }
+
+    /**
+     * Release the lease so the job can be claimed again
+     */
+    async release(id: string): Promise<void> {
+        await pool.query(
+            'UPDATE ingestion_jobs SET locked_until = NULL, updated_at = NOW() WHERE id = $1',
+            [id]
+        );
+    }
+
+    /**
+     * Map database row to IngestionJobRecord
+     */
+    private mapRowToJob(row: any): IngestionJobRecord {
+        return mapDbRow<IngestionJobRecord>(
+            row,
+            [],
+            [],
+            ['payload'],
+            ['attempts', 'max_attempts']
+        );
+    }
+}
+
+export default new IngestionJobRepository();
@@ -0,0 +1,123 @@
+import pool from '../config/database';
+import { v4 as uuidv4 } from 'uuid';
+
+export type N8nInstanceRecord = {
+    id: string;
+    user_id: string;
+    name: string;
+    base_url: string;
+    api_key_encrypted: string;
+    api_key_last4: string;
+    last_verified_at?: Date | null;
+    created_at: Date;
+    updated_at: Date;
+};
+
+export class N8nInstanceRepository {
+    /**
+     * Find instance by ID
+     */
+    async findById(id: string): Promise<N8nInstanceRecord | null> {
+        const result = await pool.query(
+            'SELECT * FROM buyer_n8n_instances WHERE id = $1',
+            [id]
+        );
+        return result.rows[0] || null;
+    }
+
+    /**
+     * Find a user's instances
+     */
+    async findByUserId(userId: string): Promise<N8nInstanceRecord[]> {
+        const result = await pool.query(
+            'SELECT * FROM buyer_n8n_instances WHERE user_id = $1 ORDER BY created_at ASC',
+            [userId]
+        );
+        return result.rows;
+    }
+
+    /**
+     * Find a user's instance by base URL
+     */
+    async findByUserIdAndBaseUrl(userId: string, baseUrl: string): Promise<N8nInstanceRecord | null> {
+        const result = await pool.query(
+            'SELECT * FROM buyer_n8n_instances WHERE user_id = $1 AND base_url = $2',
+            [userId, baseUrl]
+        );
+        return result.rows[0] || null;
+    }
+
+    /**
+     * Create instance
+     */
+    async create(data: {
+        user_id: string;
+        name: string;
+        base_url: string;
+        api_key_encrypted: string;
+        api_key_last4: string;
+        last_verified_at?: Date | null;
+    }): Promise<N8nInstanceRecord> {
+        const now = new Date();
+        const result = await pool.query(
+            `INSERT INTO buyer_n8n_instances (
+                id, user_id, name, base_url, api_key_encrypted, api_key_last4, last_verified_at, created_at, updated_at
+            ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+            RETURNING *`,
+            [
+                uuidv4(),
+                data.user_id,
+                data.name,
+                data.base_url,
+                data.api_key_encrypted,
+                data.api_key_last4,
+                data.last_verified_at || null,
+                now,
+                now,
+            ]
+        );
+        return result.rows[0];
+    }
+
+    /**
+     * Update instance fields
+     */
+    async update(
+        id: string,
+        data: Partial<Pick<N8nInstanceRecord, 'name' | 'base_url' | 'api_key_encrypted' | 'api_key_last4' | 'last_verified_at'>>
+    ): Promise<N8nInstanceRecord | null> {
+        const updates: string[] = [];
+        const values: any[] = [];
+        let paramIndex = 1;
+
+        for (const [field, value] of Object.entries(data)) {
+            if (value === undefined) continue;
+            updates.push(`${field} = $${paramIndex++}`);
+            values.push(value);
+        }
+
+        if (updates.length === 0) {
+            return await this.findById(id);
+        }
+
+        values.push(id);
+        const result = await pool.query(
+            `UPDATE buyer_n8n_instances SET ${updates.join(', ')} WHERE id = $${paramIndex} RETURNING *`,
+            values
+        );
+        return result.rows[0] || null;
+    }
+
+    /**
+     * Delete instance
+     */
+    async delete(id: string): Promise<boolean> {
+        const result = await pool.query(
+            'DELETE FROM buyer_n8n_instances WHERE id = $1',
+            [id]
+        );
+        return result.rowCount ? result.rowCount > 0 : false;
+    }
+}
+
+export default new N8nInstanceRepository();
@@ -0,0 +1,194 @@
+import pool from '../config/database';
+import { v4 as uuidv4 } from 'uuid';
+import { parseNumber } from '../utils/db-mapper';
+
+export type OrderStatus = 'pending' | 'paid' | 'cancelled' | 'refunded';
+
+export type OrderRecord = {
+    id: string;
+    user_id: string;
+    status: OrderStatus;
+    total_amount: number;
+    currency: string;
+    paid_at: Date | null;
+    cancelled_at: Date | null;
+    refunded_at: Date | null;
+    refund_reason: string | null;
+    created_at: Date;
+    updated_at: Date;
+};
+
+export type OrderItemRecord = {
+    id: string;
+    order_id: string;
+    product_id: string | null; // null once the product is deleted
+    seller_id: string | null;
+    title: string;
+    unit_price: number;
+    currency: string;
+    plan_id: string | null; // Subscription plan the item pays a period of
+    subscription_id: string | null;
+    created_at: Date;
+};
+
+export type OrderWithItems = OrderRecord & { items: OrderItemRecord[] };
+
+export class OrderRepository {
+    /**
+     * Find order by ID
+     */
+    async findById(id: string): Promise<OrderRecord | null> {
+        const result = await pool.query(
+            'SELECT * FROM orders WHERE id = $1',
+            [id]
+        );
+        return result.rows[0] ? this.mapRowToOrder(result.rows[0]) : null;
+    }
+
+    /**
+     * Find orders, newest first, optionally of one user and/or by status
+     */
+    async findMany(
+        filters: { user_id?: string; status?: OrderStatus } = {},
+        limit: number = 50,
+        offset: number = 0
+    ): Promise<OrderRecord[]> {
+        const conditions: string[] = [];
+        const values: any[] = [];
+        let paramIndex = 1;
+
+        if (filters.user_id) {
+            conditions.push(`user_id = $${paramIndex++}`);
+            values.push(filters.user_id);
+        }
+        if (filters.status) {
+            conditions.push(`status = $${paramIndex++}`);
+            values.push(filters.status);
+        }
+
+        const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+        values.push(limit, offset);
+        const result = await pool.query(
+            `SELECT * FROM orders ${where}
+             ORDER BY created_at DESC
+             LIMIT $${paramIndex++} OFFSET $${paramIndex}`,
+            values
+        );
+        return result.rows.map(row => this.mapRowToOrder(row));
+    }
+
+    /**
+     * Find the line items of an order
+     */
+    async findItems(orderId: string): Promise<OrderItemRecord[]> {
+        const result = await pool.query(
+            'SELECT * FROM order_items WHERE order_id = $1 ORDER BY created_at ASC, id ASC',
+            [orderId]
+        );
+        return result.rows.map(row => this.mapRowToItem(row));
+    }
+
+    /**
+     * Create a pending order with its line items
+     */
+    async create(data: {
+        user_id: string;
+        currency: string;
+        items: Array<{
+            product_id: string;
+            seller_id: string;
+            title: string;
+            unit_price: number;
+            plan_id?: string | null;
+            subscription_id?: string | null;
+        }>;
+    }): Promise<OrderWithItems> {
+        const client = await pool.connect();
+        try {
+            await client.query('BEGIN');
+
+            const now = new Date();
+            const orderId = uuidv4();
+            const total = Math.round(data.items.reduce((sum, item) => sum + item.unit_price, 0) * 100) / 100;
+            const orderResult = await client.query(
+                `INSERT INTO orders (id, user_id, status, total_amount, currency, created_at, updated_at)
+                 VALUES ($1, $2, 'pending', $3, $4, $5, $6)
+                 RETURNING *`,
+                [orderId, data.user_id, total, data.currency, now, now]
+            );
+
+            const items: OrderItemRecord[] = [];
+            for (const item of data.items) {
+                const itemResult = await client.query(
+                    `INSERT INTO order_items (
+                        id, order_id, product_id, seller_id, title, unit_price, currency, plan_id, subscription_id, created_at
+                    ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+                    RETURNING *`,
+                    [
+                        uuidv4(),
+                        orderId,
+                        item.product_id,
+                        item.seller_id,
+                        item.title,
+                        item.unit_price,
+                        data.currency,
+                        item.plan_id || null,
+                        item.subscription_id || null,
+                        now,
+                    ]
+                );
+                items.push(this.mapRowToItem(itemResult.rows[0]));
+            }
+
+            await client.query('COMMIT');
+            return { ...this.mapRowToOrder(orderResult.rows[0]), items };
+        } catch (error) {
+            await client.query('ROLLBACK');
+            throw error;
+        } finally {
+            client.release();
+        }
+    }
+
+    /**
+     * Move an order from one status to another
+     * Returns null if the order is no longer in the expected status
+     */
+    async transition(
+        id: string,
+        from: OrderStatus[],
+        to: OrderStatus,
+        data: Partial<Pick<OrderRecord, 'paid_at' | 'cancelled_at' | 'refunded_at' | 'refund_reason'>> = {}
+    ): Promise<OrderRecord | null> {
+        const result = await pool.query(
+            `UPDATE orders
+             SET status = $3,
+                 paid_at = COALESCE($4, paid_at),
+                 cancelled_at = COALESCE($5, cancelled_at),
+                 refunded_at = COALESCE($6, refunded_at),
+                 refund_reason = COALESCE($7, refund_reason)
+             WHERE id = $1 AND status = ANY($2)
+             RETURNING *`,
+            [
+                id,
+                from,
+                to,
+                data.paid_at || null,
+                data.cancelled_at || null,
+                data.refunded_at || null,
+                data.refund_reason || null,
+            ]
+        );
+        return result.rows[0] ? this.mapRowToOrder(result.rows[0]) : null;
+    }
+
+    private mapRowToOrder(row: any): OrderRecord {
+        return { ...row, total_amount: parseNumber(row.total_amount, 0) };
+    }
+
+    private mapRowToItem(row: any): OrderItemRecord {
+        return { ...row, unit_price: parseNumber(row.unit_price, 0) };
+    }
+}
+
+export default new OrderRepository();
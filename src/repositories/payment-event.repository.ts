@@ -0,0 +1,44 @@
+import pool from '../config/database';
+import { v4 as uuidv4 } from 'uuid';
+
+export type PaymentEventRecord = {
+    id: string;
+    provider: string;
+    event_id: string;
+    payment_id: string;
+    type: string;
+    payload: Record<string, any>;
+    created_at: Date;
+};
+
+export class PaymentEventRepository {
+    /**
+     * Record a provider event
+     * Returns null if the event was already recorded (webhook replay)
+     */
+    async create(data: {
+        provider: string;
+        event_id: string;
+        payment_id: string;
+        type: string;
+        payload: Record<string, any>;
+    }): Promise<PaymentEventRecord | null> {
+        const result = await pool.query(
+            `INSERT INTO payment_events (id, provider, event_id, payment_id, type, payload, created_at)
+             VALUES ($1, $2, $3, $4, $5, $6, $7)
+             ON CONFLICT (provider, event_id) DO NOTHING
+             RETURNING *`,
+            [uuidv4(), data.provider, data.event_id, data.payment_id, data.type, JSON.stringify(data.payload), new Date()]
+        );
+        return result.rows[0] || null;
+    }
+
+    /**
+     * Forget an event whose processing failed, so the provider's retry is handled
+     */
+    async delete(id: string): Promise<void> {
+        await pool.query('DELETE FROM payment_events WHERE id = $1', [id]);
+    }
+}
+
+export default new PaymentEventRepository();
@@ -0,0 +1,144 @@
+import pool from '../config/database';
+import { v4 as uuidv4 } from 'uuid';
+import { parseNumber, parseJsonObject } from '../utils/db-mapper';
+
+export type PaymentStatus = 'pending' | 'succeeded' | 'failed' | 'refunded';
+
+export type PaymentRecord = {
+    id: string;
+    order_id: string;
+    provider: string;
+    provider_payment_id: string | null;
+    status: PaymentStatus;
+    amount: number;
+    currency: string;
+    return_url: string;
+    redirect_url: string | null;
+    provider_data: Record<string, any>;
+    failure_reason: string | null;
+    provider_refund_id: string | null;
+    paid_at: Date | null;
+    refunded_at: Date | null;
+    expires_at: Date;
+    created_at: Date;
+    updated_at: Date;
+};
+
+type PaymentUpdateFields = Partial<Pick<
+    PaymentRecord,
+    | 'provider_payment_id'
+    | 'redirect_url'
+    | 'provider_data'
+    | 'failure_reason'
+    | 'provider_refund_id'
+    | 'paid_at'
+    | 'refunded_at'
+>>;
+
+export class PaymentRepository {
+    /**
+     * Find payment by ID
+     */
+    async findById(id: string): Promise<PaymentRecord | null> {
+        const result = await pool.query(
+            'SELECT * FROM payments WHERE id = $1',
+            [id]
+        );
+        return result.rows[0] ? this.mapRowToPayment(result.rows[0]) : null;
+    }
+
+    /**
+     * Find the payments of an order, newest first
+     */
+    async findByOrderId(orderId: string): Promise<PaymentRecord[]> {
+        const result = await pool.query(
+            'SELECT * FROM payments WHERE order_id = $1 ORDER BY created_at DESC',
+            [orderId]
+        );
+        return result.rows.map(row => this.mapRowToPayment(row));
+    }
+
+    /**
+     * Create a pending payment
+     */
+    async create(data: {
+        order_id: string;
+        provider: string;
+        amount: number;
+        currency: string;
+        return_url: string;
+        expires_at: Date;
+    }): Promise<PaymentRecord> {
+        const now = new Date();
+        const result = await pool.query(
+            `INSERT INTO payments (id, order_id, provider, status, amount, currency, return_url, expires_at, created_at, updated_at)
+             VALUES ($1, $2, $3, 'pending', $4, $5, $6, $7, $8, $9)
+             RETURNING *`,
+            [uuidv4(), data.order_id, data.provider, data.amount, data.currency, data.return_url, data.expires_at, now, now]
+        );
+        return this.mapRowToPayment(result.rows[0]);
+    }
+
+    /**
+     * Update payment fields
+     */
+    async update(id: string, data: PaymentUpdateFields): Promise<PaymentRecord | null> {
+        const updates: string[] = [];
+        const values: any[] = [];
+        let paramIndex = 1;
+
+        for (const [field, value] of Object.entries(data)) {
+            if (value === undefined) continue;
+            updates.push(`${field} = $${paramIndex++}`);
+            values.push(field === 'provider_data' ? JSON.stringify(value) : value);
+        }
+
+        if (updates.length === 0) {
+            return await this.findById(id);
+        }
+
+        values.push(id);
+        const result = await pool.query(
+            `UPDATE payments SET ${updates.join(', ')} WHERE id = $${paramIndex} RETURNING *`,
+            values
+        );
+        return result.rows[0] ? this.mapRowToPayment(result.rows[0]) : null;
+    }
+
+    /**
+     * Move a payment from one status to another, updating the given fields
+     * Returns null if the payment is no longer in the expected status
+     */
+    async transition(
+        id: string,
+        from: PaymentStatus[],
+        to: PaymentStatus,
+        data: PaymentUpdateFields = {}
+    ): Promise<PaymentRecord | null> {
+        const updates: string[] = ['status = $3'];
+        const values: any[] = [id, from, to];
+        let paramIndex = 4;
+
+        for (const [field, value] of Object.entries(data)) {
+            if (value === undefined) continue;
+            updates.push(`${field} = $${paramIndex++}`);
+            values.push(field === 'provider_data' ? JSON.stringify(value) : value);
+        }
+
+        const result = await pool.query(
+            `UPDATE payments SET ${updates.join(', ')} WHERE id = $1 AND status = ANY($2) RETURNING *`,
+            values
+        );
+        return result.rows[0] ? this.mapRowToPayment(result.rows[0]) : null;
+    }
+
+    private mapRowToPayment(row: any): PaymentRecord {
+        return {
+            ...row,
+            amount: parseNumber(row.amount, 0),
+            provider_data: parseJsonObject(row.provider_data, {}),
+        };
+    }
+}
+
+export default new PaymentRepository();
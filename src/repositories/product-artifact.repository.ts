@@ -3,11 +3,14 @@ import { ProductArtifact, CreateProductArtifactInput, UpdateProductArtifactInput
 import { v4 as uuidv4 } from 'uuid';
 import { mapDbRow, parseNumber } from '../utils/db-mapper';
 
+// Artifacts uploaded into a release carry its ID; null for artifacts outside releases
+export type ProductArtifactRecord = ProductArtifact & { release_id: string | null };
+
 export class ProductArtifactRepository {
     /**
      * Find all artifacts for a product
      */
-    async findByProductId(productId: string): Promise<ProductArtifact[]> {
+    async findByProductId(productId: string): Promise<ProductArtifactRecord[]> {
         const result = await pool.query(
             'SELECT * FROM product_artifacts WHERE product_id = $1 ORDER BY created_at DESC',
             [productId]
@@ -18,7 +21,7 @@ export class ProductArtifactRepository {
     /**
      * Find artifact by ID
      */
-    async findById(id: string): Promise<ProductArtifact | null> {
+    async findById(id: string): Promise<ProductArtifactRecord | null> {
         const result = await pool.query(
             'SELECT * FROM product_artifacts WHERE id = $1',
             [id]
@@ -27,22 +30,87 @@ export class ProductArtifactRepository {
         return this.mapRowToArtifact(result.rows[0]);
     }
 
+    /**
+     * Find artifact by stored file URL
+     */
+    async findByFileUrl(fileUrl: string): Promise<ProductArtifactRecord | null> {
+        const result = await pool.query(
+            'SELECT * FROM product_artifacts WHERE file_url = $1 LIMIT 1',
+            [fileUrl]
+        );
+        if (!result.rows[0]) return null;
+        return this.mapRowToArtifact(result.rows[0]);
+    }
+
+    /**
+     * Find artifacts created before a point in time (storage reconciliation)
+     */
+    async findCreatedBefore(cutoff: Date): Promise<ProductArtifactRecord[]> {
+        const result = await pool.query(
+            'SELECT * FROM product_artifacts WHERE created_at < $1 ORDER BY created_at',
+            [cutoff]
+        );
+        return result.rows.map(row => this.mapRowToArtifact(row));
+    }
+
+    /**
+     * Find artifacts of a release
+     */
+    async findByReleaseId(releaseId: string): Promise<ProductArtifactRecord[]> {
+        const result = await pool.query(
+            'SELECT * FROM product_artifacts WHERE release_id = $1 ORDER BY created_at DESC',
+            [releaseId]
+        );
+        return result.rows.map(row => this.mapRowToArtifact(row));
+    }
+
+    /**
+     * Find artifacts buyers currently get: the current release's plus those uploaded outside releases
+     */
+    async findLiveByProductId(productId: string): Promise<ProductArtifactRecord[]> {
+        const result = await pool.query(
+            `SELECT a.* FROM product_artifacts a
+             LEFT JOIN product_releases r ON r.id = a.release_id
+             WHERE a.product_id = $1 AND (a.release_id IS NULL OR r.is_current = true)
+             ORDER BY a.created_at DESC`,
+            [productId]
+        );
+        return result.rows.map(row => this.mapRowToArtifact(row));
+    }
+
     /**
      * Find primary artifact for a product
+     * The current release's primary artifact wins over one uploaded outside releases
      */
-    async findPrimaryByProductId(productId: string): Promise<ProductArtifact | null> {
+    async findPrimaryByProductId(productId: string): Promise<ProductArtifactRecord | null> {
         const result = await pool.query(
-            'SELECT * FROM product_artifacts WHERE product_id = $1 AND is_primary = true LIMIT 1',
+            `SELECT a.* FROM product_artifacts a
+             LEFT JOIN product_releases r ON r.id = a.release_id
+             WHERE a.product_id = $1 AND a.is_primary = true AND (a.release_id IS NULL OR r.is_current = true)
+             ORDER BY (a.release_id IS NOT NULL) DESC, a.created_at DESC
+             LIMIT 1`,
             [productId]
         );
         if (!result.rows[0]) return null;
         return this.mapRowToArtifact(result.rows[0]);
     }
 
+    /**
+     * Find primary artifact of a release
+     */
+    async findPrimaryByReleaseId(releaseId: string): Promise<ProductArtifactRecord | null> {
+        const result = await pool.query(
+            'SELECT * FROM product_artifacts WHERE release_id = $1 AND is_primary = true ORDER BY created_at DESC LIMIT 1',
+            [releaseId]
+        );
+        if (!result.rows[0]) return null;
+        return this.mapRowToArtifact(result.rows[0]);
+    }
+
     /**
      * Find artifacts by type for a product
      */
-    async findByProductIdAndType(productId: string, artifactType: string): Promise<ProductArtifact[]> {
+    async findByProductIdAndType(productId: string, artifactType: string): Promise<ProductArtifactRecord[]> {
         const result = await pool.query(
             'SELECT * FROM product_artifacts WHERE product_id = $1 AND artifact_type = $2 ORDER BY created_at DESC',
             [productId, artifactType]
@@ -53,16 +121,16 @@ export class ProductArtifactRepository {
     /**
      * Create artifact
      */
-    async create(data: CreateProductArtifactInput): Promise<ProductArtifact> {
+    async create(data: CreateProductArtifactInput & { release_id?: string | null }): Promise<ProductArtifactRecord> {
         const id = uuidv4();
         const now = new Date();
 
         const result = await pool.query(
             `INSERT INTO product_artifacts (
                 id, product_id, artifact_type, file_name, file_url, file_size,
-                mime_type, checksum, version, is_primary, metadata, created_at, updated_at
+                mime_type, checksum, version, is_primary, metadata, release_id, created_at, updated_at
             ) VALUES (
-                $1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13
+                $1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14
             ) RETURNING *`,
             [
                 id,
@@ -76,6 +144,7 @@ export class ProductArtifactRepository {
                 data.version || null,
                 data.is_primary || false,
                 data.metadata ? JSON.stringify(data.metadata) : '{}',
+                data.release_id || null,
                 now,
                 now,
             ]
@@ -87,7 +156,7 @@ export class ProductArtifactRepository {
     /**
      * Update artifact
      */
-    async update(id: string, data: UpdateProductArtifactInput): Promise<ProductArtifact | null> {
+    async update(id: string, data: UpdateProductArtifactInput): Promise<ProductArtifactRecord | null> {
         const updates: string[] = [];
         const values: any[] = [];
         let paramIndex = 1;
@@ -168,10 +237,10 @@ export class ProductArtifactRepository {
     }
 
     /**
-     * Map database row to ProductArtifact
+     * Map database row to ProductArtifactRecord
      */
-    private mapRowToArtifact(row: any): ProductArtifact {
-        return mapDbRow<ProductArtifact>(
+    private mapRowToArtifact(row: any): ProductArtifactRecord {
+        return mapDbRow<ProductArtifactRecord>(
             row,
             [], // No generic JSON fields
             [], // No JSON array fields
@@ -0,0 +1,204 @@
+import pool from '../config/database';
+import { v4 as uuidv4 } from 'uuid';
+
+export type ProductReleaseStatus = 'draft' | 'pending_review' | 'approved' | 'rejected';
+
+export type ProductReleaseRecord = {
+    id: string;
+    product_id: string;
+    version: string;
+    release_notes?: string | null;
+    status: ProductReleaseStatus;
+    is_current: boolean;
+    submitted_at?: Date | null;
+    reviewed_by?: string | null;
+    reviewed_at?: Date | null;
+    rejection_reason?: string | null;
+    security_scan_status?: 'pending' | 'passed' | 'failed' | null;
+    security_scan_result?: Record<string, any> | null;
+    security_scan_at?: Date | null;
+    created_at: Date;
+    updated_at: Date;
+};
+
+export class ProductReleaseRepository {
+    /**
+     * Find release by ID
+     */
+    async findById(id: string): Promise<ProductReleaseRecord | null> {
+        const result = await pool.query(
+            'SELECT * FROM product_releases WHERE id = $1',
+            [id]
+        );
+        return result.rows[0] || null;
+    }
+
+    /**
+     * Find releases of a product, newest first, optionally by status
+     */
+    async findByProductId(productId: string, status?: ProductReleaseStatus): Promise<ProductReleaseRecord[]> {
+        const result = status
+            ? await pool.query(
+                'SELECT * FROM product_releases WHERE product_id = $1 AND status = $2 ORDER BY created_at DESC',
+                [productId, status]
+            )
+            : await pool.query(
+                'SELECT * FROM product_releases WHERE product_id = $1 ORDER BY created_at DESC',
+                [productId]
+            );
+        return result.rows;
+    }
+
+    /**
+     * Find the current release of a product
+     */
+    async findCurrent(productId: string): Promise<ProductReleaseRecord | null> {
+        const result = await pool.query(
+            'SELECT * FROM product_releases WHERE product_id = $1 AND is_current = true',
+            [productId]
+        );
+        return result.rows[0] || null;
+    }
+
+    /**
+     * Find releases across products by status (admin review queue)
+     */
+    async findByStatus(status: ProductReleaseStatus, limit: number = 50, offset: number = 0): Promise<ProductReleaseRecord[]> {
+        const result = await pool.query(
+            `SELECT * FROM product_releases
+             WHERE status = $1
+             ORDER BY submitted_at ASC NULLS LAST, created_at ASC
+             LIMIT $2 OFFSET $3`,
+            [status, limit, offset]
+        );
+        return result.rows;
+    }
+
+    /**
+     * Create a draft release
+     */
+    async create(data: {
+        product_id: string;
+        version: string;
+        release_notes?: string | null;
+    }): Promise<ProductReleaseRecord> {
+        const now = new Date();
+        const result = await pool.query(
+            `INSERT INTO product_releases (id, product_id, version, release_notes, status, created_at, updated_at)
+             VALUES ($1, $2, $3, $4, 'draft', $5, $6)
+             RETURNING *`,
+            [uuidv4(), data.product_id, data.version, data.release_notes || null, now, now]
+        );
+        return result.rows[0];
+    }
+
+    /**
+     * Update release fields
+     */
+    async update(
+        id: string,
+        data: Partial<Pick<
+            ProductReleaseRecord,
+            | 'release_notes'
+            | 'status'
+            | 'submitted_at'
+            | 'reviewed_by'
+            | 'reviewed_at'
+            | 'rejection_reason'
+            | 'security_scan_status'
+            | 'security_scan_result'
+            | 'security_scan_at'
+        >>
+    ): Promise<ProductReleaseRecord | null> {
+        const updates: string[] = [];
+        const values: any[] = [];
+        let paramIndex = 1;
+
+        for (const [field, value] of Object.entries(data)) {
+            if (value === undefined) continue;
+            updates.push(`${field} = $${paramIndex++}`);
+            values.push(field === 'security_scan_result' && value !== null ? JSON.stringify(value) : value);
+        }
+
+        if (updates.length === 0) {
+            return await this.findById(id);
+        }
+
+        values.push(id);
+        const result = await pool.query(
+            `UPDATE product_releases SET ${updates.join(', ')} WHERE id = $${paramIndex} RETURNING *`,
+            values
+        );
+        return result.rows[0] || null;
+    }
+
+    /**
+     * Move a release from one status to another
+     * Returns null if the release is no longer in the expected status
+     */
+    async transition(
+        id: string,
+        from: ProductReleaseStatus[],
+        to: ProductReleaseStatus,
+        data: Partial<Pick<ProductReleaseRecord, 'submitted_at' | 'reviewed_by' | 'reviewed_at' | 'rejection_reason'>> = {}
+    ): Promise<ProductReleaseRecord | null> {
+        const result = await pool.query(
+            `UPDATE product_releases
+             SET status = $3,
+                 submitted_at = COALESCE($4, submitted_at),
+                 reviewed_by = $5,
+                 reviewed_at = $6,
+                 rejection_reason = $7
+             WHERE id = $1 AND status = ANY($2)
+             RETURNING *`,
+            [
+                id,
+                from,
+                to,
+                data.submitted_at || null,
+                data.reviewed_by || null,
+                data.reviewed_at || null,
+                data.rejection_reason || null,
+            ]
+        );
+        return result.rows[0] || null;
+    }
+
+    /**
+     * Make a release the product's current release
+     */
+    async setCurrent(productId: string, releaseId: string): Promise<ProductReleaseRecord | null> {
+        const client = await pool.connect();
+        try {
+            await client.query('BEGIN');
+            await client.query(
+                'UPDATE product_releases SET is_current = false WHERE product_id = $1 AND is_current = true AND id <> $2',
+                [productId, releaseId]
+            );
+            const result = await client.query(
+                'UPDATE product_releases SET is_current = true WHERE id = $1 AND product_id = $2 RETURNING *',
+                [releaseId, productId]
+            );
+            await client.query('COMMIT');
+            return result.rows[0] || null;
+        } catch (error) {
+            await client.query('ROLLBACK');
+            throw error;
+        } finally {
+            client.release();
+        }
+    }
+
+    /**
+     * Delete release (its artifacts are removed by cascade)
+     */
+    async delete(id: string): Promise<boolean> {
+        const result = await pool.query(
+            'DELETE FROM product_releases WHERE id = $1',
+            [id]
+        );
+        return result.rowCount ? result.rowCount > 0 : false;
+    }
+}
+
+export default new ProductReleaseRepository();
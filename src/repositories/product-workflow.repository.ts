@@ -3,6 +3,15 @@ import { ProductWorkflow, CreateProductWorkflowInput, UpdateProductWorkflowInput
 import { v4 as uuidv4 } from 'uuid';
 import { mapDbRow, parseNumber } from '../utils/db-mapper';
 
+// Columns not covered by the shared workflow input types
+export type ProductWorkflowExtraFields = {
+    n8n_compatibility?: Record<string, any> | null;
+    original_file_checksum?: string | null;
+    sanitized_at?: Date | null;
+    sanitization_report?: Record<string, any> | null;
+    setup_guide?: Record<string, any> | null;
+};
+
 export class ProductWorkflowRepository {
     /**
      * Find workflow by product ID
@@ -31,16 +40,17 @@ export class ProductWorkflowRepository {
     /**
      * Create workflow
      */
-    async create(data: CreateProductWorkflowInput): Promise<ProductWorkflow> {
+    async create(data: CreateProductWorkflowInput & ProductWorkflowExtraFields): Promise<ProductWorkflow> {
         const id = uuidv4();
         const now = new Date();
 
         const result = await pool.query(
             `INSERT INTO product_workflows (
                 id, product_id, n8n_version, workflow_json_url, env_example_url, readme_url,
-                workflow_file_checksum, nodes_count, triggers, credentials_required, created_at, updated_at
+                workflow_file_checksum, nodes_count, triggers, credentials_required, n8n_compatibility,
+                original_file_checksum, sanitized_at, sanitization_report, setup_guide, created_at, updated_at
             ) VALUES (
-                $1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12
+                $1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17
             ) RETURNING *`,
             [
                 id,
@@ -53,6 +63,11 @@ export class ProductWorkflowRepository {
                 data.nodes_count || null,
                 data.triggers ? JSON.stringify(data.triggers) : '[]',
                 data.credentials_required ? JSON.stringify(data.credentials_required) : '[]',
+                data.n8n_compatibility ? JSON.stringify(data.n8n_compatibility) : null,
+                data.original_file_checksum || null,
+                data.sanitized_at || null,
+                data.sanitization_report ? JSON.stringify(data.sanitization_report) : null,
+                data.setup_guide ? JSON.stringify(data.setup_guide) : null,
                 now,
                 now,
             ]
@@ -64,7 +79,10 @@ export class ProductWorkflowRepository {
     /**
      * Update workflow
      */
-    async update(productId: string, data: UpdateProductWorkflowInput): Promise<ProductWorkflow | null> {
+    async update(
+        productId: string,
+        data: UpdateProductWorkflowInput & ProductWorkflowExtraFields
+    ): Promise<ProductWorkflow | null> {
         const updates: string[] = [];
         const values: any[] = [];
         let paramIndex = 1;
@@ -101,6 +119,26 @@ export class ProductWorkflowRepository {
             updates.push(`credentials_required = $${paramIndex++}`);
             values.push(JSON.stringify(data.credentials_required));
         }
+        if (data.n8n_compatibility !== undefined) {
+            updates.push(`n8n_compatibility = $${paramIndex++}`);
+            values.push(data.n8n_compatibility ? JSON.stringify(data.n8n_compatibility) : null);
+        }
+        if (data.original_file_checksum !== undefined) {
+            updates.push(`original_file_checksum = $${paramIndex++}`);
+            values.push(data.original_file_checksum);
+        }
+        if (data.sanitized_at !== undefined) {
+            updates.push(`sanitized_at = $${paramIndex++}`);
+            values.push(data.sanitized_at);
+        }
+        if (data.sanitization_report !== undefined) {
+            updates.push(`sanitization_report = $${paramIndex++}`);
+            values.push(data.sanitization_report ? JSON.stringify(data.sanitization_report) : null);
+        }
+        if (data.setup_guide !== undefined) {
+            updates.push(`setup_guide = $${paramIndex++}`);
+            values.push(data.setup_guide ? JSON.stringify(data.setup_guide) : null);
+        }
 
         if (updates.length === 0) return null;
 
@@ -137,7 +175,7 @@ export class ProductWorkflowRepository {
             row,
             [], // No generic JSON fields
             ['triggers', 'credentials_required'], // JSON array fields
-            [], // No JSON object fields
+            ['n8n_compatibility', 'sanitization_report', 'setup_guide'], // JSON object fields
             ['nodes_count'] // Number fields
         );
     }
@@ -3,11 +3,15 @@ import { Product, CreateProductInput, UpdateProductInput, ProductQueryFilters, P
 import { v4 as uuidv4 } from 'uuid';
 import { mapDbRow, parseNumber, prepareDbData } from '../utils/db-mapper';
 
+export type ProductListFilters = ProductQueryFilters & {
+    n8n_version?: string; // Only workflows that run on this n8n version
+};
+
 export class ProductRepository {
     /**
      * Find all products with filters
      */
-    async findMany(filters: ProductQueryFilters = {}): Promise<{ products: Product[]; total: number }> {
+    async findMany(filters: ProductListFilters = {}): Promise<{ products: Product[]; total: number }> {
         const conditions: string[] = [];
         const values: any[] = [];
         let paramIndex = 1;
@@ -60,6 +64,17 @@ export class ProductRepository {
             values.push(filters.tags);
         }
 
+        // Workflows whose minimum n8n version is at most the given "major.minor.patch"
+        if (filters.n8n_version) {
+            conditions.push(`EXISTS (
+                SELECT 1 FROM product_workflows pw
+                WHERE pw.product_id = products.id
+                  AND pw.n8n_version IS NOT NULL
+                  AND string_to_array(pw.n8n_version, '.')::int[] <= string_to_array($${paramIndex++}, '.')::int[]
+            )`);
+            values.push(filters.n8n_version);
+        }
+
         const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
 
         // Build ORDER BY
@@ -105,6 +120,18 @@ export class ProductRepository {
         return this.postProcessProduct(this.mapRowToProduct(result.rows[0]));
     }
 
+    /**
+     * Find product whose workflow file is stored at the given URL
+     */
+    async findByWorkflowFileUrl(fileUrl: string): Promise<Product | null> {
+        const result = await pool.query(
+            'SELECT * FROM products WHERE workflow_file_url = $1 LIMIT 1',
+            [fileUrl]
+        );
+        if (!result.rows[0]) return null;
+        return this.postProcessProduct(this.mapRowToProduct(result.rows[0]));
+    }
+
     /**
      * Find products by seller ID
      */
@@ -385,6 +412,28 @@ export class ProductRepository {
         );
     }
 
+    /**
+     * Record processed renditions for one of the product's images (keyed by original URL)
+     */
+    async setImageRenditions(id: string, imageUrl: string, renditions: Record<string, any>): Promise<void> {
+        await pool.query(
+            `UPDATE products
+             SET image_renditions = COALESCE(image_renditions, '{}'::jsonb) || jsonb_build_object($2::text, $3::jsonb)
+             WHERE id = $1`,
+            [id, imageUrl, JSON.stringify(renditions)]
+        );
+    }
+
+    /**
+     * Remove renditions of an image
+     */
+    async removeImageRenditions(id: string, imageUrl: string): Promise<void> {
+        await pool.query(
+            'UPDATE products SET image_renditions = image_renditions - $2::text WHERE id = $1',
+            [id, imageUrl]
+        );
+    }
+
     /**
      * Map database row to Product type
      * Uses utility functions for automatic JSON parsing and type conversion
@@ -394,7 +443,7 @@ export class ProductRepository {
             row,
             [], // No generic JSON fields
             ['tags', 'requirements', 'features', 'screenshots', 'required_credentials'], // JSON array fields
-            ['metadata', 'platform_requirements', 'security_scan_result'], // JSON object fields
+            ['metadata', 'platform_requirements', 'security_scan_result', 'image_renditions'], // JSON object fields
             ['downloads', 'rating', 'reviews_count', 'sales_count'] // Number fields (price handled separately)
         );
     }
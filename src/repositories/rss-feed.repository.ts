@@ -0,0 +1,105 @@
+import pool from '../config/database';
+import { v4 as uuidv4 } from 'uuid';
+
+export type RssFeedRecord = {
+    id: string;
+    user_id: string;
+    feed_url: string;
+    title?: string | null;
+    etag?: string | null;
+    last_modified?: string | null;
+    last_polled_at?: Date | null;
+    created_at: Date;
+    updated_at: Date;
+};
+
+export class RssFeedRepository {
+    /**
+     * Find feed state for a user, creating it on first poll
+     */
+    async findOrCreate(userId: string, feedUrl: string): Promise<RssFeedRecord> {
+        const now = new Date();
+        const result = await pool.query(
+            `INSERT INTO rss_feeds (id, user_id, feed_url, created_at, updated_at)
+             VALUES ($1, $2, $3, $4, $5)
+             ON CONFLICT (user_id, feed_url) DO UPDATE SET updated_at = rss_feeds.updated_at
+             RETURNING *`,
+            [uuidv4(), userId, feedUrl, now, now]
+        );
+        return result.rows[0];
+    }
+
+    /**
+     * Store HTTP validators and poll time after a fetch
+     */
+    async updateFetchState(
+        id: string,
+        data: { title?: string; etag?: string | null; last_modified?: string | null }
+    ): Promise<void> {
+        await pool.query(
+            `UPDATE rss_feeds
+             SET title = COALESCE($2, title), etag = $3, last_modified = $4, last_polled_at = NOW(), updated_at = NOW()
+             WHERE id = $1`,
+            [id, data.title || null, data.etag || null, data.last_modified || null]
+        );
+    }
+
+    /**
+     * Mark only the poll time (e.g. feed answered 304 Not Modified)
+     */
+    async touch(id: string): Promise<void> {
+        await pool.query(
+            'UPDATE rss_feeds SET last_polled_at = NOW(), updated_at = NOW() WHERE id = $1',
+            [id]
+        );
+    }
+
+    /**
+     * Return the subset of item keys already ingested for a feed
+     */
+    async findExistingItemKeys(feedId: string, itemKeys: string[]): Promise<Set<string>> {
+        if (itemKeys.length === 0) return new Set();
+
+        const result = await pool.query(
+            'SELECT item_key FROM rss_feed_items WHERE feed_id = $1 AND item_key = ANY($2)',
+            [feedId, itemKeys]
+        );
+        return new Set(result.rows.map(row => row.item_key));
+    }
+
+    /**
+     * Claim an item for ingestion
+     * Returns false if another poll already claimed it
+     */
+    async claimItem(feedId: string, itemKey: string): Promise<boolean> {
+        const result = await pool.query(
+            `INSERT INTO rss_feed_items (id, feed_id, item_key, created_at)
+             VALUES ($1, $2, $3, $4)
+             ON CONFLICT (feed_id, item_key) DO NOTHING`,
+            [uuidv4(), feedId, itemKey, new Date()]
+        );
+        return (result.rowCount ?? 0) > 0;
+    }
+
+    /**
+     * Link a claimed item to the article created for it
+     */
+    async setItemArticle(feedId: string, itemKey: string, articleId: string): Promise<void> {
+        await pool.query(
+            'UPDATE rss_feed_items SET article_id = $3 WHERE feed_id = $1 AND item_key = $2',
+            [feedId, itemKey, articleId]
+        );
+    }
+
+    /**
+     * Release a claimed item so the next poll retries it
+     */
+    async releaseItem(feedId: string, itemKey: string): Promise<void> {
+        await pool.query(
+            'DELETE FROM rss_feed_items WHERE feed_id = $1 AND item_key = $2',
+            [feedId, itemKey]
+        );
+    }
+}
+
+export default new RssFeedRepository();
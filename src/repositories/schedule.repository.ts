@@ -36,15 +36,42 @@ export class ScheduleRepository {
         return result.rows;
     }
 
+    /**
+     * Atomically claim due schedules for execution
+     * Pushes next_fetch forward by the lease so other instances skip the claimed rows;
+     * if the worker dies mid-run the lease expires and the schedule becomes due again
+     */
+    async claimDue(limit: number, leaseMs: number): Promise<FetchSchedule[]> {
+        const result = await pool.query(
+            `UPDATE fetch_schedules
+       SET next_fetch = NOW() + ($2 * INTERVAL '1 millisecond')
+       WHERE id IN (
+         SELECT id FROM fetch_schedules
+         WHERE next_fetch <= NOW() AND active = true
+         ORDER BY next_fetch ASC
+         LIMIT $1
+         FOR UPDATE SKIP LOCKED
+       )
+       RETURNING *`,
+            [limit, leaseMs]
+        );
+        return result.rows.map(row => this.mapRowToSchedule(row));
+    }
+
     /**
      * Create schedule
      */
-    async create(data: CreateScheduleInput & { next_fetch?: Date; active?: boolean }): Promise<FetchSchedule> {
+    async create(data: CreateScheduleInput & {
+        next_fetch?: Date;
+        active?: boolean;
+        cron_expression?: string | null;
+        timezone?: string;
+    }): Promise<FetchSchedule> {
         const id = uuidv4();
 
         const result = await pool.query(
-            `INSERT INTO fetch_schedules (id, user_id, source_type, source_value, frequency, next_fetch, active)
-       VALUES ($1, $2, $3, $4, $5, $6, $7)
+            `INSERT INTO fetch_schedules (id, user_id, source_type, source_value, frequency, cron_expression, timezone, next_fetch, active)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
        RETURNING *`,
             [
                 id,
@@ -52,6 +79,8 @@ export class ScheduleRepository {
                 data.source_type,
                 data.source_value,
                 data.frequency,
+                data.cron_expression || null,
+                data.timezone || 'UTC',
                 data.next_fetch,
                 data.active !== undefined ? data.active : true
             ]
@@ -67,6 +96,8 @@ export class ScheduleRepository {
         id: string,
         data: Partial<{
             frequency: string;
+            cron_expression: string | null;
+            timezone: string;
             last_fetched: Date;
             next_fetch: Date;
             workflow_id: string;
@@ -82,6 +113,14 @@ export class ScheduleRepository {
             values.push(data.frequency);
             // Note: next_fetch recalculation should be handled by service (business logic)
         }
+        if (data.cron_expression !== undefined) {
+            updates.push(`cron_expression = $${paramIndex++}`);
+            values.push(data.cron_expression);
+        }
+        if (data.timezone !== undefined) {
+            updates.push(`timezone = $${paramIndex++}`);
+            values.push(data.timezone);
+        }
         if (data.last_fetched !== undefined) {
             updates.push(`last_fetched = $${paramIndex++}`);
             values.push(data.last_fetched);
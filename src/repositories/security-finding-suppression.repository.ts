@@ -0,0 +1,141 @@
+import pool from '../config/database';
+import { v4 as uuidv4 } from 'uuid';
+
+export type FindingSuppressionStatus = 'pending' | 'approved' | 'rejected';
+
+export type FindingSuppressionRecord = {
+    id: string;
+    product_id: string;
+    artifact_id: string;
+    artifact_checksum?: string | null;
+    finding_id: string;
+    rule_id: string;
+    file_path: string;
+    justification: string;
+    status: FindingSuppressionStatus;
+    requested_by: string;
+    reviewed_by?: string | null;
+    review_notes?: string | null;
+    reviewed_at?: Date | null;
+    created_at: Date;
+    updated_at: Date;
+};
+
+export class SecurityFindingSuppressionRepository {
+    /**
+     * Find suppression by ID
+     */
+    async findById(id: string): Promise<FindingSuppressionRecord | null> {
+        const result = await pool.query(
+            'SELECT * FROM security_finding_suppressions WHERE id = $1',
+            [id]
+        );
+        return result.rows[0] || null;
+    }
+
+    /**
+     * Find suppression for a finding of an artifact
+     */
+    async findByFinding(artifactId: string, findingId: string): Promise<FindingSuppressionRecord | null> {
+        const result = await pool.query(
+            'SELECT * FROM security_finding_suppressions WHERE artifact_id = $1 AND finding_id = $2',
+            [artifactId, findingId]
+        );
+        return result.rows[0] || null;
+    }
+
+    /**
+     * Find suppressions of a product, optionally by status
+     */
+    async findByProductId(productId: string, status?: FindingSuppressionStatus): Promise<FindingSuppressionRecord[]> {
+        const result = status
+            ? await pool.query(
+                'SELECT * FROM security_finding_suppressions WHERE product_id = $1 AND status = $2 ORDER BY created_at DESC',
+                [productId, status]
+            )
+            : await pool.query(
+                'SELECT * FROM security_finding_suppressions WHERE product_id = $1 ORDER BY created_at DESC',
+                [productId]
+            );
+        return result.rows;
+    }
+
+    /**
+     * Find suppressions across products by status (admin review queue)
+     */
+    async findByStatus(status: FindingSuppressionStatus, limit: number = 50, offset: number = 0): Promise<FindingSuppressionRecord[]> {
+        const result = await pool.query(
+            `SELECT * FROM security_finding_suppressions
+             WHERE status = $1
+             ORDER BY created_at ASC
+             LIMIT $2 OFFSET $3`,
+            [status, limit, offset]
+        );
+        return result.rows;
+    }
+
+    /**
+     * Create a pending suppression request, or reopen a rejected one for the same finding
+     */
+    async upsertRequest(data: {
+        product_id: string;
+        artifact_id: string;
+        artifact_checksum?: string | null;
+        finding_id: string;
+        rule_id: string;
+        file_path: string;
+        justification: string;
+        requested_by: string;
+    }): Promise<FindingSuppressionRecord> {
+        const now = new Date();
+        const result = await pool.query(
+            `INSERT INTO security_finding_suppressions (
+                id, product_id, artifact_id, artifact_checksum, finding_id, rule_id, file_path,
+                justification, status, requested_by, created_at, updated_at
+            ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, 'pending', $9, $10, $11)
+            ON CONFLICT (artifact_id, finding_id) DO UPDATE SET
+                artifact_checksum = EXCLUDED.artifact_checksum,
+                justification = EXCLUDED.justification,
+                status = 'pending',
+                requested_by = EXCLUDED.requested_by,
+                reviewed_by = NULL,
+                review_notes = NULL,
+                reviewed_at = NULL
+            RETURNING *`,
+            [
+                uuidv4(),
+                data.product_id,
+                data.artifact_id,
+                data.artifact_checksum || null,
+                data.finding_id,
+                data.rule_id,
+                data.file_path,
+                data.justification,
+                data.requested_by,
+                now,
+                now,
+            ]
+        );
+        return result.rows[0];
+    }
+
+    /**
+     * Record an admin decision on a pending suppression
+     * Returns null if the suppression is no longer pending
+     */
+    async review(
+        id: string,
+        data: { status: 'approved' | 'rejected'; reviewed_by: string; review_notes?: string | null }
+    ): Promise<FindingSuppressionRecord | null> {
+        const result = await pool.query(
+            `UPDATE security_finding_suppressions
+             SET status = $2, reviewed_by = $3, review_notes = $4, reviewed_at = NOW()
+             WHERE id = $1 AND status = 'pending'
+             RETURNING *`,
+            [id, data.status, data.reviewed_by, data.review_notes || null]
+        );
+        return result.rows[0] || null;
+    }
+}
+
+export default new SecurityFindingSuppressionRepository();
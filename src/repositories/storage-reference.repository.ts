@@ -0,0 +1,38 @@
+import pool from '../config/database';
+
+/**
+ * Collects every stored file URL that is still referenced from the database
+ * Used by the storage garbage collector to find orphaned objects
+ */
+export class StorageReferenceRepository {
+    /**
+     * All file URLs referenced by products, artifacts, workflows and pending ingestion jobs
+     */
+    async findReferencedFileUrls(): Promise<Set<string>> {
+        const result = await pool.query(
+            `SELECT file_url AS url FROM product_artifacts
+             UNION
+             SELECT rendition.value->>'url' FROM product_artifacts a,
+                 jsonb_each(CASE WHEN jsonb_typeof(a.metadata->'renditions') = 'object' THEN a.metadata->'renditions' ELSE '{}'::jsonb END) rendition
+             UNION
+             SELECT unnest(ARRAY[workflow_file_url, thumbnail_url, preview_image_url, ownership_proof_url]) FROM products
+             UNION
+             SELECT jsonb_array_elements_text(screenshots) FROM products WHERE jsonb_typeof(screenshots) = 'array'
+             UNION
+             SELECT rendition.value->>'url' FROM products p,
+                 jsonb_each(CASE WHEN jsonb_typeof(p.image_renditions) = 'object' THEN p.image_renditions ELSE '{}'::jsonb END) image,
+                 jsonb_each(CASE WHEN jsonb_typeof(image.value) = 'object' THEN image.value ELSE '{}'::jsonb END) rendition
+             UNION
+             SELECT unnest(ARRAY[workflow_json_url, env_example_url, readme_url]) FROM product_workflows
+             UNION
+             SELECT payload->>'file_url' FROM ingestion_jobs WHERE job_type = 'file'`
+        );
+        return new Set(
+            result.rows
+                .map(row => row.url as string | null)
+                .filter((url): url is string => !!url)
+        );
+    }
+}
+
+export default new StorageReferenceRepository();
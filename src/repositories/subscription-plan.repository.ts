@@ -0,0 +1,114 @@
+import pool from '../config/database';
+import { v4 as uuidv4 } from 'uuid';
+import { parseNumber } from '../utils/db-mapper';
+
+export type BillingInterval = 'day' | 'week' | 'month' | 'year';
+
+export type SubscriptionPlanRecord = {
+    id: string;
+    product_id: string;
+    name: string;
+    billing_interval: BillingInterval;
+    interval_count: number;
+    price: number;
+    currency: string;
+    trial_days: number;
+    is_active: boolean;
+    created_at: Date;
+    updated_at: Date;
+};
+
+export class SubscriptionPlanRepository {
+    /**
+     * Find plan by ID
+     */
+    async findById(id: string): Promise<SubscriptionPlanRecord | null> {
+        const result = await pool.query(
+            'SELECT * FROM subscription_plans WHERE id = $1',
+            [id]
+        );
+        return result.rows[0] ? this.mapRowToPlan(result.rows[0]) : null;
+    }
+
+    /**
+     * Find plans of a product, cheapest first, optionally only active ones
+     */
+    async findByProductId(productId: string, activeOnly: boolean = false): Promise<SubscriptionPlanRecord[]> {
+        const result = await pool.query(
+            `SELECT * FROM subscription_plans
+             WHERE product_id = $1 ${activeOnly ? 'AND is_active = true' : ''}
+             ORDER BY price ASC, created_at ASC`,
+            [productId]
+        );
+        return result.rows.map(row => this.mapRowToPlan(row));
+    }
+
+    /**
+     * Create plan
+     */
+    async create(data: {
+        product_id: string;
+        name: string;
+        billing_interval: BillingInterval;
+        interval_count: number;
+        price: number;
+        currency: string;
+        trial_days: number;
+    }): Promise<SubscriptionPlanRecord> {
+        const now = new Date();
+        const result = await pool.query(
+            `INSERT INTO subscription_plans (
+                id, product_id, name, billing_interval, interval_count, price, currency, trial_days, is_active, created_at, updated_at
+            ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, true, $9, $10)
+            RETURNING *`,
+            [
+                uuidv4(),
+                data.product_id,
+                data.name,
+                data.billing_interval,
+                data.interval_count,
+                data.price,
+                data.currency,
+                data.trial_days,
+                now,
+                now,
+            ]
+        );
+        return this.mapRowToPlan(result.rows[0]);
+    }
+
+    /**
+     * Update plan fields
+     */
+    async update(
+        id: string,
+        data: Partial<Pick<SubscriptionPlanRecord, 'name' | 'price' | 'trial_days' | 'is_active'>>
+    ): Promise<SubscriptionPlanRecord | null> {
+        const updates: string[] = [];
+        const values: any[] = [];
+        let paramIndex = 1;
+
+        for (const [field, value] of Object.entries(data)) {
+            if (value === undefined) continue;
+            updates.push(`${field} = $${paramIndex++}`);
+            values.push(value);
+        }
+
+        if (updates.length === 0) {
+            return await this.findById(id);
+        }
+
+        values.push(id);
+        const result = await pool.query(
+            `UPDATE subscription_plans SET ${updates.join(', ')} WHERE id = $${paramIndex} RETURNING *`,
+            values
+        );
+        return result.rows[0] ? this.mapRowToPlan(result.rows[0]) : null;
+    }
+
+    private mapRowToPlan(row: any): SubscriptionPlanRecord {
+        return { ...row, price: parseNumber(row.price, 0) };
+    }
+}
+
+export default new SubscriptionPlanRepository();
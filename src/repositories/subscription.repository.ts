@@ -0,0 +1,220 @@
+import pool from '../config/database';
+import { v4 as uuidv4 } from 'uuid';
+
+export type SubscriptionStatus = 'incomplete' | 'trialing' | 'active' | 'past_due' | 'canceled' | 'expired';
+
+// Subscriptions that are not over yet (at most one per user and product)
+export const LIVE_SUBSCRIPTION_STATUSES: SubscriptionStatus[] = ['incomplete', 'trialing', 'active', 'past_due'];
+
+export type SubscriptionRecord = {
+    id: string;
+    user_id: string;
+    plan_id: string;
+    product_id: string;
+    status: SubscriptionStatus;
+    current_period_start: Date | null;
+    current_period_end: Date | null;
+    trial_end: Date | null;
+    grace_until: Date | null;
+    cancel_at_period_end: boolean;
+    canceled_at: Date | null;
+    ended_at: Date | null;
+    latest_order_id: string | null;
+    created_at: Date;
+    updated_at: Date;
+};
+
+type SubscriptionUpdateFields = Partial<Pick<
+    SubscriptionRecord,
+    | 'current_period_start'
+    | 'current_period_end'
+    | 'trial_end'
+    | 'grace_until'
+    | 'cancel_at_period_end'
+    | 'canceled_at'
+    | 'ended_at'
+    | 'latest_order_id'
+>>;
+
+export class SubscriptionRepository {
+    /**
+     * Find subscription by ID
+     */
+    async findById(id: string): Promise<SubscriptionRecord | null> {
+        const result = await pool.query(
+            'SELECT * FROM subscriptions WHERE id = $1',
+            [id]
+        );
+        return result.rows[0] || null;
+    }
+
+    /**
+     * Find a user's subscriptions, newest first
+     */
+    async findByUserId(userId: string, limit: number = 50, offset: number = 0): Promise<SubscriptionRecord[]> {
+        const result = await pool.query(
+            'SELECT * FROM subscriptions WHERE user_id = $1 ORDER BY created_at DESC LIMIT $2 OFFSET $3',
+            [userId, limit, offset]
+        );
+        return result.rows;
+    }
+
+    /**
+     * Find the user's subscription to a product that is not over yet
+     */
+    async findLive(userId: string, productId: string): Promise<SubscriptionRecord | null> {
+        const result = await pool.query(
+            'SELECT * FROM subscriptions WHERE user_id = $1 AND product_id = $2 AND status = ANY($3)',
+            [userId, productId, LIVE_SUBSCRIPTION_STATUSES]
+        );
+        return result.rows[0] || null;
+    }
+
+    /**
+     * Whether the user ever had a trial of the product
+     */
+    async hasHadTrial(userId: string, productId: string): Promise<boolean> {
+        const result = await pool.query(
+            'SELECT 1 FROM subscriptions WHERE user_id = $1 AND product_id = $2 AND trial_end IS NOT NULL LIMIT 1',
+            [userId, productId]
+        );
+        return result.rows.length > 0;
+    }
+
+    /**
+     * Find subscriptions in the given statuses whose period ended, optionally by cancel_at_period_end
+     */
+    async findPeriodEnded(
+        statuses: SubscriptionStatus[],
+        now: Date,
+        cancelAtPeriodEnd: boolean,
+        limit: number = 100
+    ): Promise<SubscriptionRecord[]> {
+        const result = await pool.query(
+            `SELECT * FROM subscriptions
+             WHERE status = ANY($1) AND current_period_end <= $2 AND cancel_at_period_end = $3
+             ORDER BY current_period_end ASC
+             LIMIT $4`,
+            [statuses, now, cancelAtPeriodEnd, limit]
+        );
+        return result.rows;
+    }
+
+    /**
+     * Find past-due subscriptions whose grace period is over
+     */
+    async findGraceExpired(now: Date, limit: number = 100): Promise<SubscriptionRecord[]> {
+        const result = await pool.query(
+            `SELECT * FROM subscriptions
+             WHERE status = 'past_due' AND grace_until <= $1
+             ORDER BY grace_until ASC
+             LIMIT $2`,
+            [now, limit]
+        );
+        return result.rows;
+    }
+
+    /**
+     * Find subscriptions whose first order was not paid in time
+     */
+    async findIncompleteBefore(createdBefore: Date, limit: number = 100): Promise<SubscriptionRecord[]> {
+        const result = await pool.query(
+            `SELECT * FROM subscriptions
+             WHERE status = 'incomplete' AND created_at <= $1
+             ORDER BY created_at ASC
+             LIMIT $2`,
+            [createdBefore, limit]
+        );
+        return result.rows;
+    }
+
+    /**
+     * Create subscription
+     */
+    async create(data: {
+        user_id: string;
+        plan_id: string;
+        product_id: string;
+        status: SubscriptionStatus;
+        current_period_start?: Date | null;
+        current_period_end?: Date | null;
+        trial_end?: Date | null;
+    }): Promise<SubscriptionRecord> {
+        const now = new Date();
+        const result = await pool.query(
+            `INSERT INTO subscriptions (
+                id, user_id, plan_id, product_id, status, current_period_start, current_period_end, trial_end, created_at, updated_at
+            ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+            RETURNING *`,
+            [
+                uuidv4(),
+                data.user_id,
+                data.plan_id,
+                data.product_id,
+                data.status,
+                data.current_period_start || null,
+                data.current_period_end || null,
+                data.trial_end || null,
+                now,
+                now,
+            ]
+        );
+        return result.rows[0];
+    }
+
+    /**
+     * Update subscription fields
+     */
+    async update(id: string, data: SubscriptionUpdateFields): Promise<SubscriptionRecord | null> {
+        const updates: string[] = [];
+        const values: any[] = [];
+        let paramIndex = 1;
+
+        for (const [field, value] of Object.entries(data)) {
+            if (value === undefined) continue;
+            updates.push(`${field} = $${paramIndex++}`);
+            values.push(value);
+        }
+
+        if (updates.length === 0) {
+            return await this.findById(id);
+        }
+
+        values.push(id);
+        const result = await pool.query(
+            `UPDATE subscriptions SET ${updates.join(', ')} WHERE id = $${paramIndex} RETURNING *`,
+            values
+        );
+        return result.rows[0] || null;
+    }
+
+    /**
+     * Move a subscription from one status to another, updating the given fields
+     * Returns null if the subscription is no longer in the expected status
+     * (concurrent workers and webhooks rely on this)
+     */
+    async transition(
+        id: string,
+        from: SubscriptionStatus[],
+        to: SubscriptionStatus,
+        data: SubscriptionUpdateFields = {}
+    ): Promise<SubscriptionRecord | null> {
+        const updates: string[] = ['status = $3'];
+        const values: any[] = [id, from, to];
+        let paramIndex = 4;
+
+        for (const [field, value] of Object.entries(data)) {
+            if (value === undefined) continue;
+            updates.push(`${field} = $${paramIndex++}`);
+            values.push(value);
+        }
+
+        const result = await pool.query(
+            `UPDATE subscriptions SET ${updates.join(', ')} WHERE id = $1 AND status = ANY($2) RETURNING *`,
+            values
+        );
+        return result.rows[0] || null;
+    }
+}
+
+export default new SubscriptionRepository();
@@ -0,0 +1,76 @@
+import pool from '../config/database';
+import { v4 as uuidv4 } from 'uuid';
+
+export type WorkflowDeploymentStatus = 'succeeded' | 'failed';
+
+export type MissingCredential = {
+    type: string;
+    nodes: string[];
+};
+
+export type WorkflowDeploymentRecord = {
+    id: string;
+    user_id: string;
+    instance_id: string | null;
+    product_id: string;
+    release_id: string | null;
+    status: WorkflowDeploymentStatus;
+    n8n_workflow_id: string | null;
+    missing_credentials: MissingCredential[];
+    error: string | null;
+    created_at: Date;
+};
+
+export class WorkflowDeploymentRepository {
+    /**
+     * Record a deployment attempt
+     */
+    async create(data: {
+        user_id: string;
+        instance_id: string;
+        product_id: string;
+        release_id?: string | null;
+        status: WorkflowDeploymentStatus;
+        n8n_workflow_id?: string | null;
+        missing_credentials?: MissingCredential[];
+        error?: string | null;
+    }): Promise<WorkflowDeploymentRecord> {
+        const result = await pool.query(
+            `INSERT INTO workflow_deployments (
+                id, user_id, instance_id, product_id, release_id, status, n8n_workflow_id, missing_credentials, error, created_at
+            ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+            RETURNING *`,
+            [
+                uuidv4(),
+                data.user_id,
+                data.instance_id,
+                data.product_id,
+                data.release_id || null,
+                data.status,
+                data.n8n_workflow_id || null,
+                JSON.stringify(data.missing_credentials || []),
+                data.error || null,
+                new Date(),
+            ]
+        );
+        return result.rows[0];
+    }
+
+    /**
+     * Find a user's deployments, newest first, optionally of one product
+     */
+    async findByUserId(userId: string, productId?: string, limit: number = 50): Promise<WorkflowDeploymentRecord[]> {
+        const result = productId
+            ? await pool.query(
+                'SELECT * FROM workflow_deployments WHERE user_id = $1 AND product_id = $2 ORDER BY created_at DESC LIMIT $3',
+                [userId, productId, limit]
+            )
+            : await pool.query(
+                'SELECT * FROM workflow_deployments WHERE user_id = $1 ORDER BY created_at DESC LIMIT $2',
+                [userId, limit]
+            );
+        return result.rows;
+    }
+}
+
+export default new WorkflowDeploymentRepository();
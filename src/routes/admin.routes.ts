@@ -2,11 +2,20 @@ import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
 import adminService from '../services/admin.service';
 import productRepository from '../repositories/product.repository';
 import sellerService from '../services/seller.service';
-import { validate } from '../middleware/validation.middleware';
+import scanQueueService from '../services/scan-queue.service';
+import storageGcService from '../services/storage-gc.service';
+import productReleaseService from '../services/product-release.service';
+import findingSuppressionService from '../services/finding-suppression.service';
+import orderService from '../services/order.service';
+import paymentService from '../services/payment.service';
+import subscriptionService from '../services/subscription.service';
+import { OrderStatus } from '../repositories/order.repository';
+import { validate, refundOrderSchema } from '../middleware/validation.middleware';
 import { z } from 'zod';
 import { successResponse, errorResponse, unauthorizedResponse, badRequestResponse, notFoundResponse } from '../utils/response';
 import { requireAdmin } from '../middleware/auth.middleware';
 import { ProductMapper } from '../application/mappers/product.mapper';
+import { ReviewChecklist } from '../services/audit-log.service';
 
 export default async function adminRoutes(fastify: FastifyInstance) {
     // All admin routes require authentication and admin role
@@ -178,7 +187,7 @@ export default async function adminRoutes(fastify: FastifyInstance) {
 
             const { id } = request.params as { id: string };
             const body = (request.body || {}) as { 
-                checklist?: Record<string, boolean>;
+                checklist?: ReviewChecklist;
                 notes?: string;
             };
 
@@ -212,7 +221,7 @@ export default async function adminRoutes(fastify: FastifyInstance) {
             const { id } = request.params as { id: string };
             const body = (request.body || {}) as { 
                 reason: string;
-                checklist?: Record<string, boolean>;
+                checklist?: ReviewChecklist;
                 notes?: string;
             };
             
@@ -237,6 +246,131 @@ export default async function adminRoutes(fastify: FastifyInstance) {
         }
     });
 
+    /**
+     * GET /api/admin/releases/pending
+     * Get product releases waiting for review
+     */
+    fastify.get('/releases/pending', async (request: FastifyRequest, reply: FastifyReply) => {
+        try {
+            const query = request.query as { limit?: string; offset?: string };
+            const releases = await productReleaseService.getReleasesPendingReview(
+                query.limit ? parseInt(query.limit, 10) : 50,
+                query.offset ? parseInt(query.offset, 10) : 0
+            );
+            successResponse(reply, { releases });
+        } catch (error: unknown) {
+            errorResponse(reply, 'Failed to get pending releases', 500, error);
+        }
+    });
+
+    /**
+     * POST /api/admin/releases/:id/approve
+     * Approve a release; it becomes current unless make_current is false
+     */
+    fastify.post('/releases/:id/approve', async (request: FastifyRequest, reply: FastifyReply) => {
+        try {
+            const userId = request.user?.userId;
+            if (!userId) {
+                return unauthorizedResponse(reply);
+            }
+
+            const { id } = request.params as { id: string };
+            const body = (request.body || {}) as { make_current?: boolean };
+
+            const release = await productReleaseService.approveRelease(id, userId, body.make_current !== false);
+            successResponse(reply, { release }, 'Release approved');
+        } catch (error: unknown) {
+            const { NotFoundError, DomainError } = await import('../shared/errors');
+            if (error instanceof NotFoundError) return notFoundResponse(reply, error.message);
+            if (error instanceof DomainError) return badRequestResponse(reply, error.message);
+            errorResponse(reply, 'Failed to approve release', 500, error);
+        }
+    });
+
+    /**
+     * POST /api/admin/releases/:id/reject
+     * Reject a release
+     */
+    fastify.post('/releases/:id/reject', async (request: FastifyRequest, reply: FastifyReply) => {
+        try {
+            const userId = request.user?.userId;
+            if (!userId) {
+                return unauthorizedResponse(reply);
+            }
+
+            const { id } = request.params as { id: string };
+            const body = (request.body || {}) as { reason?: string };
+
+            if (!body.reason || body.reason.trim().length === 0) {
+                return badRequestResponse(reply, 'Rejection reason is required');
+            }
+
+            const release = await productReleaseService.rejectRelease(id, userId, body.reason.trim());
+            successResponse(reply, { release }, 'Release rejected');
+        } catch (error: unknown) {
+            const { NotFoundError, DomainError } = await import('../shared/errors');
+            if (error instanceof NotFoundError) return notFoundResponse(reply, error.message);
+            if (error instanceof DomainError) return badRequestResponse(reply, error.message);
+            errorResponse(reply, 'Failed to reject release', 500, error);
+        }
+    });
+
+    /**
+     * GET /api/admin/orders
+     * List orders (optional ?status=)
+     */
+    fastify.get('/orders', async (request: FastifyRequest, reply: FastifyReply) => {
+        try {
+            const query = request.query as { status?: string; limit?: string; offset?: string };
+            const orders = await orderService.getAllOrders(
+                query.status as OrderStatus | undefined,
+                query.limit ? parseInt(query.limit, 10) : 50,
+                query.offset ? parseInt(query.offset, 10) : 0
+            );
+            successResponse(reply, { orders });
+        } catch (error: unknown) {
+            errorResponse(reply, 'Failed to get orders', 500, error);
+        }
+    });
+
+    /**
+     * POST /api/admin/orders/:id/mark-paid
+     * Mark a pending order paid (payment confirmed outside the platform); grants its products
+     */
+    fastify.post('/orders/:id/mark-paid', async (request: FastifyRequest, reply: FastifyReply) => {
+        try {
+            const { id } = request.params as { id: string };
+
+            const order = await orderService.markPaid(id);
+            successResponse(reply, { order }, 'Order marked as paid');
+        } catch (error: unknown) {
+            const { NotFoundError, DomainError } = await import('../shared/errors');
+            if (error instanceof NotFoundError) return notFoundResponse(reply, error.message);
+            if (error instanceof DomainError) return badRequestResponse(reply, error.message);
+            errorResponse(reply, 'Failed to mark order as paid', 500, error);
+        }
+    });
+
+    /**
+     * POST /api/admin/orders/:id/refund
+     * Refund a paid order (at the payment provider, if it was paid through one);
+     * the buyer loses access to its products
+     */
+    fastify.post('/orders/:id/refund', async (request: FastifyRequest, reply: FastifyReply) => {
+        try {
+            const { id } = request.params as { id: string };
+            const body = validate(refundOrderSchema, request.body);
+
+            const order = await paymentService.refundOrder(id, body.reason, request.ip);
+            successResponse(reply, { order }, 'Order refunded');
+        } catch (error: unknown) {
+            const { NotFoundError, DomainError } = await import('../shared/errors');
+            if (error instanceof NotFoundError) return notFoundResponse(reply, error.message);
+            if (error instanceof DomainError) return badRequestResponse(reply, error.message);
+            throw error;
+        }
+    });
+
     /**
      * POST /api/admin/products/:id/request-changes
      * Request changes for product (keeps in pending state)
@@ -251,7 +385,7 @@ export default async function adminRoutes(fastify: FastifyInstance) {
             const { id } = request.params as { id: string };
             const body = request.body as { 
                 reason: string;
-                checklist?: Record<string, boolean>;
+                checklist?: ReviewChecklist;
                 notes?: string;
             };
             
@@ -290,6 +424,137 @@ export default async function adminRoutes(fastify: FastifyInstance) {
         }
     });
 
+    /**
+     * GET /api/admin/scan-queue
+     * Get security scan queue status and dead-lettered (failed) jobs
+     */
+    fastify.get('/scan-queue', async (request: FastifyRequest, reply: FastifyReply) => {
+        try {
+            const query = request.query as { limit?: string };
+            const limit = Math.min(Math.max(parseInt(query.limit || '50', 10) || 50, 1), 200);
+
+            const [status, failedJobs] = await Promise.all([
+                scanQueueService.getStatus(),
+                scanQueueService.getFailedJobs(limit),
+            ]);
+            successResponse(reply, { ...status, failedJobs });
+        } catch (error: unknown) {
+            errorResponse(reply, 'Failed to get scan queue status', 500, error);
+        }
+    });
+
+    /**
+     * POST /api/admin/storage-gc
+     * Run storage garbage collection now; only reports unless dry_run=false
+     */
+    fastify.post('/storage-gc', async (request: FastifyRequest, reply: FastifyReply) => {
+        try {
+            const query = request.query as { dry_run?: string; grace_hours?: string };
+            const graceHours = query.grace_hours !== undefined ? Number(query.grace_hours) : undefined;
+            if (graceHours !== undefined && (!Number.isFinite(graceHours) || graceHours < 1)) {
+                return badRequestResponse(reply, 'grace_hours must be at least 1');
+            }
+
+            const report = await storageGcService.run({
+                dryRun: query.dry_run !== 'false',
+                graceHours,
+            });
+            successResponse(reply, report);
+        } catch (error: unknown) {
+            errorResponse(reply, 'Failed to run storage garbage collection', 500, error);
+        }
+    });
+
+    /**
+     * POST /api/admin/subscriptions/process
+     * Process ended periods, grace periods and unpaid subscriptions now
+     */
+    fastify.post('/subscriptions/process', async (request: FastifyRequest, reply: FastifyReply) => {
+        try {
+            const report = await subscriptionService.run();
+            successResponse(reply, report);
+        } catch (error: unknown) {
+            errorResponse(reply, 'Failed to process subscriptions', 500, error);
+        }
+    });
+
+    /**
+     * GET /api/admin/security-suppressions
+     * Get security finding suppressions by status (default: pending)
+     */
+    fastify.get('/security-suppressions', async (request: FastifyRequest, reply: FastifyReply) => {
+        try {
+            const query = request.query as { status?: string; limit?: string; offset?: string };
+            const status = query.status || 'pending';
+            if (status !== 'pending' && status !== 'approved' && status !== 'rejected') {
+                return badRequestResponse(reply, 'Invalid status');
+            }
+
+            const suppressions = await findingSuppressionService.getSuppressionsByStatus(
+                status,
+                query.limit ? parseInt(query.limit, 10) : 50,
+                query.offset ? parseInt(query.offset, 10) : 0
+            );
+            successResponse(reply, { suppressions });
+        } catch (error: unknown) {
+            errorResponse(reply, 'Failed to get finding suppressions', 500, error);
+        }
+    });
+
+    /**
+     * POST /api/admin/security-suppressions/:id/approve
+     * Approve a finding suppression (the product or release is rescanned)
+     */
+    fastify.post('/security-suppressions/:id/approve', async (request: FastifyRequest, reply: FastifyReply) => {
+        try {
+            const userId = request.user?.userId;
+            if (!userId) {
+                return unauthorizedResponse(reply);
+            }
+
+            const { id } = request.params as { id: string };
+            const body = (request.body || {}) as { notes?: string };
+
+            const suppression = await findingSuppressionService.approveSuppression(id, userId, body.notes);
+            successResponse(reply, { suppression }, 'Suppression approved');
+        } catch (error: unknown) {
+            const { NotFoundError, DomainError } = await import('../shared/errors');
+            if (error instanceof NotFoundError) return notFoundResponse(reply, error.message);
+            if (error instanceof DomainError) return badRequestResponse(reply, error.message);
+            const message = error instanceof Error ? error.message : 'Failed to approve suppression';
+            badRequestResponse(reply, message);
+        }
+    });
+
+    /**
+     * POST /api/admin/security-suppressions/:id/reject
+     * Reject a finding suppression
+     */
+    fastify.post('/security-suppressions/:id/reject', async (request: FastifyRequest, reply: FastifyReply) => {
+        try {
+            const userId = request.user?.userId;
+            if (!userId) {
+                return unauthorizedResponse(reply);
+            }
+
+            const { id } = request.params as { id: string };
+            const body = (request.body || {}) as { notes?: string };
+
+            if (!body.notes || body.notes.trim().length === 0) {
+                return badRequestResponse(reply, 'Rejection notes are required');
+            }
+
+            const suppression = await findingSuppressionService.rejectSuppression(id, userId, body.notes);
+            successResponse(reply, { suppression }, 'Suppression rejected');
+        } catch (error: unknown) {
+            const { NotFoundError, DomainError } = await import('../shared/errors');
+            if (error instanceof NotFoundError) return notFoundResponse(reply, error.message);
+            if (error instanceof DomainError) return badRequestResponse(reply, error.message);
+            const message = error instanceof Error ? error.message : 'Failed to reject suppression';
+            badRequestResponse(reply, message);
+        }
+    });
+
     /**
      * PUT /api/admin/users/:id/role
      * Update user role
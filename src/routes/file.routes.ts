@@ -0,0 +1,39 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import fileAccessService from '../services/file-access.service';
+import { UPLOAD_BASE_URL } from '../config/env';
+import { sendStoredFile } from '../utils/send-file';
+import { errorResponse, unauthorizedResponse, notFoundResponse } from '../utils/response';
+import { NotFoundError, AuthenticationError, AuthorizationError } from '../shared/errors';
+import { JWTPayload } from '@gsnake/shared-types';
+
+export default async function fileRoutes(fastify: FastifyInstance) {
+    /**
+     * GET /uploads/*
+     * Serve a stored upload (supports Range requests)
+     * Thumbnails and screenshots are public; product artifacts require ownership, admin,
+     * a free published product, or a recorded download of a paid one
+     */
+    fastify.get('/*', async (request: FastifyRequest, reply: FastifyReply) => {
+        try {
+            const { '*': filePath } = request.params as { '*': string };
+
+            // Optional auth: try jwtVerify, ignore failure
+            let user: { userId: string; role?: string } | null = null;
+            try {
+                const token = await request.jwtVerify<JWTPayload>();
+                user = token.userId ? { userId: token.userId, role: token.role } : null;
+            } catch {
+                user = null;
+            }
+
+            const grant = await fileAccessService.authorize(`${UPLOAD_BASE_URL}/${filePath}`, user);
+
+            return await sendStoredFile(request, reply, grant);
+        } catch (error: unknown) {
+            if (error instanceof NotFoundError) return notFoundResponse(reply, error.message);
+            if (error instanceof AuthenticationError) return unauthorizedResponse(reply, error.message);
+            if (error instanceof AuthorizationError) return errorResponse(reply, error.message, 403);
+            errorResponse(reply, 'Failed to serve file', 500, error);
+        }
+    });
+}
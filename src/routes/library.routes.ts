@@ -0,0 +1,73 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import entitlementService, { LibraryItem } from '../services/entitlement.service';
+import { successResponse, errorResponse, unauthorizedResponse, notFoundResponse } from '../utils/response';
+import { ProductMapper } from '../application/mappers/product.mapper';
+import { NotFoundError } from '../shared/errors';
+
+/**
+ * The buyer's library: every product the user owns (purchased, claimed free, granted or subscribed)
+ */
+export default async function libraryRoutes(fastify: FastifyInstance) {
+    const toLibraryDto = (item: LibraryItem) => ({
+        product: ProductMapper.toResponseDto(item.product),
+        source: item.entitlement.source,
+        orderId: item.entitlement.order_id,
+        subscriptionId: item.entitlement.subscription_id,
+        grantedAt: item.entitlement.granted_at,
+    });
+
+    /**
+     * GET /api/library
+     * List the products the current user owns
+     */
+    fastify.get(
+        '/',
+        { preHandler: [fastify.authenticate] },
+        async (request: FastifyRequest, reply: FastifyReply) => {
+            try {
+                const userId = request.user?.userId;
+                if (!userId) {
+                    return unauthorizedResponse(reply);
+                }
+
+                const query = request.query as { limit?: string; offset?: string };
+                const limit = query.limit ? parseInt(query.limit, 10) : 50;
+                const offset = query.offset ? parseInt(query.offset, 10) : 0;
+
+                const result = await entitlementService.getLibrary(userId, limit, offset);
+                successResponse(reply, {
+                    items: result.items.map(toLibraryDto),
+                    total: result.total,
+                    limit,
+                    offset,
+                });
+            } catch (error: unknown) {
+                errorResponse(reply, 'Failed to get library', 500, error);
+            }
+        }
+    );
+
+    /**
+     * GET /api/library/:productId
+     * Get one owned product, or 404 if the user does not own it
+     */
+    fastify.get(
+        '/:productId',
+        { preHandler: [fastify.authenticate] },
+        async (request: FastifyRequest, reply: FastifyReply) => {
+            try {
+                const userId = request.user?.userId;
+                if (!userId) {
+                    return unauthorizedResponse(reply);
+                }
+
+                const { productId } = request.params as { productId: string };
+                const item = await entitlementService.getLibraryItem(userId, productId);
+                successResponse(reply, { item: toLibraryDto(item) });
+            } catch (error: unknown) {
+                if (error instanceof NotFoundError) return notFoundResponse(reply, error.message);
+                errorResponse(reply, 'Failed to get library item', 500, error);
+            }
+        }
+    );
+}
@@ -0,0 +1,151 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import n8nDeployService from '../services/n8n-deploy.service';
+import { successResponse, createdResponse, errorResponse, unauthorizedResponse, notFoundResponse } from '../utils/response';
+import { validate, createN8nInstanceSchema, updateN8nInstanceSchema } from '../middleware/validation.middleware';
+import { NotFoundError } from '../shared/errors';
+
+/**
+ * Buyers' own n8n instances used by POST /api/products/:productId/deploy
+ * API keys are write-only: responses only include their last 4 characters
+ */
+export default async function n8nInstanceRoutes(fastify: FastifyInstance) {
+    /**
+     * GET /api/n8n-instances
+     * List the current user's instances
+     */
+    fastify.get(
+        '/',
+        { preHandler: [fastify.authenticate] },
+        async (request: FastifyRequest, reply: FastifyReply) => {
+            try {
+                const userId = request.user?.userId;
+                if (!userId) {
+                    return unauthorizedResponse(reply);
+                }
+
+                const instances = await n8nDeployService.listInstances(userId);
+                successResponse(reply, { instances });
+            } catch (error: unknown) {
+                errorResponse(reply, 'Failed to get n8n instances', 500, error);
+            }
+        }
+    );
+
+    /**
+     * POST /api/n8n-instances
+     * Register an instance (base URL and API key are checked against the instance)
+     */
+    fastify.post(
+        '/',
+        { preHandler: [fastify.authenticate] },
+        async (request: FastifyRequest, reply: FastifyReply) => {
+            const userId = request.user?.userId;
+            if (!userId) {
+                return unauthorizedResponse(reply);
+            }
+
+            // Domain errors (URL not allowed, unreachable, bad API key) go to the error handler with their details
+            const body = validate(createN8nInstanceSchema, request.body);
+            const instance = await n8nDeployService.registerInstance(userId, body);
+            createdResponse(reply, { instance }, 'n8n instance registered');
+        }
+    );
+
+    /**
+     * PATCH /api/n8n-instances/:instanceId
+     * Rename an instance or change its URL / API key
+     */
+    fastify.patch(
+        '/:instanceId',
+        { preHandler: [fastify.authenticate] },
+        async (request: FastifyRequest, reply: FastifyReply) => {
+            try {
+                const userId = request.user?.userId;
+                if (!userId) {
+                    return unauthorizedResponse(reply);
+                }
+
+                const { instanceId } = request.params as { instanceId: string };
+                const body = validate(updateN8nInstanceSchema, request.body);
+
+                const instance = await n8nDeployService.updateInstance(userId, instanceId, body);
+                successResponse(reply, { instance }, 'n8n instance updated');
+            } catch (error: unknown) {
+                if (error instanceof NotFoundError) return notFoundResponse(reply, error.message);
+                throw error;
+            }
+        }
+    );
+
+    /**
+     * POST /api/n8n-instances/:instanceId/verify
+     * Check that the instance is reachable with its stored API key
+     */
+    fastify.post(
+        '/:instanceId/verify',
+        { preHandler: [fastify.authenticate] },
+        async (request: FastifyRequest, reply: FastifyReply) => {
+            try {
+                const userId = request.user?.userId;
+                if (!userId) {
+                    return unauthorizedResponse(reply);
+                }
+
+                const { instanceId } = request.params as { instanceId: string };
+
+                const instance = await n8nDeployService.verifyInstance(userId, instanceId);
+                successResponse(reply, { instance }, 'n8n instance is reachable');
+            } catch (error: unknown) {
+                if (error instanceof NotFoundError) return notFoundResponse(reply, error.message);
+                throw error;
+            }
+        }
+    );
+
+    /**
+     * DELETE /api/n8n-instances/:instanceId
+     * Remove an instance (its deployment history is kept)
+     */
+    fastify.delete(
+        '/:instanceId',
+        { preHandler: [fastify.authenticate] },
+        async (request: FastifyRequest, reply: FastifyReply) => {
+            try {
+                const userId = request.user?.userId;
+                if (!userId) {
+                    return unauthorizedResponse(reply);
+                }
+
+                const { instanceId } = request.params as { instanceId: string };
+
+                await n8nDeployService.deleteInstance(userId, instanceId);
+                successResponse(reply, null, 'n8n instance removed');
+            } catch (error: unknown) {
+                if (error instanceof NotFoundError) return notFoundResponse(reply, error.message);
+                errorResponse(reply, 'Failed to remove n8n instance', 500, error);
+            }
+        }
+    );
+
+    /**
+     * GET /api/n8n-instances/deployments
+     * The current user's workflow deployments across products
+     */
+    fastify.get(
+        '/deployments',
+        { preHandler: [fastify.authenticate] },
+        async (request: FastifyRequest, reply: FastifyReply) => {
+            try {
+                const userId = request.user?.userId;
+                if (!userId) {
+                    return unauthorizedResponse(reply);
+                }
+
+                const deployments = await n8nDeployService.getDeployments(userId);
+                successResponse(reply, { deployments });
+            } catch (error: unknown) {
+                errorResponse(reply, 'Failed to get deployments', 500, error);
+            }
+        }
+    );
+}
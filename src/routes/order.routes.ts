@@ -0,0 +1,144 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import orderService from '../services/order.service';
+import paymentService from '../services/payment.service';
+import { OrderStatus } from '../repositories/order.repository';
+import { successResponse, createdResponse, errorResponse, unauthorizedResponse, notFoundResponse, badRequestResponse } from '../utils/response';
+import { validate, createOrderSchema, checkoutOrderSchema } from '../middleware/validation.middleware';
+import { NotFoundError, DomainError } from '../shared/errors';
+
+/**
+ * Buyer orders of paid one-time products
+ * Orders stay pending until paid; paid orders add their products to GET /api/library.
+ * Checkout redirects the buyer to the payment provider; see payment.routes for the webhooks
+ */
+export default async function orderRoutes(fastify: FastifyInstance) {
+    /**
+     * GET /api/orders
+     * List the current user's orders (optional ?status=)
+     */
+    fastify.get(
+        '/',
+        { preHandler: [fastify.authenticate] },
+        async (request: FastifyRequest, reply: FastifyReply) => {
+            try {
+                const userId = request.user?.userId;
+                if (!userId) {
+                    return unauthorizedResponse(reply);
+                }
+
+                const query = request.query as { status?: string; limit?: string; offset?: string };
+                const orders = await orderService.getOrders(
+                    userId,
+                    query.status as OrderStatus | undefined,
+                    query.limit ? parseInt(query.limit, 10) : 50,
+                    query.offset ? parseInt(query.offset, 10) : 0
+                );
+                successResponse(reply, { orders });
+            } catch (error: unknown) {
+                errorResponse(reply, 'Failed to get orders', 500, error);
+            }
+        }
+    );
+
+    /**
+     * POST /api/orders
+     * Create a pending order for one or more products
+     */
+    fastify.post(
+        '/',
+        { preHandler: [fastify.authenticate] },
+        async (request: FastifyRequest, reply: FastifyReply) => {
+            try {
+                const userId = request.user?.userId;
+                if (!userId) {
+                    return unauthorizedResponse(reply);
+                }
+
+                const body = validate(createOrderSchema, request.body);
+                const order = await orderService.createOrder(userId, body.product_ids);
+                createdResponse(reply, { order }, 'Order created');
+            } catch (error: unknown) {
+                if (error instanceof NotFoundError) return notFoundResponse(reply, error.message);
+                // Domain errors keep their details (product ID, currencies) through the error handler
+                throw error;
+            }
+        }
+    );
+
+    /**
+     * GET /api/orders/:orderId
+     * Get one of the current user's orders with its items
+     */
+    fastify.get(
+        '/:orderId',
+        { preHandler: [fastify.authenticate] },
+        async (request: FastifyRequest, reply: FastifyReply) => {
+            try {
+                const userId = request.user?.userId;
+                if (!userId) {
+                    return unauthorizedResponse(reply);
+                }
+
+                const { orderId } = request.params as { orderId: string };
+                const order = await orderService.getOrder(orderId, { userId, role: request.user?.role });
+                successResponse(reply, { order });
+            } catch (error: unknown) {
+                if (error instanceof NotFoundError) return notFoundResponse(reply, error.message);
+                errorResponse(reply, 'Failed to get order', 500, error);
+            }
+        }
+    );
+
+    /**
+     * POST /api/orders/:orderId/cancel
+     * Cancel a pending order
+     */
+    fastify.post(
+        '/:orderId/cancel',
+        { preHandler: [fastify.authenticate] },
+        async (request: FastifyRequest, reply: FastifyReply) => {
+            try {
+                const userId = request.user?.userId;
+                if (!userId) {
+                    return unauthorizedResponse(reply);
+                }
+
+                const { orderId } = request.params as { orderId: string };
+                const order = await orderService.cancelOrder(orderId, userId);
+                successResponse(reply, { order }, 'Order cancelled');
+            } catch (error: unknown) {
+                if (error instanceof NotFoundError) return notFoundResponse(reply, error.message);
+                if (error instanceof DomainError) return badRequestResponse(reply, error.message);
+                errorResponse(reply, 'Failed to cancel order', 500, error);
+            }
+        }
+    );
+
+    /**
+     * POST /api/orders/:orderId/checkout
+     * Start paying a pending order; the client redirects the buyer to redirectUrl
+     * and the provider sends them back to return_url with ?payment_id=
+     */
+    fastify.post(
+        '/:orderId/checkout',
+        { preHandler: [fastify.authenticate] },
+        async (request: FastifyRequest, reply: FastifyReply) => {
+            try {
+                const userId = request.user?.userId;
+                if (!userId) {
+                    return unauthorizedResponse(reply);
+                }
+
+                const { orderId } = request.params as { orderId: string };
+                const body = validate(checkoutOrderSchema, request.body);
+
+                const result = await paymentService.createCheckout(orderId, userId, body.return_url, request.ip);
+                createdResponse(reply, { payment: result.payment, redirectUrl: result.redirectUrl }, 'Checkout started');
+            } catch (error: unknown) {
+                if (error instanceof NotFoundError) return notFoundResponse(reply, error.message);
+                // Domain errors keep their details through the error handler
+                throw error;
+            }
+        }
+    );
+}
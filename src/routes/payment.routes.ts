@@ -0,0 +1,81 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import paymentService from '../services/payment.service';
+import { successResponse, errorResponse, unauthorizedResponse, notFoundResponse } from '../utils/response';
+import { NotFoundError } from '../shared/errors';
+
+/**
+ * Order payments: status for the buyer's return page and provider webhooks
+ * Checkout itself starts at POST /api/orders/:orderId/checkout
+ */
+export default async function paymentRoutes(fastify: FastifyInstance) {
+    /**
+     * GET /api/payments/:paymentId
+     * Payment status for the return page (buyer); the order is paid once status is succeeded
+     */
+    fastify.get(
+        '/:paymentId',
+        { preHandler: [fastify.authenticate] },
+        async (request: FastifyRequest, reply: FastifyReply) => {
+            try {
+                const userId = request.user?.userId;
+                if (!userId) {
+                    return unauthorizedResponse(reply);
+                }
+
+                const { paymentId } = request.params as { paymentId: string };
+                const payment = await paymentService.getPayment(paymentId, { userId, role: request.user?.role });
+                successResponse(reply, { payment });
+            } catch (error: unknown) {
+                if (error instanceof NotFoundError) return notFoundResponse(reply, error.message);
+                errorResponse(reply, 'Failed to get payment', 500, error);
+            }
+        }
+    );
+
+    /**
+     * GET|POST /api/payments/webhooks/:provider
+     * Provider callbacks (VNPay IPN is a GET); signatures are checked against the raw body,
+     * and the reply format is the provider's own
+     */
+    await fastify.register(async function (fastify: FastifyInstance) {
+        fastify.addContentTypeParser('application/json', { parseAs: 'buffer' }, (_request, body, done) => done(null, body));
+        fastify.addContentTypeParser('*', { parseAs: 'buffer' }, (_request, body, done) => done(null, body));
+
+        fastify.route({
+            method: ['GET', 'POST'],
+            url: '/webhooks/:provider',
+            handler: async (request: FastifyRequest, reply: FastifyReply) => {
+                try {
+                    const { provider } = request.params as { provider: string };
+                    const result = await paymentService.handleWebhook(provider, {
+                        headers: request.headers,
+                        query: request.query as Record<string, string | undefined>,
+                        rawBody: Buffer.isBuffer(request.body) ? request.body : null,
+                    });
+                    return reply.status(result.statusCode).send(result.body);
+                } catch (error: unknown) {
+                    if (error instanceof NotFoundError) return notFoundResponse(reply, error.message);
+                    errorResponse(reply, 'Failed to process payment webhook', 500, error);
+                }
+            },
+        });
+    });
+
+    /**
+     * GET /api/payments/fake/checkout/:paymentId?outcome=succeeded|failed
+     * Hosted page of the fake provider (PAYMENT_PROVIDER=fake only): settles the payment
+     * through a signed webhook and sends the buyer back to the return URL
+     */
+    fastify.get('/fake/checkout/:paymentId', async (request: FastifyRequest, reply: FastifyReply) => {
+        try {
+            const { paymentId } = request.params as { paymentId: string };
+            const { outcome } = request.query as { outcome?: string };
+
+            const returnUrl = await paymentService.completeFakeCheckout(paymentId, outcome === 'failed' ? 'failed' : 'succeeded');
+            return reply.redirect(returnUrl, 303);
+        } catch (error: unknown) {
+            if (error instanceof NotFoundError) return notFoundResponse(reply, error.message);
+            errorResponse(reply, 'Failed to complete fake checkout', 500, error);
+        }
+    });
+}
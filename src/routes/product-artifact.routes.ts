@@ -2,10 +2,13 @@ import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
 import productArtifactRepository from '../repositories/product-artifact.repository';
 import productRepository from '../repositories/product.repository';
 import storageService from '../services/storage.service';
+import imageProcessingService from '../services/image-processing.service';
+import productReleaseService from '../services/product-release.service';
 import { successResponse, createdResponse, errorResponse, unauthorizedResponse, notFoundResponse, badRequestResponse } from '../utils/response';
 import { ArtifactType } from '@gsnake/shared-types';
 import { requireSeller } from '../middleware/auth.middleware';
-import { AuthorizationError, NotFoundError } from '../shared/errors';
+import { AuthorizationError, NotFoundError, DomainError, ERROR_CODES } from '../shared/errors';
+import { getArtifactUploadRule } from '../config/upload-limits';
 
 export default async function productArtifactRoutes(fastify: FastifyInstance) {
     /**
@@ -26,11 +29,15 @@ export default async function productArtifactRoutes(fastify: FastifyInstance) {
                 }
 
                 const { productId } = request.params as { productId: string };
-                const data = await request.file();
 
-                if (!data) {
-                    return badRequestResponse(reply, 'No file uploaded');
-                }
+                // Determine artifact type from query param (known before the file is read)
+                const queryParams = request.query as any;
+                const artifactTypeParam = queryParams.artifact_type as string || 'other';
+                const artifactType = artifactTypeParam as ArtifactType;
+                let version = queryParams.version as string | undefined;
+                const releaseId = queryParams.release_id as string | undefined;
+                const isPrimaryOverride = queryParams.is_primary !== undefined ? queryParams.is_primary === 'true' || queryParams.is_primary === true : undefined;
+                const uploadRule = getArtifactUploadRule(artifactType);
 
                 // Verify product exists and belongs to seller
                 const product = await productRepository.findById(productId);
@@ -42,19 +49,18 @@ export default async function productArtifactRoutes(fastify: FastifyInstance) {
                     return unauthorizedResponse(reply, 'You can only upload artifacts for your own products');
                 }
 
-                // Read file buffer
-                const chunks: Buffer[] = [];
-                for await (const chunk of data.file) {
-                    chunks.push(chunk);
+                // Artifacts can only be added to releases that are not submitted or approved yet
+                if (releaseId) {
+                    const release = await productReleaseService.getEditableRelease(productId, releaseId);
+                    version = release.version;
                 }
-                const buffer = Buffer.concat(chunks);
 
-                // Determine artifact type from filename or query param
-                const queryParams = request.query as any;
-                const artifactTypeParam = queryParams.artifact_type as string || 'other';
-                const artifactType = artifactTypeParam as ArtifactType;
-                const version = queryParams.version as string | undefined;
-                const isPrimaryOverride = queryParams.is_primary !== undefined ? queryParams.is_primary === 'true' || queryParams.is_primary === true : undefined;
+                // Let the parser stop just past the limit; uploadStream reports the overflow
+                const data = await request.file({ limits: { fileSize: uploadRule.maxBytes + 1 }, throwFileSizeLimit: false });
+
+                if (!data) {
+                    return badRequestResponse(reply, 'No file uploaded');
+                }
 
                 // Determine storage subdirectory based on artifact type
                 let storageSubdir: 'artifacts' | 'thumbnails' | 'screenshots' = 'artifacts';
@@ -64,13 +70,25 @@ export default async function productArtifactRoutes(fastify: FastifyInstance) {
                     storageSubdir = 'screenshots';
                 }
 
-                // Upload file
-                const uploadResult = await storageService.uploadFile(
-                    buffer,
+                // Stream file to storage (size, type and checksum are checked on the fly)
+                let uploadResult = await storageService.uploadStream(
+                    data.file,
                     data.filename,
-                    storageSubdir
+                    storageSubdir,
+                    uploadRule
                 );
 
+                // Images: strip metadata and generate WebP renditions
+                let metadata: Record<string, any> | undefined;
+                if (storageSubdir !== 'artifacts') {
+                    const image = await imageProcessingService.processUpload(uploadResult.fileUrl, data.filename, storageSubdir);
+                    uploadResult = image.original;
+                    metadata = {
+                        image: { width: image.width, height: image.height, format: image.format },
+                        renditions: image.renditions,
+                    };
+                }
+
                 // Determine if this is primary artifact
                 const isPrimary = isPrimaryOverride !== undefined
                     ? Boolean(isPrimaryOverride)
@@ -87,19 +105,33 @@ export default async function productArtifactRoutes(fastify: FastifyInstance) {
                     checksum: uploadResult.checksum,
                     is_primary: isPrimary,
                     version: version || undefined,
+                    metadata,
+                    release_id: releaseId || null,
                 });
 
+                if (metadata) {
+                    await productRepository.setImageRenditions(productId, artifact.file_url, metadata.renditions);
+                }
+
                 // Queue security scan for product (async, non-blocking)
-                try {
-                    const securityScanService = (await import('../services/security-scan.service')).default;
-                    securityScanService.queueScan(productId, 1); // Priority 1 for new artifacts
-                } catch (error) {
-                    // Log error but don't fail upload
-                    console.error('Failed to queue security scan:', error);
+                // Release artifacts are scanned when the release is submitted
+                if (!releaseId) {
+                    try {
+                        const securityScanService = (await import('../services/security-scan.service')).default;
+                        await securityScanService.queueScan(productId, 1); // Priority 1 for new artifacts
+                    } catch (error) {
+                        // Log error but don't fail upload
+                        console.error('Failed to queue security scan:', error);
+                    }
                 }
 
                 successResponse(reply, { artifact }, 'Artifact uploaded successfully');
             } catch (error: unknown) {
+                if (error instanceof NotFoundError) return notFoundResponse(reply, error.message);
+                if (error instanceof DomainError) {
+                    const statusCode = error.code === ERROR_CODES.UPLOAD_TOO_LARGE ? 413 : 400;
+                    return errorResponse(reply, error.message, statusCode);
+                }
                 const message = error instanceof Error ? error.message : 'Failed to upload artifact';
                 errorResponse(reply, message, 500, error);
             }
@@ -128,7 +160,10 @@ export default async function productArtifactRoutes(fastify: FastifyInstance) {
                 return unauthorizedResponse(reply, 'Product not available');
             }
 
-            const artifacts = await productArtifactRepository.findByProductId(productId);
+            // Buyers only see what they can currently get; releases are listed separately
+            const artifacts = isSeller
+                ? await productArtifactRepository.findByProductId(productId)
+                : await productArtifactRepository.findLiveByProductId(productId);
 
             successResponse(reply, { artifacts });
         } catch (error: unknown) {
@@ -168,14 +203,26 @@ export default async function productArtifactRoutes(fastify: FastifyInstance) {
                     return notFoundResponse(reply, 'Artifact not found');
                 }
 
-                // Delete file from storage
+                // Submitted and approved releases are immutable
+                const releaseId = artifact.release_id;
+                if (releaseId) {
+                    await productReleaseService.getEditableRelease(productId, releaseId);
+                }
+
+                // Delete file (and image renditions) from storage
                 await storageService.deleteFile(artifact.file_url);
+                if (artifact.metadata?.renditions) {
+                    await imageProcessingService.deleteRenditions(artifact.metadata);
+                    await productRepository.removeImageRenditions(productId, artifact.file_url);
+                }
 
                 // Delete artifact record
                 await productArtifactRepository.delete(artifactId);
 
                 successResponse(reply, null, 'Artifact deleted successfully');
             } catch (error: unknown) {
+                if (error instanceof NotFoundError) return notFoundResponse(reply, error.message);
+                if (error instanceof DomainError) return badRequestResponse(reply, error.message);
                 errorResponse(reply, 'Failed to delete artifact', 500, error);
             }
         }
@@ -0,0 +1,59 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import n8nDeployService from '../services/n8n-deploy.service';
+import { successResponse, createdResponse, errorResponse, unauthorizedResponse, notFoundResponse } from '../utils/response';
+import { validate, deployWorkflowSchema } from '../middleware/validation.middleware';
+import { NotFoundError, AuthorizationError } from '../shared/errors';
+
+export default async function productDeployRoutes(fastify: FastifyInstance) {
+    /**
+     * POST /api/products/:productId/deploy
+     * Import a purchased workflow into one of the buyer's n8n instances
+     * Returns the new workflow's URL and the credential types still to be created there
+     */
+    fastify.post(
+        '/:productId/deploy',
+        { preHandler: [fastify.authenticate] },
+        async (request: FastifyRequest, reply: FastifyReply) => {
+            try {
+                const userId = request.user?.userId;
+                if (!userId) {
+                    return unauthorizedResponse(reply);
+                }
+
+                const { productId } = request.params as { productId: string };
+                const body = validate(deployWorkflowSchema, request.body);
+
+                const result = await n8nDeployService.deployWorkflow(userId, productId, body.instance_id);
+                createdResponse(reply, result, 'Workflow deployed');
+            } catch (error: unknown) {
+                if (error instanceof NotFoundError) return notFoundResponse(reply, error.message);
+                if (error instanceof AuthorizationError) return errorResponse(reply, error.message, 403);
+                // Domain errors (unreachable instance, rejected import, ...) carry details for the client
+                throw error;
+            }
+        }
+    );
+
+    /**
+     * GET /api/products/:productId/deployments
+     * The current user's deployments of a product
+     */
+    fastify.get(
+        '/:productId/deployments',
+        { preHandler: [fastify.authenticate] },
+        async (request: FastifyRequest, reply: FastifyReply) => {
+            try {
+                const userId = request.user?.userId;
+                if (!userId) {
+                    return unauthorizedResponse(reply);
+                }
+
+                const { productId } = request.params as { productId: string };
+                const deployments = await n8nDeployService.getDeployments(userId, productId);
+                successResponse(reply, { deployments });
+            } catch (error: unknown) {
+                errorResponse(reply, 'Failed to get deployments', 500, error);
+            }
+        }
+    );
+}
@@ -0,0 +1,90 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import subscriptionService from '../services/subscription.service';
+import { successResponse, createdResponse, errorResponse, unauthorizedResponse, notFoundResponse, badRequestResponse } from '../utils/response';
+import { requireSeller } from '../middleware/auth.middleware';
+import { validate, createSubscriptionPlanSchema, updateSubscriptionPlanSchema } from '../middleware/validation.middleware';
+import { NotFoundError, AuthorizationError, DomainError } from '../shared/errors';
+import { JWTPayload } from '@gsnake/shared-types';
+
+export default async function productPlanRoutes(fastify: FastifyInstance) {
+    /**
+     * GET /api/products/:productId/plans
+     * List subscription plans (public: active plans only; seller/admin: all)
+     */
+    fastify.get('/:productId/plans', async (request: FastifyRequest, reply: FastifyReply) => {
+        try {
+            const { productId } = request.params as { productId: string };
+
+            let viewer: { userId: string; role?: string } | null = null;
+            // Optional auth: try jwtVerify, ignore failure
+            try {
+                const token = await request.jwtVerify<JWTPayload>();
+                viewer = token.userId ? { userId: token.userId, role: token.role } : null;
+            } catch {
+                viewer = null;
+            }
+
+            const plans = await subscriptionService.getPlans(productId, viewer);
+            successResponse(reply, { plans });
+        } catch (error: unknown) {
+            if (error instanceof NotFoundError) return notFoundResponse(reply, error.message);
+            errorResponse(reply, 'Failed to get plans', 500, error);
+        }
+    });
+
+    /**
+     * POST /api/products/:productId/plans
+     * Add a plan to a subscription product (seller)
+     */
+    fastify.post(
+        '/:productId/plans',
+        { preHandler: [fastify.authenticate, requireSeller] },
+        async (request: FastifyRequest, reply: FastifyReply) => {
+            try {
+                const userId = request.user?.userId;
+                if (!userId) {
+                    return unauthorizedResponse(reply);
+                }
+
+                const { productId } = request.params as { productId: string };
+                const body = validate(createSubscriptionPlanSchema, request.body);
+
+                const plan = await subscriptionService.createPlan(productId, userId, body);
+                createdResponse(reply, { plan }, 'Plan created');
+            } catch (error: unknown) {
+                if (error instanceof NotFoundError) return notFoundResponse(reply, error.message);
+                if (error instanceof AuthorizationError) return unauthorizedResponse(reply, error.message);
+                if (error instanceof DomainError) return badRequestResponse(reply, error.message);
+                throw error;
+            }
+        }
+    );
+
+    /**
+     * PATCH /api/products/:productId/plans/:planId
+     * Update a plan's name, price or trial, or (de)activate it (seller)
+     */
+    fastify.patch(
+        '/:productId/plans/:planId',
+        { preHandler: [fastify.authenticate, requireSeller] },
+        async (request: FastifyRequest, reply: FastifyReply) => {
+            try {
+                const userId = request.user?.userId;
+                if (!userId) {
+                    return unauthorizedResponse(reply);
+                }
+
+                const { productId, planId } = request.params as { productId: string; planId: string };
+                const body = validate(updateSubscriptionPlanSchema, request.body);
+
+                const plan = await subscriptionService.updatePlan(productId, planId, userId, body);
+                successResponse(reply, { plan }, 'Plan updated');
+            } catch (error: unknown) {
+                if (error instanceof NotFoundError) return notFoundResponse(reply, error.message);
+                if (error instanceof AuthorizationError) return unauthorizedResponse(reply, error.message);
+                if (error instanceof DomainError) return badRequestResponse(reply, error.message);
+                throw error;
+            }
+        }
+    );
+}
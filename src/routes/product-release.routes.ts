@@ -0,0 +1,201 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import productReleaseService from '../services/product-release.service';
+import productService from '../services/product.service';
+import { successResponse, createdResponse, errorResponse, unauthorizedResponse, notFoundResponse, badRequestResponse } from '../utils/response';
+import { requireSeller } from '../middleware/auth.middleware';
+import { validate, createReleaseSchema, updateReleaseSchema } from '../middleware/validation.middleware';
+import { NotFoundError, AuthorizationError, AuthenticationError, DomainError } from '../shared/errors';
+import { JWTPayload } from '@gsnake/shared-types';
+
+export default async function productReleaseRoutes(fastify: FastifyInstance) {
+    /**
+     * GET /api/products/:productId/releases
+     * List releases with their artifacts (public: approved releases only; seller/admin: all)
+     */
+    fastify.get('/:productId/releases', async (request: FastifyRequest, reply: FastifyReply) => {
+        try {
+            const { productId } = request.params as { productId: string };
+
+            let viewer: { userId: string; role?: string } | null = null;
+            // Optional auth: try jwtVerify, ignore failure
+            try {
+                const token = await request.jwtVerify<JWTPayload>();
+                viewer = token.userId ? { userId: token.userId, role: token.role } : null;
+            } catch {
+                viewer = null;
+            }
+
+            const releases = await productReleaseService.getReleases(productId, viewer);
+            successResponse(reply, { releases });
+        } catch (error: unknown) {
+            if (error instanceof NotFoundError) return notFoundResponse(reply, error.message);
+            errorResponse(reply, 'Failed to get releases', 500, error);
+        }
+    });
+
+    /**
+     * POST /api/products/:productId/releases
+     * Create a draft release (seller); artifacts are uploaded with ?release_id=
+     */
+    fastify.post(
+        '/:productId/releases',
+        { preHandler: [fastify.authenticate, requireSeller] },
+        async (request: FastifyRequest, reply: FastifyReply) => {
+            try {
+                const userId = request.user?.userId;
+                if (!userId) {
+                    return unauthorizedResponse(reply);
+                }
+
+                const { productId } = request.params as { productId: string };
+                const body = validate(createReleaseSchema, request.body);
+
+                const release = await productReleaseService.createRelease(productId, userId, body);
+                createdResponse(reply, { release }, 'Release created');
+            } catch (error: unknown) {
+                if (error instanceof NotFoundError) return notFoundResponse(reply, error.message);
+                if (error instanceof AuthorizationError) return unauthorizedResponse(reply, error.message);
+                if (error instanceof DomainError) return badRequestResponse(reply, error.message);
+                throw error;
+            }
+        }
+    );
+
+    /**
+     * PATCH /api/products/:productId/releases/:releaseId
+     * Update release notes of a draft or rejected release (seller)
+     */
+    fastify.patch(
+        '/:productId/releases/:releaseId',
+        { preHandler: [fastify.authenticate, requireSeller] },
+        async (request: FastifyRequest, reply: FastifyReply) => {
+            try {
+                const userId = request.user?.userId;
+                if (!userId) {
+                    return unauthorizedResponse(reply);
+                }
+
+                const { productId, releaseId } = request.params as { productId: string; releaseId: string };
+                const body = validate(updateReleaseSchema, request.body);
+
+                const release = await productReleaseService.updateRelease(productId, releaseId, userId, body);
+                successResponse(reply, { release }, 'Release updated');
+            } catch (error: unknown) {
+                if (error instanceof NotFoundError) return notFoundResponse(reply, error.message);
+                if (error instanceof AuthorizationError) return unauthorizedResponse(reply, error.message);
+                if (error instanceof DomainError) return badRequestResponse(reply, error.message);
+                throw error;
+            }
+        }
+    );
+
+    /**
+     * DELETE /api/products/:productId/releases/:releaseId
+     * Delete a draft or rejected release and its artifacts (seller)
+     */
+    fastify.delete(
+        '/:productId/releases/:releaseId',
+        { preHandler: [fastify.authenticate, requireSeller] },
+        async (request: FastifyRequest, reply: FastifyReply) => {
+            try {
+                const userId = request.user?.userId;
+                if (!userId) {
+                    return unauthorizedResponse(reply);
+                }
+
+                const { productId, releaseId } = request.params as { productId: string; releaseId: string };
+
+                await productReleaseService.deleteRelease(productId, releaseId, userId);
+                successResponse(reply, null, 'Release deleted');
+            } catch (error: unknown) {
+                if (error instanceof NotFoundError) return notFoundResponse(reply, error.message);
+                if (error instanceof AuthorizationError) return unauthorizedResponse(reply, error.message);
+                if (error instanceof DomainError) return badRequestResponse(reply, error.message);
+                errorResponse(reply, 'Failed to delete release', 500, error);
+            }
+        }
+    );
+
+    /**
+     * POST /api/products/:productId/releases/:releaseId/submit
+     * Submit a release for review; only this release is scanned and reviewed (seller)
+     */
+    fastify.post(
+        '/:productId/releases/:releaseId/submit',
+        { preHandler: [fastify.authenticate, requireSeller] },
+        async (request: FastifyRequest, reply: FastifyReply) => {
+            try {
+                const userId = request.user?.userId;
+                if (!userId) {
+                    return unauthorizedResponse(reply);
+                }
+
+                const { productId, releaseId } = request.params as { productId: string; releaseId: string };
+
+                const release = await productReleaseService.submitRelease(productId, releaseId, userId);
+                successResponse(reply, { release }, 'Release submitted for review');
+            } catch (error: unknown) {
+                if (error instanceof NotFoundError) return notFoundResponse(reply, error.message);
+                if (error instanceof AuthorizationError) return unauthorizedResponse(reply, error.message);
+                if (error instanceof DomainError) return badRequestResponse(reply, error.message);
+                errorResponse(reply, 'Failed to submit release', 500, error);
+            }
+        }
+    );
+
+    /**
+     * POST /api/products/:productId/releases/:releaseId/current
+     * Make an approved release the one buyers get by default (seller)
+     */
+    fastify.post(
+        '/:productId/releases/:releaseId/current',
+        { preHandler: [fastify.authenticate, requireSeller] },
+        async (request: FastifyRequest, reply: FastifyReply) => {
+            try {
+                const userId = request.user?.userId;
+                if (!userId) {
+                    return unauthorizedResponse(reply);
+                }
+
+                const { productId, releaseId } = request.params as { productId: string; releaseId: string };
+
+                const release = await productReleaseService.setCurrentRelease(productId, releaseId, userId);
+                successResponse(reply, { release }, 'Current release updated');
+            } catch (error: unknown) {
+                if (error instanceof NotFoundError) return notFoundResponse(reply, error.message);
+                if (error instanceof AuthorizationError) return unauthorizedResponse(reply, error.message);
+                if (error instanceof DomainError) return badRequestResponse(reply, error.message);
+                errorResponse(reply, 'Failed to update current release', 500, error);
+            }
+        }
+    );
+
+    /**
+     * POST /api/products/:productId/releases/:releaseId/download
+     * Create a signed download URL for a specific release
+     * Releases of paid products require a buyer who owns the product
+     */
+    fastify.post('/:productId/releases/:releaseId/download', async (request: FastifyRequest, reply: FastifyReply) => {
+        try {
+            const { productId, releaseId } = request.params as { productId: string; releaseId: string };
+
+            let buyerId: string | null = null;
+            // Optional auth: try jwtVerify, ignore failure
+            try {
+                const token = await request.jwtVerify<JWTPayload>();
+                buyerId = token.userId || null;
+            } catch {
+                buyerId = null;
+            }
+
+            const result = await productService.createDownloadLink(productId, buyerId, releaseId);
+            successResponse(reply, { downloadUrl: result.url, expiresAt: result.expiresAt });
+        } catch (error: unknown) {
+            if (error instanceof NotFoundError) return notFoundResponse(reply, error.message);
+            if (error instanceof AuthenticationError) return unauthorizedResponse(reply, error.message);
+            if (error instanceof AuthorizationError) return errorResponse(reply, error.message, 403);
+            if (error instanceof DomainError) return badRequestResponse(reply, error.message);
+            errorResponse(reply, 'Failed to create download link', 500, error);
+        }
+    });
+}
@@ -1,20 +1,30 @@
 import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
 import productWorkflowRepository from '../repositories/product-workflow.repository';
 import productRepository from '../repositories/product.repository';
-import workflowValidationService from '../services/workflow-validation.service';
+import workflowValidationService, { WorkflowValidationResult } from '../services/workflow-validation.service';
 import storageService from '../services/storage.service';
+import workflowSanitizerService, { SanitizedWorkflowFile } from '../services/workflow-sanitizer.service';
+import workflowSetupGuideService from '../services/workflow-setup-guide.service';
+import productArtifactRepository from '../repositories/product-artifact.repository';
 import { validate } from '../middleware/validation.middleware';
 import { z } from 'zod';
+import semver from 'semver';
+import { createHash } from 'crypto';
 import { successResponse, createdResponse, errorResponse, unauthorizedResponse, notFoundResponse, badRequestResponse } from '../utils/response';
 import { requireSeller } from '../middleware/auth.middleware';
 import { ProductType } from '@gsnake/shared-types';
+import { DomainError, NotFoundError, ERROR_CODES } from '../shared/errors';
 
 // Schema for workflow details
 const createWorkflowDetailsSchema = z.object({
     n8n_version: z.string().optional(),
-    workflow_json_url: z.string().url().optional(),
+    // Stored upload URL ("<UPLOAD_BASE_URL>/artifacts/..."), as returned by the artifact upload
+    workflow_json_url: z.string()
+        .refine(url => storageService.isStoredFileUrl(url), 'workflow_json_url must point at an uploaded file')
+        .optional(),
     env_example_url: z.string().url().optional(),
     readme_url: z.string().url().optional(),
+    sanitize: z.boolean().optional(), // Strip credentials and instance data from workflow_json_url
 });
 
 const updateWorkflowDetailsSchema = createWorkflowDetailsSchema.partial();
@@ -23,6 +33,11 @@ export default async function productWorkflowRoutes(fastify: FastifyInstance) {
     /**
      * POST /api/products/:productId/workflow-details
      * Create or update workflow-specific details
+     * An invalid workflow JSON is rejected with structured issues ({ code, severity, message, nodes })
+     * in details.errors / details.warnings; warnings of a saved workflow are returned in validation.warnings
+     * workflow_json_url must be the file URL of one of the product's artifacts.
+     * With sanitize: true the stored workflow is a copy without credential references, pinned data,
+     * instance ids, static data and the seller's webhook ids; the uploaded original is deleted
      */
     fastify.post(
         '/:productId/workflow-details',
@@ -35,7 +50,7 @@ export default async function productWorkflowRoutes(fastify: FastifyInstance) {
                 }
 
                 const { productId } = request.params as { productId: string };
-                const data = validate(createWorkflowDetailsSchema, request.body);
+                const { sanitize, ...data } = validate(createWorkflowDetailsSchema, request.body);
 
                 // Verify product exists, belongs to seller, and is workflow type
                 const product = await productRepository.findById(productId);
@@ -51,6 +66,10 @@ export default async function productWorkflowRoutes(fastify: FastifyInstance) {
                     return badRequestResponse(reply, 'Product is not a workflow type');
                 }
 
+                if (sanitize && !data.workflow_json_url) {
+                    return badRequestResponse(reply, 'sanitize requires workflow_json_url');
+                }
+
                 // Check if workflow details already exist
                 const existing = await productWorkflowRepository.findByProductId(productId);
 
@@ -59,25 +78,81 @@ export default async function productWorkflowRoutes(fastify: FastifyInstance) {
                     ...data,
                 };
 
+                // Seller-declared version is kept only as "major.minor.patch"
+                let declaredVersion: string | null = null;
+                if (data.n8n_version !== undefined) {
+                    declaredVersion = workflowValidationService.normalizeN8nVersion(data.n8n_version);
+                    if (!declaredVersion) {
+                        return badRequestResponse(reply, `Invalid n8n version: ${data.n8n_version}`);
+                    }
+                    workflowData.n8n_version = declaredVersion;
+                }
+
                 // If workflow_json_url is provided, validate the workflow JSON
+                let validation: WorkflowValidationResult | undefined;
+                let sanitized: SanitizedWorkflowFile | undefined;
+                let workflowJson: any;
                 if (data.workflow_json_url) {
-                    try {
-                        const workflowBuffer = await storageService.readFile(data.workflow_json_url);
-                        const workflowJson = JSON.parse(workflowBuffer.toString());
-                        const validation = workflowValidationService.validateWorkflowJson(workflowJson);
-
-                        if (!validation.valid) {
-                            return badRequestResponse(reply, `Invalid workflow JSON: ${validation.errors.join(', ')}`);
-                        }
+                    // Only this product's own artifacts may be read, sanitized or replaced
+                    const workflowArtifact = await productArtifactRepository.findByFileUrl(data.workflow_json_url);
+                    if (!workflowArtifact || workflowArtifact.product_id !== productId) {
+                        return badRequestResponse(reply, 'workflow_json_url is not an artifact of this product');
+                    }
 
-                        // Extract metadata if validation passed
-                        const metadata = workflowValidationService.extractWorkflowMetadata(workflowJson);
-                        workflowData.nodes_count = metadata.nodesCount;
-                        workflowData.triggers = metadata.triggers;
-                        workflowData.credentials_required = metadata.credentials;
+                    let workflowBuffer: Buffer;
+                    try {
+                        workflowBuffer = await storageService.readFile(data.workflow_json_url);
+                        workflowJson = JSON.parse(workflowBuffer.toString());
                     } catch (error: any) {
                         return badRequestResponse(reply, `Failed to validate workflow JSON: ${error.message}`);
                     }
+
+                    validation = workflowValidationService.validateWorkflowJson(workflowJson);
+                    if (!validation.valid || !validation.metadata) {
+                        throw new DomainError(ERROR_CODES.WORKFLOW_INVALID, {
+                            errors: validation.issues.filter(issue => issue.severity === 'error'),
+                            warnings: validation.issues.filter(issue => issue.severity === 'warning'),
+                        });
+                    }
+
+                    // Store metadata of the validated workflow
+                    const metadata = validation.metadata;
+                    workflowData.nodes_count = metadata.nodesCount;
+                    workflowData.triggers = metadata.triggers;
+                    workflowData.credentials_required = metadata.credentials;
+                    workflowData.n8n_compatibility = metadata.n8nCompatibility || null;
+
+                    const checksum = createHash('sha256').update(workflowBuffer).digest('hex');
+                    workflowData.workflow_file_checksum = checksum;
+                    workflowData.original_file_checksum = checksum;
+                    workflowData.sanitized_at = null;
+                    workflowData.sanitization_report = null;
+
+                    // Store a sanitized copy and point the workflow (and its artifact) at it
+                    if (sanitize) {
+                        sanitized = await workflowSanitizerService.sanitizeFile(workflowArtifact, workflowBuffer);
+                        workflowData.workflow_json_url = sanitized.fileUrl;
+                        workflowData.workflow_file_checksum = sanitized.checksum;
+                        workflowData.sanitized_at = new Date();
+                        workflowData.sanitization_report = sanitized.report;
+                    }
+                }
+
+                // The stored version is the minimum the nodes require; sellers may only raise it
+                const inferredVersion: string | undefined = workflowData.n8n_compatibility !== undefined
+                    ? workflowData.n8n_compatibility?.minVersion
+                    : (existing as any)?.n8n_compatibility?.minVersion;
+                if (inferredVersion && (declaredVersion || data.workflow_json_url)) {
+                    workflowData.n8n_version = declaredVersion && semver.gt(declaredVersion, inferredVersion)
+                        ? declaredVersion
+                        : inferredVersion;
+                }
+
+                // Setup guide of the stored JSON, with the version buyers are told to use
+                if (workflowJson) {
+                    workflowData.setup_guide = workflowSetupGuideService.generate(sanitized?.workflowJson || workflowJson, {
+                        n8nVersion: workflowData.n8n_version,
+                    });
                 }
 
                 let workflow;
@@ -96,8 +171,40 @@ export default async function productWorkflowRoutes(fastify: FastifyInstance) {
                     return errorResponse(reply, 'Failed to save workflow details', 500);
                 }
 
-                successResponse(reply, { workflow }, 'Workflow details saved successfully');
+                if (sanitized && data.workflow_json_url) {
+                    // The seller's export still holds credential and instance data
+                    try {
+                        await storageService.deleteFile(data.workflow_json_url);
+                    } catch (error) {
+                        console.error('Failed to delete original workflow file:', error);
+                    }
+
+                    // The artifact's file changed; release artifacts are scanned when the release is submitted
+                    const artifact = await productArtifactRepository.findById(sanitized.artifactId);
+                    if (artifact && !artifact.release_id) {
+                        try {
+                            const securityScanService = (await import('../services/security-scan.service')).default;
+                            await securityScanService.queueScan(productId, 1);
+                        } catch (error) {
+                            // Log error but don't fail the update
+                            console.error('Failed to queue security scan:', error);
+                        }
+                    }
+                }
+
+                successResponse(
+                    reply,
+                    {
+                        workflow,
+                        ...(validation && {
+                            validation: { warnings: validation.issues.filter(issue => issue.severity === 'warning') },
+                        }),
+                    },
+                    'Workflow details saved successfully'
+                );
             } catch (error: unknown) {
+                if (error instanceof NotFoundError) return notFoundResponse(reply, error.message);
+                if (error instanceof DomainError) throw error;
                 const message = error instanceof Error ? error.message : 'Failed to save workflow details';
                 errorResponse(reply, message, 500, error);
             }
@@ -1,17 +1,20 @@
 import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
 import productService from '../services/product.service';
+import workflowValidationService from '../services/workflow-validation.service';
 import { validate, createProductSchema, updateProductSchema } from '../middleware/validation.middleware';
 import { successResponse, createdResponse, errorResponse, unauthorizedResponse, notFoundResponse, badRequestResponse } from '../utils/response';
-import { ProductType, ProductStatus, CreateProductInput, UpdateProductInput } from '@gsnake/shared-types';
+import { ProductType, ProductStatus, CreateProductInput, UpdateProductInput, JWTPayload } from '@gsnake/shared-types';
 import { ProductMapper } from '../application/mappers/product.mapper';
 import { z } from 'zod';
 import { requireSeller } from '../middleware/auth.middleware';
+import { sendStoredFile, requestedRange } from '../utils/send-file';
 
 export default async function productRoutes(fastify: FastifyInstance) {
     /**
      * GET /api/products
      * Get all products (public - only published)
-     * Query params: type, search, tags, limit, offset, sort_by, sort_order
+     * Query params: type, search, tags, limit, offset, sort_by, sort_order,
+     * n8n_version (only workflows that run on that n8n version)
      */
     fastify.get('/', async (request: FastifyRequest, reply: FastifyReply) => {
         try {
@@ -26,8 +29,17 @@ export default async function productRoutes(fastify: FastifyInstance) {
                 is_free?: string;
                 sort_by?: string;
                 sort_order?: string;
+                n8n_version?: string;
             };
 
+            let n8nVersion: string | undefined;
+            if (query.n8n_version) {
+                n8nVersion = workflowValidationService.normalizeN8nVersion(query.n8n_version) || undefined;
+                if (!n8nVersion) {
+                    return badRequestResponse(reply, `Invalid n8n version: ${query.n8n_version}`);
+                }
+            }
+
             const filters = {
                 type: query.type as ProductType | undefined,
                 seller_id: query.seller_id,
@@ -39,6 +51,7 @@ export default async function productRoutes(fastify: FastifyInstance) {
                 is_free: query.is_free === 'true' ? true : query.is_free === 'false' ? false : undefined,
                 sort_by: (query.sort_by as 'created_at' | 'rating' | 'downloads' | 'sales_count' | 'price') || 'created_at',
                 sort_order: (query.sort_order as 'asc' | 'desc') || 'desc',
+                n8n_version: n8nVersion,
             };
 
             const result = await productService.getProducts(filters);
@@ -162,30 +175,60 @@ export default async function productRoutes(fastify: FastifyInstance) {
 
     /**
      * POST /api/products/:id/download
-     * Log download (public), returns file URL; increments downloads and optional sales_count
+     * Create a short-lived signed download URL (auth optional for free products;
+     * paid products require a buyer who owns the product)
      */
     fastify.post('/:id/download', async (request: FastifyRequest, reply: FastifyReply) => {
         try {
             const { id } = request.params as { id: string };
-            const body = request.body as { type?: string };
-            const type = body?.type === 'manual' ? 'manual' : 'free';
 
             let buyerId: string | null = null;
             // Optional auth: try jwtVerify, ignore failure
             try {
-                const token = await request.jwtVerify();
-                buyerId = (token as any).userId || null;
+                const token = await request.jwtVerify<JWTPayload>();
+                buyerId = token.userId || null;
             } catch {
                 buyerId = null;
             }
 
-            const result = await productService.recordDownloadWithLog(id, buyerId, type as any);
-            successResponse(reply, { downloadUrl: result.url });
+            const result = await productService.createDownloadLink(id, buyerId);
+            successResponse(reply, { downloadUrl: result.url, expiresAt: result.expiresAt });
         } catch (error: unknown) {
-            const { NotFoundError, DomainError } = await import('../shared/errors');
+            const { NotFoundError, DomainError, AuthenticationError, AuthorizationError } = await import('../shared/errors');
             if (error instanceof NotFoundError) return notFoundResponse(reply, error.message);
+            if (error instanceof AuthenticationError) return unauthorizedResponse(reply, error.message);
+            if (error instanceof AuthorizationError) return errorResponse(reply, error.message, 403);
             if (error instanceof DomainError) return badRequestResponse(reply, error.message);
-            errorResponse(reply, 'Failed to record download', 500, error);
+            errorResponse(reply, 'Failed to create download link', 500, error);
+        }
+    });
+
+    /**
+     * GET /api/products/:id/download?token=
+     * Verify a signed download URL, log the download and stream the file (supports Range)
+     */
+    fastify.get('/:id/download', async (request: FastifyRequest, reply: FastifyReply) => {
+        try {
+            const { id } = request.params as { id: string };
+            const { token } = request.query as { token?: string };
+            if (!token) {
+                return badRequestResponse(reply, 'Download token is required');
+            }
+
+            const { file, download } = await productService.redeemDownloadLink(id, token);
+
+            // Log once per download, not for HEAD or resumed (ranged) requests
+            const range = requestedRange(request, file);
+            if (request.method === 'GET' && (range === null || (range !== 'unsatisfiable' && range.start === 0))) {
+                await productService.logDownload(download);
+            }
+
+            return await sendStoredFile(request, reply, file);
+        } catch (error: unknown) {
+            const { NotFoundError, AuthorizationError } = await import('../shared/errors');
+            if (error instanceof NotFoundError) return notFoundResponse(reply, error.message);
+            if (error instanceof AuthorizationError) return errorResponse(reply, error.message, 403);
+            errorResponse(reply, 'Failed to download file', 500, error);
         }
     });
 
@@ -419,12 +462,30 @@ export default async function productRoutes(fastify: FastifyInstance) {
         await artifactRoutes(fastify);
     });
 
+    // Register release routes
+    await fastify.register(async function (fastify: FastifyInstance) {
+        const releaseRoutes = (await import('./product-release.routes')).default;
+        await releaseRoutes(fastify);
+    });
+
+    // Register subscription plan routes
+    await fastify.register(async function (fastify: FastifyInstance) {
+        const planRoutes = (await import('./product-plan.routes')).default;
+        await planRoutes(fastify);
+    });
+
     // Register workflow routes
     await fastify.register(async function (fastify: FastifyInstance) {
         const workflowRoutes = (await import('./product-workflow.routes')).default;
         await workflowRoutes(fastify);
     });
 
+    // Register deploy-to-n8n routes
+    await fastify.register(async function (fastify: FastifyInstance) {
+        const deployRoutes = (await import('./product-deploy.routes')).default;
+        await deployRoutes(fastify);
+    });
+
     // Register security scan routes
     await fastify.register(async function (fastify: FastifyInstance) {
         const securityScanRoutes = (await import('./security-scan.routes')).default;
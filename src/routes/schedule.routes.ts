@@ -1,6 +1,6 @@
 import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
 import scheduleRepository from '../repositories/schedule.repository';
-import { validate, createScheduleSchema } from '../middleware/validation.middleware';
+import { validate, createScheduleSchema, updateScheduleSchema } from '../middleware/validation.middleware';
 import { successResponse, createdResponse, errorResponse, unauthorizedResponse, notFoundResponse, badRequestResponse } from '../utils/response';
 
 export default async function scheduleRoutes(fastify: FastifyInstance) {
@@ -44,7 +44,7 @@ export default async function scheduleRoutes(fastify: FastifyInstance) {
                 const data = validate(createScheduleSchema, request.body);
                 
                 // Business logic: Calculate next fetch time and set active status
-                const { calculateNextFetch } = await import('../utils/schedule-utils');
+                const { calculateNextFetch, CRON_FREQUENCY, DEFAULT_SCHEDULE_TIMEZONE } = await import('../utils/schedule-utils');
                 const { SourceType } = await import('@gsnake/shared-types');
                 if (!data.source_type || !data.source_value) {
                     return badRequestResponse(reply, 'source_type and source_value are required');
@@ -55,12 +55,17 @@ export default async function scheduleRoutes(fastify: FastifyInstance) {
                     'rss': SourceType.RSS,
                     'file': SourceType.FILE,
                 };
+                // Business rule: cron schedules store frequency = 'cron'
+                const frequency = data.cron_expression ? CRON_FREQUENCY : data.frequency!;
+                const timezone = data.timezone || DEFAULT_SCHEDULE_TIMEZONE;
                 const schedule = await scheduleRepository.create({
                     user_id: userId,
                     source_type: sourceTypeMap[data.source_type] || SourceType.URL,
                     source_value: data.source_value,
-                    frequency: data.frequency,
-                    next_fetch: calculateNextFetch(data.frequency), // Business rule
+                    frequency,
+                    cron_expression: data.cron_expression || null,
+                    timezone,
+                    next_fetch: calculateNextFetch(frequency, data.cron_expression, timezone), // Business rule
                     active: true, // Business rule: New schedules are active by default
                 });
 
@@ -81,18 +86,38 @@ export default async function scheduleRoutes(fastify: FastifyInstance) {
         { preHandler: [fastify.authenticate] },
         async (request: FastifyRequest, reply: FastifyReply) => {
             try {
+                const userId = request.user?.userId;
+                if (!userId) {
+                    return unauthorizedResponse(reply);
+                }
+
                 const { id } = request.params as { id: string };
-                const { frequency } = request.body as { frequency?: string };
+                const data = validate(updateScheduleSchema, request.body);
+
+                // Other users' schedules are reported as missing
+                const existing = await scheduleRepository.findById(id);
+                if (!existing || existing.user_id !== userId) {
+                    return notFoundResponse(reply, 'Schedule not found');
+                }
 
-                if (!frequency) {
-                    return badRequestResponse(reply, 'Frequency is required');
+                // Business logic: Merge timing changes and recalculate next_fetch
+                const { calculateNextFetch, CRON_FREQUENCY } = await import('../utils/schedule-utils');
+                const current = existing as typeof existing & { cron_expression?: string | null; timezone?: string };
+                let frequency = data.frequency ?? existing.frequency;
+                let cronExpression = current.cron_expression ?? null;
+                if (data.cron_expression) {
+                    frequency = CRON_FREQUENCY;
+                    cronExpression = data.cron_expression;
+                } else if (data.frequency) {
+                    cronExpression = null; // Switching back to a preset frequency
                 }
+                const timezone = data.timezone ?? current.timezone;
 
-                // Business logic: Recalculate next_fetch when frequency changes
-                const { calculateNextFetch } = await import('../utils/schedule-utils');
                 const schedule = await scheduleRepository.update(id, {
                     frequency,
-                    next_fetch: calculateNextFetch(frequency), // Business rule
+                    cron_expression: cronExpression,
+                    timezone,
+                    next_fetch: calculateNextFetch(frequency, cronExpression, timezone), // Business rule
                 });
 
                 if (!schedule) {
@@ -1,9 +1,11 @@
 import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
 import securityScanService from '../services/security-scan.service';
+import findingSuppressionService from '../services/finding-suppression.service';
 import productRepository from '../repositories/product.repository';
 import { successResponse, errorResponse, unauthorizedResponse, notFoundResponse, badRequestResponse } from '../utils/response';
 import { requireAdmin, requireSeller } from '../middleware/auth.middleware';
-import { NotFoundError } from '../shared/errors';
+import { validate, requestFindingSuppressionSchema } from '../middleware/validation.middleware';
+import { NotFoundError, AuthorizationError, DomainError } from '../shared/errors';
 
 export default async function securityScanRoutes(fastify: FastifyInstance) {
     /**
@@ -37,7 +39,7 @@ export default async function securityScanRoutes(fastify: FastifyInstance) {
                 }
 
                 // Queue scan (non-blocking)
-                securityScanService.queueScan(productId);
+                await securityScanService.queueScan(productId);
 
                 successResponse(reply, { message: 'Security scan started' }, 'Security scan queued successfully');
             } catch (error: unknown) {
@@ -81,6 +83,66 @@ export default async function securityScanRoutes(fastify: FastifyInstance) {
         }
     });
 
+    /**
+     * POST /api/products/:productId/security-findings/:findingId/suppression
+     * Mark a finding from the latest product or release scan as a false positive (seller, pending admin approval)
+     */
+    fastify.post(
+        '/:productId/security-findings/:findingId/suppression',
+        { preHandler: [fastify.authenticate, requireSeller] },
+        async (request: FastifyRequest, reply: FastifyReply) => {
+            try {
+                const userId = request.user?.userId;
+                if (!userId) {
+                    return unauthorizedResponse(reply);
+                }
+
+                const { productId, findingId } = request.params as { productId: string; findingId: string };
+                const body = validate(requestFindingSuppressionSchema, request.body);
+
+                const suppression = await findingSuppressionService.requestSuppression(
+                    productId,
+                    findingId,
+                    userId,
+                    body.justification
+                );
+                successResponse(reply, { suppression }, 'Suppression requested, waiting for admin approval');
+            } catch (error: unknown) {
+                if (error instanceof NotFoundError) return notFoundResponse(reply, error.message);
+                if (error instanceof AuthorizationError) return unauthorizedResponse(reply, error.message);
+                if (error instanceof DomainError) return badRequestResponse(reply, error.message);
+                throw error;
+            }
+        }
+    );
+
+    /**
+     * GET /api/products/:productId/security-findings/suppressions
+     * List finding suppressions of a product (seller or admin)
+     */
+    fastify.get(
+        '/:productId/security-findings/suppressions',
+        { preHandler: [fastify.authenticate] },
+        async (request: FastifyRequest, reply: FastifyReply) => {
+            try {
+                const userId = request.user?.userId;
+                if (!userId) {
+                    return unauthorizedResponse(reply);
+                }
+
+                const { productId } = request.params as { productId: string };
+                const isAdmin = (request.user as any).role === 'admin';
+
+                const suppressions = await findingSuppressionService.getProductSuppressions(productId, userId, isAdmin);
+                successResponse(reply, { suppressions });
+            } catch (error: unknown) {
+                if (error instanceof NotFoundError) return notFoundResponse(reply, error.message);
+                if (error instanceof AuthorizationError) return unauthorizedResponse(reply, error.message);
+                errorResponse(reply, 'Failed to get finding suppressions', 500, error);
+            }
+        }
+    );
+
     /**
      * POST /api/admin/products/:productId/security-scan/force
      * Force security scan (admin only, synchronous)
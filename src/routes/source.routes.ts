@@ -1,17 +1,7 @@
 import { FastifyInstance } from 'fastify';
 import { z } from 'zod';
-import crawlerService from '../services/crawler.service';
-import rssService from '../services/rss.service';
-import fileParserService from '../services/file-parser.service';
-import summarizationService from '../services/summarization.service';
-import articleRepository from '../repositories/article.repository';
-import summaryRepository from '../repositories/summary.repository';
-import { SourceType, ArticleStatus } from '@gsnake/shared-types';
-import fs from 'fs';
-import util from 'util';
-import { pipeline } from 'stream';
-
-const pump = util.promisify(pipeline);
+import sourceIngestionService from '../services/source-ingestion.service';
+import { SOURCE_FILE_UPLOAD_RULE } from '../config/upload-limits';
 
 export default async function sourceRoutes(fastify: FastifyInstance) {
     // Schema for URL input
@@ -20,6 +10,7 @@ export default async function sourceRoutes(fastify: FastifyInstance) {
     });
 
     // POST /api/sources/url
+    // Returns the pending article right away; poll the article for status
     fastify.post('/url', {
         onRequest: [fastify.authenticate]
     }, async (request, reply) => {
@@ -27,41 +18,12 @@ export default async function sourceRoutes(fastify: FastifyInstance) {
         const user = request.user as { userId: string };
 
         try {
-            // 1. Fetch content
-            const { title, content, metadata } = await crawlerService.fetchContent(url);
-
-            // 2. Create Article
-            const article = await articleRepository.create({
-                user_id: user.userId,
-                source_type: SourceType.URL,
-                source_value: url,
-                title,
-                url,
-                metadata
-            });
-
-            // 3. Summarize
-            const summaryResult = await summarizationService.summarize(user.userId, content, url);
-
-            // 4. Save Summary
-            const summary = await summaryRepository.create({
-                article_id: article.id,
-                summary_text: summaryResult.summary,
-                insights_json: summaryResult.insights,
-                data_points_json: summaryResult.data_points
-            });
+            const article = await sourceIngestionService.enqueueUrl(user.userId, url);
 
-            // 5. Update Article Status
-            await articleRepository.update(article.id, {
-                status: ArticleStatus.DONE,
-                summary: summaryResult.summary, // Simple summary in article table
-                raw_text: content
-            });
-
-            return { article, summary };
+            return reply.status(202).send({ article });
         } catch (error) {
             request.log.error(error);
-            return reply.status(500).send({ error: 'Failed to process URL' });
+            return reply.status(500).send({ error: 'Failed to queue URL' });
         }
     });
 
@@ -73,45 +35,13 @@ export default async function sourceRoutes(fastify: FastifyInstance) {
         const user = request.user as { userId: string };
 
         try {
-            // 1. Fetch RSS Feed
-            const { title, items } = await rssService.fetchFeed(url);
-
-            // Process each item (limit to 5 for now to avoid timeout/rate limits)
-            const processedItems = [];
-            for (const item of items.slice(0, 5)) {
-                // Create Article for each item
-                const article = await articleRepository.create({
-                    user_id: user.userId,
-                    source_type: SourceType.RSS,
-                    source_value: item.link || url,
-                    title: item.title,
-                    url: item.link,
-                    metadata: { pubDate: item.pubDate, author: item.author, feedTitle: title }
-                });
-
-                // Summarize content
-                const content = item.content || item.summary || '';
-                if (content) {
-                    const summaryResult = await summarizationService.summarize(user.userId, content, item.link || url);
+            const { articles, notModified } = await sourceIngestionService.ingestRss(user.userId, url);
 
-                    await summaryRepository.create({
-                        article_id: article.id,
-                        summary_text: summaryResult.summary,
-                        insights_json: summaryResult.insights,
-                        data_points_json: summaryResult.data_points
-                    });
-
-                    await articleRepository.update(article.id, {
-                        status: ArticleStatus.DONE,
-                        summary: summaryResult.summary,
-                        raw_text: content
-                    });
-
-                    processedItems.push(article);
-                }
+            if (notModified) {
+                return { message: 'RSS feed has not changed since the last poll', articles };
             }
 
-            return { message: `Processed ${processedItems.length} articles from RSS feed`, articles: processedItems };
+            return reply.status(202).send({ message: `Queued ${articles.length} new articles from RSS feed`, articles });
         } catch (error) {
             request.log.error(error);
             return reply.status(500).send({ error: 'Failed to process RSS feed' });
@@ -123,55 +53,54 @@ export default async function sourceRoutes(fastify: FastifyInstance) {
         onRequest: [fastify.authenticate]
     }, async (request, reply) => {
         const user = request.user as { userId: string };
-        const data = await request.file();
+        // Let the parser stop just past the limit; uploadStream reports the overflow
+        const data = await request.file({ limits: { fileSize: SOURCE_FILE_UPLOAD_RULE.maxBytes + 1 }, throwFileSizeLimit: false });
 
         if (!data) {
             return reply.status(400).send({ error: 'No file uploaded' });
         }
 
         try {
-            // Save file temporarily (or process stream directly if supported by parser)
-            // For simplicity, we'll save to temp dir
-            const tempPath = `./temp_${data.filename}`;
-            await pump(data.file, fs.createWriteStream(tempPath));
-
-            // 1. Parse File
-            const content = await fileParserService.parseFile(tempPath, data.mimetype);
-
-            // 2. Create Article
-            const article = await articleRepository.create({
-                user_id: user.userId,
-                source_type: SourceType.FILE,
-                source_value: data.filename,
-                title: data.filename,
-                metadata: { mimetype: data.mimetype }
-            });
-
-            // 3. Summarize
-            const summaryResult = await summarizationService.summarize(user.userId, content, data.filename);
-
-            // 4. Save Summary
-            await summaryRepository.create({
-                article_id: article.id,
-                summary_text: summaryResult.summary,
-                insights_json: summaryResult.insights,
-                data_points_json: summaryResult.data_points
-            });
+            // Stream file to temp storage (size and type are checked on the fly)
+            const article = await sourceIngestionService.enqueueFile(
+                user.userId,
+                data.file,
+                data.filename,
+                data.mimetype
+            );
+
+            return reply.status(202).send({ article });
+        } catch (error) {
+            const { DomainError } = await import('../shared/errors');
+            if (error instanceof DomainError) {
+                return reply.status(400).send({ error: error.message, code: error.code });
+            }
+            request.log.error(error);
+            return reply.status(500).send({ error: 'Failed to queue file' });
+        }
+    });
 
-            // 5. Update Article Status
-            await articleRepository.update(article.id, {
-                status: ArticleStatus.DONE,
-                summary: summaryResult.summary,
-                raw_text: content
-            });
+    // POST /api/sources/articles/:id/retry
+    // Re-queue an article whose ingestion failed
+    fastify.post<{ Params: { id: string } }>('/articles/:id/retry', {
+        onRequest: [fastify.authenticate]
+    }, async (request, reply) => {
+        const user = request.user as { userId: string };
 
-            // Cleanup
-            fs.unlinkSync(tempPath);
+        try {
+            const article = await sourceIngestionService.retry(request.params.id, user.userId);
 
-            return { article, summary: summaryResult };
-        } catch (error) {
+            return reply.status(202).send({ article });
+        } catch (error: any) {
+            const { NotFoundError, DomainError } = await import('../shared/errors');
+            if (error instanceof NotFoundError) {
+                return reply.status(404).send({ error: error.message, code: error.code });
+            }
+            if (error instanceof DomainError) {
+                return reply.status(400).send({ error: error.message, code: error.code });
+            }
             request.log.error(error);
-            return reply.status(500).send({ error: 'Failed to process file' });
+            return reply.status(500).send({ error: 'Failed to retry article' });
         }
     });
 }
@@ -0,0 +1,163 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import subscriptionService from '../services/subscription.service';
+import { successResponse, createdResponse, errorResponse, unauthorizedResponse, notFoundResponse, badRequestResponse } from '../utils/response';
+import { validate, createSubscriptionSchema } from '../middleware/validation.middleware';
+import { NotFoundError, DomainError } from '../shared/errors';
+
+/**
+ * Buyer subscriptions to subscription products
+ * Each period is paid with an order: the first one when subscribing (unless the plan starts
+ * with a trial) and a renewal order when a period ends; pay them via POST /api/orders/:orderId/checkout
+ */
+export default async function subscriptionRoutes(fastify: FastifyInstance) {
+    /**
+     * GET /api/subscriptions
+     * List the current user's subscriptions
+     */
+    fastify.get(
+        '/',
+        { preHandler: [fastify.authenticate] },
+        async (request: FastifyRequest, reply: FastifyReply) => {
+            try {
+                const userId = request.user?.userId;
+                if (!userId) {
+                    return unauthorizedResponse(reply);
+                }
+
+                const query = request.query as { limit?: string; offset?: string };
+                const subscriptions = await subscriptionService.getSubscriptions(
+                    userId,
+                    query.limit ? parseInt(query.limit, 10) : 50,
+                    query.offset ? parseInt(query.offset, 10) : 0
+                );
+                successResponse(reply, { subscriptions });
+            } catch (error: unknown) {
+                errorResponse(reply, 'Failed to get subscriptions', 500, error);
+            }
+        }
+    );
+
+    /**
+     * POST /api/subscriptions
+     * Subscribe to a plan; returns the order to check out unless a trial started
+     */
+    fastify.post(
+        '/',
+        { preHandler: [fastify.authenticate] },
+        async (request: FastifyRequest, reply: FastifyReply) => {
+            try {
+                const userId = request.user?.userId;
+                if (!userId) {
+                    return unauthorizedResponse(reply);
+                }
+
+                const body = validate(createSubscriptionSchema, request.body);
+                const result = await subscriptionService.subscribe(userId, body.plan_id);
+                createdResponse(reply, result, result.order ? 'Subscription created, awaiting payment' : 'Trial started');
+            } catch (error: unknown) {
+                if (error instanceof NotFoundError) return notFoundResponse(reply, error.message);
+                // Domain errors keep their details through the error handler
+                throw error;
+            }
+        }
+    );
+
+    /**
+     * GET /api/subscriptions/:subscriptionId
+     * Get one of the current user's subscriptions
+     */
+    fastify.get(
+        '/:subscriptionId',
+        { preHandler: [fastify.authenticate] },
+        async (request: FastifyRequest, reply: FastifyReply) => {
+            try {
+                const userId = request.user?.userId;
+                if (!userId) {
+                    return unauthorizedResponse(reply);
+                }
+
+                const { subscriptionId } = request.params as { subscriptionId: string };
+                const subscription = await subscriptionService.getSubscription(subscriptionId, { userId, role: request.user?.role });
+                successResponse(reply, { subscription });
+            } catch (error: unknown) {
+                if (error instanceof NotFoundError) return notFoundResponse(reply, error.message);
+                errorResponse(reply, 'Failed to get subscription', 500, error);
+            }
+        }
+    );
+
+    /**
+     * POST /api/subscriptions/:subscriptionId/cancel
+     * Cancel at period end (trialing/active) or now (unpaid)
+     */
+    fastify.post(
+        '/:subscriptionId/cancel',
+        { preHandler: [fastify.authenticate] },
+        async (request: FastifyRequest, reply: FastifyReply) => {
+            try {
+                const userId = request.user?.userId;
+                if (!userId) {
+                    return unauthorizedResponse(reply);
+                }
+
+                const { subscriptionId } = request.params as { subscriptionId: string };
+                const subscription = await subscriptionService.cancel(subscriptionId, userId);
+                successResponse(reply, { subscription }, 'Subscription canceled');
+            } catch (error: unknown) {
+                if (error instanceof NotFoundError) return notFoundResponse(reply, error.message);
+                if (error instanceof DomainError) return badRequestResponse(reply, error.message);
+                errorResponse(reply, 'Failed to cancel subscription', 500, error);
+            }
+        }
+    );
+
+    /**
+     * POST /api/subscriptions/:subscriptionId/resume
+     * Keep renewing a subscription that was set to cancel at period end
+     */
+    fastify.post(
+        '/:subscriptionId/resume',
+        { preHandler: [fastify.authenticate] },
+        async (request: FastifyRequest, reply: FastifyReply) => {
+            try {
+                const userId = request.user?.userId;
+                if (!userId) {
+                    return unauthorizedResponse(reply);
+                }
+
+                const { subscriptionId } = request.params as { subscriptionId: string };
+                const subscription = await subscriptionService.resume(subscriptionId, userId);
+                successResponse(reply, { subscription }, 'Subscription resumed');
+            } catch (error: unknown) {
+                if (error instanceof NotFoundError) return notFoundResponse(reply, error.message);
+                if (error instanceof DomainError) return badRequestResponse(reply, error.message);
+                errorResponse(reply, 'Failed to resume subscription', 500, error);
+            }
+        }
+    );
+
+    /**
+     * POST /api/subscriptions/:subscriptionId/renew
+     * Get the pending renewal order of a past-due subscription to check out
+     */
+    fastify.post(
+        '/:subscriptionId/renew',
+        { preHandler: [fastify.authenticate] },
+        async (request: FastifyRequest, reply: FastifyReply) => {
+            try {
+                const userId = request.user?.userId;
+                if (!userId) {
+                    return unauthorizedResponse(reply);
+                }
+
+                const { subscriptionId } = request.params as { subscriptionId: string };
+                const order = await subscriptionService.getRenewalOrder(subscriptionId, userId);
+                successResponse(reply, { order });
+            } catch (error: unknown) {
+                if (error instanceof NotFoundError) return notFoundResponse(reply, error.message);
+                if (error instanceof DomainError) return badRequestResponse(reply, error.message);
+                errorResponse(reply, 'Failed to get renewal order', 500, error);
+            }
+        }
+    );
+}
@@ -0,0 +1,136 @@
+import paymentRepository, { PaymentRecord } from '../../repositories/payment.repository';
+import paymentEventRepository from '../../repositories/payment-event.repository';
+import orderRepository from '../../repositories/order.repository';
+import orderService from '../order.service';
+import { PaymentService } from '../payment.service';
+import { FakePaymentProvider } from '../payment-providers/fake.provider';
+
+jest.mock('../../config/env', () => ({
+    PAYMENT_PROVIDER: 'none',
+    JWT_SECRET: 'test-jwt-secret-test-jwt-secret-00',
+}));
+jest.mock('../../repositories/payment.repository', () => ({
+    __esModule: true,
+    default: { findById: jest.fn(), findByOrderId: jest.fn(), transition: jest.fn() },
+}));
+jest.mock('../../repositories/payment-event.repository', () => ({
+    __esModule: true,
+    default: { create: jest.fn(), delete: jest.fn() },
+}));
+jest.mock('../../repositories/order.repository', () => ({
+    __esModule: true,
+    default: { findById: jest.fn() },
+}));
+jest.mock('../order.service', () => ({
+    __esModule: true,
+    default: { markPaid: jest.fn(), refundOrder: jest.fn() },
+}));
+
+const payments = jest.mocked(paymentRepository);
+const paymentEvents = jest.mocked(paymentEventRepository);
+const orders = jest.mocked(orderRepository);
+const orderServiceMock = jest.mocked(orderService);
+
+const payment: PaymentRecord = {
+    id: 'payment-1',
+    order_id: 'order-1',
+    provider: 'fake',
+    provider_payment_id: 'fake_payment1',
+    status: 'pending',
+    amount: 199000,
+    currency: 'VND',
+    return_url: 'https://shop.example.com/orders/order-1',
+    redirect_url: null,
+    provider_data: {},
+    failure_reason: null,
+    provider_refund_id: null,
+    paid_at: null,
+    refunded_at: null,
+    expires_at: new Date('2024-03-10T13:00:00Z'),
+    created_at: new Date('2024-03-10T12:30:00Z'),
+    updated_at: new Date('2024-03-10T12:30:00Z'),
+};
+
+describe('PaymentService.handleWebhook', () => {
+    const provider = new FakePaymentProvider({ secret: 'fake-secret', checkoutUrl: 'http://localhost/checkout' });
+    let service: PaymentService;
+    let status: PaymentRecord['status'];
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+        service = new PaymentService();
+        service.setProvider(provider);
+
+        // Payments and webhook events behave like their tables
+        status = 'pending';
+        const recordedEvents = new Set<string>();
+        payments.findById.mockImplementation(async () => ({ ...payment, status }));
+        payments.findByOrderId.mockImplementation(async () => [{ ...payment, status }]);
+        payments.transition.mockImplementation(async (_id, from, to) => {
+            if (!from.includes(status)) return null;
+            status = to;
+            return { ...payment, status };
+        });
+        paymentEvents.create.mockImplementation(async data => {
+            if (recordedEvents.has(data.event_id)) return null;
+            recordedEvents.add(data.event_id);
+            return { id: `event-${recordedEvents.size}`, ...data, created_at: new Date() } as any;
+        });
+        orders.findById.mockResolvedValue({ id: 'order-1', status: 'pending' } as any);
+    });
+
+    const succeeded = (overrides: { amount?: number; currency?: string } = {}) => provider.createWebhook({
+        type: 'payment.succeeded',
+        paymentId: payment.id,
+        providerPaymentId: payment.provider_payment_id,
+        amount: overrides.amount ?? payment.amount,
+        currency: overrides.currency ?? payment.currency,
+    });
+
+    it('marks the order paid once when the same webhook is delivered twice', async () => {
+        const webhook = succeeded();
+
+        const first = await service.handleWebhook('fake', webhook);
+        const replay = await service.handleWebhook('fake', webhook);
+
+        expect(first.body).toEqual({ received: true, outcome: 'processed' });
+        expect(replay.body).toEqual({ received: true, outcome: 'duplicate' });
+        expect(payments.transition).toHaveBeenCalledTimes(1);
+        expect(orderServiceMock.markPaid).toHaveBeenCalledTimes(1);
+        expect(orderServiceMock.markPaid).toHaveBeenCalledWith('order-1', ['pending', 'cancelled']);
+    });
+
+    it('forgets the event when applying it fails so the provider retry is processed', async () => {
+        orderServiceMock.markPaid.mockRejectedValueOnce(new Error('database unavailable'));
+        const webhook = succeeded();
+
+        await expect(service.handleWebhook('fake', webhook)).rejects.toThrow('database unavailable');
+        expect(paymentEvents.delete).toHaveBeenCalledWith('event-1');
+    });
+
+    it('rejects a payment whose amount does not match', async () => {
+        const reply = await service.handleWebhook('fake', succeeded({ amount: 1000 }));
+
+        expect(reply.body).toEqual({ received: true, outcome: 'amount_mismatch' });
+        expect(paymentEvents.create).not.toHaveBeenCalled();
+        expect(payments.transition).not.toHaveBeenCalled();
+        expect(orderServiceMock.markPaid).not.toHaveBeenCalled();
+    });
+
+    it('rejects a payment in another currency', async () => {
+        const reply = await service.handleWebhook('fake', succeeded({ currency: 'USD' }));
+
+        expect(reply.body).toEqual({ received: true, outcome: 'amount_mismatch' });
+        expect(orderServiceMock.markPaid).not.toHaveBeenCalled();
+    });
+
+    it('rejects webhooks with an invalid signature', async () => {
+        const webhook = succeeded();
+        webhook.headers[FakePaymentProvider.SIGNATURE_HEADER] = 'forged';
+
+        const reply = await service.handleWebhook('fake', webhook);
+
+        expect(reply.statusCode).toBe(400);
+        expect(payments.findById).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,181 @@
+import subscriptionRepository, { SubscriptionRecord } from '../../repositories/subscription.repository';
+import subscriptionPlanRepository from '../../repositories/subscription-plan.repository';
+import orderRepository from '../../repositories/order.repository';
+import entitlementRepository from '../../repositories/entitlement.repository';
+import productRepository from '../../repositories/product.repository';
+import { SubscriptionService } from '../subscription.service';
+
+jest.mock('../../config/env', () => ({
+    SUBSCRIPTION_GRACE_DAYS: 3,
+    SUBSCRIPTION_INCOMPLETE_HOURS: 24,
+}));
+jest.mock('../../repositories/subscription.repository', () => ({
+    __esModule: true,
+    LIVE_SUBSCRIPTION_STATUSES: ['incomplete', 'trialing', 'active', 'past_due'],
+    default: {
+        findPeriodEnded: jest.fn(),
+        findGraceExpired: jest.fn(),
+        findIncompleteBefore: jest.fn(),
+        transition: jest.fn(),
+        update: jest.fn(),
+    },
+}));
+jest.mock('../../repositories/subscription-plan.repository', () => ({
+    __esModule: true,
+    default: { findById: jest.fn() },
+}));
+jest.mock('../../repositories/order.repository', () => ({
+    __esModule: true,
+    default: { create: jest.fn(), transition: jest.fn() },
+}));
+jest.mock('../../repositories/entitlement.repository', () => ({
+    __esModule: true,
+    default: { revokeBySubscriptionId: jest.fn() },
+}));
+jest.mock('../../repositories/product.repository', () => ({
+    __esModule: true,
+    default: { findById: jest.fn() },
+}));
+
+const subscriptions = jest.mocked(subscriptionRepository);
+const orders = jest.mocked(orderRepository);
+const entitlements = jest.mocked(entitlementRepository);
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const periodEnd = new Date('2024-03-10T00:00:00Z');
+
+function subscription(id: string, fields: Partial<SubscriptionRecord>): SubscriptionRecord {
+    return {
+        id,
+        user_id: 'buyer-1',
+        plan_id: 'plan-1',
+        product_id: 'product-1',
+        status: 'active',
+        current_period_start: new Date(periodEnd.getTime() - 30 * DAY_MS),
+        current_period_end: periodEnd,
+        trial_end: null,
+        grace_until: null,
+        cancel_at_period_end: false,
+        canceled_at: null,
+        ended_at: null,
+        latest_order_id: 'order-paid',
+        created_at: new Date('2024-01-01T00:00:00Z'),
+        updated_at: new Date('2024-01-01T00:00:00Z'),
+        ...fields,
+    };
+}
+
+describe('SubscriptionService.run', () => {
+    let rows: Map<string, SubscriptionRecord>;
+    const service = new SubscriptionService();
+
+    // The subscription queries and transitions, evaluated against rows
+    beforeEach(() => {
+        jest.clearAllMocks();
+        rows = new Map();
+
+        const matching = (predicate: (row: SubscriptionRecord) => boolean) => [...rows.values()].filter(predicate);
+        subscriptions.findPeriodEnded.mockImplementation(async (statuses, now, cancelAtPeriodEnd) => matching(row =>
+            statuses.includes(row.status) && row.current_period_end! <= now && row.cancel_at_period_end === cancelAtPeriodEnd
+        ));
+        subscriptions.findGraceExpired.mockImplementation(async now => matching(row =>
+            row.status === 'past_due' && row.grace_until! <= now
+        ));
+        subscriptions.findIncompleteBefore.mockImplementation(async before => matching(row =>
+            row.status === 'incomplete' && row.created_at <= before
+        ));
+        subscriptions.transition.mockImplementation(async (id, from, to, data = {}) => {
+            const row = rows.get(id);
+            if (!row || !from.includes(row.status)) return null;
+            const updated = { ...row, ...data, status: to };
+            rows.set(id, updated);
+            return updated;
+        });
+        subscriptions.update.mockImplementation(async (id, data) => {
+            const updated = { ...rows.get(id)!, ...data };
+            rows.set(id, updated);
+            return updated;
+        });
+
+        jest.mocked(subscriptionPlanRepository.findById).mockResolvedValue({
+            id: 'plan-1', name: 'Monthly', price: 99000, currency: 'VND',
+        } as any);
+        jest.mocked(productRepository.findById).mockResolvedValue({
+            id: 'product-1', seller_id: 'seller-1', title: 'Invoice sync',
+        } as any);
+        orders.create.mockResolvedValue({ id: 'order-renewal' } as any);
+        orders.transition.mockResolvedValue({} as any);
+        entitlements.revokeBySubscriptionId.mockResolvedValue([]);
+    });
+
+    it('cancels a subscription set to cancel when its period ends', async () => {
+        rows.set('sub-1', subscription('sub-1', { cancel_at_period_end: true }));
+
+        const report = await service.run(new Date(periodEnd.getTime() + HOUR_MS));
+
+        expect(report.canceled).toBe(1);
+        expect(report.renewal_orders).toBe(0);
+        expect(rows.get('sub-1')).toMatchObject({ status: 'canceled' });
+        expect(rows.get('sub-1')!.ended_at).toBeInstanceOf(Date);
+        expect(rows.get('sub-1')!.canceled_at).toBeInstanceOf(Date);
+        expect(entitlements.revokeBySubscriptionId).toHaveBeenCalledWith('sub-1', 'Subscription canceled');
+        expect(orders.create).not.toHaveBeenCalled();
+    });
+
+    it('opens a renewal order when the period ends and expires the subscription after the grace period', async () => {
+        rows.set('sub-1', subscription('sub-1', {}));
+
+        // Period over: past due, access kept until grace_until
+        const renewed = await service.run(new Date(periodEnd.getTime() + HOUR_MS));
+        expect(renewed.renewal_orders).toBe(1);
+        expect(rows.get('sub-1')).toMatchObject({
+            status: 'past_due',
+            grace_until: new Date(periodEnd.getTime() + 3 * DAY_MS),
+            latest_order_id: 'order-renewal',
+        });
+        expect(orders.create).toHaveBeenCalledWith(expect.objectContaining({
+            user_id: 'buyer-1',
+            currency: 'VND',
+            items: [expect.objectContaining({ unit_price: 99000, plan_id: 'plan-1', subscription_id: 'sub-1' })],
+        }));
+        expect(entitlements.revokeBySubscriptionId).not.toHaveBeenCalled();
+
+        // Still within the grace period
+        const waiting = await service.run(new Date(periodEnd.getTime() + 2 * DAY_MS));
+        expect(waiting.expired).toBe(0);
+        expect(waiting.renewal_orders).toBe(0);
+        expect(rows.get('sub-1')!.status).toBe('past_due');
+
+        // Grace period over without payment
+        const expired = await service.run(new Date(periodEnd.getTime() + 3 * DAY_MS));
+        expect(expired.expired).toBe(1);
+        expect(rows.get('sub-1')!.status).toBe('expired');
+        expect(orders.transition).toHaveBeenCalledWith('order-renewal', ['pending'], 'cancelled', expect.any(Object));
+        expect(entitlements.revokeBySubscriptionId).toHaveBeenCalledWith('sub-1', 'Subscription payment overdue');
+        expect(orders.create).toHaveBeenCalledTimes(1);
+    });
+
+    it('expires subscriptions whose first order was never paid', async () => {
+        const now = new Date('2024-03-10T12:00:00Z');
+        rows.set('sub-old', subscription('sub-old', { status: 'incomplete', created_at: new Date(now.getTime() - 25 * HOUR_MS) }));
+        rows.set('sub-new', subscription('sub-new', { status: 'incomplete', created_at: new Date(now.getTime() - HOUR_MS) }));
+
+        const report = await service.run(now);
+
+        expect(report.incomplete_expired).toBe(1);
+        expect(rows.get('sub-old')!.status).toBe('expired');
+        expect(rows.get('sub-new')!.status).toBe('incomplete');
+    });
+
+    it('reports a failing subscription and keeps processing the others', async () => {
+        rows.set('sub-1', subscription('sub-1', {}));
+        rows.set('sub-2', subscription('sub-2', { user_id: 'buyer-2' }));
+        orders.create.mockRejectedValueOnce(new Error('database unavailable'));
+
+        const report = await service.run(new Date(periodEnd.getTime() + HOUR_MS));
+
+        expect(report.renewal_orders).toBe(1);
+        expect(report.errors).toEqual(['sub-1: database unavailable']);
+    });
+});
@@ -4,6 +4,10 @@ import sellerService from './seller.service';
 import auditLogService, { ReviewChecklist } from './audit-log.service';
 import { UserRole, SellerStatus, ProductReviewStatus, ProductStatus, ProductType } from '@gsnake/shared-types';
 import { NotFoundError, DomainError, ERROR_CODES } from '../shared/errors';
+import { ScanState, assertScanApprovable } from '../utils/scan-gate';
+
+// Product fields the review checks read
+type ReviewedProduct = { id: string } & ScanState;
 
 export class AdminService {
     /**
@@ -71,6 +75,24 @@ export class AdminService {
         return await sellerService.getAllApplications(status);
     }
 
+    /**
+     * Ensure finding ids referenced by a review checklist exist in the product's latest security scan
+     */
+    private assertChecklistFindings(product: ReviewedProduct, checklist?: ReviewChecklist): void {
+        const referencedIds = Object.keys(checklist?.security_findings || {});
+        if (referencedIds.length === 0) {
+            return;
+        }
+
+        const findings: { id: string }[] = product.security_scan_result?.findings || [];
+        const knownIds = new Set(findings.map(finding => finding.id));
+        const unknownIds = referencedIds.filter(id => !knownIds.has(id));
+
+        if (unknownIds.length > 0) {
+            throw new DomainError(ERROR_CODES.SECURITY_FINDING_NOT_FOUND, { productId: product.id, findingIds: unknownIds });
+        }
+    }
+
     /**
      * Approve product
      */
@@ -89,6 +111,9 @@ export class AdminService {
             throw new DomainError(ERROR_CODES.PRODUCT_NOT_APPROVED, { message: 'Sản phẩm không ở trạng thái chờ duyệt' });
         }
 
+        this.assertChecklistFindings(product, checklist);
+        assertScanApprovable('product', product.id, product);
+
         // Update review status and automatically publish if product is ready
         const updateData: any = {
             review_status: ProductReviewStatus.APPROVED,
@@ -143,6 +168,8 @@ export class AdminService {
             throw new DomainError(ERROR_CODES.PRODUCT_NOT_APPROVED, { message: 'Sản phẩm không ở trạng thái chờ duyệt' });
         }
 
+        this.assertChecklistFindings(product, checklist);
+
         const updated = await productRepository.update(productId, {
             review_status: ProductReviewStatus.REJECTED,
             reviewed_at: new Date(),
@@ -200,6 +227,8 @@ export class AdminService {
             throw new DomainError(ERROR_CODES.PRODUCT_NOT_APPROVED, { message: 'Sản phẩm không ở trạng thái chờ duyệt' });
         }
 
+        this.assertChecklistFindings(product, checklist);
+
         // Product stays in PENDING status, but we log the request for changes
         await auditLogService.logRequestChanges(
             productId,
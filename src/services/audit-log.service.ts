@@ -14,7 +14,9 @@ export interface ReviewChecklist {
     no_credentials_in_code?: boolean;
     demo_tested?: boolean;
     content_appropriate?: boolean;
-    [key: string]: boolean | undefined;
+    // Security scan finding id → acknowledged by the reviewer (false = must be fixed)
+    security_findings?: Record<string, boolean>;
+    [key: string]: boolean | Record<string, boolean> | undefined;
 }
 
 export class AuditLogService {
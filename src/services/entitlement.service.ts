@@ -0,0 +1,82 @@
+import entitlementRepository, { EntitlementRecord } from '../repositories/entitlement.repository';
+import productRepository from '../repositories/product.repository';
+import subscriptionService from './subscription.service';
+import { Product } from '@gsnake/shared-types';
+import { NotFoundError, ERROR_CODES } from '../shared/errors';
+
+/**
+ * Entitlement Service
+ * The entitlement ledger records which products a user owns: paid orders grant
+ * 'purchase' entitlements, downloading a free product while signed in claims it ('free'),
+ * and admins or migrations may 'grant' access. Live subscriptions hold a 'subscription'
+ * entitlement until they end. Refunds revoke entitlements; revoked rows are kept for history
+ */
+
+export type LibraryItem = {
+    entitlement: EntitlementRecord;
+    product: Product;
+};
+
+export class EntitlementService {
+    /**
+     * Whether the user currently owns the product
+     */
+    async hasEntitlement(userId: string, productId: string): Promise<boolean> {
+        const entitlement = await entitlementRepository.findActive(userId, productId);
+        if (!entitlement) {
+            return false;
+        }
+        // The subscription worker revokes lapsed subscriptions only on its next run
+        if (entitlement.source === 'subscription' && entitlement.subscription_id) {
+            return await subscriptionService.isSubscriptionLive(entitlement.subscription_id);
+        }
+        return true;
+    }
+
+    /**
+     * Add a free product the user downloaded to their library (no-op if already owned)
+     */
+    async claimFree(productId: string, userId: string): Promise<void> {
+        await entitlementRepository.grant({ user_id: userId, product_id: productId, source: 'free' });
+    }
+
+    /**
+     * List the products the user owns, most recently obtained first
+     */
+    async getLibrary(
+        userId: string,
+        limit: number = 50,
+        offset: number = 0
+    ): Promise<{ items: LibraryItem[]; total: number }> {
+        const [entitlements, total] = await Promise.all([
+            entitlementRepository.findActiveByUserId(userId, limit, offset),
+            entitlementRepository.countActiveByUserId(userId),
+        ]);
+
+        const items = await Promise.all(
+            entitlements.map(async entitlement => ({
+                entitlement,
+                product: await productRepository.findById(entitlement.product_id),
+            }))
+        );
+
+        return {
+            items: items.filter((item): item is LibraryItem => !!item.product),
+            total,
+        };
+    }
+
+    /**
+     * Get one product of the user's library
+     */
+    async getLibraryItem(userId: string, productId: string): Promise<LibraryItem> {
+        const entitlement = await entitlementRepository.findActive(userId, productId);
+        const product = entitlement ? await productRepository.findById(productId) : null;
+        if (!entitlement || !product) {
+            throw new NotFoundError(ERROR_CODES.ENTITLEMENT_NOT_FOUND, { productId });
+        }
+        return { entitlement, product };
+    }
+}
+
+export default new EntitlementService();
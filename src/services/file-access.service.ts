@@ -0,0 +1,118 @@
+import path from 'path';
+import storageService from './storage.service';
+import entitlementService from './entitlement.service';
+import productRepository from '../repositories/product.repository';
+import productArtifactRepository from '../repositories/product-artifact.repository';
+import productReleaseRepository from '../repositories/product-release.repository';
+import { SendableFile } from '../utils/send-file';
+import { Product, ProductStatus, ProductReviewStatus, UserRole } from '@gsnake/shared-types';
+import { NotFoundError, AuthenticationError, AuthorizationError, ERROR_CODES } from '../shared/errors';
+
+/**
+ * File Access Service
+ * Decides who may fetch a stored upload:
+ * - thumbnails / screenshots: public
+ * - product artifacts: seller and admins always; others only for published, approved
+ *   products that are free or that the user owns, and only from
+ *   approved releases
+ * - temp uploads: never served
+ */
+
+export type FileAccessGrant = SendableFile;
+
+export class FileAccessService {
+    /**
+     * Authorize access to a stored file
+     */
+    async authorize(
+        fileUrl: string,
+        user?: { userId: string; role?: string } | null
+    ): Promise<FileAccessGrant> {
+        const info = await storageService.getFileInfo(fileUrl);
+        if (!info || !info.subdir || info.subdir === 'temp') {
+            throw new NotFoundError(ERROR_CODES.FILE_NOT_FOUND, { fileUrl });
+        }
+
+        const storedName = path.basename(fileUrl);
+        const base = {
+            fileUrl,
+            size: info.size,
+            modifiedAt: info.modifiedAt,
+        };
+
+        if (info.subdir === 'thumbnails' || info.subdir === 'screenshots') {
+            return {
+                ...base,
+                fileName: storedName,
+                mimeType: storageService.getMimeType(storedName),
+                disposition: 'inline',
+                isPublic: true,
+            };
+        }
+
+        // Artifacts must belong to a product: either an artifact record or a product workflow file
+        const artifact = await productArtifactRepository.findByFileUrl(fileUrl);
+        const product = artifact
+            ? await productRepository.findById(artifact.product_id)
+            : await productRepository.findByWorkflowFileUrl(fileUrl);
+        if (!product) {
+            throw new NotFoundError(ERROR_CODES.FILE_NOT_FOUND, { fileUrl });
+        }
+
+        await this.assertCanDownload(product, user);
+
+        // Artifacts of releases still in draft or review are private to the seller
+        const releaseId = artifact?.release_id;
+        if (releaseId && !this.isOwner(product, user)) {
+            const release = await productReleaseRepository.findById(releaseId);
+            if (!release || release.status !== 'approved') {
+                throw new NotFoundError(ERROR_CODES.FILE_NOT_FOUND, { fileUrl });
+            }
+        }
+
+        const fileName = artifact?.file_name || storedName;
+        return {
+            ...base,
+            fileName,
+            mimeType: artifact?.mime_type || storageService.getMimeType(fileName),
+            disposition: 'attachment',
+            isPublic: false,
+        };
+    }
+
+    private isOwner(product: Product, user?: { userId: string; role?: string } | null): boolean {
+        return !!user && (user.role === UserRole.ADMIN || product.seller_id === user.userId);
+    }
+
+    /**
+     * Check that a user may download a product's files
+     */
+    private async assertCanDownload(
+        product: Product,
+        user?: { userId: string; role?: string } | null
+    ): Promise<void> {
+        if (this.isOwner(product, user)) {
+            return;
+        }
+
+        // Unpublished products are hidden from everyone else
+        if (product.status !== ProductStatus.PUBLISHED || product.review_status !== ProductReviewStatus.APPROVED) {
+            throw new NotFoundError(ERROR_CODES.FILE_NOT_FOUND, { productId: product.id });
+        }
+
+        if (product.is_free) {
+            return;
+        }
+
+        if (!user) {
+            throw new AuthenticationError(ERROR_CODES.AUTHENTICATION_REQUIRED);
+        }
+
+        const owned = await entitlementService.hasEntitlement(user.userId, product.id);
+        if (!owned) {
+            throw new AuthorizationError(ERROR_CODES.FILE_ACCESS_FORBIDDEN, { productId: product.id });
+        }
+    }
+}
+
+export default new FileAccessService();
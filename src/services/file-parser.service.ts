@@ -23,6 +23,28 @@ export class FileParserService {
         }
     }
 
+    /**
+     * Parse in-memory file content based on mimetype
+     */
+    async parseBuffer(buffer: Buffer, mimetype: string): Promise<string> {
+        try {
+            if (mimetype === 'application/pdf') {
+                const data = await pdf(buffer);
+                return data.text;
+            } else if (mimetype === 'application/vnd.openxmlformats-officedocument.wordprocessingml.document') {
+                const result = await mammoth.extractRawText({ buffer });
+                return result.value;
+            } else if (mimetype === 'text/plain') {
+                return buffer.toString('utf-8');
+            } else {
+                throw new Error(`Unsupported file type: ${mimetype}`);
+            }
+        } catch (error) {
+            console.error('Error parsing file buffer:', error);
+            throw new Error(`Failed to parse file: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
     private async parsePdf(filePath: string): Promise<string> {
         const dataBuffer = fs.readFileSync(filePath);
         const data = await pdf(dataBuffer);
@@ -0,0 +1,170 @@
+import productRepository from '../repositories/product.repository';
+import productArtifactRepository from '../repositories/product-artifact.repository';
+import productReleaseRepository from '../repositories/product-release.repository';
+import securityFindingSuppressionRepository, {
+    FindingSuppressionRecord,
+    FindingSuppressionStatus,
+} from '../repositories/security-finding-suppression.repository';
+import securityScanService, { SecurityFinding } from './security-scan.service';
+import { NotFoundError, DomainError, AuthorizationError, ERROR_CODES } from '../shared/errors';
+
+/**
+ * Finding Suppression Service
+ * Sellers mark security scan findings as false positives with a justification;
+ * admins approve or reject. Approved suppressions are honored by rescans while
+ * the artifact checksum is unchanged
+ */
+export class FindingSuppressionService {
+    /**
+     * Request suppression of a finding from the latest scan of the product or one of its releases (seller)
+     */
+    async requestSuppression(
+        productId: string,
+        findingId: string,
+        sellerId: string,
+        justification: string
+    ): Promise<FindingSuppressionRecord> {
+        const product = await productRepository.findById(productId);
+        if (!product) {
+            throw new NotFoundError(ERROR_CODES.PRODUCT_NOT_FOUND, { productId });
+        }
+
+        if (product.seller_id !== sellerId) {
+            throw new AuthorizationError(ERROR_CODES.PRODUCT_UPDATE_FORBIDDEN, { productId, sellerId });
+        }
+
+        const finding = await this.findLatestFinding(productId, (product as any).security_scan_result, findingId);
+        if (!finding) {
+            throw new NotFoundError(ERROR_CODES.SECURITY_FINDING_NOT_FOUND, { productId, findingIds: [findingId] });
+        }
+
+        const existing = await securityFindingSuppressionRepository.findByFinding(finding.artifact_id, findingId);
+        if (existing && existing.status !== 'rejected') {
+            throw new DomainError(ERROR_CODES.FINDING_SUPPRESSION_EXISTS, { findingId, status: existing.status });
+        }
+
+        const artifact = await productArtifactRepository.findById(finding.artifact_id);
+        if (!artifact) {
+            throw new NotFoundError(ERROR_CODES.SECURITY_FINDING_NOT_FOUND, { productId, findingIds: [findingId] });
+        }
+
+        return await securityFindingSuppressionRepository.upsertRequest({
+            product_id: productId,
+            artifact_id: artifact.id,
+            artifact_checksum: artifact.checksum || null,
+            finding_id: findingId,
+            rule_id: finding.rule_id,
+            file_path: finding.file_path,
+            justification,
+            requested_by: sellerId,
+        });
+    }
+
+    /**
+     * Get suppressions of a product (product seller or admin)
+     */
+    async getProductSuppressions(
+        productId: string,
+        userId: string,
+        isAdmin: boolean
+    ): Promise<FindingSuppressionRecord[]> {
+        const product = await productRepository.findById(productId);
+        if (!product) {
+            throw new NotFoundError(ERROR_CODES.PRODUCT_NOT_FOUND, { productId });
+        }
+
+        if (!isAdmin && product.seller_id !== userId) {
+            throw new AuthorizationError(ERROR_CODES.PRODUCT_UPDATE_FORBIDDEN, { productId, userId });
+        }
+
+        return await securityFindingSuppressionRepository.findByProductId(productId);
+    }
+
+    /**
+     * Get suppressions by status across products (admin review queue)
+     */
+    async getSuppressionsByStatus(
+        status: FindingSuppressionStatus = 'pending',
+        limit: number = 50,
+        offset: number = 0
+    ): Promise<FindingSuppressionRecord[]> {
+        return await securityFindingSuppressionRepository.findByStatus(status, limit, offset);
+    }
+
+    /**
+     * Approve a suppression and rescan the product, or the release the artifact belongs to,
+     * so its scan status reflects it
+     */
+    async approveSuppression(id: string, adminId: string, notes?: string): Promise<FindingSuppressionRecord> {
+        const suppression = await this.reviewSuppression(id, adminId, 'approved', notes);
+
+        const artifact = await productArtifactRepository.findById(suppression.artifact_id);
+        if (artifact?.release_id) {
+            await securityScanService.queueReleaseScan(artifact.release_id, 1);
+        } else {
+            await securityScanService.queueScan(suppression.product_id, 1);
+        }
+
+        return suppression;
+    }
+
+    /**
+     * Reject a suppression; the finding keeps counting towards the scan result
+     */
+    async rejectSuppression(id: string, adminId: string, notes?: string): Promise<FindingSuppressionRecord> {
+        return await this.reviewSuppression(id, adminId, 'rejected', notes);
+    }
+
+    /**
+     * Find a finding in the product's latest scan, then in the latest scans of its releases
+     */
+    private async findLatestFinding(
+        productId: string,
+        productScanResult: Record<string, any> | null | undefined,
+        findingId: string
+    ): Promise<SecurityFinding | null> {
+        const productFindings: SecurityFinding[] = productScanResult?.findings || [];
+        const productFinding = productFindings.find(f => f.id === findingId);
+        if (productFinding) {
+            return productFinding;
+        }
+
+        const releases = await productReleaseRepository.findByProductId(productId);
+        for (const release of releases) {
+            const findings: SecurityFinding[] = release.security_scan_result?.findings || [];
+            const finding = findings.find(f => f.id === findingId);
+            if (finding) {
+                return finding;
+            }
+        }
+        return null;
+    }
+
+    private async reviewSuppression(
+        id: string,
+        adminId: string,
+        status: 'approved' | 'rejected',
+        notes?: string
+    ): Promise<FindingSuppressionRecord> {
+        const suppression = await securityFindingSuppressionRepository.findById(id);
+        if (!suppression) {
+            throw new NotFoundError(ERROR_CODES.FINDING_SUPPRESSION_NOT_FOUND, { suppressionId: id });
+        }
+
+        const reviewed = await securityFindingSuppressionRepository.review(id, {
+            status,
+            reviewed_by: adminId,
+            review_notes: notes,
+        });
+        if (!reviewed) {
+            throw new DomainError(ERROR_CODES.FINDING_SUPPRESSION_ALREADY_REVIEWED, {
+                suppressionId: id,
+                status: suppression.status,
+            });
+        }
+
+        return reviewed;
+    }
+}
+
+export default new FindingSuppressionService();
@@ -0,0 +1,143 @@
+import path from 'path';
+import sharp from 'sharp';
+import storageService, { UploadResult } from './storage.service';
+import { DomainError, ERROR_CODES } from '../shared/errors';
+
+/**
+ * Image Processing Service
+ * Validates uploaded thumbnails/screenshots, strips EXIF and other metadata,
+ * and generates the standard WebP renditions used by the marketplace
+ */
+
+export const IMAGE_RENDITIONS = {
+    card: { width: 400, height: 300, fit: 'cover' }, // Marketplace grid
+    detail: { width: 1200, height: 900, fit: 'inside' }, // Product page
+    og: { width: 1200, height: 630, fit: 'cover' }, // Open Graph / social preview
+} as const;
+
+export type ImageRenditionName = keyof typeof IMAGE_RENDITIONS;
+
+export interface ImageRendition {
+    url: string;
+    width: number;
+    height: number;
+    size: number;
+}
+
+export type ImageRenditions = Record<ImageRenditionName, ImageRendition>;
+
+export interface ProcessedImage {
+    original: UploadResult; // Re-encoded original without metadata
+    width: number;
+    height: number;
+    format: string;
+    renditions: ImageRenditions;
+}
+
+// Decompression bomb guard (~40 megapixels)
+const MAX_INPUT_PIXELS = 40_000_000;
+const WEBP_QUALITY = 82;
+const ORIGINAL_FORMATS = ['jpeg', 'png', 'webp', 'gif'] as const;
+
+export class ImageProcessingService {
+    /**
+     * Process a stored image upload
+     * Replaces the raw upload with a metadata-free copy and stores WebP renditions next to it;
+     * the raw upload is deleted in all cases
+     */
+    async processUpload(
+        fileUrl: string,
+        originalFileName: string,
+        subdir: 'thumbnails' | 'screenshots'
+    ): Promise<ProcessedImage> {
+        const buffer = await storageService.readFile(fileUrl);
+        const uploaded: string[] = [];
+
+        try {
+            const encoded = await this.encode(buffer);
+            const baseName = path.basename(originalFileName, path.extname(originalFileName));
+
+            const original = await storageService.uploadFile(encoded.original, `${baseName}.${encoded.extension}`, subdir);
+            uploaded.push(original.fileUrl);
+
+            const renditions = {} as ImageRenditions;
+            for (const [name, output] of Object.entries(encoded.renditions) as [ImageRenditionName, typeof encoded.renditions[ImageRenditionName]][]) {
+                const result = await storageService.uploadFile(output.data, `${baseName}_${name}.webp`, subdir);
+                uploaded.push(result.fileUrl);
+                renditions[name] = {
+                    url: result.fileUrl,
+                    width: output.width,
+                    height: output.height,
+                    size: result.fileSize,
+                };
+            }
+
+            return {
+                original,
+                width: encoded.width,
+                height: encoded.height,
+                format: encoded.format,
+                renditions,
+            };
+        } catch (error) {
+            await Promise.all(uploaded.map(url => storageService.deleteFile(url).catch(() => undefined)));
+            throw error;
+        } finally {
+            await storageService.deleteFile(fileUrl).catch(() => undefined);
+        }
+    }
+
+    /**
+     * Delete rendition files recorded in an artifact's metadata
+     */
+    async deleteRenditions(metadata?: Record<string, any> | null): Promise<void> {
+        const renditions: Partial<ImageRenditions> = metadata?.renditions || {};
+        await Promise.all(
+            Object.values(renditions)
+                .filter((rendition): rendition is ImageRendition => !!rendition?.url)
+                .map(rendition => storageService.deleteFile(rendition.url).catch(() => undefined))
+        );
+    }
+
+    /**
+     * Decode, auto-orient and re-encode an image; all metadata (EXIF, GPS, ICC) is dropped
+     */
+    private async encode(buffer: Buffer) {
+        try {
+            const source = sharp(buffer, { limitInputPixels: MAX_INPUT_PIXELS, failOn: 'error' });
+            const metadata = await source.metadata();
+            const format = ORIGINAL_FORMATS.find(f => f === metadata.format);
+            if (!format || !metadata.width || !metadata.height) {
+                throw new Error(`Unsupported image format: ${metadata.format}`);
+            }
+
+            // Apply EXIF orientation before the metadata is discarded
+            const oriented = source.clone().rotate();
+
+            const original = await oriented.clone().toFormat(format).toBuffer({ resolveWithObject: true });
+
+            const renditions = {} as Record<ImageRenditionName, { data: Buffer; width: number; height: number }>;
+            for (const [name, spec] of Object.entries(IMAGE_RENDITIONS) as [ImageRenditionName, typeof IMAGE_RENDITIONS[ImageRenditionName]][]) {
+                const output = await oriented
+                    .clone()
+                    .resize({ width: spec.width, height: spec.height, fit: spec.fit, withoutEnlargement: true })
+                    .webp({ quality: WEBP_QUALITY })
+                    .toBuffer({ resolveWithObject: true });
+                renditions[name] = { data: output.data, width: output.info.width, height: output.info.height };
+            }
+
+            return {
+                original: original.data,
+                extension: format === 'jpeg' ? 'jpg' : format,
+                format,
+                width: original.info.width,
+                height: original.info.height,
+                renditions,
+            };
+        } catch (error: any) {
+            throw new DomainError(ERROR_CODES.UPLOAD_INVALID_IMAGE, { reason: error.message });
+        }
+    }
+}
+
+export default new ImageProcessingService();
@@ -0,0 +1,182 @@
+/**
+ * Background worker for /api/sources ingestion jobs
+ * Jobs are persisted in ingestion_jobs and claimed with FOR UPDATE SKIP LOCKED,
+ * so they survive restarts and are shared between API instances.
+ * Progress is reported through the linked article's status.
+ */
+
+import crawlerService from './crawler.service';
+import fileParserService from './file-parser.service';
+import summarizationService from './summarization.service';
+import storageService from './storage.service';
+import articleRepository from '../repositories/article.repository';
+import summaryRepository from '../repositories/summary.repository';
+import ingestionJobRepository, { IngestionJobRecord } from '../repositories/ingestion-job.repository';
+import { ArticleStatus } from '@gsnake/shared-types';
+
+export class IngestionQueueService {
+    private pollInterval: NodeJS.Timeout | null = null;
+    private ticking: boolean = false;
+    private pendingTick: boolean = false;
+    private readonly batchSize: number = 5;
+    private readonly leaseMs: number = 15 * 60 * 1000; // 15 minutes
+
+    /**
+     * Start polling for queued jobs
+     */
+    start(intervalMs: number = 5000): void {
+        if (this.pollInterval) {
+            return;
+        }
+
+        this.pollInterval = setInterval(() => this.kick(), intervalMs);
+    }
+
+    /**
+     * Stop polling
+     */
+    stop(): void {
+        if (this.pollInterval) {
+            clearInterval(this.pollInterval);
+            this.pollInterval = null;
+        }
+    }
+
+    /**
+     * Process queued jobs now instead of waiting for the next poll (non-blocking)
+     */
+    kick(): void {
+        if (!this.pollInterval) {
+            return; // Worker disabled on this instance; another instance will pick the job up
+        }
+
+        this.tick().catch((error) => {
+            console.error('Error processing ingestion queue:', error);
+        });
+    }
+
+    /**
+     * Claim and process queued jobs until the queue is empty
+     */
+    async tick(): Promise<void> {
+        if (this.ticking) {
+            // Jobs enqueued during a tick are picked up by a follow-up tick
+            this.pendingTick = true;
+            return;
+        }
+
+        this.ticking = true;
+        try {
+            do {
+                this.pendingTick = false;
+                let claimed: IngestionJobRecord[];
+                do {
+                    claimed = await ingestionJobRepository.claim(this.batchSize, this.leaseMs);
+                    for (const job of claimed) {
+                        await this.processJob(job);
+                    }
+                } while (claimed.length === this.batchSize);
+            } while (this.pendingTick);
+        } finally {
+            this.ticking = false;
+        }
+    }
+
+    /**
+     * Run a single job, recording the outcome on its article
+     */
+    private async processJob(job: IngestionJobRecord): Promise<void> {
+        try {
+            switch (job.job_type) {
+                case 'url':
+                    await this.processUrl(job);
+                    break;
+                case 'rss_item':
+                    await this.processRssItem(job);
+                    break;
+                case 'file':
+                    await this.processFile(job);
+                    break;
+                default:
+                    throw new Error(`Unknown ingestion job type: ${job.job_type}`);
+            }
+        } catch (error: any) {
+            console.error(`Ingestion job ${job.id} failed:`, error.message);
+            await articleRepository.update(job.article_id, {
+                status: ArticleStatus.FAILED,
+                error_message: error.message || 'Unknown error',
+            });
+        } finally {
+            await ingestionJobRepository.release(job.id);
+        }
+    }
+
+    /**
+     * Fetch URL content, then summarize
+     */
+    private async processUrl(job: IngestionJobRecord): Promise<void> {
+        const { url } = job.payload;
+        const { title, content, metadata } = await crawlerService.fetchContent(url);
+
+        await articleRepository.update(job.article_id, { title, metadata });
+        await this.summarizeInto(job, content, url);
+    }
+
+    /**
+     * Summarize feed item content captured when the feed was polled
+     */
+    private async processRssItem(job: IngestionJobRecord): Promise<void> {
+        const { content, link } = job.payload;
+        if (!content) {
+            throw new Error('Feed item has no content to summarize');
+        }
+
+        await this.summarizeInto(job, content, link);
+    }
+
+    /**
+     * Parse the uploaded file, then summarize
+     * The temp upload is kept until success so the job can be retried
+     */
+    private async processFile(job: IngestionJobRecord): Promise<void> {
+        const { file_url, file_name, mimetype } = job.payload;
+        const buffer = await storageService.readFile(file_url);
+        const content = await fileParserService.parseBuffer(buffer, mimetype);
+
+        await this.summarizeInto(job, content, file_name);
+        await storageService.deleteFile(file_url);
+    }
+
+    /**
+     * Summarize content, save summary and mark the article done
+     */
+    private async summarizeInto(job: IngestionJobRecord, content: string, sourceInfo: string): Promise<void> {
+        const summaryResult = await summarizationService.summarize(job.user_id, content, sourceInfo);
+
+        // Retries replace the summary from a previous partial run
+        const existing = await summaryRepository.findByArticleId(job.article_id);
+        if (existing) {
+            await summaryRepository.update(existing.id, {
+                summary_text: summaryResult.summary,
+                insights_json: summaryResult.insights,
+                data_points_json: summaryResult.data_points,
+            });
+        } else {
+            await summaryRepository.create({
+                article_id: job.article_id,
+                summary_text: summaryResult.summary,
+                insights_json: summaryResult.insights,
+                data_points_json: summaryResult.data_points,
+            });
+        }
+
+        await articleRepository.update(job.article_id, {
+            status: ArticleStatus.DONE,
+            summary: summaryResult.summary, // Simple summary in article table
+            raw_text: content,
+            error_message: null,
+        });
+    }
+}
+
+export default new IngestionQueueService();
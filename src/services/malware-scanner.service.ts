@@ -0,0 +1,172 @@
+import net from 'net';
+import {
+    MALWARE_SCANNER,
+    CLAMD_SOCKET,
+    CLAMD_HOST,
+    CLAMD_PORT,
+    CLAMD_TIMEOUT,
+} from '../config/env';
+
+/**
+ * Malware Scanner Service
+ * Pluggable engine used by the security scan to check artifacts for malware.
+ * Engines: clamd (ClamAV daemon over a unix socket or TCP) and an EICAR test double;
+ * any other local engine can be plugged in with setEngine()
+ */
+
+export type MalwareVerdictStatus = 'clean' | 'infected' | 'error' | 'skipped';
+
+export interface MalwareVerdict {
+    status: MalwareVerdictStatus;
+    engine: string;
+    signature?: string; // Detected malware name when infected
+    error?: string;
+}
+
+export interface MalwareScannerEngine {
+    readonly name: string;
+    scanBuffer(buffer: Buffer, fileName: string): Promise<MalwareVerdict>;
+}
+
+/**
+ * ClamAV daemon engine (INSTREAM command)
+ */
+export class ClamdScannerEngine implements MalwareScannerEngine {
+    readonly name = 'clamd';
+    private readonly chunkSize = 64 * 1024;
+
+    constructor(
+        private readonly options: {
+            socketPath?: string;
+            host: string;
+            port: number;
+            timeoutMs: number;
+        }
+    ) {}
+
+    async scanBuffer(buffer: Buffer): Promise<MalwareVerdict> {
+        try {
+            const reply = await this.instream(buffer);
+
+            // Replies: "stream: OK", "stream: <signature> FOUND", "<message> ERROR"
+            if (reply.endsWith('OK')) {
+                return { status: 'clean', engine: this.name };
+            }
+
+            const found = reply.match(/^stream: (.+) FOUND$/);
+            if (found) {
+                return { status: 'infected', engine: this.name, signature: found[1] };
+            }
+
+            return { status: 'error', engine: this.name, error: reply };
+        } catch (error: any) {
+            return { status: 'error', engine: this.name, error: error.message };
+        }
+    }
+
+    /**
+     * Stream the buffer to clamd and return its reply
+     */
+    private instream(buffer: Buffer): Promise<string> {
+        return new Promise((resolve, reject) => {
+            const socket = this.options.socketPath
+                ? net.createConnection({ path: this.options.socketPath })
+                : net.createConnection({ host: this.options.host, port: this.options.port });
+            const chunks: Buffer[] = [];
+
+            socket.setTimeout(this.options.timeoutMs);
+            socket.on('timeout', () => socket.destroy(new Error('clamd timed out')));
+            socket.on('error', reject);
+            socket.on('data', (chunk) => chunks.push(chunk));
+            socket.on('end', () => {
+                resolve(Buffer.concat(chunks).toString('utf-8').replace(/\0/g, '').trim());
+            });
+
+            socket.on('connect', () => {
+                socket.write('zINSTREAM\0');
+                for (let offset = 0; offset < buffer.length; offset += this.chunkSize) {
+                    const chunk = buffer.subarray(offset, offset + this.chunkSize);
+                    const size = Buffer.alloc(4);
+                    size.writeUInt32BE(chunk.length, 0);
+                    socket.write(size);
+                    socket.write(chunk);
+                }
+                // Zero-length chunk ends the stream
+                socket.end(Buffer.alloc(4));
+            });
+        });
+    }
+}
+
+/**
+ * Test double that flags the EICAR anti-virus test file
+ */
+export class EicarScannerEngine implements MalwareScannerEngine {
+    readonly name = 'eicar';
+    static readonly EICAR_SIGNATURE = 'X5O!P%@AP[4\\PZX54(P^)7CC)7}$EICAR-STANDARD-ANTIVIRUS-TEST-FILE!$H+H*';
+
+    async scanBuffer(buffer: Buffer): Promise<MalwareVerdict> {
+        if (buffer.includes(EicarScannerEngine.EICAR_SIGNATURE)) {
+            return { status: 'infected', engine: this.name, signature: 'Eicar-Test-Signature' };
+        }
+        return { status: 'clean', engine: this.name };
+    }
+}
+
+export class MalwareScannerService {
+    private engine: MalwareScannerEngine | null;
+
+    constructor() {
+        this.engine = this.createConfiguredEngine();
+    }
+
+    /**
+     * Replace the scanning engine (null disables malware scanning)
+     */
+    setEngine(engine: MalwareScannerEngine | null): void {
+        this.engine = engine;
+    }
+
+    /**
+     * Whether an engine is configured
+     */
+    isEnabled(): boolean {
+        return this.engine !== null;
+    }
+
+    /**
+     * Scan a file with the configured engine
+     */
+    async scanBuffer(buffer: Buffer, fileName: string): Promise<MalwareVerdict> {
+        if (!this.engine) {
+            return { status: 'skipped', engine: 'none' };
+        }
+
+        try {
+            return await this.engine.scanBuffer(buffer, fileName);
+        } catch (error: any) {
+            return { status: 'error', engine: this.engine.name, error: error.message };
+        }
+    }
+
+    /**
+     * Engine selected by MALWARE_SCANNER
+     */
+    private createConfiguredEngine(): MalwareScannerEngine | null {
+        switch (MALWARE_SCANNER) {
+            case 'clamd':
+                return new ClamdScannerEngine({
+                    socketPath: CLAMD_SOCKET,
+                    host: CLAMD_HOST,
+                    port: CLAMD_PORT,
+                    timeoutMs: CLAMD_TIMEOUT,
+                });
+            case 'eicar':
+                return new EicarScannerEngine();
+            default:
+                return null;
+        }
+    }
+}
+
+export default new MalwareScannerService();
@@ -0,0 +1,358 @@
+import axios from 'axios';
+import http from 'http';
+import https from 'https';
+import { createN8nClient } from '../config/n8n';
+import productRepository from '../repositories/product.repository';
+import productArtifactRepository from '../repositories/product-artifact.repository';
+import productWorkflowRepository from '../repositories/product-workflow.repository';
+import n8nInstanceRepository, { N8nInstanceRecord } from '../repositories/n8n-instance.repository';
+import workflowDeploymentRepository, {
+    MissingCredential,
+    WorkflowDeploymentRecord,
+} from '../repositories/workflow-deployment.repository';
+import storageService from './storage.service';
+import workflowSanitizerService from './workflow-sanitizer.service';
+import workflowSetupGuideService from './workflow-setup-guide.service';
+import entitlementService from './entitlement.service';
+import { encryptSecret, decryptSecret } from '../utils/secret-box';
+import { checkOutboundUrl, publicOnlyLookup } from '../utils/url-guard';
+import { Product, ProductType, ProductStatus, ProductReviewStatus } from '@gsnake/shared-types';
+import { NotFoundError, DomainError, AuthorizationError, ERROR_CODES } from '../shared/errors';
+import { JWT_SECRET, N8N_INSTANCE_SECRET, N8N_DEPLOY_ALLOW_PRIVATE_URLS, N8N_DEPLOY_TIMEOUT } from '../config/env';
+
+/**
+ * n8n Deploy Service
+ * Buyers register their own n8n instances (base URL + API key, stored encrypted) and import
+ * purchased workflows into them through the n8n public REST API. Workflows are sanitized
+ * before import, so credentials always have to be created on the buyer's side; the result
+ * reports which credential types are still missing
+ */
+
+export type N8nInstanceView = Omit<N8nInstanceRecord, 'api_key_encrypted'>;
+
+export interface WorkflowDeploymentResult {
+    deployment: WorkflowDeploymentRecord;
+    workflowUrl: string;
+    missingCredentials: MissingCredential[];
+}
+
+// Workflow settings the public API accepts on create
+const IMPORTABLE_SETTINGS = [
+    'saveExecutionProgress',
+    'saveManualExecutions',
+    'saveDataErrorExecution',
+    'saveDataSuccessExecution',
+    'executionTimeout',
+    'timezone',
+    'executionOrder',
+];
+
+// Connections re-check the resolved address, so instance hosts cannot rebind to internal addresses
+const INSTANCE_AGENTS = N8N_DEPLOY_ALLOW_PRIVATE_URLS
+    ? {}
+    : {
+        httpAgent: new http.Agent({ lookup: publicOnlyLookup }),
+        httpsAgent: new https.Agent({ lookup: publicOnlyLookup }),
+    };
+
+export class N8nDeployService {
+    /**
+     * List the user's instances
+     */
+    async listInstances(userId: string): Promise<N8nInstanceView[]> {
+        const instances = await n8nInstanceRepository.findByUserId(userId);
+        return instances.map(instance => this.toView(instance));
+    }
+
+    /**
+     * Register an instance after checking the API key works
+     */
+    async registerInstance(
+        userId: string,
+        data: { name: string; base_url: string; api_key: string }
+    ): Promise<N8nInstanceView> {
+        const baseUrl = await this.normalizeBaseUrl(data.base_url);
+        if (await n8nInstanceRepository.findByUserIdAndBaseUrl(userId, baseUrl)) {
+            throw new DomainError(ERROR_CODES.N8N_INSTANCE_ALREADY_EXISTS, { baseUrl });
+        }
+
+        await this.verifyConnection(baseUrl, data.api_key);
+
+        const instance = await n8nInstanceRepository.create({
+            user_id: userId,
+            name: data.name,
+            base_url: baseUrl,
+            api_key_encrypted: encryptSecret(data.api_key, this.getSecret()),
+            api_key_last4: data.api_key.slice(-4),
+            last_verified_at: new Date(),
+        });
+        return this.toView(instance);
+    }
+
+    /**
+     * Update name, URL or API key; a changed URL or key is verified again
+     */
+    async updateInstance(
+        userId: string,
+        instanceId: string,
+        data: { name?: string; base_url?: string; api_key?: string }
+    ): Promise<N8nInstanceView> {
+        const instance = await this.getOwnedInstance(userId, instanceId);
+
+        const baseUrl = data.base_url !== undefined ? await this.normalizeBaseUrl(data.base_url) : instance.base_url;
+        if (baseUrl !== instance.base_url && await n8nInstanceRepository.findByUserIdAndBaseUrl(userId, baseUrl)) {
+            throw new DomainError(ERROR_CODES.N8N_INSTANCE_ALREADY_EXISTS, { baseUrl });
+        }
+
+        const changes: Parameters<typeof n8nInstanceRepository.update>[1] = { name: data.name };
+        if (baseUrl !== instance.base_url || data.api_key !== undefined) {
+            const apiKey = data.api_key ?? this.decryptApiKey(instance);
+            await this.verifyConnection(baseUrl, apiKey);
+
+            changes.base_url = baseUrl;
+            changes.api_key_encrypted = encryptSecret(apiKey, this.getSecret());
+            changes.api_key_last4 = apiKey.slice(-4);
+            changes.last_verified_at = new Date();
+        }
+
+        const updated = await n8nInstanceRepository.update(instance.id, changes);
+        if (!updated) {
+            throw new NotFoundError(ERROR_CODES.N8N_INSTANCE_NOT_FOUND, { instanceId });
+        }
+        return this.toView(updated);
+    }
+
+    /**
+     * Check that a registered instance is still reachable with its API key
+     */
+    async verifyInstance(userId: string, instanceId: string): Promise<N8nInstanceView> {
+        const instance = await this.getOwnedInstance(userId, instanceId);
+        await this.normalizeBaseUrl(instance.base_url);
+        await this.verifyConnection(instance.base_url, this.decryptApiKey(instance));
+
+        const updated = await n8nInstanceRepository.update(instance.id, { last_verified_at: new Date() });
+        return this.toView(updated || instance);
+    }
+
+    /**
+     * Remove an instance
+     */
+    async deleteInstance(userId: string, instanceId: string): Promise<void> {
+        const instance = await this.getOwnedInstance(userId, instanceId);
+        await n8nInstanceRepository.delete(instance.id);
+    }
+
+    /**
+     * Import a purchased workflow into one of the user's instances
+     */
+    async deployWorkflow(userId: string, productId: string, instanceId: string): Promise<WorkflowDeploymentResult> {
+        const instance = await this.getOwnedInstance(userId, instanceId);
+        const product = await productRepository.findById(productId);
+        if (!product || product.type !== ProductType.WORKFLOW) {
+            throw new NotFoundError(ERROR_CODES.PRODUCT_NOT_FOUND, { productId });
+        }
+        await this.assertPurchased(product, userId);
+
+        // The host may resolve differently than when the instance was registered
+        await this.normalizeBaseUrl(instance.base_url);
+
+        const { workflowJson, releaseId } = await this.loadWorkflowJson(productId);
+        const { workflow } = workflowSanitizerService.sanitize(workflowJson);
+        const required = workflowSetupGuideService.generate(workflow).credentials;
+
+        const settings = workflow.settings && typeof workflow.settings === 'object' ? workflow.settings : {};
+        const payload = {
+            name: product.title,
+            nodes: workflow.nodes,
+            connections: workflow.connections || {},
+            settings: Object.fromEntries(Object.entries(settings).filter(([key]) => IMPORTABLE_SETTINGS.includes(key))),
+        };
+
+        const client = this.createClient(instance.base_url, this.decryptApiKey(instance));
+        let n8nWorkflowId: string;
+        try {
+            const response = await client.post('/workflows', payload);
+            n8nWorkflowId = String(response.data?.id);
+        } catch (error) {
+            const failure = this.toDomainError(error, instance.base_url);
+            await workflowDeploymentRepository.create({
+                user_id: userId,
+                instance_id: instance.id,
+                product_id: productId,
+                release_id: releaseId,
+                status: 'failed',
+                missing_credentials: required,
+                error: failure.details?.message || failure.message,
+            });
+            throw failure;
+        }
+
+        // Credentials already on the instance (only listable on newer n8n versions)
+        const existingTypes = await this.listCredentialTypes(client);
+        const missingCredentials = existingTypes
+            ? required.filter(credential => !existingTypes.has(credential.type))
+            : required;
+
+        const deployment = await workflowDeploymentRepository.create({
+            user_id: userId,
+            instance_id: instance.id,
+            product_id: productId,
+            release_id: releaseId,
+            status: 'succeeded',
+            n8n_workflow_id: n8nWorkflowId,
+            missing_credentials: missingCredentials,
+        });
+
+        return {
+            deployment,
+            workflowUrl: `${instance.base_url}/workflow/${encodeURIComponent(n8nWorkflowId)}`,
+            missingCredentials,
+        };
+    }
+
+    /**
+     * List the user's deployments, optionally of one product
+     */
+    async getDeployments(userId: string, productId?: string): Promise<WorkflowDeploymentRecord[]> {
+        return await workflowDeploymentRepository.findByUserId(userId, productId);
+    }
+
+    /**
+     * Buyers may deploy free workflows and paid workflows they own
+     */
+    private async assertPurchased(product: Product, userId: string): Promise<void> {
+        if (product.seller_id === userId) {
+            return;
+        }
+        if (product.status !== ProductStatus.PUBLISHED || product.review_status !== ProductReviewStatus.APPROVED) {
+            throw new NotFoundError(ERROR_CODES.PRODUCT_NOT_FOUND, { productId: product.id });
+        }
+        if (!product.is_free && !(await entitlementService.hasEntitlement(userId, product.id))) {
+            throw new AuthorizationError(ERROR_CODES.WORKFLOW_NOT_PURCHASED, { productId: product.id });
+        }
+    }
+
+    /**
+     * Workflow JSON buyers currently get: the primary artifact (current release first),
+     * falling back to the workflow details file
+     */
+    private async loadWorkflowJson(productId: string): Promise<{ workflowJson: any; releaseId: string | null }> {
+        const artifact = await productArtifactRepository.findPrimaryByProductId(productId);
+        let fileUrl: string | null | undefined = null;
+        let releaseId: string | null = null;
+
+        if (artifact && artifact.artifact_type === 'workflow_json') {
+            fileUrl = artifact.file_url;
+            releaseId = artifact.release_id;
+        } else {
+            const details = await productWorkflowRepository.findByProductId(productId);
+            fileUrl = details?.workflow_json_url;
+        }
+
+        if (!fileUrl) {
+            throw new DomainError(ERROR_CODES.WORKFLOW_FILE_REQUIRED, { productId });
+        }
+
+        try {
+            return { workflowJson: JSON.parse((await storageService.readFile(fileUrl)).toString()), releaseId };
+        } catch (error: any) {
+            throw new DomainError(ERROR_CODES.WORKFLOW_INVALID, { productId, message: error.message });
+        }
+    }
+
+    private async listCredentialTypes(client: ReturnType<typeof createN8nClient>): Promise<Set<string> | null> {
+        try {
+            const response = await client.get('/credentials', { params: { limit: 250 } });
+            const credentials: any[] = Array.isArray(response.data?.data) ? response.data.data : [];
+            return new Set(credentials.map(credential => credential.type).filter(Boolean));
+        } catch {
+            return null;
+        }
+    }
+
+    private async verifyConnection(baseUrl: string, apiKey: string): Promise<void> {
+        try {
+            await this.createClient(baseUrl, apiKey).get('/workflows', { params: { limit: 1 } });
+        } catch (error) {
+            throw this.toDomainError(error, baseUrl);
+        }
+    }
+
+    /**
+     * Map axios errors from an instance to domain errors
+     */
+    private toDomainError(error: unknown, baseUrl: string): DomainError {
+        if (!axios.isAxiosError(error) || !error.response) {
+            return new DomainError(ERROR_CODES.N8N_INSTANCE_UNREACHABLE, {
+                baseUrl,
+                message: error instanceof Error ? error.message : String(error),
+            });
+        }
+
+        const status = error.response.status;
+        if (status === 401 || status === 403) {
+            return new DomainError(ERROR_CODES.N8N_INSTANCE_AUTH_FAILED, { baseUrl, status });
+        }
+        if (status === 404) {
+            return new DomainError(ERROR_CODES.N8N_INSTANCE_UNREACHABLE, {
+                baseUrl,
+                status,
+                message: 'n8n public API not found (is the API enabled on this instance?)',
+            });
+        }
+        return new DomainError(ERROR_CODES.WORKFLOW_DEPLOY_FAILED, {
+            baseUrl,
+            status,
+            message: typeof error.response.data?.message === 'string' ? error.response.data.message : error.message,
+        });
+    }
+
+    /**
+     * Canonical instance URL (no trailing slash or /api/v1), allowed as an outbound target
+     */
+    private async normalizeBaseUrl(rawUrl: string): Promise<string> {
+        const baseUrl = rawUrl.trim().replace(/\/+$/, '').replace(/\/api\/v1$/, '');
+        const reason = await checkOutboundUrl(baseUrl, N8N_DEPLOY_ALLOW_PRIVATE_URLS);
+        if (reason) {
+            throw new DomainError(ERROR_CODES.N8N_INSTANCE_URL_NOT_ALLOWED, { baseUrl, reason });
+        }
+        return baseUrl;
+    }
+
+    private createClient(baseUrl: string, apiKey: string) {
+        // No redirects: they could lead to hosts the URL check did not approve
+        return createN8nClient(`${baseUrl}/api/v1`, apiKey, {
+            timeout: N8N_DEPLOY_TIMEOUT,
+            maxRedirects: 0,
+            ...INSTANCE_AGENTS,
+        });
+    }
+
+    private async getOwnedInstance(userId: string, instanceId: string): Promise<N8nInstanceRecord> {
+        const instance = await n8nInstanceRepository.findById(instanceId);
+        if (!instance || instance.user_id !== userId) {
+            throw new NotFoundError(ERROR_CODES.N8N_INSTANCE_NOT_FOUND, { instanceId });
+        }
+        return instance;
+    }
+
+    private decryptApiKey(instance: N8nInstanceRecord): string {
+        const apiKey = decryptSecret(instance.api_key_encrypted, this.getSecret());
+        if (apiKey === null) {
+            // Secret was rotated; the buyer has to enter the key again
+            throw new DomainError(ERROR_CODES.N8N_INSTANCE_AUTH_FAILED, { instanceId: instance.id, reason: 'API key cannot be decrypted' });
+        }
+        return apiKey;
+    }
+
+    private getSecret(): string {
+        return N8N_INSTANCE_SECRET || JWT_SECRET;
+    }
+
+    private toView(instance: N8nInstanceRecord): N8nInstanceView {
+        const { api_key_encrypted, ...view } = instance;
+        return view;
+    }
+}
+
+export default new N8nDeployService();
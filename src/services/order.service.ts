@@ -0,0 +1,162 @@
+import orderRepository, { OrderRecord, OrderStatus, OrderWithItems } from '../repositories/order.repository';
+import entitlementRepository from '../repositories/entitlement.repository';
+import productRepository from '../repositories/product.repository';
+import subscriptionService from './subscription.service';
+import { Product, ProductStatus, ProductReviewStatus, ProductPriceType, UserRole } from '@gsnake/shared-types';
+import { NotFoundError, DomainError, ERROR_CODES } from '../shared/errors';
+
+/**
+ * Order Service
+ * Buyers order one-time paid products; prices are snapshotted into the order items.
+ * Paying an order grants a 'purchase' entitlement for each item and counts the sale;
+ * refunding it revokes those entitlements. Free products need no order; subscription
+ * periods are paid with orders the subscription service creates (items with subscription_id)
+ */
+
+export class OrderService {
+    /**
+     * Create a pending order for the given products
+     * All products must be published, paid one-time products in one currency that the
+     * buyer neither sells nor already owns
+     */
+    async createOrder(userId: string, productIds: string[]): Promise<OrderWithItems> {
+        const products: Product[] = [];
+        for (const productId of new Set(productIds)) {
+            const product = await productRepository.findById(productId);
+            if (!product || product.status !== ProductStatus.PUBLISHED || product.review_status !== ProductReviewStatus.APPROVED) {
+                throw new NotFoundError(ERROR_CODES.PRODUCT_NOT_FOUND, { productId });
+            }
+            if (product.seller_id === userId) {
+                throw new DomainError(ERROR_CODES.ORDER_OWN_PRODUCT, { productId });
+            }
+            if (product.is_free || !product.price || product.price_type === ProductPriceType.SUBSCRIPTION) {
+                throw new DomainError(ERROR_CODES.ORDER_PRODUCT_NOT_PURCHASABLE, { productId, priceType: product.price_type });
+            }
+            if (await entitlementRepository.findActive(userId, productId)) {
+                throw new DomainError(ERROR_CODES.ORDER_PRODUCT_ALREADY_OWNED, { productId });
+            }
+            products.push(product);
+        }
+
+        const currencies = [...new Set(products.map(product => product.currency || 'VND'))];
+        if (currencies.length > 1) {
+            throw new DomainError(ERROR_CODES.ORDER_CURRENCY_MISMATCH, { currencies });
+        }
+
+        return await orderRepository.create({
+            user_id: userId,
+            currency: currencies[0],
+            items: products.map(product => ({
+                product_id: product.id,
+                seller_id: product.seller_id,
+                title: product.title,
+                unit_price: product.price!,
+            })),
+        });
+    }
+
+    /**
+     * List the buyer's orders, newest first
+     */
+    async getOrders(userId: string, status?: OrderStatus, limit: number = 50, offset: number = 0): Promise<OrderRecord[]> {
+        return await orderRepository.findMany({ user_id: userId, status }, limit, offset);
+    }
+
+    /**
+     * List all orders (admin)
+     */
+    async getAllOrders(status?: OrderStatus, limit: number = 50, offset: number = 0): Promise<OrderRecord[]> {
+        return await orderRepository.findMany({ status }, limit, offset);
+    }
+
+    /**
+     * Get an order with its items; buyers only see their own orders, admins every order
+     */
+    async getOrder(orderId: string, viewer: { userId: string; role?: string }): Promise<OrderWithItems> {
+        const order = await orderRepository.findById(orderId);
+        if (!order || (order.user_id !== viewer.userId && viewer.role !== UserRole.ADMIN)) {
+            throw new NotFoundError(ERROR_CODES.ORDER_NOT_FOUND, { orderId });
+        }
+        return { ...order, items: await orderRepository.findItems(order.id) };
+    }
+
+    /**
+     * Cancel a pending order (buyer)
+     */
+    async cancelOrder(orderId: string, userId: string): Promise<OrderRecord> {
+        const order = await this.getOrder(orderId, { userId });
+        const cancelled = await orderRepository.transition(order.id, ['pending'], 'cancelled', { cancelled_at: new Date() });
+        if (!cancelled) {
+            throw new DomainError(ERROR_CODES.ORDER_NOT_PENDING, { orderId, status: order.status });
+        }
+        return cancelled;
+    }
+
+    /**
+     * Mark an order paid, grant its products and count the sales
+     * Only pending orders unless `from` says otherwise (a provider may settle a cancelled order)
+     */
+    async markPaid(orderId: string, from: OrderStatus[] = ['pending']): Promise<OrderWithItems> {
+        const order = await orderRepository.findById(orderId);
+        if (!order) {
+            throw new NotFoundError(ERROR_CODES.ORDER_NOT_FOUND, { orderId });
+        }
+
+        const paid = await orderRepository.transition(order.id, from, 'paid', { paid_at: new Date() });
+        if (!paid) {
+            throw new DomainError(ERROR_CODES.ORDER_NOT_PENDING, { orderId, status: order.status });
+        }
+
+        const items = await orderRepository.findItems(order.id);
+        for (const item of items) {
+            if (!item.product_id) continue;
+            if (item.subscription_id) {
+                await subscriptionService.applyPaidOrder(paid, item);
+            } else {
+                await entitlementRepository.grant({
+                    user_id: order.user_id,
+                    product_id: item.product_id,
+                    source: 'purchase',
+                    order_id: order.id,
+                });
+            }
+            await productRepository.incrementSales(item.product_id, 1);
+        }
+
+        return { ...paid, items };
+    }
+
+    /**
+     * Refund a paid order and revoke the entitlements it granted
+     * Refunding a subscription period ends the subscription
+     */
+    async refundOrder(orderId: string, reason: string): Promise<OrderWithItems> {
+        const order = await orderRepository.findById(orderId);
+        if (!order) {
+            throw new NotFoundError(ERROR_CODES.ORDER_NOT_FOUND, { orderId });
+        }
+
+        const refunded = await orderRepository.transition(order.id, ['paid'], 'refunded', {
+            refunded_at: new Date(),
+            refund_reason: reason,
+        });
+        if (!refunded) {
+            throw new DomainError(ERROR_CODES.ORDER_NOT_PAID, { orderId, status: order.status });
+        }
+
+        await entitlementRepository.revokeByOrderId(order.id, reason);
+
+        const items = await orderRepository.findItems(order.id);
+        for (const item of items) {
+            if (item.subscription_id) {
+                await subscriptionService.expireForRefund(item.subscription_id, reason);
+            }
+            if (!item.product_id) continue;
+            await productRepository.incrementSales(item.product_id, -1);
+        }
+
+        return { ...refunded, items };
+    }
+}
+
+export default new OrderService();
@@ -0,0 +1,104 @@
+import crypto from 'crypto';
+import { VnpayPaymentProvider } from '../vnpay.provider';
+
+const HASH_SECRET = 'TESTSECRETTESTSECRETTESTSECRET12';
+
+const provider = new VnpayPaymentProvider({
+    tmnCode: 'TESTTMN1',
+    hashSecret: HASH_SECRET,
+    paymentUrl: 'https://sandbox.vnpayment.vn/paymentv2/vpcpay.html',
+    apiUrl: 'https://sandbox.vnpayment.vn/merchant_webapi/api/transaction',
+    timeoutMs: 1000,
+});
+
+/**
+ * Sign IPN parameters the way VNPay documents it: sorted keys, form-encoded values, HMAC-SHA512
+ */
+function signIpn(params: Record<string, string>): Record<string, string> {
+    const data = Object.keys(params)
+        .sort()
+        .map(key => `${encodeURIComponent(key)}=${encodeURIComponent(params[key]).replace(/%20/g, '+')}`)
+        .join('&');
+    const hash = crypto.createHmac('sha512', HASH_SECRET).update(data, 'utf-8').digest('hex');
+    return { ...params, vnp_SecureHashType: 'HmacSHA512', vnp_SecureHash: hash };
+}
+
+function ipn(overrides: Record<string, string> = {}): Record<string, string> {
+    return {
+        vnp_TmnCode: 'TESTTMN1',
+        vnp_Amount: '15000000',
+        vnp_BankCode: 'NCB',
+        vnp_OrderInfo: 'Thanh toan don hang 42',
+        vnp_ResponseCode: '00',
+        vnp_TransactionStatus: '00',
+        vnp_TransactionNo: '14012345',
+        vnp_TxnRef: '7b0c3a52-0a3e-4f7e-9a55-0d1f0b3f9e11',
+        ...overrides,
+    };
+}
+
+const webhook = (query: Record<string, string>) => ({ headers: {}, query, rawBody: null });
+
+describe('VnpayPaymentProvider.parseWebhook', () => {
+    it('accepts a correctly signed IPN', () => {
+        const event = provider.parseWebhook(webhook(signIpn(ipn())));
+
+        expect(event).toMatchObject({
+            type: 'payment.succeeded',
+            paymentId: '7b0c3a52-0a3e-4f7e-9a55-0d1f0b3f9e11',
+            providerPaymentId: '14012345',
+            amount: 150000,
+            currency: 'VND',
+        });
+    });
+
+    it('accepts an upper-case signature', () => {
+        const query = signIpn(ipn());
+        query.vnp_SecureHash = query.vnp_SecureHash.toUpperCase();
+
+        expect(provider.parseWebhook(webhook(query))).not.toBeNull();
+    });
+
+    it('rejects tampered parameters', () => {
+        const query = signIpn(ipn());
+        query.vnp_Amount = '100';
+
+        expect(provider.parseWebhook(webhook(query))).toBeNull();
+    });
+
+    it('rejects a missing signature or one made with another secret', () => {
+        const unsigned = signIpn(ipn());
+        delete unsigned.vnp_SecureHash;
+        const forged = { ...unsigned, vnp_SecureHash: crypto.createHmac('sha512', 'other').update('x').digest('hex') };
+
+        expect(provider.parseWebhook(webhook(unsigned))).toBeNull();
+        expect(provider.parseWebhook(webhook(forged))).toBeNull();
+    });
+
+    it('reports declined payments as failed', () => {
+        const event = provider.parseWebhook(webhook(signIpn(ipn({ vnp_ResponseCode: '24', vnp_TransactionStatus: '02' }))));
+
+        expect(event?.type).toBe('payment.failed');
+        expect(event?.failureReason).toBe('VNPay response code 24');
+    });
+});
+
+describe('VnpayPaymentProvider.createPayment', () => {
+    it('signs the payment URL over its query string', async () => {
+        const { redirectUrl } = await provider.createPayment({
+            paymentId: '7b0c3a52-0a3e-4f7e-9a55-0d1f0b3f9e11',
+            amount: 150000,
+            currency: 'VND',
+            description: 'Thanh toan don hang 42',
+            returnUrl: 'https://shop.example.com/orders/42',
+            ipAddress: '203.0.113.7',
+            expiresAt: new Date('2024-03-10T12:45:00Z'),
+        });
+
+        const url = new URL(redirectUrl);
+        const [query, hash] = url.search.slice(1).split('&vnp_SecureHash=');
+        expect(url.searchParams.get('vnp_Amount')).toBe('15000000');
+        expect(url.searchParams.get('vnp_ExpireDate')).toBe('20240310194500');
+        expect(hash).toBe(crypto.createHmac('sha512', HASH_SECRET).update(query, 'utf-8').digest('hex'));
+    });
+});
@@ -0,0 +1,124 @@
+import crypto from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import {
+    PaymentProvider,
+    CreatePaymentInput,
+    CreatedPayment,
+    PaymentEvent,
+    PaymentEventType,
+    RefundInput,
+    WebhookOutcome,
+    WebhookReply,
+    WebhookRequest,
+} from './payment-provider';
+
+/**
+ * In-process test provider (development and tests)
+ * Its "hosted page" is GET /api/payments/fake/checkout/:paymentId, which pays (or fails)
+ * the payment by sending itself a webhook signed like a real provider would.
+ * Webhooks are JSON bodies signed with HMAC-SHA256 in the x-fake-signature header
+ */
+export class FakePaymentProvider implements PaymentProvider {
+    readonly name = 'fake';
+    static readonly SIGNATURE_HEADER = 'x-fake-signature';
+
+    constructor(
+        private readonly options: {
+            secret: string;
+            checkoutUrl: string; // Base URL of the fake hosted page
+        }
+    ) {}
+
+    supportsCurrency(): boolean {
+        return true;
+    }
+
+    async createPayment(input: CreatePaymentInput): Promise<CreatedPayment> {
+        return {
+            redirectUrl: `${this.options.checkoutUrl}/${input.paymentId}`,
+            providerPaymentId: `fake_${input.paymentId.replace(/-/g, '')}`,
+        };
+    }
+
+    /**
+     * Build a signed webhook as the provider would send it
+     */
+    createWebhook(event: {
+        type: PaymentEventType;
+        paymentId: string;
+        providerPaymentId: string | null;
+        amount: number;
+        currency: string;
+        failureReason?: string;
+    }): WebhookRequest {
+        const rawBody = Buffer.from(JSON.stringify({
+            id: `evt_${uuidv4().replace(/-/g, '')}`,
+            type: event.type,
+            data: {
+                payment_id: event.paymentId,
+                provider_payment_id: event.providerPaymentId,
+                amount: event.amount,
+                currency: event.currency,
+                failure_reason: event.failureReason,
+            },
+        }));
+
+        return {
+            headers: {
+                'content-type': 'application/json',
+                [FakePaymentProvider.SIGNATURE_HEADER]: this.sign(rawBody),
+            },
+            query: {},
+            rawBody,
+        };
+    }
+
+    parseWebhook(request: WebhookRequest): PaymentEvent | null {
+        const signature = request.headers[FakePaymentProvider.SIGNATURE_HEADER];
+        if (!request.rawBody || typeof signature !== 'string') {
+            return null;
+        }
+
+        const expected = Buffer.from(this.sign(request.rawBody));
+        const actual = Buffer.from(signature);
+        if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+            return null;
+        }
+
+        let body: any;
+        try {
+            body = JSON.parse(request.rawBody.toString('utf-8'));
+        } catch {
+            return null;
+        }
+        if (!body?.id || !body?.data?.payment_id) {
+            return null;
+        }
+
+        return {
+            eventId: body.id,
+            type: body.type,
+            paymentId: body.data.payment_id,
+            providerPaymentId: body.data.provider_payment_id ?? null,
+            amount: Number(body.data.amount),
+            currency: body.data.currency,
+            failureReason: body.data.failure_reason,
+            payload: body,
+        };
+    }
+
+    webhookReply(outcome: WebhookOutcome): WebhookReply {
+        if (outcome === 'invalid_signature') {
+            return { statusCode: 400, body: { received: false, outcome } };
+        }
+        return { statusCode: 200, body: { received: true, outcome } };
+    }
+
+    async refund(input: RefundInput): Promise<{ providerRefundId: string | null }> {
+        return { providerRefundId: `fake_refund_${input.paymentId.replace(/-/g, '')}` };
+    }
+
+    private sign(rawBody: Buffer): string {
+        return crypto.createHmac('sha256', this.options.secret).update(rawBody).digest('hex');
+    }
+}
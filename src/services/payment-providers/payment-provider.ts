@@ -0,0 +1,81 @@
+/**
+ * Payment provider contract used by PaymentService
+ * Providers send the buyer to a hosted payment page and report the outcome through
+ * signed server-to-server webhooks; the buyer's return to the site never marks an order paid
+ */
+
+export interface CreatePaymentInput {
+    paymentId: string; // Our payment ID, echoed back in webhooks
+    amount: number;
+    currency: string;
+    description: string;
+    returnUrl: string; // Where the provider sends the buyer afterwards
+    ipAddress: string;
+    expiresAt: Date;
+}
+
+export interface CreatedPayment {
+    redirectUrl: string;
+    providerPaymentId: string | null; // Some providers only assign it when the buyer pays
+    providerData?: Record<string, any>; // Stored with the payment and passed back on refund
+}
+
+export type PaymentEventType = 'payment.succeeded' | 'payment.failed' | 'refund.succeeded';
+
+export interface PaymentEvent {
+    eventId: string; // Unique per provider; replays of a webhook carry the same ID
+    type: PaymentEventType;
+    paymentId: string;
+    providerPaymentId: string | null;
+    amount: number;
+    currency: string;
+    failureReason?: string;
+    payload: Record<string, any>;
+}
+
+export interface WebhookRequest {
+    headers: Record<string, string | string[] | undefined>;
+    query: Record<string, string | undefined>;
+    rawBody: Buffer | null;
+}
+
+/**
+ * Result of handling a webhook; each provider answers it the way it expects
+ */
+export type WebhookOutcome = 'processed' | 'duplicate' | 'invalid_signature' | 'payment_not_found' | 'amount_mismatch';
+
+export interface WebhookReply {
+    statusCode: number;
+    body: unknown;
+}
+
+export interface RefundInput {
+    paymentId: string;
+    providerPaymentId: string | null;
+    amount: number;
+    currency: string;
+    reason: string;
+    ipAddress: string;
+    providerData: Record<string, any>;
+}
+
+export interface PaymentProvider {
+    readonly name: string;
+
+    supportsCurrency(currency: string): boolean;
+
+    createPayment(input: CreatePaymentInput): Promise<CreatedPayment>;
+
+    /**
+     * Verify a webhook's signature and parse it
+     * Returns null when the signature is missing or invalid
+     */
+    parseWebhook(request: WebhookRequest): PaymentEvent | null;
+
+    webhookReply(outcome: WebhookOutcome): WebhookReply;
+
+    /**
+     * Refund a settled payment in full; rejects when the provider declines
+     */
+    refund(input: RefundInput): Promise<{ providerRefundId: string | null }>;
+}
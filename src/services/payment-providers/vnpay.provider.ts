@@ -0,0 +1,164 @@
+import crypto from 'crypto';
+import axios from 'axios';
+import { v4 as uuidv4 } from 'uuid';
+import {
+    PaymentProvider,
+    CreatePaymentInput,
+    CreatedPayment,
+    PaymentEvent,
+    RefundInput,
+    WebhookOutcome,
+    WebhookReply,
+    WebhookRequest,
+} from './payment-provider';
+
+export interface VnpayProviderOptions {
+    tmnCode: string;
+    hashSecret: string;
+    paymentUrl: string; // Hosted payment page (vpcpay.html)
+    apiUrl: string; // merchant_webapi transaction API (refunds)
+    timeoutMs: number;
+}
+
+// IPN reply codes VNPay expects (HTTP 200 with { RspCode, Message })
+const IPN_REPLIES: Record<WebhookOutcome, { RspCode: string; Message: string }> = {
+    processed: { RspCode: '00', Message: 'Confirm Success' },
+    duplicate: { RspCode: '02', Message: 'Order already confirmed' },
+    invalid_signature: { RspCode: '97', Message: 'Invalid Checksum' },
+    payment_not_found: { RspCode: '01', Message: 'Order not found' },
+    amount_mismatch: { RspCode: '04', Message: 'Invalid amount' },
+};
+
+/**
+ * VNPay (API version 2.1.0)
+ * The buyer is redirected to a payment URL signed with HMAC-SHA512; the outcome arrives as
+ * an IPN GET request with the same kind of signature. Amounts are VND multiplied by 100
+ */
+export class VnpayPaymentProvider implements PaymentProvider {
+    readonly name = 'vnpay';
+
+    constructor(private readonly options: VnpayProviderOptions) {}
+
+    supportsCurrency(currency: string): boolean {
+        return currency === 'VND';
+    }
+
+    async createPayment(input: CreatePaymentInput): Promise<CreatedPayment> {
+        const createDate = this.formatDate(new Date());
+        const params: Record<string, string> = {
+            vnp_Version: '2.1.0',
+            vnp_Command: 'pay',
+            vnp_TmnCode: this.options.tmnCode,
+            vnp_Amount: String(Math.round(input.amount * 100)),
+            vnp_CurrCode: 'VND',
+            vnp_TxnRef: input.paymentId,
+            vnp_OrderInfo: input.description,
+            vnp_OrderType: 'other',
+            vnp_Locale: 'vn',
+            vnp_ReturnUrl: input.returnUrl,
+            vnp_IpAddr: input.ipAddress,
+            vnp_CreateDate: createDate,
+            vnp_ExpireDate: this.formatDate(input.expiresAt),
+        };
+
+        const query = this.canonicalQuery(params);
+        return {
+            redirectUrl: `${this.options.paymentUrl}?${query}&vnp_SecureHash=${this.hmac(query)}`,
+            providerPaymentId: null, // vnp_TransactionNo is assigned when the buyer pays
+            providerData: { createDate },
+        };
+    }
+
+    parseWebhook(request: WebhookRequest): PaymentEvent | null {
+        const params: Record<string, string> = {};
+        for (const [key, value] of Object.entries(request.query)) {
+            if (key.startsWith('vnp_') && key !== 'vnp_SecureHash' && key !== 'vnp_SecureHashType' && value !== undefined) {
+                params[key] = value;
+            }
+        }
+
+        const signature = request.query.vnp_SecureHash;
+        if (!signature || !params.vnp_TxnRef) {
+            return null;
+        }
+
+        const expected = Buffer.from(this.hmac(this.canonicalQuery(params)));
+        const actual = Buffer.from(signature.toLowerCase());
+        if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+            return null;
+        }
+
+        const succeeded = params.vnp_ResponseCode === '00' && params.vnp_TransactionStatus === '00';
+        return {
+            eventId: `${params.vnp_TxnRef}:${params.vnp_TransactionNo || ''}:${params.vnp_ResponseCode || ''}`,
+            type: succeeded ? 'payment.succeeded' : 'payment.failed',
+            paymentId: params.vnp_TxnRef,
+            providerPaymentId: params.vnp_TransactionNo || null,
+            amount: Number(params.vnp_Amount) / 100,
+            currency: 'VND',
+            failureReason: succeeded ? undefined : `VNPay response code ${params.vnp_ResponseCode}`,
+            payload: params,
+        };
+    }
+
+    webhookReply(outcome: WebhookOutcome): WebhookReply {
+        return { statusCode: 200, body: IPN_REPLIES[outcome] };
+    }
+
+    async refund(input: RefundInput): Promise<{ providerRefundId: string | null }> {
+        const body: Record<string, string> = {
+            vnp_RequestId: uuidv4().replace(/-/g, ''),
+            vnp_Version: '2.1.0',
+            vnp_Command: 'refund',
+            vnp_TmnCode: this.options.tmnCode,
+            vnp_TransactionType: '02', // Full refund
+            vnp_TxnRef: input.paymentId,
+            vnp_Amount: String(Math.round(input.amount * 100)),
+            vnp_TransactionNo: input.providerPaymentId || '',
+            vnp_TransactionDate: input.providerData.createDate,
+            vnp_CreateBy: 'system',
+            vnp_CreateDate: this.formatDate(new Date()),
+            vnp_IpAddr: input.ipAddress,
+            vnp_OrderInfo: input.reason.slice(0, 255),
+        };
+
+        // Refund requests are signed over the fields joined with "|" in this order
+        const signed = [
+            'vnp_RequestId', 'vnp_Version', 'vnp_Command', 'vnp_TmnCode', 'vnp_TransactionType', 'vnp_TxnRef',
+            'vnp_Amount', 'vnp_TransactionNo', 'vnp_TransactionDate', 'vnp_CreateBy', 'vnp_CreateDate',
+            'vnp_IpAddr', 'vnp_OrderInfo',
+        ].map(key => body[key]).join('|');
+
+        const response = await axios.post(
+            this.options.apiUrl,
+            { ...body, vnp_SecureHash: this.hmac(signed) },
+            { timeout: this.options.timeoutMs }
+        );
+
+        if (response.data?.vnp_ResponseCode !== '00') {
+            throw new Error(`VNPay refund failed: ${response.data?.vnp_ResponseCode} ${response.data?.vnp_Message || ''}`.trim());
+        }
+        return { providerRefundId: response.data.vnp_TransactionNo || null };
+    }
+
+    /**
+     * Keys sorted, values form-encoded (spaces as "+"), as VNPay signs them
+     */
+    private canonicalQuery(params: Record<string, string>): string {
+        return Object.keys(params)
+            .sort()
+            .map(key => `${encodeURIComponent(key)}=${encodeURIComponent(params[key]).replace(/%20/g, '+')}`)
+            .join('&');
+    }
+
+    private hmac(data: string): string {
+        return crypto.createHmac('sha512', this.options.hashSecret).update(data, 'utf-8').digest('hex');
+    }
+
+    /**
+     * yyyyMMddHHmmss in Vietnam time (GMT+7)
+     */
+    private formatDate(date: Date): string {
+        return new Date(date.getTime() + 7 * 60 * 60 * 1000).toISOString().replace(/[-:T]/g, '').slice(0, 14);
+    }
+}
@@ -0,0 +1,315 @@
+import orderRepository, { OrderWithItems } from '../repositories/order.repository';
+import paymentRepository, { PaymentRecord } from '../repositories/payment.repository';
+import paymentEventRepository from '../repositories/payment-event.repository';
+import orderService from './order.service';
+import { PaymentProvider, PaymentEvent, WebhookReply, WebhookRequest } from './payment-providers/payment-provider';
+import { FakePaymentProvider } from './payment-providers/fake.provider';
+import { VnpayPaymentProvider } from './payment-providers/vnpay.provider';
+import { UserRole } from '@gsnake/shared-types';
+import { NotFoundError, DomainError, ERROR_CODES } from '../shared/errors';
+import {
+    FRONTEND_URL,
+    JWT_SECRET,
+    API_PUBLIC_URL,
+    PAYMENT_PROVIDER,
+    PAYMENT_EXPIRY_MINUTES,
+    PAYMENT_PROVIDER_TIMEOUT,
+    PAYMENT_FAKE_SECRET,
+    VNPAY_TMN_CODE,
+    VNPAY_HASH_SECRET,
+    VNPAY_PAYMENT_URL,
+    VNPAY_API_URL,
+} from '../config/env';
+
+/**
+ * Payment Service
+ * Checkout of pending orders through the provider selected by PAYMENT_PROVIDER.
+ * Orders are marked paid (and their products granted) only by a signed provider webhook;
+ * each webhook event is recorded once, so replays are acknowledged without side effects.
+ * Refunds go through the provider that took the payment and revoke the order's entitlements
+ */
+
+export class PaymentService {
+    private provider: PaymentProvider | null;
+
+    constructor() {
+        this.provider = this.createConfiguredProvider();
+    }
+
+    /**
+     * Replace the payment provider (null disables checkout)
+     */
+    setProvider(provider: PaymentProvider | null): void {
+        this.provider = provider;
+    }
+
+    /**
+     * Start paying a pending order (buyer)
+     * The provider sends the buyer back to returnUrl (a frontend URL) with ?payment_id=
+     */
+    async createCheckout(
+        orderId: string,
+        userId: string,
+        returnUrl: string,
+        ipAddress: string
+    ): Promise<{ payment: PaymentRecord; redirectUrl: string }> {
+        const provider = this.provider;
+        if (!provider) {
+            throw new DomainError(ERROR_CODES.PAYMENT_PROVIDER_NOT_CONFIGURED);
+        }
+
+        const order = await orderService.getOrder(orderId, { userId });
+        if (order.status !== 'pending') {
+            throw new DomainError(ERROR_CODES.ORDER_NOT_PENDING, { orderId, status: order.status });
+        }
+        if (!provider.supportsCurrency(order.currency)) {
+            throw new DomainError(ERROR_CODES.PAYMENT_CURRENCY_NOT_SUPPORTED, { currency: order.currency, provider: provider.name });
+        }
+
+        let url: URL;
+        try {
+            url = new URL(returnUrl);
+        } catch {
+            throw new DomainError(ERROR_CODES.PAYMENT_RETURN_URL_NOT_ALLOWED, { returnUrl });
+        }
+        if (url.origin !== new URL(FRONTEND_URL).origin) {
+            throw new DomainError(ERROR_CODES.PAYMENT_RETURN_URL_NOT_ALLOWED, { returnUrl });
+        }
+
+        const expiresAt = new Date(Date.now() + PAYMENT_EXPIRY_MINUTES * 60 * 1000);
+        const pending = await paymentRepository.create({
+            order_id: order.id,
+            provider: provider.name,
+            amount: order.total_amount,
+            currency: order.currency,
+            return_url: returnUrl,
+            expires_at: expiresAt,
+        });
+
+        url.searchParams.set('payment_id', pending.id);
+        let created;
+        try {
+            created = await provider.createPayment({
+                paymentId: pending.id,
+                amount: order.total_amount,
+                currency: order.currency,
+                // Plain ASCII: some providers reject accents and special characters here
+                description: `Thanh toan don hang ${order.id}`,
+                returnUrl: url.toString(),
+                ipAddress,
+                expiresAt,
+            });
+        } catch (error: any) {
+            await paymentRepository.transition(pending.id, ['pending'], 'failed', { failure_reason: error.message });
+            throw new DomainError(ERROR_CODES.PAYMENT_PROVIDER_ERROR, { provider: provider.name, message: error.message });
+        }
+
+        const payment = await paymentRepository.update(pending.id, {
+            provider_payment_id: created.providerPaymentId,
+            redirect_url: created.redirectUrl,
+            provider_data: created.providerData || {},
+        });
+
+        return { payment: payment || pending, redirectUrl: created.redirectUrl };
+    }
+
+    /**
+     * Get a payment; buyers only see payments of their own orders, admins every payment
+     */
+    async getPayment(paymentId: string, viewer: { userId: string; role?: string }): Promise<PaymentRecord> {
+        const payment = await paymentRepository.findById(paymentId);
+        const order = payment ? await orderRepository.findById(payment.order_id) : null;
+        if (!payment || !order || (order.user_id !== viewer.userId && viewer.role !== UserRole.ADMIN)) {
+            throw new NotFoundError(ERROR_CODES.PAYMENT_NOT_FOUND, { paymentId });
+        }
+        return payment;
+    }
+
+    /**
+     * Handle a provider webhook and build the reply the provider expects
+     */
+    async handleWebhook(providerName: string, request: WebhookRequest): Promise<WebhookReply> {
+        const provider = this.provider;
+        if (!provider || provider.name !== providerName) {
+            throw new NotFoundError(ERROR_CODES.PAYMENT_PROVIDER_NOT_CONFIGURED, { provider: providerName });
+        }
+
+        const event = provider.parseWebhook(request);
+        if (!event) {
+            return provider.webhookReply('invalid_signature');
+        }
+
+        const payment = await paymentRepository.findById(event.paymentId);
+        if (!payment || payment.provider !== provider.name) {
+            return provider.webhookReply('payment_not_found');
+        }
+        if (event.type === 'payment.succeeded'
+            && (Math.abs(event.amount - payment.amount) > 0.001 || event.currency !== payment.currency)) {
+            return provider.webhookReply('amount_mismatch');
+        }
+
+        const recorded = await paymentEventRepository.create({
+            provider: provider.name,
+            event_id: event.eventId,
+            payment_id: payment.id,
+            type: event.type,
+            payload: event.payload,
+        });
+        if (!recorded) {
+            return provider.webhookReply('duplicate');
+        }
+
+        try {
+            await this.applyEvent(event, payment);
+        } catch (error) {
+            // Let the provider's retry process the event again
+            await paymentEventRepository.delete(recorded.id);
+            throw error;
+        }
+
+        return provider.webhookReply('processed');
+    }
+
+    /**
+     * Pay (or fail) a payment from the fake provider's hosted page and return where to send the buyer
+     */
+    async completeFakeCheckout(paymentId: string, outcome: 'succeeded' | 'failed'): Promise<string> {
+        const provider = this.provider;
+        if (!(provider instanceof FakePaymentProvider)) {
+            throw new NotFoundError(ERROR_CODES.PAYMENT_PROVIDER_NOT_CONFIGURED, { provider: 'fake' });
+        }
+
+        const payment = await paymentRepository.findById(paymentId);
+        if (!payment || payment.provider !== provider.name) {
+            throw new NotFoundError(ERROR_CODES.PAYMENT_NOT_FOUND, { paymentId });
+        }
+
+        if (payment.status === 'pending') {
+            await this.handleWebhook(provider.name, provider.createWebhook({
+                type: outcome === 'succeeded' ? 'payment.succeeded' : 'payment.failed',
+                paymentId: payment.id,
+                providerPaymentId: payment.provider_payment_id,
+                amount: payment.amount,
+                currency: payment.currency,
+                failureReason: outcome === 'failed' ? 'Declined by the fake provider' : undefined,
+            }));
+        }
+
+        const url = new URL(payment.return_url);
+        url.searchParams.set('payment_id', payment.id);
+        return url.toString();
+    }
+
+    /**
+     * Refund a paid order (admin)
+     * A provider payment is refunded at the provider first; orders marked paid by hand are only revoked
+     */
+    async refundOrder(orderId: string, reason: string, ipAddress: string): Promise<OrderWithItems> {
+        const order = await orderRepository.findById(orderId);
+        if (!order) {
+            throw new NotFoundError(ERROR_CODES.ORDER_NOT_FOUND, { orderId });
+        }
+        if (order.status !== 'paid') {
+            throw new DomainError(ERROR_CODES.ORDER_NOT_PAID, { orderId, status: order.status });
+        }
+
+        const payment = (await paymentRepository.findByOrderId(order.id)).find(p => p.status === 'succeeded');
+        if (payment) {
+            const provider = this.provider;
+            if (!provider || provider.name !== payment.provider) {
+                throw new DomainError(ERROR_CODES.PAYMENT_PROVIDER_NOT_CONFIGURED, { provider: payment.provider });
+            }
+
+            let refund;
+            try {
+                refund = await provider.refund({
+                    paymentId: payment.id,
+                    providerPaymentId: payment.provider_payment_id,
+                    amount: payment.amount,
+                    currency: payment.currency,
+                    reason,
+                    ipAddress,
+                    providerData: payment.provider_data,
+                });
+            } catch (error: any) {
+                throw new DomainError(ERROR_CODES.PAYMENT_REFUND_FAILED, { paymentId: payment.id, message: error.message });
+            }
+
+            await paymentRepository.transition(payment.id, ['succeeded'], 'refunded', {
+                refunded_at: new Date(),
+                provider_refund_id: refund.providerRefundId,
+            });
+        }
+
+        return await orderService.refundOrder(order.id, reason);
+    }
+
+    private async applyEvent(event: PaymentEvent, payment: PaymentRecord): Promise<void> {
+        switch (event.type) {
+            case 'payment.succeeded': {
+                await paymentRepository.transition(payment.id, ['pending', 'failed'], 'succeeded', {
+                    provider_payment_id: event.providerPaymentId || payment.provider_payment_id,
+                    paid_at: new Date(),
+                    failure_reason: null,
+                });
+                const current = await paymentRepository.findById(payment.id);
+                if (current?.status !== 'succeeded') {
+                    return;
+                }
+
+                // The buyer was charged, so an order cancelled meanwhile is paid too
+                const order = await orderRepository.findById(payment.order_id);
+                if (order && (order.status === 'pending' || order.status === 'cancelled')) {
+                    await orderService.markPaid(order.id, ['pending', 'cancelled']);
+                } else if (order) {
+                    const others = (await paymentRepository.findByOrderId(order.id))
+                        .filter(p => p.id !== payment.id && (p.status === 'succeeded' || p.status === 'refunded'));
+                    if (others.length > 0 || order.status !== 'paid') {
+                        console.warn(`Payment ${payment.id} succeeded for order ${order.id} (${order.status}) that was already settled; refund it at the provider`);
+                    }
+                }
+                return;
+            }
+            case 'payment.failed':
+                await paymentRepository.transition(payment.id, ['pending'], 'failed', {
+                    failure_reason: event.failureReason || 'Payment failed',
+                });
+                return;
+            case 'refund.succeeded': {
+                const refunded = await paymentRepository.transition(payment.id, ['succeeded'], 'refunded', {
+                    refunded_at: new Date(),
+                });
+                const order = refunded ? await orderRepository.findById(payment.order_id) : null;
+                if (order?.status === 'paid') {
+                    await orderService.refundOrder(order.id, 'Refunded at the payment provider');
+                }
+                return;
+            }
+        }
+    }
+
+    /**
+     * Provider selected by PAYMENT_PROVIDER
+     */
+    private createConfiguredProvider(): PaymentProvider | null {
+        switch (PAYMENT_PROVIDER) {
+            case 'fake':
+                return new FakePaymentProvider({
+                    secret: PAYMENT_FAKE_SECRET || JWT_SECRET,
+                    checkoutUrl: `${API_PUBLIC_URL.replace(/\/+$/, '')}/api/payments/fake/checkout`,
+                });
+            case 'vnpay':
+                return new VnpayPaymentProvider({
+                    tmnCode: VNPAY_TMN_CODE!,
+                    hashSecret: VNPAY_HASH_SECRET!,
+                    paymentUrl: VNPAY_PAYMENT_URL,
+                    apiUrl: VNPAY_API_URL,
+                    timeoutMs: PAYMENT_PROVIDER_TIMEOUT,
+                });
+            default:
+                return null;
+        }
+    }
+}
+
+export default new PaymentService();
@@ -0,0 +1,276 @@
+import semver from 'semver';
+import productRepository from '../repositories/product.repository';
+import productArtifactRepository from '../repositories/product-artifact.repository';
+import productReleaseRepository, {
+    ProductReleaseRecord,
+    ProductReleaseStatus,
+} from '../repositories/product-release.repository';
+import storageService from './storage.service';
+import imageProcessingService from './image-processing.service';
+import securityScanService from './security-scan.service';
+import { Product, ProductArtifact, ProductStatus, ProductReviewStatus, UserRole } from '@gsnake/shared-types';
+import { NotFoundError, DomainError, AuthorizationError, ERROR_CODES } from '../shared/errors';
+import { assertScanApprovable } from '../utils/scan-gate';
+
+/**
+ * Product Release Service
+ * A release groups the artifacts of one semver version with its release notes.
+ * Sellers draft a release, upload artifacts into it and submit it; only that release
+ * is scanned and reviewed, while the product and its current release stay live.
+ * One approved release per product is current and is what buyers download by default
+ */
+
+export type ProductReleaseWithArtifacts = ProductReleaseRecord & { artifacts: ProductArtifact[] };
+
+const EDITABLE_STATUSES: ProductReleaseStatus[] = ['draft', 'rejected'];
+
+export class ProductReleaseService {
+    /**
+     * List releases of a product with their artifacts
+     * Seller and admins see every release; everyone else only approved releases of a live product
+     */
+    async getReleases(
+        productId: string,
+        viewer?: { userId: string; role?: string } | null
+    ): Promise<ProductReleaseWithArtifacts[]> {
+        const product = await productRepository.findById(productId);
+        if (!product) {
+            throw new NotFoundError(ERROR_CODES.PRODUCT_NOT_FOUND, { productId });
+        }
+
+        const isOwner = !!viewer && (viewer.role === UserRole.ADMIN || product.seller_id === viewer.userId);
+        if (!isOwner && (product.status !== ProductStatus.PUBLISHED || product.review_status !== ProductReviewStatus.APPROVED)) {
+            throw new NotFoundError(ERROR_CODES.PRODUCT_NOT_FOUND, { productId });
+        }
+
+        const releases = await productReleaseRepository.findByProductId(productId, isOwner ? undefined : 'approved');
+        return await Promise.all(
+            releases.map(async release => ({
+                ...release,
+                artifacts: await productArtifactRepository.findByReleaseId(release.id),
+            }))
+        );
+    }
+
+    /**
+     * Create a draft release (seller)
+     * The version must be valid semver and greater than every existing release
+     */
+    async createRelease(
+        productId: string,
+        sellerId: string,
+        data: { version: string; release_notes?: string }
+    ): Promise<ProductReleaseRecord> {
+        await this.getOwnedProduct(productId, sellerId);
+
+        const version = semver.valid(semver.clean(data.version) || data.version);
+        if (!version) {
+            throw new DomainError(ERROR_CODES.RELEASE_INVALID_VERSION, { version: data.version });
+        }
+
+        const existing = await productReleaseRepository.findByProductId(productId);
+        const latest = existing.map(release => release.version).sort(semver.rcompare)[0];
+        if (latest && !semver.gt(version, latest)) {
+            throw new DomainError(ERROR_CODES.RELEASE_VERSION_NOT_NEWER, { version, latest });
+        }
+
+        return await productReleaseRepository.create({
+            product_id: productId,
+            version,
+            release_notes: data.release_notes || null,
+        });
+    }
+
+    /**
+     * Update release notes of a draft or rejected release (seller)
+     */
+    async updateRelease(
+        productId: string,
+        releaseId: string,
+        sellerId: string,
+        data: { release_notes: string }
+    ): Promise<ProductReleaseRecord> {
+        await this.getOwnedProduct(productId, sellerId);
+        const release = await this.getEditableRelease(productId, releaseId);
+
+        const updated = await productReleaseRepository.update(release.id, { release_notes: data.release_notes });
+        if (!updated) {
+            throw new NotFoundError(ERROR_CODES.RELEASE_NOT_FOUND, { releaseId });
+        }
+        return updated;
+    }
+
+    /**
+     * Delete a draft or rejected release and its files (seller)
+     */
+    async deleteRelease(productId: string, releaseId: string, sellerId: string): Promise<void> {
+        await this.getOwnedProduct(productId, sellerId);
+        const release = await this.getEditableRelease(productId, releaseId);
+
+        const artifacts = await productArtifactRepository.findByReleaseId(release.id);
+        for (const artifact of artifacts) {
+            await storageService.deleteFile(artifact.file_url);
+            if (artifact.metadata?.renditions) {
+                await imageProcessingService.deleteRenditions(artifact.metadata);
+                await productRepository.removeImageRenditions(productId, artifact.file_url);
+            }
+        }
+
+        await productReleaseRepository.delete(release.id);
+    }
+
+    /**
+     * Get a release of the product that still accepts changes (draft or rejected)
+     */
+    async getEditableRelease(productId: string, releaseId: string): Promise<ProductReleaseRecord> {
+        const release = await this.getProductRelease(productId, releaseId);
+        if (!EDITABLE_STATUSES.includes(release.status)) {
+            throw new DomainError(ERROR_CODES.RELEASE_NOT_EDITABLE, { releaseId, status: release.status });
+        }
+        return release;
+    }
+
+    /**
+     * Submit a release for review (seller); its artifacts are queued for a security scan
+     */
+    async submitRelease(productId: string, releaseId: string, sellerId: string): Promise<ProductReleaseRecord> {
+        await this.getOwnedProduct(productId, sellerId);
+        const release = await this.getEditableRelease(productId, releaseId);
+
+        const artifacts = await productArtifactRepository.findByReleaseId(release.id);
+        if (artifacts.length === 0) {
+            throw new DomainError(ERROR_CODES.RELEASE_EMPTY, { releaseId });
+        }
+
+        const submitted = await productReleaseRepository.transition(release.id, EDITABLE_STATUSES, 'pending_review', {
+            submitted_at: new Date(),
+        });
+        if (!submitted) {
+            throw new DomainError(ERROR_CODES.RELEASE_NOT_EDITABLE, { releaseId });
+        }
+
+        await productReleaseRepository.update(release.id, { security_scan_status: 'pending' });
+        await securityScanService.queueReleaseScan(release.id, 1);
+
+        return { ...submitted, security_scan_status: 'pending' };
+    }
+
+    /**
+     * Make an approved release the one buyers get by default (seller)
+     */
+    async setCurrentRelease(productId: string, releaseId: string, sellerId: string): Promise<ProductReleaseRecord> {
+        await this.getOwnedProduct(productId, sellerId);
+        const release = await this.getProductRelease(productId, releaseId);
+        if (release.status !== 'approved') {
+            throw new DomainError(ERROR_CODES.RELEASE_NOT_APPROVED, { releaseId });
+        }
+
+        return await this.makeCurrent(release);
+    }
+
+    /**
+     * Get releases waiting for review (admin)
+     */
+    async getReleasesPendingReview(limit: number = 50, offset: number = 0): Promise<ProductReleaseWithArtifacts[]> {
+        const releases = await productReleaseRepository.findByStatus('pending_review', limit, offset);
+        return await Promise.all(
+            releases.map(async release => ({
+                ...release,
+                artifacts: await productArtifactRepository.findByReleaseId(release.id),
+            }))
+        );
+    }
+
+    /**
+     * Approve a pending release (admin)
+     * The release becomes current unless makeCurrent is false and the product already has one
+     */
+    async approveRelease(releaseId: string, adminId: string, makeCurrent: boolean = true): Promise<ProductReleaseRecord> {
+        const release = await productReleaseRepository.findById(releaseId);
+        if (!release) {
+            throw new NotFoundError(ERROR_CODES.RELEASE_NOT_FOUND, { releaseId });
+        }
+        if (release.status !== 'pending_review') {
+            throw new DomainError(ERROR_CODES.RELEASE_NOT_PENDING, { releaseId, status: release.status });
+        }
+
+        assertScanApprovable('release', release.id, release);
+
+        const approved = await productReleaseRepository.transition(release.id, ['pending_review'], 'approved', {
+            reviewed_by: adminId,
+            reviewed_at: new Date(),
+        });
+        if (!approved) {
+            throw new DomainError(ERROR_CODES.RELEASE_NOT_PENDING, { releaseId });
+        }
+
+        const current = await productReleaseRepository.findCurrent(release.product_id);
+        if (makeCurrent || !current) {
+            return await this.makeCurrent(approved);
+        }
+        return approved;
+    }
+
+    /**
+     * Reject a pending release (admin); the seller can fix it and submit again
+     */
+    async rejectRelease(releaseId: string, adminId: string, reason: string): Promise<ProductReleaseRecord> {
+        const release = await productReleaseRepository.findById(releaseId);
+        if (!release) {
+            throw new NotFoundError(ERROR_CODES.RELEASE_NOT_FOUND, { releaseId });
+        }
+
+        const rejected = await productReleaseRepository.transition(release.id, ['pending_review'], 'rejected', {
+            reviewed_by: adminId,
+            reviewed_at: new Date(),
+            rejection_reason: reason,
+        });
+        if (!rejected) {
+            throw new DomainError(ERROR_CODES.RELEASE_NOT_PENDING, { releaseId, status: release.status });
+        }
+        return rejected;
+    }
+
+    /**
+     * Switch the product's current release and keep products.version in sync
+     * The product scan result is refreshed since it covers the current release
+     */
+    private async makeCurrent(release: ProductReleaseRecord): Promise<ProductReleaseRecord> {
+        const current = await productReleaseRepository.setCurrent(release.product_id, release.id);
+        if (!current) {
+            throw new NotFoundError(ERROR_CODES.RELEASE_NOT_FOUND, { releaseId: release.id });
+        }
+
+        await productRepository.update(release.product_id, { version: release.version });
+
+        try {
+            await securityScanService.queueScan(release.product_id, 1);
+        } catch (error) {
+            // Log error but keep the release switch
+            console.error('Failed to queue security scan:', error);
+        }
+
+        return current;
+    }
+
+    private async getOwnedProduct(productId: string, sellerId: string): Promise<Product> {
+        const product = await productRepository.findById(productId);
+        if (!product) {
+            throw new NotFoundError(ERROR_CODES.PRODUCT_NOT_FOUND, { productId });
+        }
+        if (product.seller_id !== sellerId) {
+            throw new AuthorizationError(ERROR_CODES.PRODUCT_UPDATE_FORBIDDEN, { productId, sellerId });
+        }
+        return product;
+    }
+
+    private async getProductRelease(productId: string, releaseId: string): Promise<ProductReleaseRecord> {
+        const release = await productReleaseRepository.findById(releaseId);
+        if (!release || release.product_id !== productId) {
+            throw new NotFoundError(ERROR_CODES.RELEASE_NOT_FOUND, { productId, releaseId });
+        }
+        return release;
+    }
+}
+
+export default new ProductReleaseService();
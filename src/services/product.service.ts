@@ -1,6 +1,11 @@
-import productRepository from '../repositories/product.repository';
+import productRepository, { ProductListFilters } from '../repositories/product.repository';
 import downloadLogRepository, { DownloadLogType } from '../repositories/download-log.repository';
+import productArtifactRepository from '../repositories/product-artifact.repository';
+import productReleaseRepository from '../repositories/product-release.repository';
 import userRepository from '../repositories/user.repository';
+import storageService from './storage.service';
+import workflowSetupGuideService, { WorkflowSetupGuide } from './workflow-setup-guide.service';
+import entitlementService from './entitlement.service';
 import { 
     Product, 
     CreateProductInput, 
@@ -11,15 +16,37 @@ import {
     ProductReviewStatus,
     ProductPriceType
 } from '@gsnake/shared-types';
-import { NotFoundError, AuthorizationError, DomainError, ERROR_CODES } from '../shared/errors';
+import { NotFoundError, AuthorizationError, AuthenticationError, DomainError, ERROR_CODES } from '../shared/errors';
 import { ProductStateMachine } from '../utils/product-state-machine';
+import { createSignedToken, verifySignedToken } from '../utils/signed-token';
+import { SendableFile } from '../utils/send-file';
+import { JWT_SECRET, DOWNLOAD_URL_SECRET, DOWNLOAD_URL_TTL } from '../config/env';
+
+/**
+ * Signed download link payload; binds the link to a product, artifact and buyer
+ */
+type DownloadLinkPayload = {
+    pid: string; // Product ID
+    aid: string | null; // Artifact ID (null: product workflow_file_url)
+    rid?: string | null; // Release ID (absent: current release)
+    bid: string | null; // Buyer ID (null: anonymous download of a free product)
+    typ: DownloadLogType;
+    exp: number;
+};
+
+export type DownloadLogEntry = {
+    product_id: string;
+    seller_id: string;
+    buyer_id: string | null;
+    type: DownloadLogType;
+};
 
 export class ProductService {
     /**
      * Get all products with filters (public products only by default)
      * Only shows published AND approved products for public access
      */
-    async getProducts(filters: ProductQueryFilters = {}): Promise<{ products: Product[]; total: number }> {
+    async getProducts(filters: ProductListFilters = {}): Promise<{ products: Product[]; total: number }> {
         // By default, only show published AND approved products unless seller_id is specified
         if (!filters.seller_id) {
             filters.status = ProductStatus.PUBLISHED;
@@ -43,6 +70,7 @@ export class ProductService {
     async getProductWithDetails(id: string): Promise<(Product & { 
         artifacts?: any[];
         workflowDetails?: any;
+        setupGuide?: WorkflowSetupGuide | null;
     }) | null> {
         const product = await productRepository.findById(id);
         if (!product) {
@@ -68,11 +96,41 @@ export class ProductService {
             } catch (error) {
                 console.error('Failed to load workflow details:', error);
             }
+
+            result.setupGuide = await this.getWorkflowSetupGuide(id, result.workflowDetails);
         }
 
         return result;
     }
 
+    /**
+     * Setup guide of a workflow product
+     * Workflows saved before guides existed get theirs generated from the stored JSON once
+     */
+    private async getWorkflowSetupGuide(productId: string, workflowDetails: any): Promise<WorkflowSetupGuide | null> {
+        if (!workflowDetails) {
+            return null;
+        }
+        if (workflowDetails.setup_guide) {
+            return workflowDetails.setup_guide;
+        }
+        if (!workflowDetails.workflow_json_url) {
+            return null;
+        }
+
+        try {
+            const workflowJson = JSON.parse((await storageService.readFile(workflowDetails.workflow_json_url)).toString());
+            const setupGuide = workflowSetupGuideService.generate(workflowJson, { n8nVersion: workflowDetails.n8n_version });
+
+            const workflowRepository = (await import('../repositories/product-workflow.repository')).default;
+            await workflowRepository.update(productId, { setup_guide: setupGuide });
+            return setupGuide;
+        } catch (error) {
+            console.error('Failed to generate workflow setup guide:', error);
+            return null;
+        }
+    }
+
     /**
      * Get product by ID (public only - must be published AND approved)
      */
@@ -139,7 +197,7 @@ export class ProductService {
         // Queue security scan (async, non-blocking)
         try {
             const securityScanService = (await import('./security-scan.service')).default;
-            securityScanService.queueScan(product.id, 1); // Priority 1 for new products
+            await securityScanService.queueScan(product.id, 1); // Priority 1 for new products
         } catch (error) {
             // Log error but don't fail product creation
             console.error('Failed to queue security scan:', error);
@@ -400,9 +458,15 @@ export class ProductService {
     }
 
     /**
-     * Record download with log + optional sales count
+     * Create a short-lived signed download link for the product's primary file
+     * Paid products require an authenticated buyer who owns the product (or its seller);
+     * the link is bound to that user. With a release ID the link is for that release's primary file
      */
-    async recordDownloadWithLog(productId: string, buyerId?: string | null, type: DownloadLogType = 'free'): Promise<{ url: string }> {
+    async createDownloadLink(
+        productId: string,
+        buyerId?: string | null,
+        releaseId?: string | null
+    ): Promise<{ url: string; expiresAt: Date }> {
         const product = await productRepository.findById(productId);
         if (!product) {
             throw new NotFoundError(ERROR_CODES.PRODUCT_NOT_FOUND, { productId });
@@ -410,23 +474,130 @@ export class ProductService {
         if (product.status !== ProductStatus.PUBLISHED || product.review_status !== ProductReviewStatus.APPROVED) {
             throw new DomainError(ERROR_CODES.PRODUCT_NOT_APPROVED, { productId });
         }
-        if (!product.workflow_file_url) {
-            throw new DomainError(ERROR_CODES.WORKFLOW_FILE_REQUIRED, { productId });
+        if (!product.is_free) {
+            if (!buyerId) {
+                throw new AuthenticationError(ERROR_CODES.AUTHENTICATION_REQUIRED);
+            }
+            if (product.seller_id !== buyerId && !(await entitlementService.hasEntitlement(buyerId, productId))) {
+                throw new AuthorizationError(ERROR_CODES.FILE_ACCESS_FORBIDDEN, { productId });
+            }
         }
 
-        await downloadLogRepository.create({
-            product_id: productId,
-            seller_id: product.seller_id,
-            buyer_id: buyerId || null,
-            type,
-        });
+        let artifact;
+        if (releaseId) {
+            const release = await productReleaseRepository.findById(releaseId);
+            if (!release || release.product_id !== productId || release.status !== 'approved') {
+                throw new NotFoundError(ERROR_CODES.RELEASE_NOT_FOUND, { productId, releaseId });
+            }
 
-        await productRepository.incrementDownloads(productId);
-        if (type !== 'free') {
-            await productRepository.incrementSales(productId, 1);
+            artifact = await productArtifactRepository.findPrimaryByReleaseId(releaseId);
+            if (!artifact) {
+                throw new NotFoundError(ERROR_CODES.FILE_NOT_FOUND, { productId, releaseId });
+            }
+        } else {
+            artifact = await productArtifactRepository.findPrimaryByProductId(productId);
+            if (!artifact && !product.workflow_file_url) {
+                throw new DomainError(ERROR_CODES.WORKFLOW_FILE_REQUIRED, { productId });
+            }
+        }
+
+        const expiresAt = new Date(Date.now() + DOWNLOAD_URL_TTL * 1000);
+        const payload: DownloadLinkPayload = {
+            pid: productId,
+            aid: artifact?.id || null,
+            rid: releaseId || null,
+            bid: buyerId || null,
+            typ: product.is_free ? 'free' : 'purchase',
+            exp: Math.floor(expiresAt.getTime() / 1000),
+        };
+        const token = createSignedToken(payload, DOWNLOAD_URL_SECRET || JWT_SECRET);
+
+        return {
+            url: `/api/products/${productId}/download?token=${encodeURIComponent(token)}`,
+            expiresAt,
+        };
+    }
+
+    /**
+     * Verify a signed download link and resolve the file it grants
+     * Ownership of a paid product is checked again, so links stop working once the
+     * buyer's order is refunded or their subscription ends
+     * The download is not logged here; see logDownload
+     */
+    async redeemDownloadLink(
+        productId: string,
+        token: string
+    ): Promise<{ file: SendableFile; download: DownloadLogEntry }> {
+        const payload = verifySignedToken<DownloadLinkPayload>(token, DOWNLOAD_URL_SECRET || JWT_SECRET);
+        if (payload === 'expired') {
+            throw new AuthorizationError(ERROR_CODES.DOWNLOAD_LINK_EXPIRED, { productId });
+        }
+        if (!payload || payload.pid !== productId) {
+            throw new AuthorizationError(ERROR_CODES.DOWNLOAD_LINK_INVALID, { productId });
         }
 
-        return { url: product.workflow_file_url };
+        const product = await productRepository.findById(productId);
+        if (!product || product.status !== ProductStatus.PUBLISHED || product.review_status !== ProductReviewStatus.APPROVED) {
+            throw new NotFoundError(ERROR_CODES.PRODUCT_NOT_FOUND, { productId });
+        }
+
+        if (!product.is_free || payload.typ === 'purchase') {
+            const buyerId = payload.bid;
+            if (!buyerId || (product.seller_id !== buyerId && !(await entitlementService.hasEntitlement(buyerId, productId)))) {
+                throw new AuthorizationError(ERROR_CODES.FILE_ACCESS_FORBIDDEN, { productId });
+            }
+        }
+
+        const artifact = payload.aid ? await productArtifactRepository.findById(payload.aid) : null;
+        if (payload.aid && (!artifact || artifact.product_id !== productId)) {
+            throw new NotFoundError(ERROR_CODES.FILE_NOT_FOUND, { productId, artifactId: payload.aid });
+        }
+
+        // Links to a specific release stay valid only while the release is approved
+        if (payload.rid) {
+            const release = await productReleaseRepository.findById(payload.rid);
+            if (!release || release.status !== 'approved') {
+                throw new NotFoundError(ERROR_CODES.FILE_NOT_FOUND, { productId, releaseId: payload.rid });
+            }
+        }
+
+        const fileUrl = artifact?.file_url || product.workflow_file_url;
+        const info = fileUrl ? await storageService.getFileInfo(fileUrl) : null;
+        if (!fileUrl || !info) {
+            throw new NotFoundError(ERROR_CODES.FILE_NOT_FOUND, { productId });
+        }
+
+        const fileName = artifact?.file_name || fileUrl.split('/').pop() || 'download';
+        return {
+            file: {
+                fileUrl,
+                fileName,
+                mimeType: artifact?.mime_type || storageService.getMimeType(fileName),
+                size: info.size,
+                modifiedAt: info.modifiedAt,
+                disposition: 'attachment',
+                isPublic: false,
+            },
+            download: {
+                product_id: productId,
+                seller_id: product.seller_id,
+                buyer_id: payload.bid,
+                type: payload.typ,
+            },
+        };
+    }
+
+    /**
+     * Record download with log; a signed-in user's free download adds the product to their library
+     * Sales are counted when an order is paid, not here
+     */
+    async logDownload(download: DownloadLogEntry): Promise<void> {
+        await downloadLogRepository.create(download);
+
+        await productRepository.incrementDownloads(download.product_id);
+        if (download.type === 'free' && download.buyer_id && download.buyer_id !== download.seller_id) {
+            await entitlementService.claimFree(download.product_id, download.buyer_id);
+        }
     }
 
     /**
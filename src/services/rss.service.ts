@@ -1,5 +1,19 @@
+import axios from 'axios';
 import Parser from 'rss-parser';
 
+export interface RssFetchOptions {
+    etag?: string | null;
+    lastModified?: string | null;
+}
+
+export interface RssFeedResult {
+    notModified: boolean;
+    title: string;
+    items: any[];
+    etag?: string;
+    lastModified?: string;
+}
+
 export class RssService {
     private parser: Parser;
 
@@ -9,12 +23,36 @@ export class RssService {
 
     /**
      * Fetch and parse RSS feed
+     * Sends If-None-Match / If-Modified-Since when validators from a previous fetch are given;
+     * a 304 response returns notModified with no items
      */
-    async fetchFeed(url: string): Promise<{ title: string; items: any[] }> {
+    async fetchFeed(url: string, options: RssFetchOptions = {}): Promise<RssFeedResult> {
         try {
-            const feed = await this.parser.parseURL(url);
+            const headers: Record<string, string> = {
+                'Accept': 'application/rss+xml, application/atom+xml, application/xml;q=0.9, */*;q=0.8',
+            };
+            if (options.etag) {
+                headers['If-None-Match'] = options.etag;
+            }
+            if (options.lastModified) {
+                headers['If-Modified-Since'] = options.lastModified;
+            }
+
+            const response = await axios.get<string>(url, {
+                headers,
+                responseType: 'text',
+                timeout: 10000,
+                validateStatus: (status) => (status >= 200 && status < 300) || status === 304,
+            });
+
+            if (response.status === 304) {
+                return { notModified: true, title: '', items: [] };
+            }
+
+            const feed = await this.parser.parseString(response.data);
 
             return {
+                notModified: false,
                 title: feed.title || 'No Title',
                 items: feed.items.map(item => ({
                     title: item.title,
@@ -23,7 +61,9 @@ export class RssService {
                     content: item.content || item.contentSnippet || '',
                     guid: item.guid,
                     author: item.creator
-                }))
+                })),
+                etag: response.headers['etag'] || undefined,
+                lastModified: response.headers['last-modified'] || undefined,
             };
         } catch (error) {
             console.error(`Error fetching RSS feed ${url}:`, error);
@@ -1,98 +1,267 @@
 /**
- * Simple in-memory queue for background security scans
- * In production, consider using Redis Queue (BullMQ) or similar
+ * Redis-backed queue for background security scans
+ * Jobs survive restarts and are shared between API instances. A claimed job is
+ * invisible to other workers until its visibility timeout expires; failed jobs are
+ * retried with exponential backoff and moved to a dead-letter list after maxAttempts.
+ *
+ * Jobs are identified by product id, or "release:<releaseId>" for release scans.
+ *
+ * Keys:
+ *  - scan-queue:ready       ZSET jobId → priority/FIFO score (lowest runs first)
+ *  - scan-queue:delayed     ZSET jobId → time the retry becomes due
+ *  - scan-queue:processing  ZSET jobId → visibility deadline
+ *  - scan-queue:job:<id>    HASH job data (priority, score, attempts, created_at, last_error)
+ *  - scan-queue:dead        LIST JSON dead-lettered jobs, newest first
  */
 
+import redis from '../config/redis';
 import securityScanService from './security-scan.service';
 
-interface ScanJob {
-    productId: string;
+const KEY_PREFIX = 'scan-queue';
+const READY_KEY = `${KEY_PREFIX}:ready`;
+const DELAYED_KEY = `${KEY_PREFIX}:delayed`;
+const PROCESSING_KEY = `${KEY_PREFIX}:processing`;
+const DEAD_KEY = `${KEY_PREFIX}:dead`;
+const JOB_KEY_PREFIX = `${KEY_PREFIX}:job:`;
+const RELEASE_JOB_PREFIX = 'release:';
+
+// Scores must order by priority first, then by enqueue time
+const PRIORITY_WEIGHT = 1e13;
+
+/**
+ * Enqueue unless the job is already waiting or being scanned
+ * KEYS: ready, delayed, processing, job hash
+ * ARGV: jobId, priority, now, score
+ */
+const ENQUEUE_SCRIPT = `
+if redis.call('ZSCORE', KEYS[1], ARGV[1]) or redis.call('ZSCORE', KEYS[2], ARGV[1]) or redis.call('ZSCORE', KEYS[3], ARGV[1]) then
+    return 0
+end
+redis.call('HSET', KEYS[4], 'job_id', ARGV[1], 'priority', ARGV[2], 'attempts', 0, 'created_at', ARGV[3], 'score', ARGV[4])
+redis.call('ZADD', KEYS[1], ARGV[4], ARGV[1])
+return 1
+`;
+
+/**
+ * Promote due retries and expired claims, then claim the next ready job
+ * KEYS: ready, delayed, processing
+ * ARGV: now, visibility deadline, job key prefix
+ * Returns [jobId, attempts] or nil
+ */
+const CLAIM_SCRIPT = `
+local function requeue(ids)
+    for _, id in ipairs(ids) do
+        redis.call('ZADD', KEYS[1], redis.call('HGET', ARGV[3] .. id, 'score') or ARGV[1], id)
+    end
+end
+
+local due = redis.call('ZRANGEBYSCORE', KEYS[2], '-inf', ARGV[1])
+if #due > 0 then
+    redis.call('ZREM', KEYS[2], unpack(due))
+    requeue(due)
+end
+
+local expired = redis.call('ZRANGEBYSCORE', KEYS[3], '-inf', ARGV[1])
+if #expired > 0 then
+    redis.call('ZREM', KEYS[3], unpack(expired))
+    requeue(expired)
+end
+
+local head = redis.call('ZRANGE', KEYS[1], 0, 0)
+if #head == 0 then
+    return nil
+end
+
+local id = head[1]
+redis.call('ZREM', KEYS[1], id)
+redis.call('ZADD', KEYS[3], ARGV[2], id)
+local attempts = redis.call('HINCRBY', ARGV[3] .. id, 'attempts', 1)
+return { id, attempts }
+`;
+
+export interface DeadLetterScanJob {
+    productId?: string;
+    releaseId?: string;
     priority: number;
-    createdAt: Date;
+    attempts: number;
+    error: string;
+    createdAt: string;
+    failedAt: string;
 }
 
 export class ScanQueueService {
-    private queue: ScanJob[] = [];
-    private processing: Set<string> = new Set();
+    private inFlight: Set<string> = new Set();
     private maxConcurrentScans: number = 3;
     private processingInterval: NodeJS.Timeout | null = null;
+    private readonly visibilityTimeoutMs: number = 10 * 60 * 1000; // 10 minutes
+    private readonly maxAttempts: number = 3;
+    private readonly baseBackoffMs: number = 30 * 1000; // 30s, 60s, 120s...
+    private readonly maxBackoffMs: number = 30 * 60 * 1000;
+    private readonly deadLetterLimit: number = 1000;
 
-    constructor() {
-        // Start processing queue
-        this.startProcessor();
+    /**
+     * Add product to scan queue (ignored if already queued or being scanned)
+     */
+    async enqueue(productId: string, priority: number = 0): Promise<void> {
+        await this.enqueueJob(productId, priority);
     }
 
     /**
-     * Add product to scan queue
+     * Add a release to scan queue (ignored if already queued or being scanned)
      */
-    enqueue(productId: string, priority: number = 0): void {
-        // Check if already in queue or processing
-        if (this.queue.some(job => job.productId === productId) || this.processing.has(productId)) {
-            return;
-        }
+    async enqueueRelease(releaseId: string, priority: number = 0): Promise<void> {
+        await this.enqueueJob(`${RELEASE_JOB_PREFIX}${releaseId}`, priority);
+    }
 
-        // Add to queue (sorted by priority, then by creation time)
-        this.queue.push({
-            productId,
+    private async enqueueJob(jobId: string, priority: number): Promise<void> {
+        const now = Date.now();
+        await redis.eval(
+            ENQUEUE_SCRIPT,
+            4,
+            READY_KEY,
+            DELAYED_KEY,
+            PROCESSING_KEY,
+            `${JOB_KEY_PREFIX}${jobId}`,
+            jobId,
             priority,
-            createdAt: new Date(),
-        });
+            now,
+            now - priority * PRIORITY_WEIGHT
+        );
+    }
 
-        // Sort queue: higher priority first, then older jobs first
-        this.queue.sort((a, b) => {
-            if (a.priority !== b.priority) {
-                return b.priority - a.priority; // Higher priority first
+    /**
+     * Claim jobs up to the local concurrency limit and scan them in the background
+     */
+    private async processQueue(): Promise<void> {
+        while (this.inFlight.size < this.maxConcurrentScans) {
+            const now = Date.now();
+            const claimed = (await redis.eval(
+                CLAIM_SCRIPT,
+                3,
+                READY_KEY,
+                DELAYED_KEY,
+                PROCESSING_KEY,
+                now,
+                now + this.visibilityTimeoutMs,
+                JOB_KEY_PREFIX
+            )) as [string, number] | null;
+
+            if (!claimed) {
+                return;
+            }
+
+            const [jobId, attempts] = claimed;
+
+            // Claims that keep timing out (e.g. the worker crashes mid-scan) count as attempts too
+            if (attempts > this.maxAttempts) {
+                await this.fail(jobId, attempts, new Error('Scan timed out'));
+                continue;
             }
-            return a.createdAt.getTime() - b.createdAt.getTime(); // Older first
-        });
+
+            this.inFlight.add(jobId);
+
+            this.runJob(jobId)
+                .then(() => this.complete(jobId))
+                .catch((error) => this.fail(jobId, attempts, error))
+                .catch((error) => {
+                    console.error(`Error updating scan queue for ${this.describeJob(jobId)}:`, error);
+                })
+                .finally(() => {
+                    this.inFlight.delete(jobId);
+                });
+        }
     }
 
     /**
-     * Process queue
+     * Run the scan a job stands for
      */
-    private async processQueue(): Promise<void> {
-        // Check if we can process more scans
-        if (this.processing.size >= this.maxConcurrentScans || this.queue.length === 0) {
-            return;
+    private async runJob(jobId: string): Promise<void> {
+        if (jobId.startsWith(RELEASE_JOB_PREFIX)) {
+            await securityScanService.scanReleaseAsync(jobId.slice(RELEASE_JOB_PREFIX.length));
+        } else {
+            await securityScanService.scanProductAsync(jobId);
         }
+    }
+
+    private describeJob(jobId: string): string {
+        return jobId.startsWith(RELEASE_JOB_PREFIX)
+            ? `release ${jobId.slice(RELEASE_JOB_PREFIX.length)}`
+            : `product ${jobId}`;
+    }
+
+    /**
+     * Remove a finished job
+     */
+    private async complete(jobId: string): Promise<void> {
+        await redis
+            .multi()
+            .zrem(PROCESSING_KEY, jobId)
+            .del(`${JOB_KEY_PREFIX}${jobId}`)
+            .exec();
+    }
+
+    /**
+     * Schedule a retry with backoff, or dead-letter the job once attempts are exhausted
+     */
+    private async fail(jobId: string, attempts: number, error: any): Promise<void> {
+        const message = error instanceof Error ? error.message : String(error);
+        console.error(`Security scan failed for ${this.describeJob(jobId)} (attempt ${attempts}/${this.maxAttempts}):`, message);
+
+        const jobKey = `${JOB_KEY_PREFIX}${jobId}`;
 
-        // Get next job from queue
-        const job = this.queue.shift();
-        if (!job) {
+        if (attempts < this.maxAttempts) {
+            const backoff = Math.min(this.baseBackoffMs * 2 ** (attempts - 1), this.maxBackoffMs);
+            await redis
+                .multi()
+                .zrem(PROCESSING_KEY, jobId)
+                .hset(jobKey, 'last_error', message)
+                .zadd(DELAYED_KEY, Date.now() + backoff, jobId)
+                .exec();
             return;
         }
 
-        // Mark as processing
-        this.processing.add(job.productId);
-
-        // Process scan asynchronously
-        securityScanService
-            .scanProductAsync(job.productId)
-            .catch((error) => {
-                console.error(`Security scan failed for product ${job.productId}:`, error);
-            })
-            .finally(() => {
-                // Remove from processing set
-                this.processing.delete(job.productId);
-            });
+        const job = await redis.hgetall(jobKey);
+        const deadJob: DeadLetterScanJob = {
+            ...(jobId.startsWith(RELEASE_JOB_PREFIX)
+                ? { releaseId: jobId.slice(RELEASE_JOB_PREFIX.length) }
+                : { productId: jobId }),
+            priority: Number(job.priority || 0),
+            attempts,
+            error: message,
+            createdAt: new Date(Number(job.created_at || Date.now())).toISOString(),
+            failedAt: new Date().toISOString(),
+        };
+
+        await redis
+            .multi()
+            .zrem(PROCESSING_KEY, jobId)
+            .del(jobKey)
+            .lpush(DEAD_KEY, JSON.stringify(deadJob))
+            .ltrim(DEAD_KEY, 0, this.deadLetterLimit - 1)
+            .exec();
     }
 
     /**
      * Start queue processor
      */
-    private startProcessor(): void {
-        // Process queue every 2 seconds
+    start(intervalMs: number = 2000): void {
+        if (this.processingInterval) {
+            return;
+        }
+
         this.processingInterval = setInterval(() => {
             this.processQueue().catch((error) => {
                 console.error('Error processing scan queue:', error);
             });
-        }, 2000);
+        }, intervalMs);
     }
 
     /**
      * Stop queue processor
+     * Scans already running finish in the background; if the process exits first,
+     * their visibility timeout expires and another worker picks them up
      */
-    stopProcessor(): void {
+    stop(): void {
         if (this.processingInterval) {
             clearInterval(this.processingInterval);
             this.processingInterval = null;
@@ -100,20 +269,38 @@ export class ScanQueueService {
     }
 
     /**
-     * Get queue status
+     * Get queue status (across all instances)
      */
-    getStatus(): {
+    async getStatus(): Promise<{
         queueLength: number;
+        delayed: number;
         processing: number;
         processingIds: string[];
-    } {
+        deadLetter: number;
+    }> {
+        const [ready, delayed, processingIds, deadLetter] = await Promise.all([
+            redis.zcard(READY_KEY),
+            redis.zcard(DELAYED_KEY),
+            redis.zrange(PROCESSING_KEY, 0, -1),
+            redis.llen(DEAD_KEY),
+        ]);
+
         return {
-            queueLength: this.queue.length,
-            processing: this.processing.size,
-            processingIds: Array.from(this.processing),
+            queueLength: ready,
+            delayed,
+            processing: processingIds.length,
+            processingIds,
+            deadLetter,
         };
     }
+
+    /**
+     * Get dead-lettered jobs, newest first
+     */
+    async getFailedJobs(limit: number = 50): Promise<DeadLetterScanJob[]> {
+        const entries = await redis.lrange(DEAD_KEY, 0, limit - 1);
+        return entries.map(entry => JSON.parse(entry) as DeadLetterScanJob);
+    }
 }
 
 export default new ScanQueueService();
-
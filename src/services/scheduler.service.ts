@@ -0,0 +1,114 @@
+/**
+ * Background worker that executes due fetch schedules
+ * Safe to run on several API instances: schedules are claimed with
+ * FOR UPDATE SKIP LOCKED and leased until the run completes
+ */
+
+import scheduleRepository from '../repositories/schedule.repository';
+import sourceIngestionService from './source-ingestion.service';
+import { calculateNextFetch } from '../utils/schedule-utils';
+import { FetchSchedule, SourceType } from '@gsnake/shared-types';
+
+export class SchedulerService {
+    private pollInterval: NodeJS.Timeout | null = null;
+    private ticking: boolean = false;
+    private readonly batchSize: number = 10;
+    private readonly leaseMs: number = 10 * 60 * 1000; // 10 minutes
+
+    /**
+     * Start polling for due schedules
+     */
+    start(intervalMs: number = 60000): void {
+        if (this.pollInterval) {
+            return;
+        }
+
+        this.pollInterval = setInterval(() => {
+            this.tick().catch((error) => {
+                console.error('Error processing fetch schedules:', error);
+            });
+        }, intervalMs);
+
+        console.log(`⏰ Schedule worker started (every ${Math.round(intervalMs / 1000)}s)`);
+    }
+
+    /**
+     * Stop polling
+     */
+    stop(): void {
+        if (this.pollInterval) {
+            clearInterval(this.pollInterval);
+            this.pollInterval = null;
+        }
+    }
+
+    /**
+     * Claim and run all currently due schedules
+     */
+    async tick(): Promise<void> {
+        // Skip if the previous tick is still running
+        if (this.ticking) {
+            return;
+        }
+
+        this.ticking = true;
+        try {
+            let claimed: FetchSchedule[];
+            do {
+                claimed = await scheduleRepository.claimDue(this.batchSize, this.leaseMs);
+                for (const schedule of claimed) {
+                    await this.runSchedule(schedule);
+                }
+            } while (claimed.length === this.batchSize);
+        } finally {
+            this.ticking = false;
+        }
+    }
+
+    /**
+     * Queue ingestion for a single schedule and advance next_fetch
+     */
+    private async runSchedule(schedule: FetchSchedule): Promise<void> {
+        try {
+            switch (schedule.source_type) {
+                case SourceType.URL:
+                    await sourceIngestionService.enqueueUrl(schedule.user_id, schedule.source_value);
+                    break;
+                case SourceType.RSS:
+                    await sourceIngestionService.ingestRss(schedule.user_id, schedule.source_value);
+                    break;
+                default:
+                    // Uploaded files cannot be re-fetched
+                    console.warn(`Schedule ${schedule.id} has unsupported source type: ${schedule.source_type}`);
+            }
+        } catch (error: any) {
+            console.error(`Fetch schedule ${schedule.id} failed:`, error.message);
+        }
+
+        // Business rule: failed runs are retried at the next regular slot, not immediately
+        await scheduleRepository.update(schedule.id, {
+            last_fetched: new Date(),
+            next_fetch: this.nextFetchFor(schedule),
+        });
+    }
+
+    /**
+     * Compute next run for a schedule, falling back to daily if its timing is invalid
+     */
+    private nextFetchFor(schedule: FetchSchedule): Date {
+        const { cron_expression, timezone } = schedule as FetchSchedule & {
+            cron_expression?: string | null;
+            timezone?: string | null;
+        };
+
+        try {
+            return calculateNextFetch(schedule.frequency, cron_expression, timezone);
+        } catch (error: any) {
+            // Legacy rows may hold values that were never validated; retry in a day
+            console.error(`Schedule ${schedule.id} has invalid timing:`, error.message);
+            return calculateNextFetch('daily');
+        }
+    }
+}
+
+export default new SchedulerService();
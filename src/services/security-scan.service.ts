@@ -1,118 +1,291 @@
+import crypto from 'crypto';
+import JSZip from 'jszip';
+import { Readable } from 'stream';
 import storageService from './storage.service';
 import productRepository from '../repositories/product.repository';
 import scanQueueService from './scan-queue.service';
-import { ProductReviewStatus } from '@gsnake/shared-types';
+import workflowSecurityService from './workflow-security.service';
+import malwareScannerService, { MalwareVerdictStatus } from './malware-scanner.service';
+import securityFindingSuppressionRepository from '../repositories/security-finding-suppression.repository';
+import productReleaseRepository from '../repositories/product-release.repository';
+import { ProductArtifact, ProductReviewStatus } from '@gsnake/shared-types';
 import { DomainError, ERROR_CODES } from '../shared/errors';
+import { SECURITY_SCAN_FAIL_SEVERITY } from '../config/env';
+import { ScanSeverity, SCAN_SEVERITIES, meetsSeverity, maxSeverity, severityRank } from '../utils/scan-severity';
 
 /**
  * Security Scan Service
  * Scans product artifacts for malware, credentials, and security issues
  */
 
+export type SecurityFindingCategory = 'credential' | 'suspicious' | 'workflow' | 'archive' | 'artifact';
+
+export interface SecurityFinding {
+    id: string; // Stable across re-scans of the same artifact, so reviewers can reference it
+    rule_id: string;
+    category: SecurityFindingCategory;
+    severity: ScanSeverity;
+    description: string;
+    artifact_id: string;
+    file_path: string; // Artifact file name, or path inside an archive (e.g. source.zip/src/config.js)
+    line: number | null;
+    column: number | null;
+    snippet: string | null; // Source line with secrets redacted
+    node_name?: string; // n8n workflow findings only
+    node_type?: string;
+    suppressed?: boolean; // Approved false positive; does not affect pass/fail
+    suppression_id?: string;
+}
+
+export interface ArtifactMalwareVerdict {
+    artifact_id: string;
+    file_name: string;
+    status: MalwareVerdictStatus;
+    engine: string;
+    signature: string | null;
+    error: string | null;
+}
+
 export interface SecurityScanResult {
     passed: boolean;
     malware_detected: boolean;
-    credentials_found: string[]; // List of files containing credentials
-    suspicious_patterns: string[]; // List of suspicious patterns found
+    malware_verdicts: ArtifactMalwareVerdict[]; // One per artifact read by the malware engine
+    severity_threshold: ScanSeverity; // Findings at or above this severity fail the scan
+    max_severity: ScanSeverity | null;
+    findings: SecurityFinding[]; // Most severe first
     scanned_files: number;
     scan_details: Record<string, any>;
 }
 
 export interface CredentialPattern {
+    id: string;
     name: string;
     pattern: RegExp;
     description: string;
+    severity: ScanSeverity;
+}
+
+/**
+ * Artifact being scanned; findings are collected here so archives that
+ * hit a limit midway still report what was found before
+ */
+interface ScanContext {
+    artifactId: string;
+    findings: SecurityFinding[];
+}
+
+/**
+ * Limits applied while unpacking an artifact (shared by nested archives)
+ */
+interface ArchiveBudget {
+    entriesLeft: number;
+    bytesLeft: number;
+    entriesScanned: number;
 }
 
+class ArchiveLimitError extends Error {}
+
 export class SecurityScanService {
     // Common credential patterns to scan for
     private readonly credentialPatterns: CredentialPattern[] = [
         {
+            id: 'credential-api-key',
             name: 'API Key',
             pattern: /(api[_-]?key|apikey)\s*[:=]\s*["']?([a-zA-Z0-9_-]{20,})["']?/gi,
             description: 'API key detected',
+            severity: 'high',
         },
         {
+            id: 'credential-aws-access-key',
             name: 'AWS Access Key',
             pattern: /AKIA[0-9A-Z]{16}/gi,
             description: 'AWS access key ID detected',
+            severity: 'critical',
         },
         {
+            id: 'credential-aws-secret-key',
             name: 'AWS Secret Key',
             pattern: /aws[_-]?secret[_-]?access[_-]?key\s*[:=]\s*["']?([a-zA-Z0-9/+=]{40})["']?/gi,
             description: 'AWS secret access key detected',
+            severity: 'critical',
         },
         {
+            id: 'credential-private-key',
             name: 'Private Key',
             pattern: /-----BEGIN\s+(RSA\s+)?PRIVATE\s+KEY-----/gi,
             description: 'Private key detected',
+            severity: 'critical',
         },
         {
+            id: 'credential-password',
             name: 'Password',
             pattern: /(password|pwd|passwd)\s*[:=]\s*["']?([^\s"']{8,})["']?/gi,
             description: 'Password in plaintext detected',
+            severity: 'high',
         },
         {
+            id: 'credential-connection-string',
             name: 'Database Connection String',
             pattern: /(mongodb|mysql|postgres|redis):\/\/[^\s"']+/gi,
             description: 'Database connection string with credentials detected',
+            severity: 'high',
         },
         {
+            id: 'credential-jwt-secret',
             name: 'JWT Secret',
             pattern: /jwt[_-]?secret\s*[:=]\s*["']?([a-zA-Z0-9_-]{32,})["']?/gi,
             description: 'JWT secret detected',
+            severity: 'high',
         },
         {
+            id: 'credential-bearer-token',
             name: 'Bearer Token',
             pattern: /bearer\s+([a-zA-Z0-9._-]{20,})/gi,
             description: 'Bearer token detected',
+            severity: 'high',
         },
     ];
 
     // Suspicious patterns (potential security issues)
     private readonly suspiciousPatterns: CredentialPattern[] = [
         {
+            id: 'suspicious-eval',
             name: 'Eval',
             pattern: /eval\s*\(/gi,
             description: 'Use of eval() function (potential code injection)',
+            severity: 'medium',
         },
         {
+            id: 'suspicious-shell-command',
             name: 'Shell Command',
             pattern: /(exec|system|shell_exec|passthru)\s*\(/gi,
             description: 'Shell command execution detected',
+            severity: 'medium',
         },
         {
+            id: 'suspicious-sql-injection',
             name: 'SQL Injection Pattern',
             pattern: /(\bunion\s+select|drop\s+table|delete\s+from)\b/gi,
             description: 'Potential SQL injection pattern',
+            severity: 'low',
         },
     ];
 
+    // Zip bomb protection
+    private readonly maxArchiveEntries: number = 5000;
+    private readonly maxArchiveUncompressedSize: number = 200 * 1024 * 1024; // 200MB
+    private readonly maxArchiveDepth: number = 3;
+
+    // Keep results readable when a file matches the same pattern over and over
+    private readonly maxMatchesPerRule: number = 20;
+    private readonly maxSnippetLength: number = 160;
+
     /**
-     * Scan a file buffer for credentials and suspicious patterns
+     * Stable finding id from what identifies it within the artifact
+     */
+    private findingId(artifactId: string, filePath: string, ruleId: string, location: string): string {
+        const hash = crypto
+            .createHash('sha256')
+            .update(`${artifactId}:${filePath}:${ruleId}:${location}`)
+            .digest('hex');
+        return `f_${hash.substring(0, 16)}`;
+    }
+
+    /**
+     * Mask a secret, keeping a short prefix for recognition
+     */
+    private redactValue(value: string): string {
+        if (value.length <= 8) {
+            return '****';
+        }
+        return `${value.substring(0, 4)}${'*'.repeat(Math.min(value.length - 4, 12))}`;
+    }
+
+    /**
+     * Mask every credential pattern match in a line
+     */
+    private redactSecrets(text: string): string {
+        return this.credentialPatterns.reduce(
+            (redacted, pattern) => redacted.replace(pattern.pattern, match => this.redactValue(match)),
+            text
+        );
+    }
+
+    /**
+     * 1-based line/column of an offset in the content
+     */
+    private locate(content: string, index: number): { line: number; column: number } {
+        const before = content.substring(0, index);
+        const line = before.split('\n').length;
+        const column = index - before.lastIndexOf('\n');
+        return { line, column };
+    }
+
+    /**
+     * Redacted source line around a position, truncated to maxSnippetLength
+     */
+    private snippetAt(content: string, line: number, column: number): string {
+        // Redact before truncating so a cut-off secret cannot slip past the patterns
+        const text = this.redactSecrets(content.split('\n')[line - 1] || '');
+        let start = 0;
+        if (text.length > this.maxSnippetLength) {
+            start = Math.max(0, Math.min(column - 1 - this.maxSnippetLength / 2, text.length - this.maxSnippetLength));
+        }
+        return text.substring(start, start + this.maxSnippetLength).trim();
+    }
+
+    /**
+     * Record a finding for each match of a pattern
+     */
+    private collectPatternMatches(
+        context: ScanContext,
+        content: string,
+        filePath: string,
+        pattern: CredentialPattern,
+        category: SecurityFindingCategory
+    ): void {
+        let count = 0;
+        for (const match of content.matchAll(pattern.pattern)) {
+            if (count++ >= this.maxMatchesPerRule) {
+                break;
+            }
+
+            const { line, column } = this.locate(content, match.index ?? 0);
+            context.findings.push({
+                id: this.findingId(context.artifactId, filePath, pattern.id, `${line}:${column}`),
+                rule_id: pattern.id,
+                category,
+                severity: pattern.severity,
+                description: `${pattern.name}: ${pattern.description}`,
+                artifact_id: context.artifactId,
+                file_path: filePath,
+                line,
+                column,
+                snippet: this.snippetAt(content, line, column),
+            });
+        }
+    }
+
+    /**
+     * Scan a file buffer for credentials and suspicious patterns,
+     * plus structural checks when it is an n8n workflow
      */
     private async scanFileBuffer(
+        context: ScanContext,
         buffer: Buffer,
-        fileName: string
-    ): Promise<{
-        credentials: string[];
-        suspicious: string[];
-    }> {
-        const credentials: string[] = [];
-        const suspicious: string[] = [];
+        fileName: string,
+        isJson: boolean = fileName.toLowerCase().endsWith('.json')
+    ): Promise<void> {
         const content = buffer.toString('utf-8', 0, Math.min(buffer.length, 10 * 1024 * 1024)); // Max 10MB scan
 
         // Skip binary files (check for null bytes)
         if (buffer.includes(0)) {
-            return { credentials, suspicious };
+            return;
         }
 
         // Check credential patterns
         for (const pattern of this.credentialPatterns) {
-            const matches = content.match(pattern.pattern);
-            if (matches) {
-                credentials.push(`${pattern.name} in ${fileName}: ${pattern.description}`);
-            }
+            this.collectPatternMatches(context, content, fileName, pattern, 'credential');
         }
 
         // Check suspicious patterns (only for code files)
@@ -121,18 +294,158 @@ export class SecurityScanService {
 
         if (isCodeFile) {
             for (const pattern of this.suspiciousPatterns) {
-                const matches = content.match(pattern.pattern);
-                if (matches) {
-                    suspicious.push(`${pattern.name} in ${fileName}: ${pattern.description}`);
+                this.collectPatternMatches(context, content, fileName, pattern, 'suspicious');
+            }
+        }
+
+        // Check n8n workflow structure
+        if (isJson) {
+            let json: any;
+            try {
+                json = JSON.parse(content);
+            } catch {
+                json = null; // Not valid JSON; text patterns above still apply
+            }
+
+            for (const finding of workflowSecurityService.scanWorkflow(json)) {
+                // Point at the node's "name" property
+                const nameMatch = new RegExp(`"name"\\s*:\\s*${this.escapeRegExp(JSON.stringify(finding.node_name))}`)
+                    .exec(content);
+                const location = nameMatch ? this.locate(content, nameMatch.index) : null;
+
+                context.findings.push({
+                    id: this.findingId(context.artifactId, fileName, finding.rule_id, `node:${finding.node_name}`),
+                    rule_id: finding.rule_id,
+                    category: 'workflow',
+                    severity: finding.severity,
+                    description: finding.description,
+                    artifact_id: context.artifactId,
+                    file_path: fileName,
+                    line: location?.line ?? null,
+                    column: location?.column ?? null,
+                    snippet: location ? this.snippetAt(content, location.line, location.column) : null,
+                    node_name: finding.node_name,
+                    node_type: finding.node_type,
+                });
+            }
+        }
+    }
+
+    /**
+     * Escape a literal for use inside a RegExp
+     */
+    private escapeRegExp(value: string): string {
+        return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    }
+
+    /**
+     * Check for the zip local file header signature
+     */
+    private isZipBuffer(buffer: Buffer): boolean {
+        return buffer.length >= 4 && buffer.readUInt32LE(0) === 0x04034b50;
+    }
+
+    /**
+     * Decompress a zip entry, failing as soon as it exceeds the remaining budget
+     * (declared sizes in the archive cannot be trusted)
+     */
+    private readZipEntry(entry: JSZip.JSZipObject, budget: ArchiveBudget): Promise<Buffer> {
+        return new Promise((resolve, reject) => {
+            const stream = entry.nodeStream('nodebuffer') as Readable;
+            const chunks: Buffer[] = [];
+
+            stream.on('data', (chunk: Buffer) => {
+                budget.bytesLeft -= chunk.length;
+                if (budget.bytesLeft < 0) {
+                    stream.destroy();
+                    reject(new ArchiveLimitError(
+                        `uncompressed size exceeds ${this.maxArchiveUncompressedSize / 1024 / 1024}MB`
+                    ));
+                    return;
+                }
+                chunks.push(chunk);
+            });
+            stream.on('end', () => resolve(Buffer.concat(chunks)));
+            stream.on('error', reject);
+        });
+    }
+
+    /**
+     * Unpack a zip archive in memory and scan every entry, recursing into nested archives
+     * Findings are reported with the path inside the archive (e.g. source.zip/src/config.js)
+     */
+    private async scanArchiveBuffer(
+        context: ScanContext,
+        buffer: Buffer,
+        archivePath: string,
+        budget: ArchiveBudget,
+        depth: number = 1
+    ): Promise<void> {
+        const zip = await JSZip.loadAsync(buffer);
+        const entries = Object.values(zip.files).filter(entry => !entry.dir);
+
+        for (const entry of entries) {
+            budget.entriesLeft--;
+            if (budget.entriesLeft < 0) {
+                throw new ArchiveLimitError(`more than ${this.maxArchiveEntries} entries`);
+            }
+
+            const entryPath = `${archivePath}/${entry.name}`;
+            const entryBuffer = await this.readZipEntry(entry, budget);
+
+            if (this.isZipBuffer(entryBuffer)) {
+                if (depth >= this.maxArchiveDepth) {
+                    throw new ArchiveLimitError(`archives nested more than ${this.maxArchiveDepth} levels deep`);
                 }
+
+                await this.scanArchiveBuffer(context, entryBuffer, entryPath, budget, depth + 1);
+                continue;
             }
+
+            await this.scanFileBuffer(context, entryBuffer, entryPath);
+            budget.entriesScanned++;
         }
+    }
 
-        return { credentials, suspicious };
+    /**
+     * Scan a zip artifact; exceeding the unpacking limits fails the scan
+     * Returns the number of entries scanned
+     */
+    private async scanArchiveArtifact(context: ScanContext, buffer: Buffer, fileName: string): Promise<number> {
+        const budget: ArchiveBudget = {
+            entriesLeft: this.maxArchiveEntries,
+            bytesLeft: this.maxArchiveUncompressedSize,
+            entriesScanned: 0,
+        };
+
+        try {
+            await this.scanArchiveBuffer(context, buffer, fileName, budget);
+        } catch (error: any) {
+            const limitExceeded = error instanceof ArchiveLimitError;
+            const ruleId = limitExceeded ? 'archive-limit-exceeded' : 'archive-unreadable';
+
+            context.findings.push({
+                id: this.findingId(context.artifactId, fileName, ruleId, 'archive'),
+                rule_id: ruleId,
+                category: 'archive',
+                severity: limitExceeded ? 'high' : 'medium',
+                description: limitExceeded
+                    ? `Archive limit exceeded: ${error.message}`
+                    : `Archive could not be unpacked: ${error.message}`,
+                artifact_id: context.artifactId,
+                file_path: fileName,
+                line: null,
+                column: null,
+                snippet: null,
+            });
+        }
+
+        return budget.entriesScanned;
     }
 
     /**
      * Scan product artifacts for security issues
+     * Covers what buyers currently get: the current release and artifacts uploaded outside releases
      */
     async scanProduct(productId: string): Promise<SecurityScanResult> {
         // Get product
@@ -144,61 +457,163 @@ export class SecurityScanService {
         // Import artifact repository
         const artifactRepository = (await import('../repositories/product-artifact.repository')).default;
 
-        // Get all artifacts for product
-        const artifacts = await artifactRepository.findByProductId(productId);
+        const artifacts = await artifactRepository.findLiveByProductId(productId);
+        return await this.scanArtifacts(productId, artifacts);
+    }
 
+    /**
+     * Scan the artifacts of a single release
+     */
+    async scanRelease(releaseId: string): Promise<SecurityScanResult> {
+        const release = await productReleaseRepository.findById(releaseId);
+        if (!release) {
+            throw new DomainError(ERROR_CODES.RELEASE_NOT_FOUND, { releaseId });
+        }
+
+        const artifactRepository = (await import('../repositories/product-artifact.repository')).default;
+
+        const artifacts = await artifactRepository.findByReleaseId(releaseId);
+        return await this.scanArtifacts(release.product_id, artifacts);
+    }
+
+    /**
+     * Scan a set of artifacts of a product
+     */
+    private async scanArtifacts(productId: string, artifacts: ProductArtifact[]): Promise<SecurityScanResult> {
         if (artifacts.length === 0) {
             return {
                 passed: true,
                 malware_detected: false,
-                credentials_found: [],
-                suspicious_patterns: [],
+                malware_verdicts: [],
+                severity_threshold: SECURITY_SCAN_FAIL_SEVERITY,
+                max_severity: null,
+                findings: [],
                 scanned_files: 0,
                 scan_details: { message: 'No artifacts to scan' },
             };
         }
 
-        const allCredentials: string[] = [];
-        const allSuspicious: string[] = [];
+        const findings: SecurityFinding[] = [];
+        const malwareVerdicts: ArtifactMalwareVerdict[] = [];
         let scannedCount = 0;
 
+        let archiveEntriesCount = 0;
+        let unreadableCount = 0;
+
         // Scan each artifact
         for (const artifact of artifacts) {
             try {
-                // Skip large files (>10MB) for performance
-                if (artifact.file_size && artifact.file_size > 10 * 1024 * 1024) {
+                const isSourceZip = artifact.artifact_type === 'source_zip';
+
+                // Large files (>10MB) only get the malware scan; archives are bounded by the unpacking limits
+                const skipContentScan = !isSourceZip && !!artifact.file_size && artifact.file_size > 10 * 1024 * 1024;
+                if (skipContentScan && !malwareScannerService.isEnabled()) {
                     continue;
                 }
 
                 // Read file
                 const buffer = await storageService.readFile(artifact.file_url);
 
-                // Scan file
-                const { credentials, suspicious } = await this.scanFileBuffer(buffer, artifact.file_name);
+                if (malwareScannerService.isEnabled()) {
+                    const verdict = await malwareScannerService.scanBuffer(buffer, artifact.file_name);
+                    malwareVerdicts.push({
+                        artifact_id: artifact.id,
+                        file_name: artifact.file_name,
+                        status: verdict.status,
+                        engine: verdict.engine,
+                        signature: verdict.signature || null,
+                        error: verdict.error || null,
+                    });
+                }
 
-                allCredentials.push(...credentials);
-                allSuspicious.push(...suspicious);
+                if (skipContentScan) {
+                    continue;
+                }
+
+                const context: ScanContext = { artifactId: artifact.id, findings };
+
+                // Scan file (zip archives entry by entry)
+                if (isSourceZip || this.isZipBuffer(buffer)) {
+                    archiveEntriesCount += await this.scanArchiveArtifact(context, buffer, artifact.file_name);
+                } else {
+                    await this.scanFileBuffer(
+                        context,
+                        buffer,
+                        artifact.file_name,
+                        artifact.artifact_type === 'workflow_json' || artifact.file_name.toLowerCase().endsWith('.json')
+                    );
+                }
                 scannedCount++;
             } catch (error: any) {
-                // Log error but continue scanning other files
+                // An artifact that was never scanned must not pass as clean; continue with the others
                 console.error(`Error scanning artifact ${artifact.id}:`, error.message);
+                unreadableCount++;
+                findings.push({
+                    id: this.findingId(artifact.id, artifact.file_name, 'artifact-unreadable', 'artifact'),
+                    rule_id: 'artifact-unreadable',
+                    category: 'artifact',
+                    severity: 'critical',
+                    description: `Artifact could not be scanned: ${error.message}`,
+                    artifact_id: artifact.id,
+                    file_path: artifact.file_name,
+                    line: null,
+                    column: null,
+                    snippet: null,
+                });
             }
         }
 
-        // Determine if scan passed
-        const passed = allCredentials.length === 0 && allSuspicious.length === 0;
+        // Apply approved suppressions, as long as the artifact is unchanged since they were requested
+        const suppressions = await securityFindingSuppressionRepository.findByProductId(productId, 'approved');
+        if (suppressions.length > 0) {
+            const checksums = new Map(artifacts.map(artifact => [artifact.id, artifact.checksum || null]));
+            const suppressionByFinding = new Map(
+                suppressions
+                    .filter(suppression => checksums.get(suppression.artifact_id) === (suppression.artifact_checksum || null))
+                    .map(suppression => [`${suppression.artifact_id}:${suppression.finding_id}`, suppression])
+            );
+
+            for (const finding of findings) {
+                const suppression = suppressionByFinding.get(`${finding.artifact_id}:${finding.id}`);
+                if (suppression) {
+                    finding.suppressed = true;
+                    finding.suppression_id = suppression.id;
+                }
+            }
+        }
+
+        // Most severe first
+        findings.sort((a, b) => severityRank(b.severity) - severityRank(a.severity));
+
+        // Determine if scan passed: only unsuppressed findings at or above the threshold fail it
+        const activeFindings = findings.filter(finding => !finding.suppressed);
+        // Infected and unscanned artifacts always fail it, even if a finding was suppressed
+        const malwareDetected = malwareVerdicts.some(verdict => verdict.status === 'infected');
+        const passed = !malwareDetected
+            && unreadableCount === 0
+            && !activeFindings.some(finding => meetsSeverity(finding.severity, SECURITY_SCAN_FAIL_SEVERITY));
+
+        const severityCounts = Object.fromEntries(
+            SCAN_SEVERITIES.map(severity => [severity, activeFindings.filter(f => f.severity === severity).length])
+        );
 
         return {
             passed,
-            malware_detected: false, // Actual malware scan would require ClamAV or VirusTotal
-            credentials_found: allCredentials,
-            suspicious_patterns: allSuspicious,
+            malware_detected: malwareDetected,
+            malware_verdicts: malwareVerdicts,
+            severity_threshold: SECURITY_SCAN_FAIL_SEVERITY,
+            max_severity: maxSeverity(activeFindings.map(finding => finding.severity)),
+            findings,
             scanned_files: scannedCount,
             scan_details: {
                 total_artifacts: artifacts.length,
                 scanned_artifacts: scannedCount,
-                credentials_count: allCredentials.length,
-                suspicious_count: allSuspicious.length,
+                scanned_archive_entries: archiveEntriesCount,
+                unreadable_artifacts: unreadableCount,
+                findings_count: findings.length,
+                suppressed_count: findings.length - activeFindings.length,
+                severity_counts: severityCounts,
+                malware_engine: malwareVerdicts[0]?.engine || 'none',
             },
         };
     }
@@ -220,8 +635,40 @@ export class SecurityScanService {
     /**
      * Queue product for security scan (non-blocking)
      */
-    queueScan(productId: string, priority: number = 0): void {
-        scanQueueService.enqueue(productId, priority);
+    async queueScan(productId: string, priority: number = 0): Promise<void> {
+        await scanQueueService.enqueue(productId, priority);
+    }
+
+    /**
+     * Queue a release for security scan (non-blocking)
+     */
+    async queueReleaseScan(releaseId: string, priority: number = 0): Promise<void> {
+        await scanQueueService.enqueueRelease(releaseId, priority);
+    }
+
+    /**
+     * Scan a release and store the result on it (for background jobs)
+     */
+    async scanReleaseAsync(releaseId: string): Promise<void> {
+        try {
+            await productReleaseRepository.update(releaseId, { security_scan_status: 'pending' });
+
+            const result = await this.scanRelease(releaseId);
+
+            await productReleaseRepository.update(releaseId, {
+                security_scan_status: result.passed ? 'passed' : 'failed',
+                security_scan_result: result as any,
+                security_scan_at: new Date(),
+            });
+        } catch (error: any) {
+            await productReleaseRepository.update(releaseId, {
+                security_scan_status: 'failed',
+                security_scan_result: { error: error.message },
+                security_scan_at: new Date(),
+            });
+
+            throw error;
+        }
     }
 
     /**
@@ -255,4 +702,3 @@ export class SecurityScanService {
 }
 
 export default new SecurityScanService();
-
@@ -0,0 +1,184 @@
+import { Readable } from 'stream';
+import rssService from './rss.service';
+import storageService from './storage.service';
+import ingestionQueueService from './ingestion-queue.service';
+import articleRepository from '../repositories/article.repository';
+import rssFeedRepository from '../repositories/rss-feed.repository';
+import ingestionJobRepository from '../repositories/ingestion-job.repository';
+import { Article, SourceType, ArticleStatus } from '@gsnake/shared-types';
+import { NotFoundError, DomainError, ERROR_CODES } from '../shared/errors';
+import { SOURCE_FILE_UPLOAD_RULE } from '../config/upload-limits';
+
+/**
+ * Source Ingestion Service
+ * Creates pending articles and queues the fetch → summarize pipeline, which the
+ * ingestion worker runs in the background. Used by the /api/sources endpoints and the schedule worker
+ */
+export class SourceIngestionService {
+    /**
+     * Create a pending article for a URL and queue it
+     */
+    async enqueueUrl(userId: string, url: string): Promise<Article> {
+        const article = await articleRepository.create({
+            user_id: userId,
+            source_type: SourceType.URL,
+            source_value: url,
+            url,
+            status: ArticleStatus.PENDING
+        });
+
+        await ingestionJobRepository.create({
+            article_id: article.id,
+            user_id: userId,
+            job_type: 'url',
+            payload: { url }
+        });
+        ingestionQueueService.kick();
+
+        return article;
+    }
+
+    /**
+     * Poll an RSS feed and queue items not seen before for this user
+     * Items are deduplicated by guid (falling back to link); unchanged feeds are
+     * detected via ETag/Last-Modified. Limited per run - the rest are picked up by the next poll
+     */
+    async ingestRss(
+        userId: string,
+        feedUrl: string,
+        limit: number = 20
+    ): Promise<{ feedTitle: string; articles: Article[]; notModified: boolean }> {
+        const feed = await rssFeedRepository.findOrCreate(userId, feedUrl);
+
+        // 1. Fetch RSS Feed (conditional on the previous validators)
+        const result = await rssService.fetchFeed(feedUrl, {
+            etag: feed.etag,
+            lastModified: feed.last_modified,
+        });
+
+        if (result.notModified) {
+            await rssFeedRepository.touch(feed.id);
+            return { feedTitle: feed.title || '', articles: [], notModified: true };
+        }
+
+        const { title, items } = result;
+
+        // 2. Skip items already ingested
+        const keyedItems = items
+            .map(item => ({ item, key: (item.guid || item.link || '') as string }))
+            .filter(({ key }) => key);
+        const existingKeys = await rssFeedRepository.findExistingItemKeys(
+            feed.id,
+            keyedItems.map(({ key }) => key)
+        );
+        const newItems = keyedItems.filter(({ key }) => !existingKeys.has(key));
+
+        const queuedItems: Article[] = [];
+        for (const { item, key } of newItems.slice(0, limit)) {
+            // Another poll of the same feed may be ingesting this item concurrently
+            if (!(await rssFeedRepository.claimItem(feed.id, key))) {
+                continue;
+            }
+
+            try {
+                // Create Article for each item
+                const article = await articleRepository.create({
+                    user_id: userId,
+                    source_type: SourceType.RSS,
+                    source_value: item.link || feedUrl,
+                    title: item.title,
+                    url: item.link,
+                    metadata: { pubDate: item.pubDate, author: item.author, feedTitle: title, guid: item.guid },
+                    status: ArticleStatus.PENDING
+                });
+                await rssFeedRepository.setItemArticle(feed.id, key, article.id);
+
+                // Queue summarization of the item content captured now
+                await ingestionJobRepository.create({
+                    article_id: article.id,
+                    user_id: userId,
+                    job_type: 'rss_item',
+                    payload: { content: item.content || item.summary || '', link: item.link || feedUrl }
+                });
+
+                queuedItems.push(article);
+            } catch (error) {
+                // Let the next poll retry this item
+                await rssFeedRepository.releaseItem(feed.id, key);
+                throw error;
+            }
+        }
+
+        // 3. Remember validators only once every new item is stored;
+        // with a backlog left, the next poll must fetch the full feed again
+        const backlogRemaining = newItems.length > limit;
+        await rssFeedRepository.updateFetchState(feed.id, {
+            title,
+            etag: backlogRemaining ? null : result.etag,
+            last_modified: backlogRemaining ? null : result.lastModified,
+        });
+
+        if (queuedItems.length > 0) {
+            ingestionQueueService.kick();
+        }
+
+        return { feedTitle: title, articles: queuedItems, notModified: false };
+    }
+
+    /**
+     * Store an uploaded file, create a pending article for it and queue it
+     * The file is kept in storage (not the request's temp dir) so any instance can process it
+     */
+    async enqueueFile(userId: string, file: Readable, fileName: string, mimetype: string): Promise<Article> {
+        const upload = await storageService.uploadStream(file, fileName, 'temp', SOURCE_FILE_UPLOAD_RULE);
+
+        const article = await articleRepository.create({
+            user_id: userId,
+            source_type: SourceType.FILE,
+            source_value: fileName,
+            title: fileName,
+            metadata: { mimetype },
+            status: ArticleStatus.PENDING
+        });
+
+        await ingestionJobRepository.create({
+            article_id: article.id,
+            user_id: userId,
+            job_type: 'file',
+            payload: { file_url: upload.fileUrl, file_name: fileName, mimetype }
+        });
+        ingestionQueueService.kick();
+
+        return article;
+    }
+
+    /**
+     * Re-queue a failed article
+     */
+    async retry(articleId: string, userId: string): Promise<Article> {
+        const article = await articleRepository.findById(articleId);
+        if (!article || article.user_id !== userId) {
+            throw new NotFoundError(ERROR_CODES.ARTICLE_NOT_FOUND, { articleId });
+        }
+
+        if (article.status !== ArticleStatus.FAILED) {
+            throw new DomainError(ERROR_CODES.INGESTION_RETRY_NOT_ALLOWED, { articleId, status: article.status });
+        }
+
+        const job = await ingestionJobRepository.findByArticleId(articleId);
+        if (!job) {
+            throw new NotFoundError(ERROR_CODES.INGESTION_JOB_NOT_FOUND, { articleId });
+        }
+
+        const updated = await articleRepository.update(articleId, {
+            status: ArticleStatus.PENDING,
+            error_message: null
+        });
+        await ingestionJobRepository.release(job.id);
+        ingestionQueueService.kick();
+
+        return updated || article;
+    }
+}
+
+export default new SourceIngestionService();
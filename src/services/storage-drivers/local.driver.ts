@@ -0,0 +1,127 @@
+import fs from 'fs/promises';
+import { createReadStream, createWriteStream } from 'fs';
+import path from 'path';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { StorageDriver, StoredObjectInfo, ListedObject } from './storage-driver';
+
+/**
+ * Local filesystem driver (single instance / development)
+ */
+export class LocalStorageDriver implements StorageDriver {
+    readonly name = 'local';
+    private readonly root: string;
+
+    constructor(uploadDir: string, subdirs: readonly string[]) {
+        this.root = path.resolve(uploadDir);
+
+        // Ensure upload directory and subdirectories exist
+        this.ensureDirs(subdirs).catch(error => {
+            console.error('Failed to create upload directories:', error);
+        });
+    }
+
+    private async ensureDirs(subdirs: readonly string[]): Promise<void> {
+        for (const subdir of subdirs) {
+            await fs.mkdir(path.join(this.root, subdir), { recursive: true });
+        }
+    }
+
+    /**
+     * Map a key to a path inside the upload directory
+     */
+    private filePath(key: string): string {
+        const filePath = path.resolve(this.root, key);
+        if (!filePath.startsWith(this.root + path.sep)) {
+            throw new Error('Invalid file path');
+        }
+        return filePath;
+    }
+
+    async putObject(key: string, buffer: Buffer): Promise<void> {
+        const filePath = this.filePath(key);
+        await fs.mkdir(path.dirname(filePath), { recursive: true });
+        await fs.writeFile(filePath, buffer);
+    }
+
+    async putStream(key: string, stream: Readable): Promise<void> {
+        const filePath = this.filePath(key);
+        const partPath = `${filePath}.part`;
+        await fs.mkdir(path.dirname(filePath), { recursive: true });
+
+        // Write to a temporary file so readers never see a partial upload
+        try {
+            await pipeline(stream, createWriteStream(partPath));
+            await fs.rename(partPath, filePath);
+        } catch (error) {
+            await fs.rm(partPath, { force: true });
+            throw error;
+        }
+    }
+
+    async getObject(key: string): Promise<Buffer> {
+        return await fs.readFile(this.filePath(key));
+    }
+
+    async deleteObject(key: string): Promise<void> {
+        try {
+            await fs.unlink(this.filePath(key));
+        } catch (error: any) {
+            // Ignore file not found errors
+            if (error.code !== 'ENOENT') {
+                throw error;
+            }
+        }
+    }
+
+    async statObject(key: string): Promise<StoredObjectInfo | null> {
+        try {
+            const stat = await fs.stat(this.filePath(key));
+            if (!stat.isFile()) {
+                return null;
+            }
+            return { size: stat.size, modifiedAt: stat.mtime };
+        } catch (error: any) {
+            if (error.code === 'ENOENT' || error.code === 'ENOTDIR') {
+                return null;
+            }
+            throw error;
+        }
+    }
+
+    async createReadStream(key: string, range?: { start: number; end: number }): Promise<Readable> {
+        return createReadStream(this.filePath(key), range);
+    }
+
+    async *listObjects(prefix: string): AsyncIterable<ListedObject> {
+        // Walk the directory containing the prefix and filter on the full key
+        const baseDir = prefix.includes('/') ? prefix.slice(0, prefix.lastIndexOf('/')) : '';
+        yield* this.walk(baseDir, prefix);
+    }
+
+    private async *walk(dir: string, prefix: string): AsyncIterable<ListedObject> {
+        let entries;
+        try {
+            entries = await fs.readdir(dir ? this.filePath(dir) : this.root, { withFileTypes: true });
+        } catch (error: any) {
+            if (error.code === 'ENOENT' || error.code === 'ENOTDIR') {
+                return;
+            }
+            throw error;
+        }
+
+        for (const entry of entries) {
+            const key = dir ? `${dir}/${entry.name}` : entry.name;
+            if (entry.isDirectory()) {
+                if (`${key}/`.startsWith(prefix) || prefix.startsWith(`${key}/`)) {
+                    yield* this.walk(key, prefix);
+                }
+            } else if (entry.isFile() && key.startsWith(prefix)) {
+                const stat = await fs.stat(this.filePath(key)).catch(() => null);
+                if (stat) {
+                    yield { key, size: stat.size, modifiedAt: stat.mtime };
+                }
+            }
+        }
+    }
+}
@@ -0,0 +1,166 @@
+import {
+    S3Client,
+    PutObjectCommand,
+    GetObjectCommand,
+    DeleteObjectCommand,
+    HeadObjectCommand,
+    ListObjectsV2Command,
+} from '@aws-sdk/client-s3';
+import { Upload } from '@aws-sdk/lib-storage';
+import { Readable } from 'stream';
+import { StorageDriver, StoredObjectInfo, ListedObject } from './storage-driver';
+
+export interface S3StorageDriverOptions {
+    bucket: string;
+    region: string;
+    endpoint?: string; // Custom endpoint for S3-compatible stores (MinIO, R2, ...)
+    forcePathStyle: boolean; // Required by MinIO
+    accessKeyId?: string; // Falls back to the default AWS credential chain
+    secretAccessKey?: string;
+    keyPrefix?: string; // Prepended to every object key
+}
+
+/**
+ * S3-compatible object storage driver (shared between API instances)
+ */
+export class S3StorageDriver implements StorageDriver {
+    readonly name = 's3';
+    private readonly client: S3Client;
+    private readonly bucket: string;
+    private readonly keyPrefix: string;
+
+    constructor(options: S3StorageDriverOptions) {
+        this.bucket = options.bucket;
+        this.keyPrefix = options.keyPrefix ? options.keyPrefix.replace(/\/+$/, '') + '/' : '';
+        this.client = new S3Client({
+            region: options.region,
+            endpoint: options.endpoint,
+            forcePathStyle: options.forcePathStyle,
+            credentials: options.accessKeyId && options.secretAccessKey
+                ? { accessKeyId: options.accessKeyId, secretAccessKey: options.secretAccessKey }
+                : undefined,
+        });
+    }
+
+    private objectKey(key: string): string {
+        return this.keyPrefix + key;
+    }
+
+    private isNotFound(error: any): boolean {
+        return error?.name === 'NotFound'
+            || error?.name === 'NoSuchKey'
+            || error?.$metadata?.httpStatusCode === 404;
+    }
+
+    async putObject(key: string, buffer: Buffer, contentType: string): Promise<void> {
+        await this.client.send(new PutObjectCommand({
+            Bucket: this.bucket,
+            Key: this.objectKey(key),
+            Body: buffer,
+            ContentType: contentType,
+            ContentLength: buffer.length,
+        }));
+    }
+
+    async putStream(key: string, stream: Readable, contentType: string): Promise<void> {
+        // Multipart upload; aborted uploads are cleaned up by the SDK
+        const upload = new Upload({
+            client: this.client,
+            params: {
+                Bucket: this.bucket,
+                Key: this.objectKey(key),
+                Body: stream,
+                ContentType: contentType,
+            },
+        });
+
+        // Surface the source stream's own error rather than the SDK's wrapper
+        let streamError: unknown = null;
+        stream.once('error', error => {
+            streamError = error;
+        });
+
+        try {
+            await upload.done();
+        } catch (error) {
+            throw streamError || error;
+        }
+    }
+
+    async getObject(key: string): Promise<Buffer> {
+        const result = await this.client.send(new GetObjectCommand({
+            Bucket: this.bucket,
+            Key: this.objectKey(key),
+        }));
+        if (!result.Body) {
+            throw new Error(`Empty response body for object ${key}`);
+        }
+        return Buffer.from(await result.Body.transformToByteArray());
+    }
+
+    async deleteObject(key: string): Promise<void> {
+        try {
+            await this.client.send(new DeleteObjectCommand({
+                Bucket: this.bucket,
+                Key: this.objectKey(key),
+            }));
+        } catch (error: any) {
+            if (!this.isNotFound(error)) {
+                throw error;
+            }
+        }
+    }
+
+    async statObject(key: string): Promise<StoredObjectInfo | null> {
+        try {
+            const result = await this.client.send(new HeadObjectCommand({
+                Bucket: this.bucket,
+                Key: this.objectKey(key),
+            }));
+            return {
+                size: result.ContentLength ?? 0,
+                modifiedAt: result.LastModified ?? new Date(0),
+            };
+        } catch (error: any) {
+            if (this.isNotFound(error)) {
+                return null;
+            }
+            throw error;
+        }
+    }
+
+    async createReadStream(key: string, range?: { start: number; end: number }): Promise<Readable> {
+        const result = await this.client.send(new GetObjectCommand({
+            Bucket: this.bucket,
+            Key: this.objectKey(key),
+            Range: range ? `bytes=${range.start}-${range.end}` : undefined,
+        }));
+        if (!result.Body) {
+            throw new Error(`Empty response body for object ${key}`);
+        }
+        // In Node.js the SDK returns the body as a Readable stream
+        return result.Body as Readable;
+    }
+
+    async *listObjects(prefix: string): AsyncIterable<ListedObject> {
+        let continuationToken: string | undefined;
+        do {
+            const result = await this.client.send(new ListObjectsV2Command({
+                Bucket: this.bucket,
+                Prefix: this.objectKey(prefix),
+                ContinuationToken: continuationToken,
+            }));
+
+            for (const object of result.Contents || []) {
+                if (!object.Key) continue;
+                yield {
+                    key: object.Key.slice(this.keyPrefix.length),
+                    size: object.Size ?? 0,
+                    modifiedAt: object.LastModified ?? new Date(0),
+                };
+            }
+
+            continuationToken = result.IsTruncated ? result.NextContinuationToken : undefined;
+        } while (continuationToken);
+    }
+}
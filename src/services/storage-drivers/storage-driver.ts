@@ -0,0 +1,49 @@
+import { Readable } from 'stream';
+
+/**
+ * Storage driver contract used by StorageService
+ * Objects are addressed by key, e.g. "artifacts/workflow_<uuid>.json"
+ */
+
+export interface StoredObjectInfo {
+    size: number;
+    modifiedAt: Date;
+}
+
+export interface ListedObject extends StoredObjectInfo {
+    key: string;
+}
+
+export interface StorageDriver {
+    readonly name: string;
+
+    putObject(key: string, buffer: Buffer, contentType: string): Promise<void>;
+
+    /**
+     * Write an object from a stream of unknown length
+     * Rejects with the stream's error if it fails; nothing is left behind in that case
+     */
+    putStream(key: string, stream: Readable, contentType: string): Promise<void>;
+
+    getObject(key: string): Promise<Buffer>;
+
+    /**
+     * Delete an object; missing objects are ignored
+     */
+    deleteObject(key: string): Promise<void>;
+
+    /**
+     * Size and modification time, or null if the object does not exist
+     */
+    statObject(key: string): Promise<StoredObjectInfo | null>;
+
+    /**
+     * Stream an object, optionally an inclusive byte range
+     */
+    createReadStream(key: string, range?: { start: number; end: number }): Promise<Readable>;
+
+    /**
+     * Iterate over all objects whose key starts with the given prefix (e.g. "artifacts/")
+     */
+    listObjects(prefix: string): AsyncIterable<ListedObject>;
+}
@@ -0,0 +1,195 @@
+/**
+ * Storage garbage collector
+ * Reconciles stored files with the database: files no database row references
+ * (e.g. left behind when a product and its artifacts were deleted, or stale temp uploads)
+ * and artifact rows whose file is missing. Only items older than the grace period are
+ * eligible, so uploads that are still being processed are never touched.
+ */
+
+import storageService, { STORAGE_SUBDIRS } from './storage.service';
+import imageProcessingService from './image-processing.service';
+import storageReferenceRepository from '../repositories/storage-reference.repository';
+import productArtifactRepository from '../repositories/product-artifact.repository';
+import productRepository from '../repositories/product.repository';
+import { STORAGE_GC_GRACE_HOURS, STORAGE_GC_DRY_RUN } from '../config/env';
+
+export interface OrphanedFile {
+    file_url: string;
+    size: number;
+    modified_at: Date;
+    deleted: boolean;
+}
+
+export interface MissingFileArtifact {
+    artifact_id: string;
+    product_id: string;
+    file_url: string;
+    created_at: Date;
+    deleted: boolean;
+}
+
+export interface StorageGcReport {
+    dry_run: boolean;
+    grace_hours: number;
+    cutoff: Date;
+    scanned_files: number;
+    orphaned_files: OrphanedFile[];
+    orphaned_bytes: number;
+    missing_file_artifacts: MissingFileArtifact[];
+    errors: string[];
+    started_at: Date;
+    finished_at: Date;
+}
+
+export interface StorageGcOptions {
+    dryRun?: boolean; // Report only (defaults to STORAGE_GC_DRY_RUN)
+    graceHours?: number; // Defaults to STORAGE_GC_GRACE_HOURS
+}
+
+export class StorageGcService {
+    private pollInterval: NodeJS.Timeout | null = null;
+    private ticking: boolean = false;
+
+    /**
+     * Start running the collector periodically
+     */
+    start(intervalMs: number = 6 * 60 * 60 * 1000): void {
+        if (this.pollInterval) {
+            return;
+        }
+
+        this.pollInterval = setInterval(() => {
+            this.tick().catch((error) => {
+                console.error('Error running storage garbage collection:', error);
+            });
+        }, intervalMs);
+
+        console.log(`🧹 Storage GC worker started (every ${Math.round(intervalMs / 1000)}s, ${STORAGE_GC_DRY_RUN ? 'dry run' : 'deleting'})`);
+    }
+
+    /**
+     * Stop the periodic collector
+     */
+    stop(): void {
+        if (this.pollInterval) {
+            clearInterval(this.pollInterval);
+            this.pollInterval = null;
+        }
+    }
+
+    /**
+     * Run one collection with the configured defaults
+     */
+    async tick(): Promise<void> {
+        // Skip if the previous run is still going
+        if (this.ticking) {
+            return;
+        }
+
+        this.ticking = true;
+        try {
+            const report = await this.run();
+            if (report.orphaned_files.length > 0 || report.missing_file_artifacts.length > 0 || report.errors.length > 0) {
+                console.log(
+                    `🧹 Storage GC${report.dry_run ? ' (dry run)' : ''}: ${report.orphaned_files.length} orphaned file(s) ` +
+                    `(${report.orphaned_bytes} bytes), ${report.missing_file_artifacts.length} artifact(s) with missing file, ` +
+                    `${report.errors.length} error(s)`
+                );
+            }
+        } finally {
+            this.ticking = false;
+        }
+    }
+
+    /**
+     * Find orphaned files and artifacts with missing files; delete them unless dry run
+     */
+    async run(options: StorageGcOptions = {}): Promise<StorageGcReport> {
+        const dryRun = options.dryRun ?? STORAGE_GC_DRY_RUN;
+        const graceHours = options.graceHours ?? STORAGE_GC_GRACE_HOURS;
+        const startedAt = new Date();
+        const cutoff = new Date(startedAt.getTime() - graceHours * 60 * 60 * 1000);
+
+        const report: StorageGcReport = {
+            dry_run: dryRun,
+            grace_hours: graceHours,
+            cutoff,
+            scanned_files: 0,
+            orphaned_files: [],
+            orphaned_bytes: 0,
+            missing_file_artifacts: [],
+            errors: [],
+            started_at: startedAt,
+            finished_at: startedAt,
+        };
+
+        // Load references before listing so files uploaded meanwhile are newer than the cutoff
+        const referenced = await storageReferenceRepository.findReferencedFileUrls();
+
+        for (const subdir of STORAGE_SUBDIRS) {
+            for await (const file of storageService.listFiles(subdir)) {
+                report.scanned_files++;
+                if (referenced.has(file.fileUrl) || file.modifiedAt >= cutoff) {
+                    continue;
+                }
+
+                const orphan: OrphanedFile = {
+                    file_url: file.fileUrl,
+                    size: file.size,
+                    modified_at: file.modifiedAt,
+                    deleted: false,
+                };
+                report.orphaned_files.push(orphan);
+                report.orphaned_bytes += file.size;
+
+                if (!dryRun) {
+                    try {
+                        await storageService.deleteFile(file.fileUrl);
+                        orphan.deleted = true;
+                    } catch (error: any) {
+                        report.errors.push(`Failed to delete ${file.fileUrl}: ${error.message}`);
+                    }
+                }
+            }
+        }
+
+        for (const artifact of await productArtifactRepository.findCreatedBefore(cutoff)) {
+            // Storage errors must not be mistaken for a missing file
+            try {
+                if (await storageService.getFileInfo(artifact.file_url)) {
+                    continue;
+                }
+            } catch (error: any) {
+                report.errors.push(`Failed to check ${artifact.file_url}: ${error.message}`);
+                continue;
+            }
+
+            const missing: MissingFileArtifact = {
+                artifact_id: artifact.id,
+                product_id: artifact.product_id,
+                file_url: artifact.file_url,
+                created_at: artifact.created_at,
+                deleted: false,
+            };
+            report.missing_file_artifacts.push(missing);
+
+            if (!dryRun) {
+                try {
+                    if (artifact.metadata?.renditions) {
+                        await imageProcessingService.deleteRenditions(artifact.metadata);
+                        await productRepository.removeImageRenditions(artifact.product_id, artifact.file_url);
+                    }
+                    await productArtifactRepository.delete(artifact.id);
+                    missing.deleted = true;
+                } catch (error: any) {
+                    report.errors.push(`Failed to delete artifact ${artifact.id}: ${error.message}`);
+                }
+            }
+        }
+
+        report.finished_at = new Date();
+        return report;
+    }
+}
+
+export default new StorageGcService();
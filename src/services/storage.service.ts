@@ -1,13 +1,31 @@
-import fs from 'fs/promises';
 import path from 'path';
+import { Readable } from 'stream';
 import { v4 as uuidv4 } from 'uuid';
-import crypto from 'crypto';
 import { createHash } from 'crypto';
+import { StorageDriver } from './storage-drivers/storage-driver';
+import { LocalStorageDriver } from './storage-drivers/local.driver';
+import { S3StorageDriver } from './storage-drivers/s3.driver';
+import { SNIFF_BYTES, SNIFFABLE_MIME_TYPES, sniffMimeType, looksLikeText } from '../utils/file-sniffer';
+import { DomainError, ERROR_CODES } from '../shared/errors';
+import {
+    UPLOAD_DIR,
+    UPLOAD_BASE_URL,
+    STORAGE_DRIVER,
+    S3_BUCKET,
+    S3_REGION,
+    S3_ENDPOINT,
+    S3_FORCE_PATH_STYLE,
+    S3_ACCESS_KEY_ID,
+    S3_SECRET_ACCESS_KEY,
+    S3_KEY_PREFIX,
+} from '../config/env';
 
 /**
  * Storage Service
  * Handles file uploads and storage
- * Currently supports local filesystem, can be extended to support S3/cloud storage
+ * Files are stored through a driver selected by STORAGE_DRIVER: local filesystem,
+ * or S3-compatible object storage for deployments with multiple API instances.
+ * File URLs are always "<UPLOAD_BASE_URL>/<subdir>/<name>" and served by file.routes
  */
 
 export interface UploadResult {
@@ -18,39 +36,44 @@ export interface UploadResult {
     checksum: string;
 }
 
+export const STORAGE_SUBDIRS = ['artifacts', 'thumbnails', 'screenshots', 'temp'] as const;
+
+export type StorageSubdir = typeof STORAGE_SUBDIRS[number];
+
+export interface StoredFileInfo {
+    subdir: StorageSubdir | null; // Top-level storage directory the file lives in
+    size: number;
+    modifiedAt: Date;
+}
+
+export interface ListedFile extends StoredFileInfo {
+    fileUrl: string;
+}
+
 export class StorageService {
-    private readonly uploadDir: string;
+    private readonly driver: StorageDriver;
     private readonly baseUrl: string;
 
     constructor() {
-        // Get upload directory from env or use default
-        this.uploadDir = process.env.UPLOAD_DIR || path.join(process.cwd(), 'uploads');
-        this.baseUrl = process.env.UPLOAD_BASE_URL || '/uploads';
-        
-        // Ensure upload directory exists
-        this.ensureUploadDir();
+        this.baseUrl = UPLOAD_BASE_URL.replace(/\/+$/, '');
+        this.driver = STORAGE_DRIVER === 's3'
+            ? new S3StorageDriver({
+                bucket: S3_BUCKET!,
+                region: S3_REGION,
+                endpoint: S3_ENDPOINT || undefined,
+                forcePathStyle: S3_FORCE_PATH_STYLE,
+                accessKeyId: S3_ACCESS_KEY_ID || undefined,
+                secretAccessKey: S3_SECRET_ACCESS_KEY || undefined,
+                keyPrefix: S3_KEY_PREFIX || undefined,
+            })
+            : new LocalStorageDriver(UPLOAD_DIR || path.join(process.cwd(), 'uploads'), STORAGE_SUBDIRS);
     }
 
     /**
-     * Ensure upload directory exists
+     * Name of the active storage driver
      */
-    private async ensureUploadDir(): Promise<void> {
-        try {
-            await fs.access(this.uploadDir);
-        } catch {
-            await fs.mkdir(this.uploadDir, { recursive: true });
-        }
-
-        // Create subdirectories for different artifact types
-        const subdirs = ['artifacts', 'thumbnails', 'screenshots', 'temp'];
-        for (const subdir of subdirs) {
-            const subdirPath = path.join(this.uploadDir, subdir);
-            try {
-                await fs.access(subdirPath);
-            } catch {
-                await fs.mkdir(subdirPath, { recursive: true });
-            }
-        }
+    getDriverName(): string {
+        return this.driver.name;
     }
 
     /**
@@ -77,7 +100,7 @@ export class StorageService {
     async uploadFile(
         buffer: Buffer,
         originalFileName: string,
-        artifactType: 'artifacts' | 'thumbnails' | 'screenshots' | 'temp' = 'artifacts'
+        artifactType: StorageSubdir = 'artifacts'
     ): Promise<UploadResult> {
         // Validate file size (max 100MB for artifacts, 10MB for images)
         const maxSize = artifactType === 'artifacts' ? 100 * 1024 * 1024 : 10 * 1024 * 1024;
@@ -87,19 +110,19 @@ export class StorageService {
 
         // Generate unique filename
         const fileName = this.generateFileName(originalFileName);
-        const filePath = path.join(this.uploadDir, artifactType, fileName);
+        const key = `${artifactType}/${fileName}`;
 
         // Calculate checksum
         const checksum = this.calculateChecksum(buffer);
 
-        // Write file
-        await fs.writeFile(filePath, buffer);
-
         // Get MIME type
         const mimeType = this.getMimeType(originalFileName);
 
+        // Write file
+        await this.driver.putObject(key, buffer, mimeType);
+
         // Return result
-        const fileUrl = `${this.baseUrl}/${artifactType}/${fileName}`;
+        const fileUrl = `${this.baseUrl}/${key}`;
         return {
             fileUrl,
             fileName,
@@ -109,10 +132,134 @@ export class StorageService {
         };
     }
 
+    /**
+     * Stream an upload to storage, hashing it on the fly
+     * The content type is sniffed from the first bytes and must agree with the file extension
+     * (and be one of allowedMimeTypes when given); the upload is aborted as soon as it exceeds maxBytes
+     */
+    async uploadStream(
+        source: Readable,
+        originalFileName: string,
+        artifactType: StorageSubdir,
+        options: { maxBytes: number; allowedMimeTypes?: readonly string[] | null }
+    ): Promise<UploadResult> {
+        const iterator: AsyncIterator<Buffer> = source[Symbol.asyncIterator]();
+        const fileName = this.generateFileName(originalFileName);
+        const key = `${artifactType}/${fileName}`;
+        let started = false;
+
+        try {
+            // Buffer just enough of the file to sniff its type
+            const headChunks: Buffer[] = [];
+            let headLength = 0;
+            let ended = false;
+            while (headLength < SNIFF_BYTES) {
+                const next = await iterator.next();
+                if (next.done) {
+                    ended = true;
+                    break;
+                }
+                headChunks.push(next.value);
+                headLength += next.value.length;
+            }
+            const head = Buffer.concat(headChunks);
+
+            const mimeType = this.detectMimeType(head, originalFileName);
+            if (options.allowedMimeTypes && !options.allowedMimeTypes.includes(mimeType)) {
+                throw new DomainError(ERROR_CODES.UPLOAD_TYPE_NOT_ALLOWED, {
+                    mimeType,
+                    allowedMimeTypes: options.allowedMimeTypes,
+                });
+            }
+
+            const hash = createHash('sha256');
+            let size = 0;
+            const maxBytes = options.maxBytes;
+
+            async function* inspect(): AsyncGenerator<Buffer> {
+                const take = (chunk: Buffer): Buffer => {
+                    size += chunk.length;
+                    if (size > maxBytes) {
+                        throw new DomainError(ERROR_CODES.UPLOAD_TOO_LARGE, { maxBytes });
+                    }
+                    hash.update(chunk);
+                    return chunk;
+                };
+
+                if (head.length > 0) {
+                    yield take(head);
+                }
+                while (!ended) {
+                    const next = await iterator.next();
+                    if (next.done) {
+                        break;
+                    }
+                    yield take(next.value);
+                }
+            }
+
+            started = true;
+            await this.driver.putStream(key, Readable.from(inspect()), mimeType);
+
+            return {
+                fileUrl: `${this.baseUrl}/${key}`,
+                fileName,
+                fileSize: size,
+                mimeType,
+                checksum: hash.digest('hex'),
+            };
+        } catch (error) {
+            if (started) {
+                await this.driver.deleteObject(key).catch(() => undefined);
+            }
+
+            // Discard the rest of the upload so the request can complete
+            try {
+                while (!(await iterator.next()).done) {
+                    // drain
+                }
+            } catch {
+                // Source already failed
+            }
+            throw error;
+        }
+    }
+
+    /**
+     * Determine the content type of an upload from its first bytes
+     * Rejects content that contradicts the file extension (e.g. a ".png" that is a zip)
+     */
+    private detectMimeType(head: Buffer, fileName: string): string {
+        const extensionMimeType = this.getMimeType(fileName);
+        const sniffed = sniffMimeType(head);
+
+        if (sniffed) {
+            if (extensionMimeType !== 'application/octet-stream' && extensionMimeType !== sniffed) {
+                throw new DomainError(ERROR_CODES.UPLOAD_CONTENT_MISMATCH, { extensionMimeType, detectedMimeType: sniffed });
+            }
+            return sniffed;
+        }
+
+        // Binary formats we can recognize must carry their signature
+        if (SNIFFABLE_MIME_TYPES.has(extensionMimeType)) {
+            throw new DomainError(ERROR_CODES.UPLOAD_CONTENT_MISMATCH, { extensionMimeType, detectedMimeType: null });
+        }
+
+        if (looksLikeText(head)) {
+            return extensionMimeType === 'application/octet-stream' ? 'text/plain' : extensionMimeType;
+        }
+
+        // Unrecognized binary content cannot claim a text type
+        if (extensionMimeType !== 'application/octet-stream') {
+            throw new DomainError(ERROR_CODES.UPLOAD_CONTENT_MISMATCH, { extensionMimeType, detectedMimeType: 'application/octet-stream' });
+        }
+        return 'application/octet-stream';
+    }
+
     /**
      * Get MIME type from filename
      */
-    private getMimeType(fileName: string): string {
+    getMimeType(fileName: string): string {
         const ext = path.extname(fileName).toLowerCase();
         const mimeTypes: Record<string, string> = {
             '.json': 'application/json',
@@ -126,6 +273,8 @@ export class StorageService {
             '.gif': 'image/gif',
             '.webp': 'image/webp',
             '.pdf': 'application/pdf',
+            '.yaml': 'application/yaml',
+            '.yml': 'application/yaml',
             '.js': 'application/javascript',
             '.ts': 'application/typescript',
             '.py': 'text/x-python',
@@ -135,46 +284,103 @@ export class StorageService {
     }
 
     /**
-     * Delete file from storage
+     * Resolve a stored file URL to its storage key (e.g. "artifacts/file_<uuid>.json")
+     * Throws for URLs outside UPLOAD_BASE_URL or that escape it (e.g. "../" segments)
      */
-    async deleteFile(fileUrl: string): Promise<void> {
-        // Extract path from URL
-        const urlPath = fileUrl.replace(this.baseUrl, '').replace(/^\//, '');
-        const filePath = path.join(this.uploadDir, urlPath);
+    private keyFromUrl(fileUrl: string): string {
+        if (!fileUrl.startsWith(this.baseUrl + '/') || fileUrl.includes('\0')) {
+            throw new Error('Invalid file path');
+        }
 
+        const key = path.posix.normalize(fileUrl.slice(this.baseUrl.length + 1));
+        if (key.startsWith('../') || key === '..' || key === '.' || path.posix.isAbsolute(key)) {
+            throw new Error('Invalid file path');
+        }
+
+        return key;
+    }
+
+    /**
+     * Whether a URL points at a file in this storage (see keyFromUrl)
+     */
+    isStoredFileUrl(fileUrl: string): boolean {
         try {
-            await fs.unlink(filePath);
-        } catch (error: any) {
-            // Ignore file not found errors
-            if (error.code !== 'ENOENT') {
-                throw error;
-            }
+            this.keyFromUrl(fileUrl);
+            return true;
+        } catch {
+            return false;
         }
     }
 
+    /**
+     * Delete file from storage
+     */
+    async deleteFile(fileUrl: string): Promise<void> {
+        await this.driver.deleteObject(this.keyFromUrl(fileUrl));
+    }
+
     /**
      * Read file from storage
      */
     async readFile(fileUrl: string): Promise<Buffer> {
-        const urlPath = fileUrl.replace(this.baseUrl, '').replace(/^\//, '');
-        const filePath = path.join(this.uploadDir, urlPath);
-        return await fs.readFile(filePath);
+        return await this.driver.getObject(this.keyFromUrl(fileUrl));
     }
 
     /**
      * Check if file exists
      */
     async fileExists(fileUrl: string): Promise<boolean> {
-        const urlPath = fileUrl.replace(this.baseUrl, '').replace(/^\//, '');
-        const filePath = path.join(this.uploadDir, urlPath);
         try {
-            await fs.access(filePath);
-            return true;
+            return (await this.driver.statObject(this.keyFromUrl(fileUrl))) !== null;
         } catch {
             return false;
         }
     }
+
+    /**
+     * Get size and location of a stored file (null if it is missing)
+     */
+    async getFileInfo(fileUrl: string): Promise<StoredFileInfo | null> {
+        let key: string;
+        try {
+            key = this.keyFromUrl(fileUrl);
+        } catch {
+            return null;
+        }
+
+        const info = await this.driver.statObject(key);
+        if (!info) {
+            return null;
+        }
+
+        const subdir = key.split('/')[0];
+        return {
+            subdir: STORAGE_SUBDIRS.includes(subdir as StorageSubdir) ? subdir as StorageSubdir : null,
+            size: info.size,
+            modifiedAt: info.modifiedAt,
+        };
+    }
+
+    /**
+     * Open a read stream for a stored file, optionally for an inclusive byte range
+     */
+    async createReadStream(fileUrl: string, range?: { start: number; end: number }): Promise<Readable> {
+        return await this.driver.createReadStream(this.keyFromUrl(fileUrl), range);
+    }
+
+    /**
+     * Iterate over all files stored in a storage subdirectory
+     */
+    async *listFiles(subdir: StorageSubdir): AsyncIterable<ListedFile> {
+        for await (const object of this.driver.listObjects(`${subdir}/`)) {
+            yield {
+                fileUrl: `${this.baseUrl}/${object.key}`,
+                subdir,
+                size: object.size,
+                modifiedAt: object.modifiedAt,
+            };
+        }
+    }
 }
 
 export default new StorageService();
-
@@ -0,0 +1,585 @@
+import subscriptionRepository, {
+    SubscriptionRecord,
+    SubscriptionStatus,
+    LIVE_SUBSCRIPTION_STATUSES,
+} from '../repositories/subscription.repository';
+import subscriptionPlanRepository, { SubscriptionPlanRecord, BillingInterval } from '../repositories/subscription-plan.repository';
+import orderRepository, { OrderRecord, OrderItemRecord, OrderWithItems } from '../repositories/order.repository';
+import entitlementRepository from '../repositories/entitlement.repository';
+import productRepository from '../repositories/product.repository';
+import { Product, ProductStatus, ProductReviewStatus, ProductPriceType, UserRole } from '@gsnake/shared-types';
+import { SUBSCRIPTION_GRACE_DAYS, SUBSCRIPTION_INCOMPLETE_HOURS } from '../config/env';
+import { NotFoundError, DomainError, AuthorizationError, ERROR_CODES } from '../shared/errors';
+
+/**
+ * Subscription Service
+ * Sellers of subscription products offer plans (interval, price, trial days). Buyers
+ * subscribe to a plan and pay each period with an order through the normal checkout:
+ * - a plan with trial days starts 'trialing' (once per user and product), otherwise the
+ *   subscription stays 'incomplete' until its first order is paid
+ * - when a period ends the worker opens a renewal order and the subscription is 'past_due';
+ *   access continues until grace_until, after which it is 'expired'
+ * - cancelling keeps access until the period ends ('canceled' then)
+ * While live, a subscription holds a 'subscription' entitlement to the product, so buyers
+ * get every release published during their subscription
+ */
+
+export type SubscriptionWithPlan = SubscriptionRecord & { plan: SubscriptionPlanRecord | null };
+
+export interface SubscriptionRunReport {
+    canceled: number; // Canceled at period end
+    renewal_orders: number; // Periods ended, renewal order opened (past due)
+    expired: number; // Grace period over without payment
+    incomplete_expired: number; // First order never paid
+    errors: string[];
+    started_at: Date;
+    finished_at: Date;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Add billing intervals to a date; month-based intervals keep the day of the month,
+ * clamped to the last day of shorter months (Jan 31 + 1 month = Feb 28/29)
+ */
+export function addInterval(date: Date, interval: BillingInterval, count: number): Date {
+    const result = new Date(date.getTime());
+    switch (interval) {
+        case 'day':
+            result.setUTCDate(result.getUTCDate() + count);
+            return result;
+        case 'week':
+            result.setUTCDate(result.getUTCDate() + 7 * count);
+            return result;
+        case 'month':
+        case 'year': {
+            const months = interval === 'year' ? 12 * count : count;
+            const day = result.getUTCDate();
+            result.setUTCDate(1);
+            result.setUTCMonth(result.getUTCMonth() + months);
+            const lastDay = new Date(Date.UTC(result.getUTCFullYear(), result.getUTCMonth() + 1, 0)).getUTCDate();
+            result.setUTCDate(Math.min(day, lastDay));
+            return result;
+        }
+    }
+}
+
+export class SubscriptionService {
+    private pollInterval: NodeJS.Timeout | null = null;
+    private ticking: boolean = false;
+
+    /**
+     * List plans of a product
+     * Seller and admins see every plan; everyone else only active plans of a live product
+     */
+    async getPlans(
+        productId: string,
+        viewer?: { userId: string; role?: string } | null
+    ): Promise<SubscriptionPlanRecord[]> {
+        const product = await productRepository.findById(productId);
+        if (!product) {
+            throw new NotFoundError(ERROR_CODES.PRODUCT_NOT_FOUND, { productId });
+        }
+
+        const isOwner = !!viewer && (viewer.role === UserRole.ADMIN || product.seller_id === viewer.userId);
+        if (!isOwner && !this.isLiveProduct(product)) {
+            throw new NotFoundError(ERROR_CODES.PRODUCT_NOT_FOUND, { productId });
+        }
+
+        return await subscriptionPlanRepository.findByProductId(productId, !isOwner);
+    }
+
+    /**
+     * Add a plan to a subscription product (seller)
+     */
+    async createPlan(
+        productId: string,
+        sellerId: string,
+        data: {
+            name: string;
+            billing_interval: BillingInterval;
+            interval_count?: number;
+            price: number;
+            currency?: string;
+            trial_days?: number;
+        }
+    ): Promise<SubscriptionPlanRecord> {
+        const product = await this.getOwnedProduct(productId, sellerId);
+        if (product.price_type !== ProductPriceType.SUBSCRIPTION) {
+            throw new DomainError(ERROR_CODES.SUBSCRIPTION_PLAN_PRODUCT_NOT_SUBSCRIPTION, {
+                productId,
+                priceType: product.price_type,
+            });
+        }
+
+        return await subscriptionPlanRepository.create({
+            product_id: productId,
+            name: data.name,
+            billing_interval: data.billing_interval,
+            interval_count: data.interval_count || 1,
+            price: data.price,
+            currency: data.currency || product.currency || 'VND',
+            trial_days: data.trial_days || 0,
+        });
+    }
+
+    /**
+     * Update a plan (seller)
+     * A new price applies from the next renewal order; deactivated plans take no new
+     * subscribers but existing subscriptions keep renewing
+     */
+    async updatePlan(
+        productId: string,
+        planId: string,
+        sellerId: string,
+        data: { name?: string; price?: number; trial_days?: number; is_active?: boolean }
+    ): Promise<SubscriptionPlanRecord> {
+        await this.getOwnedProduct(productId, sellerId);
+
+        const plan = await subscriptionPlanRepository.findById(planId);
+        if (!plan || plan.product_id !== productId) {
+            throw new NotFoundError(ERROR_CODES.SUBSCRIPTION_PLAN_NOT_FOUND, { productId, planId });
+        }
+
+        const updated = await subscriptionPlanRepository.update(plan.id, data);
+        if (!updated) {
+            throw new NotFoundError(ERROR_CODES.SUBSCRIPTION_PLAN_NOT_FOUND, { productId, planId });
+        }
+        return updated;
+    }
+
+    /**
+     * List the user's subscriptions, newest first
+     */
+    async getSubscriptions(userId: string, limit: number = 50, offset: number = 0): Promise<SubscriptionWithPlan[]> {
+        const subscriptions = await subscriptionRepository.findByUserId(userId, limit, offset);
+        return await Promise.all(subscriptions.map(subscription => this.withPlan(subscription)));
+    }
+
+    /**
+     * Get a subscription; users only see their own subscriptions, admins every subscription
+     */
+    async getSubscription(subscriptionId: string, viewer: { userId: string; role?: string }): Promise<SubscriptionWithPlan> {
+        const subscription = await subscriptionRepository.findById(subscriptionId);
+        if (!subscription || (subscription.user_id !== viewer.userId && viewer.role !== UserRole.ADMIN)) {
+            throw new NotFoundError(ERROR_CODES.SUBSCRIPTION_NOT_FOUND, { subscriptionId });
+        }
+        return await this.withPlan(subscription);
+    }
+
+    /**
+     * Subscribe the user to a plan
+     * Starts a trial when the plan has one and the user never had a trial of the product;
+     * otherwise returns the subscription with the pending order to check out.
+     * An earlier unpaid (incomplete) subscription to the product is replaced
+     */
+    async subscribe(
+        userId: string,
+        planId: string
+    ): Promise<{ subscription: SubscriptionWithPlan; order: OrderWithItems | null }> {
+        const plan = await subscriptionPlanRepository.findById(planId);
+        if (!plan || !plan.is_active) {
+            throw new NotFoundError(ERROR_CODES.SUBSCRIPTION_PLAN_NOT_FOUND, { planId });
+        }
+
+        const product = await productRepository.findById(plan.product_id);
+        if (!product || !this.isLiveProduct(product)) {
+            throw new NotFoundError(ERROR_CODES.PRODUCT_NOT_FOUND, { productId: plan.product_id });
+        }
+        if (product.price_type !== ProductPriceType.SUBSCRIPTION) {
+            throw new DomainError(ERROR_CODES.SUBSCRIPTION_PLAN_PRODUCT_NOT_SUBSCRIPTION, { productId: product.id });
+        }
+        if (product.seller_id === userId) {
+            throw new DomainError(ERROR_CODES.ORDER_OWN_PRODUCT, { productId: product.id });
+        }
+
+        const live = await subscriptionRepository.findLive(userId, product.id);
+        if (live && live.status !== 'incomplete') {
+            throw new DomainError(ERROR_CODES.SUBSCRIPTION_ALREADY_EXISTS, { subscriptionId: live.id, status: live.status });
+        }
+        if (live) {
+            await this.end(live, ['incomplete'], 'canceled', 'Replaced by a new subscription');
+        }
+
+        if (await entitlementRepository.findActive(userId, product.id)) {
+            throw new DomainError(ERROR_CODES.ORDER_PRODUCT_ALREADY_OWNED, { productId: product.id });
+        }
+
+        const now = new Date();
+        if (plan.trial_days > 0 && !(await subscriptionRepository.hasHadTrial(userId, product.id))) {
+            const trialEnd = new Date(now.getTime() + plan.trial_days * DAY_MS);
+            const subscription = await subscriptionRepository.create({
+                user_id: userId,
+                plan_id: plan.id,
+                product_id: product.id,
+                status: 'trialing',
+                current_period_start: now,
+                current_period_end: trialEnd,
+                trial_end: trialEnd,
+            });
+            await entitlementRepository.grant({
+                user_id: userId,
+                product_id: product.id,
+                source: 'subscription',
+                subscription_id: subscription.id,
+            });
+            return { subscription: { ...subscription, plan }, order: null };
+        }
+
+        const subscription = await subscriptionRepository.create({
+            user_id: userId,
+            plan_id: plan.id,
+            product_id: product.id,
+            status: 'incomplete',
+        });
+        const order = await this.createPeriodOrder(subscription, plan, product);
+        const updated = await subscriptionRepository.update(subscription.id, { latest_order_id: order.id });
+
+        return { subscription: { ...(updated || subscription), plan }, order };
+    }
+
+    /**
+     * Cancel a subscription (buyer)
+     * Trialing and active subscriptions keep access until the period ends; incomplete and
+     * past-due subscriptions end now and their open order is cancelled
+     */
+    async cancel(subscriptionId: string, userId: string): Promise<SubscriptionWithPlan> {
+        const subscription = await this.getSubscription(subscriptionId, { userId });
+
+        if (subscription.status === 'trialing' || subscription.status === 'active') {
+            const updated = await subscriptionRepository.transition(subscription.id, [subscription.status], subscription.status, {
+                cancel_at_period_end: true,
+                canceled_at: new Date(),
+            });
+            if (!updated) {
+                throw new DomainError(ERROR_CODES.SUBSCRIPTION_NOT_ACTIVE, { subscriptionId });
+            }
+            return { ...updated, plan: subscription.plan };
+        }
+
+        if (subscription.status === 'incomplete' || subscription.status === 'past_due') {
+            const ended = await this.end(subscription, ['incomplete', 'past_due'], 'canceled', 'Subscription canceled');
+            if (!ended) {
+                throw new DomainError(ERROR_CODES.SUBSCRIPTION_NOT_ACTIVE, { subscriptionId });
+            }
+            return { ...ended, plan: subscription.plan };
+        }
+
+        throw new DomainError(ERROR_CODES.SUBSCRIPTION_NOT_ACTIVE, { subscriptionId, status: subscription.status });
+    }
+
+    /**
+     * Undo a cancellation at period end (buyer)
+     */
+    async resume(subscriptionId: string, userId: string): Promise<SubscriptionWithPlan> {
+        const subscription = await this.getSubscription(subscriptionId, { userId });
+        if ((subscription.status !== 'trialing' && subscription.status !== 'active') || !subscription.cancel_at_period_end) {
+            throw new DomainError(ERROR_CODES.SUBSCRIPTION_NOT_CANCELING, { subscriptionId, status: subscription.status });
+        }
+
+        const updated = await subscriptionRepository.transition(subscription.id, [subscription.status], subscription.status, {
+            cancel_at_period_end: false,
+            canceled_at: null,
+        });
+        if (!updated) {
+            throw new DomainError(ERROR_CODES.SUBSCRIPTION_NOT_CANCELING, { subscriptionId });
+        }
+        return { ...updated, plan: subscription.plan };
+    }
+
+    /**
+     * Get the order that pays the next period of a past-due subscription (buyer)
+     * A new order is opened if the buyer cancelled the previous one
+     */
+    async getRenewalOrder(subscriptionId: string, userId: string): Promise<OrderWithItems> {
+        const subscription = await this.getSubscription(subscriptionId, { userId });
+        if (subscription.status !== 'past_due') {
+            throw new DomainError(ERROR_CODES.SUBSCRIPTION_NOT_PAST_DUE, { subscriptionId, status: subscription.status });
+        }
+
+        const latest = subscription.latest_order_id ? await orderRepository.findById(subscription.latest_order_id) : null;
+        if (latest && latest.status === 'pending') {
+            return { ...latest, items: await orderRepository.findItems(latest.id) };
+        }
+
+        return await this.openRenewalOrder(subscription);
+    }
+
+    /**
+     * Apply a paid order item to its subscription (called when the order is marked paid)
+     * Starts the first period of an incomplete subscription, continues a past-due one from
+     * where its period ended and restarts an ended one, unless the user subscribed again since
+     */
+    async applyPaidOrder(order: OrderRecord, item: OrderItemRecord): Promise<void> {
+        if (!item.subscription_id) return;
+
+        const subscription = await subscriptionRepository.findById(item.subscription_id);
+        if (!subscription) {
+            console.warn(`Paid order ${order.id} belongs to a deleted subscription ${item.subscription_id}`);
+            return;
+        }
+        const plan = await subscriptionPlanRepository.findById(subscription.plan_id);
+        if (!plan) return;
+
+        const now = new Date();
+        const restarting = subscription.status === 'canceled' || subscription.status === 'expired';
+        if (restarting) {
+            const live = await subscriptionRepository.findLive(subscription.user_id, subscription.product_id);
+            if (live) {
+                console.warn(`Order ${order.id} paid subscription ${subscription.id} after it ended; ${live.id} is live, refund the order`);
+                return;
+            }
+        }
+
+        // Paid periods follow each other; a first or restarted period starts now
+        const continues = subscription.status !== 'incomplete' && !restarting && !!subscription.current_period_end;
+        const periodStart = continues ? new Date(subscription.current_period_end!) : now;
+        const periodEnd = addInterval(periodStart, plan.billing_interval, plan.interval_count);
+
+        const activated = await subscriptionRepository.transition(subscription.id, [subscription.status], 'active', {
+            current_period_start: periodStart,
+            current_period_end: periodEnd,
+            grace_until: null,
+            latest_order_id: order.id,
+            ...(restarting && { cancel_at_period_end: false, canceled_at: null, ended_at: null }),
+        });
+        if (!activated) {
+            console.warn(`Subscription ${subscription.id} changed while applying paid order ${order.id}`);
+            return;
+        }
+
+        await entitlementRepository.grant({
+            user_id: subscription.user_id,
+            product_id: subscription.product_id,
+            source: 'subscription',
+            order_id: order.id,
+            subscription_id: subscription.id,
+        });
+    }
+
+    /**
+     * End a subscription whose order was refunded and revoke its access
+     */
+    async expireForRefund(subscriptionId: string, reason: string): Promise<void> {
+        const subscription = await subscriptionRepository.findById(subscriptionId);
+        if (!subscription) return;
+        await this.end(subscription, LIVE_SUBSCRIPTION_STATUSES, 'expired', reason);
+    }
+
+    /**
+     * Whether the subscription currently gives access to its product
+     * Checked on download as well, since the worker may not have processed an ended period yet
+     */
+    async isSubscriptionLive(subscriptionId: string, now: Date = new Date()): Promise<boolean> {
+        const subscription = await subscriptionRepository.findById(subscriptionId);
+        return !!subscription && this.isLive(subscription, now);
+    }
+
+    isLive(subscription: SubscriptionRecord, now: Date = new Date()): boolean {
+        if (subscription.status === 'past_due') {
+            return !!subscription.grace_until && new Date(subscription.grace_until) > now;
+        }
+        if ((subscription.status !== 'trialing' && subscription.status !== 'active') || !subscription.current_period_end) {
+            return false;
+        }
+
+        // A period that ended unnoticed is past due: the grace period applies unless it was cancelled
+        const periodEnd = new Date(subscription.current_period_end);
+        const accessUntil = subscription.cancel_at_period_end
+            ? periodEnd
+            : new Date(periodEnd.getTime() + SUBSCRIPTION_GRACE_DAYS * DAY_MS);
+        return accessUntil > now;
+    }
+
+    /**
+     * Start processing subscriptions periodically
+     */
+    start(intervalMs: number = 5 * 60 * 1000): void {
+        if (this.pollInterval) {
+            return;
+        }
+
+        this.pollInterval = setInterval(() => {
+            this.tick().catch((error) => {
+                console.error('Error processing subscriptions:', error);
+            });
+        }, intervalMs);
+
+        console.log(`🔁 Subscription worker started (every ${Math.round(intervalMs / 1000)}s, ${SUBSCRIPTION_GRACE_DAYS} grace days)`);
+    }
+
+    /**
+     * Stop the periodic processing
+     */
+    stop(): void {
+        if (this.pollInterval) {
+            clearInterval(this.pollInterval);
+            this.pollInterval = null;
+        }
+    }
+
+    /**
+     * Run once unless a previous run is still going
+     */
+    async tick(): Promise<SubscriptionRunReport | null> {
+        if (this.ticking) {
+            return null;
+        }
+
+        this.ticking = true;
+        try {
+            const report = await this.run();
+            const changed = report.canceled + report.renewal_orders + report.expired + report.incomplete_expired;
+            if (changed > 0 || report.errors.length > 0) {
+                console.log(
+                    `🔁 Subscriptions: ${report.renewal_orders} renewal orders, ${report.canceled} canceled, ` +
+                    `${report.expired} expired, ${report.incomplete_expired} unpaid expired, ${report.errors.length} errors`
+                );
+            }
+            return report;
+        } finally {
+            this.ticking = false;
+        }
+    }
+
+    /**
+     * Process subscriptions whose period, grace period or first payment window ended
+     */
+    async run(now: Date = new Date()): Promise<SubscriptionRunReport> {
+        const report: SubscriptionRunReport = {
+            canceled: 0,
+            renewal_orders: 0,
+            expired: 0,
+            incomplete_expired: 0,
+            errors: [],
+            started_at: new Date(),
+            finished_at: new Date(),
+        };
+
+        const step = async (subscriptions: SubscriptionRecord[], handle: (subscription: SubscriptionRecord) => Promise<boolean>) => {
+            let count = 0;
+            for (const subscription of subscriptions) {
+                try {
+                    if (await handle(subscription)) count++;
+                } catch (error) {
+                    report.errors.push(`${subscription.id}: ${error instanceof Error ? error.message : String(error)}`);
+                }
+            }
+            return count;
+        };
+
+        // Cancelled at period end
+        report.canceled = await step(
+            await subscriptionRepository.findPeriodEnded(['trialing', 'active'], now, true),
+            async subscription => !!(await this.end(subscription, ['trialing', 'active'], 'canceled', 'Subscription canceled'))
+        );
+
+        // Period ended: past due until the renewal order is paid
+        report.renewal_orders = await step(
+            await subscriptionRepository.findPeriodEnded(['trialing', 'active'], now, false),
+            async subscription => {
+                const periodEnd = new Date(subscription.current_period_end!);
+                const pastDue = await subscriptionRepository.transition(subscription.id, ['trialing', 'active'], 'past_due', {
+                    grace_until: new Date(periodEnd.getTime() + SUBSCRIPTION_GRACE_DAYS * DAY_MS),
+                });
+                if (!pastDue) return false;
+                await this.openRenewalOrder(pastDue);
+                return true;
+            }
+        );
+
+        // Grace period over without payment
+        report.expired = await step(
+            await subscriptionRepository.findGraceExpired(now),
+            async subscription => !!(await this.end(subscription, ['past_due'], 'expired', 'Subscription payment overdue'))
+        );
+
+        // First order never paid
+        report.incomplete_expired = await step(
+            await subscriptionRepository.findIncompleteBefore(new Date(now.getTime() - SUBSCRIPTION_INCOMPLETE_HOURS * 60 * 60 * 1000)),
+            async subscription => !!(await this.end(subscription, ['incomplete'], 'expired', 'Subscription not paid'))
+        );
+
+        report.finished_at = new Date();
+        return report;
+    }
+
+    /**
+     * End a subscription now: cancel its open order and revoke its entitlement
+     * Returns null if the subscription is no longer in one of the given statuses
+     */
+    private async end(
+        subscription: SubscriptionRecord,
+        from: SubscriptionStatus[],
+        to: 'canceled' | 'expired',
+        reason: string
+    ): Promise<SubscriptionRecord | null> {
+        const now = new Date();
+        const ended = await subscriptionRepository.transition(subscription.id, from, to, {
+            ended_at: now,
+            ...(to === 'canceled' && !subscription.canceled_at && { canceled_at: now }),
+        });
+        if (!ended) return null;
+
+        if (ended.latest_order_id) {
+            await orderRepository.transition(ended.latest_order_id, ['pending'], 'cancelled', { cancelled_at: now });
+        }
+        await entitlementRepository.revokeBySubscriptionId(ended.id, reason);
+        return ended;
+    }
+
+    /**
+     * Open the order for the next period of a past-due subscription at the plan's current price
+     */
+    private async openRenewalOrder(subscription: SubscriptionRecord): Promise<OrderWithItems> {
+        const plan = await subscriptionPlanRepository.findById(subscription.plan_id);
+        const product = await productRepository.findById(subscription.product_id);
+        if (!plan || !product) {
+            throw new NotFoundError(ERROR_CODES.SUBSCRIPTION_PLAN_NOT_FOUND, { subscriptionId: subscription.id });
+        }
+
+        const order = await this.createPeriodOrder(subscription, plan, product);
+        await subscriptionRepository.update(subscription.id, { latest_order_id: order.id });
+        return order;
+    }
+
+    private async createPeriodOrder(
+        subscription: SubscriptionRecord,
+        plan: SubscriptionPlanRecord,
+        product: Product
+    ): Promise<OrderWithItems> {
+        return await orderRepository.create({
+            user_id: subscription.user_id,
+            currency: plan.currency,
+            items: [{
+                product_id: product.id,
+                seller_id: product.seller_id,
+                title: `${product.title} (${plan.name})`,
+                unit_price: plan.price,
+                plan_id: plan.id,
+                subscription_id: subscription.id,
+            }],
+        });
+    }
+
+    private async withPlan(subscription: SubscriptionRecord): Promise<SubscriptionWithPlan> {
+        return { ...subscription, plan: await subscriptionPlanRepository.findById(subscription.plan_id) };
+    }
+
+    private isLiveProduct(product: Product): boolean {
+        return product.status === ProductStatus.PUBLISHED && product.review_status === ProductReviewStatus.APPROVED;
+    }
+
+    private async getOwnedProduct(productId: string, sellerId: string): Promise<Product> {
+        const product = await productRepository.findById(productId);
+        if (!product) {
+            throw new NotFoundError(ERROR_CODES.PRODUCT_NOT_FOUND, { productId });
+        }
+        if (product.seller_id !== sellerId) {
+            throw new AuthorizationError(ERROR_CODES.PRODUCT_UPDATE_FORBIDDEN, { productId, sellerId });
+        }
+        return product;
+    }
+}
+
+export default new SubscriptionService();
@@ -0,0 +1,145 @@
+import { createHash } from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import productArtifactRepository, { ProductArtifactRecord } from '../repositories/product-artifact.repository';
+import productReleaseService from './product-release.service';
+import storageService from './storage.service';
+
+/**
+ * Workflow Sanitizer Service
+ * Removes data that belongs to the seller's own n8n instance from an exported workflow:
+ * credential references (the credential type is kept), pinned test data, instance and
+ * workflow ids, static data and webhook ids (regenerated so buyers don't share the seller's URLs)
+ */
+
+export interface WorkflowSanitizationReport {
+    credentialsStripped: { node: string; type: string }[];
+    pinDataRemoved: string[]; // Node names that had pinned data
+    webhookIdsRegenerated: string[]; // Node names
+    webhookPathsRewritten: string[]; // Node names whose path contained the old webhook id
+    instanceIdRemoved: boolean;
+    workflowIdRemoved: boolean;
+    staticDataRemoved: boolean;
+}
+
+export interface SanitizedWorkflowFile {
+    fileUrl: string;
+    checksum: string;
+    originalChecksum: string;
+    artifactId: string; // Artifact that now points at the sanitized file
+    workflowJson: any;
+    report: WorkflowSanitizationReport;
+}
+
+export class WorkflowSanitizerService {
+    /**
+     * Return a sanitized copy of the workflow JSON (the input is not modified)
+     */
+    sanitize(workflowJson: any): { workflow: any; report: WorkflowSanitizationReport } {
+        const workflow = JSON.parse(JSON.stringify(workflowJson));
+        const report: WorkflowSanitizationReport = {
+            credentialsStripped: [],
+            pinDataRemoved: [],
+            webhookIdsRegenerated: [],
+            webhookPathsRewritten: [],
+            instanceIdRemoved: false,
+            workflowIdRemoved: false,
+            staticDataRemoved: false,
+        };
+
+        for (const node of Array.isArray(workflow.nodes) ? workflow.nodes : []) {
+            if (!node || typeof node !== 'object') continue;
+            const name = typeof node.name === 'string' ? node.name : String(node.type);
+
+            // Keep which credential type the node needs, drop the seller's credential id/name
+            if (node.credentials && typeof node.credentials === 'object') {
+                for (const type of Object.keys(node.credentials)) {
+                    node.credentials[type] = {};
+                    report.credentialsStripped.push({ node: name, type });
+                }
+            }
+
+            // Webhook paths default to the webhook id (or contain it, e.g. "<id>/callback"), keep them in sync
+            if (typeof node.webhookId === 'string') {
+                const previous = node.webhookId;
+                node.webhookId = uuidv4();
+                const path = node.parameters?.path;
+                if (previous && typeof path === 'string' && path.includes(previous)) {
+                    node.parameters.path = path.split(previous).join(node.webhookId);
+                    report.webhookPathsRewritten.push(name);
+                }
+                report.webhookIdsRegenerated.push(name);
+            }
+        }
+
+        if (workflow.pinData && typeof workflow.pinData === 'object') {
+            report.pinDataRemoved = Object.keys(workflow.pinData);
+        }
+        if (workflow.pinData !== undefined) {
+            delete workflow.pinData;
+        }
+
+        if (workflow.meta?.instanceId !== undefined) {
+            delete workflow.meta.instanceId;
+            report.instanceIdRemoved = true;
+        }
+
+        if (workflow.id !== undefined || workflow.versionId !== undefined) {
+            delete workflow.id;
+            delete workflow.versionId;
+            report.workflowIdRemoved = true;
+        }
+
+        if (workflow.staticData !== undefined) {
+            report.staticDataRemoved = workflow.staticData !== null;
+            delete workflow.staticData;
+        }
+
+        return { workflow, report };
+    }
+
+    /**
+     * Sanitize a product's stored workflow artifact and store the result as a new file
+     * The artifact is switched to the sanitized file; the caller deletes the original
+     * once nothing references it anymore
+     */
+    async sanitizeFile(artifact: ProductArtifactRecord, original: Buffer): Promise<SanitizedWorkflowFile> {
+        const { workflow, report } = this.sanitize(JSON.parse(original.toString()));
+
+        // Files of submitted or approved releases must not change after review
+        if (artifact.release_id) {
+            await productReleaseService.getEditableRelease(artifact.product_id, artifact.release_id);
+        }
+
+        const originalChecksum = createHash('sha256').update(original).digest('hex');
+        const upload = await storageService.uploadFile(
+            Buffer.from(JSON.stringify(workflow, null, 2)),
+            artifact.file_name,
+            'artifacts'
+        );
+
+        await productArtifactRepository.update(artifact.id, {
+            file_url: upload.fileUrl,
+            file_size: upload.fileSize,
+            checksum: upload.checksum,
+            metadata: {
+                ...(artifact.metadata || {}),
+                sanitization: {
+                    original_checksum: originalChecksum,
+                    sanitized_at: new Date().toISOString(),
+                    report,
+                },
+            },
+        });
+
+        return {
+            fileUrl: upload.fileUrl,
+            checksum: upload.checksum,
+            originalChecksum,
+            artifactId: artifact.id,
+            workflowJson: workflow,
+            report,
+        };
+    }
+}
+
+export default new WorkflowSanitizerService();
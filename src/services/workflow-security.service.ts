@@ -0,0 +1,176 @@
+import { ScanSeverity } from '../utils/scan-severity';
+
+/**
+ * Workflow Security Service
+ * Structural scanner for n8n workflow JSON: walks nodes[].parameters and flags
+ * risky node configurations that generic text patterns cannot see
+ */
+
+export interface WorkflowSecurityFinding {
+    node_name: string;
+    node_type: string;
+    rule_id: string;
+    severity: ScanSeverity;
+    description: string;
+}
+
+interface WorkflowNode {
+    name?: string;
+    type?: string;
+    parameters?: Record<string, any>;
+}
+
+interface WorkflowSecurityRule {
+    id: string;
+    severity: ScanSeverity;
+    description: string;
+    nodeTypes: string[];
+    matches: (parameters: Record<string, any>) => boolean;
+}
+
+// Headers that carry credentials
+const AUTH_HEADER_NAMES = /^(authorization|proxy-authorization|x-api-key|api[-_]?key|x-auth-token|x-access-token)$/i;
+
+// Node types that run user-supplied code
+const CODE_NODE_TYPES = [
+    'n8n-nodes-base.code',
+    'n8n-nodes-base.function',
+    'n8n-nodes-base.functionItem',
+];
+
+/**
+ * Header value is hard-coded unless it pulls from an expression (e.g. {{ $env.API_TOKEN }})
+ */
+function isHardcodedValue(value: unknown): boolean {
+    if (typeof value !== 'string' || value.trim() === '') {
+        return false;
+    }
+    return !value.includes('{{');
+}
+
+/**
+ * Collect name/value header pairs across HTTP Request node versions
+ */
+function getHttpHeaders(parameters: Record<string, any>): { name: string; value: unknown }[] {
+    const headers: { name: string; value: unknown }[] = [];
+
+    // v3+: headerParameters.parameters[]
+    const current = parameters.headerParameters?.parameters;
+    if (Array.isArray(current)) {
+        headers.push(...current);
+    }
+
+    // v1-2: headerParametersUi.parameter[]
+    const legacy = parameters.headerParametersUi?.parameter;
+    if (Array.isArray(legacy)) {
+        headers.push(...legacy);
+    }
+
+    // Raw JSON headers (jsonHeaders in v3+, headerParametersJson in v1-2)
+    for (const raw of [parameters.jsonHeaders, parameters.headerParametersJson]) {
+        if (typeof raw !== 'string') {
+            continue;
+        }
+        try {
+            const parsed = JSON.parse(raw);
+            if (parsed && typeof parsed === 'object') {
+                Object.entries(parsed).forEach(([name, value]) => headers.push({ name, value }));
+            }
+        } catch {
+            // Expressions are not valid JSON; nothing we can inspect statically
+        }
+    }
+
+    return headers.filter(header => typeof header?.name === 'string');
+}
+
+/**
+ * Source of a Code/Function node
+ */
+function getNodeCode(parameters: Record<string, any>): string {
+    return [parameters.jsCode, parameters.pythonCode, parameters.functionCode]
+        .filter((code): code is string => typeof code === 'string')
+        .join('\n');
+}
+
+const RULES: WorkflowSecurityRule[] = [
+    {
+        id: 'n8n-http-hardcoded-auth-header',
+        severity: 'high',
+        description: 'HTTP Request node sends a hard-coded authentication header; use n8n credentials instead',
+        nodeTypes: ['n8n-nodes-base.httpRequest'],
+        matches: (parameters) => getHttpHeaders(parameters).some(
+            header => AUTH_HEADER_NAMES.test(header.name.trim()) && isHardcodedValue(header.value)
+        ),
+    },
+    {
+        id: 'n8n-code-child-process',
+        severity: 'critical',
+        description: 'Code node spawns OS processes (child_process / subprocess)',
+        nodeTypes: CODE_NODE_TYPES,
+        matches: (parameters) => {
+            const code = getNodeCode(parameters);
+            return /require\s*\(\s*['"`](node:)?child_process['"`]\s*\)/.test(code)
+                || /from\s+['"`](node:)?child_process['"`]/.test(code)
+                || /\bimport\s+subprocess\b|\bos\.(system|popen)\s*\(/.test(code);
+        },
+    },
+    {
+        id: 'n8n-execute-command',
+        severity: 'critical',
+        description: 'Execute Command node runs shell commands on the n8n host',
+        nodeTypes: ['n8n-nodes-base.executeCommand'],
+        matches: () => true,
+    },
+    {
+        id: 'n8n-webhook-no-auth',
+        severity: 'medium',
+        description: 'Webhook node accepts requests without authentication',
+        nodeTypes: ['n8n-nodes-base.webhook', 'n8n-nodes-base.formTrigger'],
+        matches: (parameters) => !parameters.authentication || parameters.authentication === 'none',
+    },
+];
+
+export class WorkflowSecurityService {
+    /**
+     * Check whether parsed JSON looks like an n8n workflow
+     */
+    isWorkflowJson(json: any): boolean {
+        return !!json && typeof json === 'object' && Array.isArray(json.nodes);
+    }
+
+    /**
+     * Scan workflow nodes and return one finding per node and matched rule
+     */
+    scanWorkflow(workflowJson: any): WorkflowSecurityFinding[] {
+        if (!this.isWorkflowJson(workflowJson)) {
+            return [];
+        }
+
+        const findings: WorkflowSecurityFinding[] = [];
+
+        (workflowJson.nodes as WorkflowNode[]).forEach((node, index) => {
+            if (!node || typeof node.type !== 'string') {
+                return;
+            }
+
+            const parameters = node.parameters && typeof node.parameters === 'object' ? node.parameters : {};
+
+            for (const rule of RULES) {
+                if (rule.nodeTypes.includes(node.type) && rule.matches(parameters)) {
+                    findings.push({
+                        node_name: node.name || `#${index}`,
+                        node_type: node.type,
+                        rule_id: rule.id,
+                        severity: rule.severity,
+                        description: rule.description,
+                    });
+                }
+            }
+        });
+
+        return findings;
+    }
+}
+
+export default new WorkflowSecurityService();
@@ -0,0 +1,280 @@
+import workflowValidationService from './workflow-validation.service';
+
+/**
+ * Workflow Setup Guide Service
+ * Builds a structured setup guide from n8n workflow JSON so buyers don't depend on the
+ * seller's install notes: credentials per node, environment variables used in expressions,
+ * webhook paths to expose and schedules with their cron expressions
+ */
+
+export interface WorkflowSetupGuide {
+    n8nVersion: string; // Minimum n8n version
+    timezone: string | null; // Workflow timezone schedules run in (null: instance default)
+    communityNodes: string[];
+    credentials: { type: string; nodes: string[] }[];
+    environmentVariables: { name: string; nodes: string[] }[];
+    webhooks: { node: string; nodeType: string; method: string; path: string; productionUrl: string; testUrl: string | null }[];
+    schedules: { node: string; cron: string | null; description: string }[];
+    checklist: string[];
+    generatedAt: string;
+}
+
+interface WorkflowNode {
+    name?: string;
+    type?: string;
+    disabled?: boolean;
+    webhookId?: string;
+    credentials?: Record<string, any>;
+    parameters?: Record<string, any>;
+}
+
+// $env.NAME, $env["NAME"], $env['NAME']
+const ENV_REFERENCE = /\$env(?:\.([A-Za-z_][A-Za-z0-9_]*)|\[\s*["']([^"']+)["']\s*\])/g;
+
+const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+function numberOr(value: any, fallback: number): number {
+    return typeof value === 'number' && Number.isFinite(value) ? value : fallback;
+}
+
+function pad(value: number): string {
+    return String(value).padStart(2, '0');
+}
+
+export class WorkflowSetupGuideService {
+    /**
+     * Generate the setup guide of a workflow
+     * n8nVersion overrides the inferred minimum version (e.g. when the seller raised it)
+     */
+    generate(workflowJson: any, options: { n8nVersion?: string | null } = {}): WorkflowSetupGuide {
+        const nodes: WorkflowNode[] = (Array.isArray(workflowJson?.nodes) ? workflowJson.nodes : [])
+            .filter((node: any) => node && typeof node === 'object' && typeof node.type === 'string');
+        const compatibility = workflowValidationService.analyzeN8nCompatibility(workflowJson);
+
+        const credentials = new Map<string, Set<string>>();
+        const environmentVariables = new Map<string, Set<string>>();
+        const webhooks: WorkflowSetupGuide['webhooks'] = [];
+        const schedules: WorkflowSetupGuide['schedules'] = [];
+
+        for (const node of nodes) {
+            if (node.disabled) continue;
+            const name = node.name || node.type!;
+
+            for (const type of Object.keys(node.credentials || {})) {
+                if (!credentials.has(type)) credentials.set(type, new Set());
+                credentials.get(type)!.add(name);
+            }
+
+            for (const variable of this.findEnvReferences(node.parameters)) {
+                if (!environmentVariables.has(variable)) environmentVariables.set(variable, new Set());
+                environmentVariables.get(variable)!.add(name);
+            }
+
+            const webhook = this.describeWebhook(node, name);
+            if (webhook) {
+                webhooks.push(webhook);
+            }
+
+            schedules.push(...this.describeSchedules(node, name));
+        }
+
+        const guide: Omit<WorkflowSetupGuide, 'checklist'> = {
+            n8nVersion: options.n8nVersion || compatibility.minVersion,
+            timezone: typeof workflowJson?.settings?.timezone === 'string' ? workflowJson.settings.timezone : null,
+            communityNodes: compatibility.communityNodes,
+            credentials: Array.from(credentials, ([type, names]) => ({ type, nodes: Array.from(names) })),
+            environmentVariables: Array.from(environmentVariables, ([variable, names]) => ({ name: variable, nodes: Array.from(names) })),
+            webhooks,
+            schedules,
+            generatedAt: new Date().toISOString(),
+        };
+
+        return { ...guide, checklist: this.buildChecklist(guide) };
+    }
+
+    /**
+     * Collect $env references from every string in the node parameters (expressions and code)
+     */
+    private findEnvReferences(value: any, found: Set<string> = new Set()): Set<string> {
+        if (typeof value === 'string') {
+            for (const match of value.matchAll(ENV_REFERENCE)) {
+                found.add(match[1] || match[2]);
+            }
+        } else if (Array.isArray(value)) {
+            value.forEach(item => this.findEnvReferences(item, found));
+        } else if (value && typeof value === 'object') {
+            Object.values(value).forEach(item => this.findEnvReferences(item, found));
+        }
+        return found;
+    }
+
+    /**
+     * Public URL paths of webhook-based triggers, relative to the n8n base URL
+     */
+    private describeWebhook(node: WorkflowNode, name: string): WorkflowSetupGuide['webhooks'][number] | null {
+        const parameters = node.parameters || {};
+        const path = typeof parameters.path === 'string' && parameters.path ? parameters.path : node.webhookId;
+
+        switch (node.type) {
+            case 'n8n-nodes-base.webhook':
+                if (!path) return null;
+                return {
+                    node: name,
+                    nodeType: node.type,
+                    method: typeof parameters.httpMethod === 'string' ? parameters.httpMethod : 'GET',
+                    path,
+                    productionUrl: `/webhook/${path}`,
+                    testUrl: `/webhook-test/${path}`,
+                };
+            case 'n8n-nodes-base.formTrigger':
+                if (!path) return null;
+                return { node: name, nodeType: node.type, method: 'GET', path, productionUrl: `/form/${path}`, testUrl: `/form-test/${path}` };
+            case '@n8n/n8n-nodes-langchain.chatTrigger':
+                if (!node.webhookId) return null;
+                return {
+                    node: name,
+                    nodeType: node.type,
+                    method: 'POST',
+                    path: node.webhookId,
+                    productionUrl: `/webhook/${node.webhookId}/chat`,
+                    testUrl: null,
+                };
+            default:
+                return null;
+        }
+    }
+
+    /**
+     * Cron expressions of Schedule Trigger rules and legacy Cron node trigger times
+     */
+    private describeSchedules(node: WorkflowNode, name: string): WorkflowSetupGuide['schedules'] {
+        const parameters = node.parameters || {};
+
+        if (node.type === 'n8n-nodes-base.scheduleTrigger') {
+            const intervals: any[] = Array.isArray(parameters.rule?.interval) ? parameters.rule.interval : [{}];
+            return intervals.map(interval => ({ node: name, ...this.scheduleRuleToCron(interval || {}) }));
+        }
+
+        if (node.type === 'n8n-nodes-base.cron') {
+            const items: any[] = Array.isArray(parameters.triggerTimes?.item) ? parameters.triggerTimes.item : [];
+            return items.map(item => ({ node: name, ...this.cronTriggerTimeToCron(item || {}) }));
+        }
+
+        if (node.type === 'n8n-nodes-base.interval') {
+            const value = numberOr(parameters.interval, 1);
+            const unit = typeof parameters.unit === 'string' ? parameters.unit : 'seconds';
+            return [{ node: name, cron: null, description: `Every ${value} ${unit} after activation` }];
+        }
+
+        return [];
+    }
+
+    private scheduleRuleToCron(interval: Record<string, any>): { cron: string | null; description: string } {
+        const minute = numberOr(interval.triggerAtMinute, 0);
+        const hour = numberOr(interval.triggerAtHour, 0);
+        const time = `${pad(hour)}:${pad(minute)}`;
+
+        switch (interval.field || 'days') {
+            case 'cronExpression':
+                return { cron: typeof interval.expression === 'string' ? interval.expression : null, description: 'Custom cron expression' };
+            case 'seconds': {
+                const every = numberOr(interval.secondsInterval, 30);
+                return { cron: `*/${every} * * * * *`, description: `Every ${every} seconds` };
+            }
+            case 'minutes': {
+                const every = numberOr(interval.minutesInterval, 5);
+                return { cron: `*/${every} * * * *`, description: `Every ${every} minutes` };
+            }
+            case 'hours': {
+                const every = numberOr(interval.hoursInterval, 1);
+                return { cron: `${minute} */${every} * * *`, description: `Every ${every} hour(s) at minute ${minute}` };
+            }
+            case 'days': {
+                const every = numberOr(interval.daysInterval, 1);
+                return { cron: `${minute} ${hour} */${every} * *`, description: `Every ${every} day(s) at ${time}` };
+            }
+            case 'weeks': {
+                const every = numberOr(interval.weeksInterval, 1);
+                const days: number[] = Array.isArray(interval.triggerAtDay) && interval.triggerAtDay.length > 0
+                    ? interval.triggerAtDay.map(Number)
+                    : [0];
+                return {
+                    // Cron cannot express "every N weeks"; n8n skips the weeks in between itself
+                    cron: `${minute} ${hour} * * ${days.join(',')}`,
+                    description: `Every ${every} week(s) on ${days.map(day => WEEKDAYS[day] || day).join(', ')} at ${time}`,
+                };
+            }
+            case 'months': {
+                const every = numberOr(interval.monthsInterval, 1);
+                const dayOfMonth = numberOr(interval.triggerAtDayOfMonth, 1);
+                return {
+                    cron: `${minute} ${hour} ${dayOfMonth} */${every} *`,
+                    description: `Every ${every} month(s) on day ${dayOfMonth} at ${time}`,
+                };
+            }
+            default:
+                return { cron: null, description: `Unsupported schedule rule "${interval.field}"` };
+        }
+    }
+
+    private cronTriggerTimeToCron(item: Record<string, any>): { cron: string | null; description: string } {
+        const minute = numberOr(item.minute, 0);
+        const hour = numberOr(item.hour, 14);
+        const time = `${pad(hour)}:${pad(minute)}`;
+
+        switch (item.mode) {
+            case 'everyMinute':
+                return { cron: '* * * * *', description: 'Every minute' };
+            case 'everyHour':
+                return { cron: `${minute} * * * *`, description: `Every hour at minute ${minute}` };
+            case 'everyDay':
+                return { cron: `${minute} ${hour} * * *`, description: `Every day at ${time}` };
+            case 'everyWeek': {
+                const weekday = numberOr(Number(item.weekday), 1);
+                return { cron: `${minute} ${hour} * * ${weekday}`, description: `Every ${WEEKDAYS[weekday] || weekday} at ${time}` };
+            }
+            case 'everyMonth': {
+                const dayOfMonth = numberOr(item.dayOfMonth, 1);
+                return { cron: `${minute} ${hour} ${dayOfMonth} * *`, description: `Every month on day ${dayOfMonth} at ${time}` };
+            }
+            case 'everyX': {
+                const value = numberOr(item.value, 2);
+                return item.unit === 'hours'
+                    ? { cron: `0 */${value} * * *`, description: `Every ${value} hours` }
+                    : { cron: `*/${value} * * * *`, description: `Every ${value} minutes` };
+            }
+            case 'custom':
+                return { cron: typeof item.cronExpression === 'string' ? item.cronExpression : null, description: 'Custom cron expression' };
+            default:
+                return { cron: null, description: `Unsupported trigger time "${item.mode}"` };
+        }
+    }
+
+    private buildChecklist(guide: Omit<WorkflowSetupGuide, 'checklist'>): string[] {
+        const checklist = [`Use n8n ${guide.n8nVersion} or newer and import the workflow JSON`];
+
+        if (guide.communityNodes.length > 0) {
+            checklist.push(`Install community nodes: ${guide.communityNodes.join(', ')}`);
+        }
+        for (const credential of guide.credentials) {
+            checklist.push(`Create a "${credential.type}" credential and select it in: ${credential.nodes.join(', ')}`);
+        }
+        for (const variable of guide.environmentVariables) {
+            checklist.push(`Set environment variable ${variable.name} (used by: ${variable.nodes.join(', ')})`);
+        }
+        for (const webhook of guide.webhooks) {
+            checklist.push(`Make ${webhook.method} ${webhook.productionUrl} reachable for callers (${webhook.node})`);
+        }
+        if (guide.schedules.length > 0) {
+            checklist.push(
+                `Check the schedule times${guide.timezone ? ` (timezone ${guide.timezone})` : ''}: ` +
+                guide.schedules.map(schedule => `${schedule.node}: ${schedule.description}`).join('; ')
+            );
+        }
+        checklist.push('Activate the workflow');
+
+        return checklist;
+    }
+}
+
+export default new WorkflowSetupGuideService();
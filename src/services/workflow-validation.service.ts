@@ -1,60 +1,127 @@
-// No imports needed for this service currently
+import semver from 'semver';
+import {
+    N8N_NODE_CATALOG,
+    N8N_BASELINE_VERSION,
+    N8N_CATALOG_VERSION,
+    N8N_CORE_NODE_PACKAGES,
+} from '../config/n8n-node-catalog';
 
 /**
  * Workflow Validation Service
  * Validates n8n workflow JSON structure and compatibility
  */
 
+/**
+ * Minimum n8n version inferred from the workflow's node types and typeVersions
+ */
+export interface N8nCompatibility {
+    minVersion: string; // Oldest n8n release known to run the workflow
+    catalogVersion: string; // Newest n8n release the node catalog covers
+    requiredBy: { node: string; type: string; typeVersion: number; since: string }[]; // Nodes that need minVersion
+    unknownNodes: { node: string; type: string; typeVersion: number }[]; // Core node types/versions missing from the catalog
+    communityNodes: string[]; // Node types that must be installed separately
+}
+
+/**
+ * A structured validation finding; errors block saving the workflow, warnings do not
+ */
+export interface WorkflowIssue {
+    code: WorkflowIssueCode;
+    severity: 'error' | 'warning';
+    message: string;
+    nodes?: string[]; // Node names the issue refers to
+}
+
+export type WorkflowIssueCode =
+    | 'INVALID_JSON'
+    | 'NODES_MISSING'
+    | 'NODES_EMPTY'
+    | 'INVALID_NODE'
+    | 'DUPLICATE_NODE_NAME'
+    | 'CONNECTIONS_MISSING'
+    | 'INVALID_CONNECTION'
+    | 'DANGLING_CONNECTION'
+    | 'NO_TRIGGER'
+    | 'ALL_TRIGGERS_DISABLED'
+    | 'DISABLED_TRIGGER'
+    | 'UNREACHABLE_NODE'
+    | 'CYCLE_WITHOUT_LOOP_NODE'
+    | 'UNKNOWN_NODE_VERSION'
+    | 'COMMUNITY_NODES'
+    | 'TOO_MANY_NODES'
+    | 'NO_CREDENTIALS';
+
 export interface WorkflowValidationResult {
     valid: boolean;
     errors: string[];
     warnings: string[];
+    issues: WorkflowIssue[];
     metadata?: {
         nodesCount: number;
         triggers: string[];
         credentials: string[];
         n8nVersion?: string;
+        n8nCompatibility?: N8nCompatibility;
     };
 }
 
+// Node types that start executions without a "...Trigger" suffix
+const TRIGGER_NODE_TYPES = [
+    'n8n-nodes-base.webhook',
+    'n8n-nodes-base.cron',
+    'n8n-nodes-base.interval',
+    'n8n-nodes-base.start',
+    'n8n-nodes-base.emailReadImap',
+];
+
+// Nodes that may legitimately close a loop in the main connection graph
+const LOOP_NODE_TYPES = ['n8n-nodes-base.splitInBatches'];
+
+// Canvas annotations that never execute
+const NON_EXECUTING_NODE_TYPES = ['n8n-nodes-base.stickyNote'];
+
 export class WorkflowValidationService {
     /**
-     * Validate workflow JSON structure
+     * Validate workflow JSON structure and its connection graph
      */
     validateWorkflowJson(workflowJson: any): WorkflowValidationResult {
-        const errors: string[] = [];
-        const warnings: string[] = [];
+        const issues: WorkflowIssue[] = [];
+        const error = (code: WorkflowIssueCode, message: string, nodes?: string[]) =>
+            issues.push({ code, severity: 'error', message, ...(nodes && { nodes }) });
+        const warn = (code: WorkflowIssueCode, message: string, nodes?: string[]) =>
+            issues.push({ code, severity: 'warning', message, ...(nodes && { nodes }) });
+
         let nodesCount = 0;
         const triggers: Set<string> = new Set();
         const credentials: Set<string> = new Set();
-        let n8nVersion: string | undefined;
+        let n8nCompatibility: N8nCompatibility | undefined;
 
         try {
             // Check if it's a valid object
             if (!workflowJson || typeof workflowJson !== 'object') {
-                errors.push('Workflow must be a valid JSON object');
-                return { valid: false, errors, warnings };
+                error('INVALID_JSON', 'Workflow must be a valid JSON object');
+                return this.buildResult(issues);
             }
 
             // Check for required fields
             if (!workflowJson.nodes || !Array.isArray(workflowJson.nodes)) {
-                errors.push('Workflow must have a "nodes" array');
+                error('NODES_MISSING', 'Workflow must have a "nodes" array');
             } else {
                 nodesCount = workflowJson.nodes.length;
                 if (nodesCount === 0) {
-                    errors.push('Workflow must have at least one node');
+                    error('NODES_EMPTY', 'Workflow must have at least one node');
                 }
 
                 // Extract triggers and credentials
                 workflowJson.nodes.forEach((node: any) => {
                     // Check for trigger nodes
-                    if (node.type && node.type.includes('Trigger')) {
+                    if (node?.type && typeof node.type === 'string' && node.type.includes('Trigger')) {
                         const triggerType = node.type.replace('Trigger', '').toLowerCase();
                         triggers.add(triggerType);
                     }
 
                     // Check for credentials
-                    if (node.credentials) {
+                    if (node?.credentials) {
                         Object.keys(node.credentials).forEach((credType: string) => {
                             credentials.add(credType);
                         });
@@ -64,65 +131,373 @@ export class WorkflowValidationService {
 
             // Check for connections
             if (!workflowJson.connections || typeof workflowJson.connections !== 'object') {
-                warnings.push('Workflow does not have connections defined');
+                warn('CONNECTIONS_MISSING', 'Workflow does not have connections defined');
             }
 
-            // Extract n8n version if available
-            if (workflowJson.meta?.instanceId) {
-                // n8n workflow may have version info in meta
-                n8nVersion = workflowJson.meta.instanceId;
+            // Check the node graph: names, connections, triggers, reachability and loops
+            if (Array.isArray(workflowJson.nodes) && nodesCount > 0) {
+                this.analyzeGraph(workflowJson, error, warn);
+            }
+
+            // Infer the minimum n8n version from the nodes used
+            if (Array.isArray(workflowJson.nodes)) {
+                n8nCompatibility = this.analyzeN8nCompatibility(workflowJson);
+                if (n8nCompatibility.unknownNodes.length > 0) {
+                    warn(
+                        'UNKNOWN_NODE_VERSION',
+                        `Unknown node versions, minimum n8n version may be higher than ${n8nCompatibility.minVersion}: ` +
+                        n8nCompatibility.unknownNodes.map(node => `${node.type}@${node.typeVersion}`).join(', '),
+                        n8nCompatibility.unknownNodes.map(node => node.node)
+                    );
+                }
+                if (n8nCompatibility.communityNodes.length > 0) {
+                    warn('COMMUNITY_NODES', `Workflow uses community nodes: ${n8nCompatibility.communityNodes.join(', ')}`);
+                }
             }
 
             // Check for common issues
             if (nodesCount > 100) {
-                warnings.push('Workflow has many nodes (>100). Consider breaking it into smaller workflows.');
+                warn('TOO_MANY_NODES', 'Workflow has many nodes (>100). Consider breaking it into smaller workflows.');
             }
 
             if (credentials.size === 0) {
-                warnings.push('Workflow does not use any credentials. This is unusual for most workflows.');
+                warn('NO_CREDENTIALS', 'Workflow does not use any credentials. This is unusual for most workflows.');
+            }
+
+        } catch (err: any) {
+            error('INVALID_JSON', `Failed to parse workflow: ${err.message}`);
+        }
+
+        return this.buildResult(issues, {
+            nodesCount,
+            triggers: Array.from(triggers),
+            credentials: Array.from(credentials),
+            n8nVersion: n8nCompatibility?.minVersion,
+            n8nCompatibility,
+        });
+    }
+
+    /**
+     * Analyze the connection graph
+     * Connections are keyed by node name: { [source]: { [connectionType]: [[{ node, type, index }]] } }.
+     * "main" connections carry data from source to target; other types (ai_tool, ai_languageModel, ...)
+     * attach a sub-node to the root node it serves, so the sub-node runs when its target does
+     */
+    private analyzeGraph(
+        workflowJson: any,
+        error: (code: WorkflowIssueCode, message: string, nodes?: string[]) => void,
+        warn: (code: WorkflowIssueCode, message: string, nodes?: string[]) => void
+    ): void {
+        const nodesByName = new Map<string, any>();
+        const duplicates: Set<string> = new Set();
+
+        workflowJson.nodes.forEach((node: any, index: number) => {
+            if (!node || typeof node !== 'object' || typeof node.name !== 'string' || typeof node.type !== 'string') {
+                error('INVALID_NODE', `Node at index ${index} must have a string "name" and "type"`);
+                return;
+            }
+            if (nodesByName.has(node.name)) {
+                duplicates.add(node.name);
+                return;
+            }
+            nodesByName.set(node.name, node);
+        });
+
+        if (duplicates.size > 0) {
+            error(
+                'DUPLICATE_NODE_NAME',
+                `Node names must be unique, connections are ambiguous for: ${Array.from(duplicates).join(', ')}`,
+                Array.from(duplicates)
+            );
+        }
+
+        // Build adjacency for execution order (main) and activation (main + sub-node links)
+        const mainEdges = new Map<string, Set<string>>();
+        const activationEdges = new Map<string, Set<string>>();
+        const addEdge = (edges: Map<string, Set<string>>, from: string, to: string) => {
+            if (!edges.has(from)) edges.set(from, new Set());
+            edges.get(from)!.add(to);
+        };
+
+        const dangling: Set<string> = new Set();
+        const connections = workflowJson.connections && typeof workflowJson.connections === 'object'
+            ? workflowJson.connections
+            : {};
+
+        for (const [source, byType] of Object.entries<any>(connections)) {
+            if (!nodesByName.has(source)) {
+                dangling.add(source);
+                continue;
+            }
+            if (!byType || typeof byType !== 'object') {
+                error('INVALID_CONNECTION', `Connections of node "${source}" must be an object`, [source]);
+                continue;
+            }
+
+            for (const [connectionType, outputs] of Object.entries<any>(byType)) {
+                if (!Array.isArray(outputs)) {
+                    error('INVALID_CONNECTION', `"${connectionType}" connections of node "${source}" must be an array`, [source]);
+                    continue;
+                }
+
+                for (const output of outputs) {
+                    // Unconnected outputs are null or empty
+                    if (output === null || output === undefined) continue;
+                    if (!Array.isArray(output)) {
+                        error('INVALID_CONNECTION', `"${connectionType}" outputs of node "${source}" must be arrays`, [source]);
+                        continue;
+                    }
+
+                    for (const target of output) {
+                        if (!target || typeof target.node !== 'string') {
+                            error('INVALID_CONNECTION', `Connection from node "${source}" has no target node`, [source]);
+                            continue;
+                        }
+                        if (!nodesByName.has(target.node)) {
+                            dangling.add(target.node);
+                            continue;
+                        }
+
+                        if (connectionType === 'main') {
+                            addEdge(mainEdges, source, target.node);
+                            addEdge(activationEdges, source, target.node);
+                        } else {
+                            addEdge(activationEdges, target.node, source);
+                        }
+                    }
+                }
+            }
+        }
+
+        if (dangling.size > 0) {
+            error(
+                'DANGLING_CONNECTION',
+                `Connections reference nodes that do not exist: ${Array.from(dangling).join(', ')}`,
+                Array.from(dangling)
+            );
+        }
+
+        // Triggers
+        const triggerNodes = Array.from(nodesByName.values()).filter(node => this.isTriggerNode(node.type));
+        const enabledTriggers = triggerNodes.filter(node => !node.disabled);
+        const disabledTriggers = triggerNodes.filter(node => node.disabled).map(node => node.name);
+
+        if (triggerNodes.length === 0) {
+            error('NO_TRIGGER', 'Workflow has no trigger node, so it can never run');
+            return;
+        }
+        if (enabledTriggers.length === 0) {
+            error('ALL_TRIGGERS_DISABLED', `All trigger nodes are disabled: ${disabledTriggers.join(', ')}`, disabledTriggers);
+            return;
+        }
+        if (disabledTriggers.length > 0) {
+            warn('DISABLED_TRIGGER', `Disabled trigger nodes: ${disabledTriggers.join(', ')}`, disabledTriggers);
+        }
+
+        // Reachability from enabled triggers (disabled nodes pass their input through)
+        const reachable: Set<string> = new Set(enabledTriggers.map(node => node.name));
+        const queue = Array.from(reachable);
+        while (queue.length > 0) {
+            const name = queue.shift()!;
+            for (const next of activationEdges.get(name) || []) {
+                if (!reachable.has(next)) {
+                    reachable.add(next);
+                    queue.push(next);
+                }
             }
+        }
+
+        const unreachable = Array.from(nodesByName.values())
+            .filter(node => !reachable.has(node.name))
+            .filter(node => !NON_EXECUTING_NODE_TYPES.includes(node.type) && !this.isTriggerNode(node.type))
+            .map(node => node.name);
+        if (unreachable.length > 0) {
+            warn('UNREACHABLE_NODE', `Nodes not reachable from any enabled trigger: ${unreachable.join(', ')}`, unreachable);
+        }
+
+        // Loops must go through a loop node, otherwise they only end by an explicit condition
+        for (const cycle of this.findCycles(mainEdges)) {
+            if (cycle.some(name => LOOP_NODE_TYPES.includes(nodesByName.get(name)?.type))) continue;
+            warn(
+                'CYCLE_WITHOUT_LOOP_NODE',
+                `Nodes form a loop without a Loop Over Items node, make sure it has an exit condition: ${cycle.join(' → ')}`,
+                cycle
+            );
+        }
+    }
+
+    /**
+     * Strongly connected components with more than one node (or a self-loop), Tarjan's algorithm
+     * Runs with an explicit call stack, so long node chains cannot overflow the JS stack
+     */
+    private findCycles(edges: Map<string, Set<string>>): string[][] {
+        const indexes = new Map<string, number>();
+        const lowLinks = new Map<string, number>();
+        const onStack: Set<string> = new Set();
+        const stack: string[] = [];
+        const cycles: string[][] = [];
+        let nextIndex = 0;
+
+        const enter = (name: string) => {
+            indexes.set(name, nextIndex);
+            lowLinks.set(name, nextIndex);
+            nextIndex++;
+            stack.push(name);
+            onStack.add(name);
+            return { name, successors: (edges.get(name) || new Set<string>()).values() };
+        };
+
+        for (const root of edges.keys()) {
+            if (indexes.has(root)) continue;
+
+            const callStack = [enter(root)];
+            while (callStack.length > 0) {
+                const frame = callStack[callStack.length - 1];
+                const step = frame.successors.next();
+
+                if (!step.done) {
+                    const next = step.value;
+                    if (!indexes.has(next)) {
+                        callStack.push(enter(next));
+                    } else if (onStack.has(next)) {
+                        lowLinks.set(frame.name, Math.min(lowLinks.get(frame.name)!, indexes.get(next)!));
+                    }
+                    continue;
+                }
+
+                // All successors visited: close the component rooted here, then return to the caller
+                const name = frame.name;
+                callStack.pop();
+                if (lowLinks.get(name) === indexes.get(name)) {
+                    const component: string[] = [];
+                    let member: string;
+                    do {
+                        member = stack.pop()!;
+                        onStack.delete(member);
+                        component.unshift(member);
+                    } while (member !== name);
 
-        } catch (error: any) {
-            errors.push(`Failed to parse workflow: ${error.message}`);
+                    if (component.length > 1 || edges.get(name)?.has(name)) {
+                        cycles.push(component);
+                    }
+                }
+
+                const caller = callStack[callStack.length - 1];
+                if (caller) {
+                    lowLinks.set(caller.name, Math.min(lowLinks.get(caller.name)!, lowLinks.get(name)!));
+                }
+            }
         }
+        return cycles;
+    }
 
+    private isTriggerNode(type: string): boolean {
+        return TRIGGER_NODE_TYPES.includes(type) || /Trigger$/.test(type);
+    }
+
+    private buildResult(
+        issues: WorkflowIssue[],
+        metadata?: WorkflowValidationResult['metadata']
+    ): WorkflowValidationResult {
+        const errors = issues.filter(issue => issue.severity === 'error').map(issue => issue.message);
+        const warnings = issues.filter(issue => issue.severity === 'warning').map(issue => issue.message);
         const valid = errors.length === 0;
 
         return {
             valid,
             errors,
             warnings,
-            metadata: valid ? {
-                nodesCount,
-                triggers: Array.from(triggers),
-                credentials: Array.from(credentials),
-                n8nVersion,
-            } : undefined,
+            issues,
+            metadata: valid ? metadata : undefined,
+        };
+    }
+
+    /**
+     * Infer the oldest n8n release that can run a workflow from the bundled node catalog
+     * Each node requires the release that first shipped its type at its typeVersion;
+     * typeVersions between catalog entries require the next listed one
+     */
+    analyzeN8nCompatibility(workflowJson: any): N8nCompatibility {
+        let minVersion = N8N_BASELINE_VERSION;
+        let requiredBy: N8nCompatibility['requiredBy'] = [];
+        const unknownNodes: N8nCompatibility['unknownNodes'] = [];
+        const communityNodes: Set<string> = new Set();
+
+        const requireVersion = (since: string, node: N8nCompatibility['requiredBy'][number]) => {
+            if (semver.gt(since, minVersion)) {
+                minVersion = since;
+                requiredBy = [node];
+            } else if (semver.eq(since, minVersion) && since !== N8N_BASELINE_VERSION) {
+                requiredBy.push(node);
+            }
+        };
+
+        for (const node of Array.isArray(workflowJson?.nodes) ? workflowJson.nodes : []) {
+            if (!node || typeof node.type !== 'string') continue;
+
+            const type: string = node.type;
+            const typeVersion = typeof node.typeVersion === 'number' ? node.typeVersion : 1;
+            const name = typeof node.name === 'string' ? node.name : type;
+
+            const nodePackage = type.slice(0, type.lastIndexOf('.'));
+            if (!(N8N_CORE_NODE_PACKAGES as readonly string[]).includes(nodePackage)) {
+                communityNodes.add(type);
+                continue;
+            }
+
+            const versions = N8N_NODE_CATALOG[type];
+            const listed = versions
+                ? Object.keys(versions).map(Number).filter(v => v >= typeVersion).sort((a, b) => a - b)[0]
+                : undefined;
+
+            if (!versions || listed === undefined) {
+                unknownNodes.push({ node: name, type, typeVersion });
+                // A typeVersion newer than the catalog needs at least the newest release it covers
+                if (versions) {
+                    requireVersion(N8N_CATALOG_VERSION, { node: name, type, typeVersion, since: N8N_CATALOG_VERSION });
+                }
+                continue;
+            }
+
+            const since = versions[String(listed)];
+            requireVersion(since, { node: name, type, typeVersion, since });
+        }
+
+        return {
+            minVersion,
+            catalogVersion: N8N_CATALOG_VERSION,
+            requiredBy,
+            unknownNodes,
+            communityNodes: Array.from(communityNodes),
         };
     }
 
     /**
-     * Validate n8n version compatibility
+     * Check whether an n8n instance version can run a workflow requiring requiredVersion
      */
-    validateN8nVersion(workflowVersion: string | undefined, systemVersion?: string): boolean {
-        if (!workflowVersion) {
+    validateN8nVersion(requiredVersion: string | undefined | null, instanceVersion: string): boolean {
+        if (!requiredVersion) {
             return true; // Can't validate if version not specified
         }
 
-        // Simple version check: extract major.minor
-        const versionRegex = /(\d+)\.(\d+)/;
-        const workflowMatch = workflowVersion.match(versionRegex);
-        
-        if (!workflowMatch) {
+        const required = semver.coerce(requiredVersion);
+        const instance = semver.coerce(instanceVersion);
+        if (!required || !instance) {
             return false;
         }
 
-        const workflowMajor = parseInt(workflowMatch[1], 10);
-        const workflowMinor = parseInt(workflowMatch[2], 10);
+        return semver.gte(instance, required);
+    }
 
-        // For now, accept any 1.x version
-        // This can be enhanced to check against actual system version
-        return workflowMajor >= 1;
+    /**
+     * Normalize a user-supplied n8n version to "major.minor.patch" (null if not a version)
+     */
+    normalizeN8nVersion(version: string): string | null {
+        const match = version.trim().match(/^v?(\d+)(?:\.(\d+))?(?:\.(\d+))?$/);
+        if (!match) {
+            return null;
+        }
+        return [match[1], match[2] || '0', match[3] || '0'].map(part => String(parseInt(part, 10))).join('.');
     }
 
     /**
@@ -133,6 +508,7 @@ export class WorkflowValidationService {
         triggers: string[];
         credentials: string[];
         n8nVersion?: string;
+        n8nCompatibility?: N8nCompatibility;
     } {
         const validation = this.validateWorkflowJson(workflowJson);
         if (!validation.valid || !validation.metadata) {
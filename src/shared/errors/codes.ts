@@ -28,10 +28,78 @@ export const ERROR_CODES = {
     PRODUCT_DELETE_FAILED: 'PRODUCT_DELETE_FAILED',
     PRODUCT_PUBLISH_FAILED: 'PRODUCT_PUBLISH_FAILED',
     WORKFLOW_FILE_REQUIRED: 'WORKFLOW_FILE_REQUIRED',
+    WORKFLOW_INVALID: 'WORKFLOW_INVALID',
     THUMBNAIL_URL_REQUIRED: 'THUMBNAIL_URL_REQUIRED',
     PRODUCT_TITLE_TOO_SHORT: 'PRODUCT_TITLE_TOO_SHORT',
     PRODUCT_DESCRIPTION_TOO_SHORT: 'PRODUCT_DESCRIPTION_TOO_SHORT',
 
+    // Security scan errors
+    SECURITY_FINDING_NOT_FOUND: 'SECURITY_FINDING_NOT_FOUND',
+    FINDING_SUPPRESSION_NOT_FOUND: 'FINDING_SUPPRESSION_NOT_FOUND',
+    FINDING_SUPPRESSION_EXISTS: 'FINDING_SUPPRESSION_EXISTS',
+    FINDING_SUPPRESSION_ALREADY_REVIEWED: 'FINDING_SUPPRESSION_ALREADY_REVIEWED',
+    PRODUCT_MALWARE_DETECTED: 'PRODUCT_MALWARE_DETECTED',
+    PRODUCT_SCAN_PENDING: 'PRODUCT_SCAN_PENDING',
+    PRODUCT_SCAN_FAILED: 'PRODUCT_SCAN_FAILED',
+
+    // Release errors
+    RELEASE_NOT_FOUND: 'RELEASE_NOT_FOUND',
+    RELEASE_INVALID_VERSION: 'RELEASE_INVALID_VERSION',
+    RELEASE_VERSION_NOT_NEWER: 'RELEASE_VERSION_NOT_NEWER',
+    RELEASE_NOT_EDITABLE: 'RELEASE_NOT_EDITABLE',
+    RELEASE_EMPTY: 'RELEASE_EMPTY',
+    RELEASE_NOT_PENDING: 'RELEASE_NOT_PENDING',
+    RELEASE_NOT_APPROVED: 'RELEASE_NOT_APPROVED',
+    RELEASE_SCAN_PENDING: 'RELEASE_SCAN_PENDING',
+    RELEASE_SCAN_FAILED: 'RELEASE_SCAN_FAILED',
+    RELEASE_MALWARE_DETECTED: 'RELEASE_MALWARE_DETECTED',
+
+    // n8n deployment errors
+    N8N_INSTANCE_NOT_FOUND: 'N8N_INSTANCE_NOT_FOUND',
+    N8N_INSTANCE_URL_NOT_ALLOWED: 'N8N_INSTANCE_URL_NOT_ALLOWED',
+    N8N_INSTANCE_ALREADY_EXISTS: 'N8N_INSTANCE_ALREADY_EXISTS',
+    N8N_INSTANCE_UNREACHABLE: 'N8N_INSTANCE_UNREACHABLE',
+    N8N_INSTANCE_AUTH_FAILED: 'N8N_INSTANCE_AUTH_FAILED',
+    WORKFLOW_NOT_PURCHASED: 'WORKFLOW_NOT_PURCHASED',
+    WORKFLOW_DEPLOY_FAILED: 'WORKFLOW_DEPLOY_FAILED',
+
+    // Order errors
+    ORDER_NOT_FOUND: 'ORDER_NOT_FOUND',
+    ORDER_PRODUCT_NOT_PURCHASABLE: 'ORDER_PRODUCT_NOT_PURCHASABLE',
+    ORDER_PRODUCT_ALREADY_OWNED: 'ORDER_PRODUCT_ALREADY_OWNED',
+    ORDER_OWN_PRODUCT: 'ORDER_OWN_PRODUCT',
+    ORDER_CURRENCY_MISMATCH: 'ORDER_CURRENCY_MISMATCH',
+    ORDER_NOT_PENDING: 'ORDER_NOT_PENDING',
+    ORDER_NOT_PAID: 'ORDER_NOT_PAID',
+    ENTITLEMENT_NOT_FOUND: 'ENTITLEMENT_NOT_FOUND',
+
+    // Payment errors
+    PAYMENT_NOT_FOUND: 'PAYMENT_NOT_FOUND',
+    PAYMENT_PROVIDER_NOT_CONFIGURED: 'PAYMENT_PROVIDER_NOT_CONFIGURED',
+    PAYMENT_CURRENCY_NOT_SUPPORTED: 'PAYMENT_CURRENCY_NOT_SUPPORTED',
+    PAYMENT_RETURN_URL_NOT_ALLOWED: 'PAYMENT_RETURN_URL_NOT_ALLOWED',
+    PAYMENT_PROVIDER_ERROR: 'PAYMENT_PROVIDER_ERROR',
+    PAYMENT_REFUND_FAILED: 'PAYMENT_REFUND_FAILED',
+
+    // Subscription errors
+    SUBSCRIPTION_PLAN_NOT_FOUND: 'SUBSCRIPTION_PLAN_NOT_FOUND',
+    SUBSCRIPTION_PLAN_PRODUCT_NOT_SUBSCRIPTION: 'SUBSCRIPTION_PLAN_PRODUCT_NOT_SUBSCRIPTION',
+    SUBSCRIPTION_NOT_FOUND: 'SUBSCRIPTION_NOT_FOUND',
+    SUBSCRIPTION_ALREADY_EXISTS: 'SUBSCRIPTION_ALREADY_EXISTS',
+    SUBSCRIPTION_NOT_ACTIVE: 'SUBSCRIPTION_NOT_ACTIVE',
+    SUBSCRIPTION_NOT_CANCELING: 'SUBSCRIPTION_NOT_CANCELING',
+    SUBSCRIPTION_NOT_PAST_DUE: 'SUBSCRIPTION_NOT_PAST_DUE',
+
+    // File errors
+    FILE_NOT_FOUND: 'FILE_NOT_FOUND',
+    FILE_ACCESS_FORBIDDEN: 'FILE_ACCESS_FORBIDDEN',
+    DOWNLOAD_LINK_INVALID: 'DOWNLOAD_LINK_INVALID',
+    DOWNLOAD_LINK_EXPIRED: 'DOWNLOAD_LINK_EXPIRED',
+    UPLOAD_TOO_LARGE: 'UPLOAD_TOO_LARGE',
+    UPLOAD_TYPE_NOT_ALLOWED: 'UPLOAD_TYPE_NOT_ALLOWED',
+    UPLOAD_CONTENT_MISMATCH: 'UPLOAD_CONTENT_MISMATCH',
+    UPLOAD_INVALID_IMAGE: 'UPLOAD_INVALID_IMAGE',
+
     // Validation errors
     INVALID_INPUT: 'INVALID_INPUT',
     VALIDATION_ERROR: 'VALIDATION_ERROR',
@@ -56,6 +124,13 @@ export const ERROR_CODES = {
 
     // Article errors
     ARTICLE_NOT_FOUND: 'ARTICLE_NOT_FOUND',
+    INGESTION_JOB_NOT_FOUND: 'INGESTION_JOB_NOT_FOUND',
+    INGESTION_RETRY_NOT_ALLOWED: 'INGESTION_RETRY_NOT_ALLOWED',
+
+    // Schedule errors
+    INVALID_SCHEDULE_FREQUENCY: 'INVALID_SCHEDULE_FREQUENCY',
+    INVALID_CRON_EXPRESSION: 'INVALID_CRON_EXPRESSION',
+    INVALID_TIMEZONE: 'INVALID_TIMEZONE',
 
     // Internal errors
     INTERNAL_ERROR: 'INTERNAL_ERROR',
@@ -91,10 +166,78 @@ export const ERROR_MESSAGES: Record<string, string> = {
     PRODUCT_DELETE_FAILED: 'Xoá sản phẩm thất bại',
     PRODUCT_PUBLISH_FAILED: 'Đăng sản phẩm thất bại',
     WORKFLOW_FILE_REQUIRED: 'Thiếu URL file workflow cho sản phẩm dạng workflow',
+    WORKFLOW_INVALID: 'File workflow không hợp lệ',
     THUMBNAIL_URL_REQUIRED: 'Thiếu URL thumbnail',
     PRODUCT_TITLE_TOO_SHORT: 'Tiêu đề phải có ít nhất 3 ký tự',
     PRODUCT_DESCRIPTION_TOO_SHORT: 'Mô tả phải có ít nhất 10 ký tự',
 
+    // Security scan
+    SECURITY_FINDING_NOT_FOUND: 'Phát hiện bảo mật không có trong lần quét gần nhất',
+    FINDING_SUPPRESSION_NOT_FOUND: 'Không tìm thấy yêu cầu bỏ qua phát hiện bảo mật',
+    FINDING_SUPPRESSION_EXISTS: 'Phát hiện này đã có yêu cầu bỏ qua đang chờ duyệt hoặc đã được duyệt',
+    FINDING_SUPPRESSION_ALREADY_REVIEWED: 'Yêu cầu bỏ qua đã được xử lý',
+    PRODUCT_SCAN_PENDING: 'Sản phẩm chưa quét bảo mật xong',
+    PRODUCT_SCAN_FAILED: 'Không thể duyệt sản phẩm: quét bảo mật phát hiện vấn đề nghiêm trọng',
+    PRODUCT_MALWARE_DETECTED: 'Không thể duyệt sản phẩm: tệp đính kèm bị phát hiện chứa mã độc hoặc chưa quét mã độc thành công',
+
+    // Release
+    RELEASE_NOT_FOUND: 'Không tìm thấy phiên bản phát hành',
+    RELEASE_INVALID_VERSION: 'Phiên bản phải theo định dạng semver (ví dụ 1.2.0)',
+    RELEASE_VERSION_NOT_NEWER: 'Phiên bản mới phải lớn hơn các phiên bản đã có',
+    RELEASE_NOT_EDITABLE: 'Chỉ được sửa phiên bản ở trạng thái nháp hoặc bị từ chối',
+    RELEASE_EMPTY: 'Phiên bản phải có ít nhất một tệp trước khi gửi duyệt',
+    RELEASE_NOT_PENDING: 'Phiên bản không ở trạng thái chờ duyệt',
+    RELEASE_NOT_APPROVED: 'Phiên bản chưa được duyệt',
+    RELEASE_SCAN_PENDING: 'Phiên bản chưa quét bảo mật xong',
+    RELEASE_SCAN_FAILED: 'Không thể duyệt phiên bản: quét bảo mật phát hiện vấn đề nghiêm trọng',
+    RELEASE_MALWARE_DETECTED: 'Không thể duyệt phiên bản: tệp đính kèm bị phát hiện chứa mã độc hoặc chưa quét mã độc thành công',
+
+    // n8n deployment
+    N8N_INSTANCE_NOT_FOUND: 'Không tìm thấy n8n instance',
+    N8N_INSTANCE_URL_NOT_ALLOWED: 'URL n8n instance không hợp lệ hoặc không được phép',
+    N8N_INSTANCE_ALREADY_EXISTS: 'n8n instance với URL này đã được đăng ký',
+    N8N_INSTANCE_UNREACHABLE: 'Không kết nối được tới n8n instance',
+    N8N_INSTANCE_AUTH_FAILED: 'API key của n8n instance không hợp lệ',
+    WORKFLOW_NOT_PURCHASED: 'Bạn cần mua workflow trước khi triển khai',
+    WORKFLOW_DEPLOY_FAILED: 'Triển khai workflow lên n8n thất bại',
+
+    // Order
+    ORDER_NOT_FOUND: 'Không tìm thấy đơn hàng',
+    ORDER_PRODUCT_NOT_PURCHASABLE: 'Sản phẩm này không bán theo hình thức mua một lần',
+    ORDER_PRODUCT_ALREADY_OWNED: 'Bạn đã sở hữu sản phẩm này',
+    ORDER_OWN_PRODUCT: 'Bạn không thể mua sản phẩm của chính mình',
+    ORDER_CURRENCY_MISMATCH: 'Các sản phẩm trong một đơn hàng phải cùng đơn vị tiền tệ',
+    ORDER_NOT_PENDING: 'Đơn hàng không ở trạng thái chờ thanh toán',
+    ORDER_NOT_PAID: 'Đơn hàng chưa được thanh toán',
+    ENTITLEMENT_NOT_FOUND: 'Sản phẩm không có trong thư viện của bạn',
+
+    // Payment
+    PAYMENT_NOT_FOUND: 'Không tìm thấy giao dịch thanh toán',
+    PAYMENT_PROVIDER_NOT_CONFIGURED: 'Cổng thanh toán chưa được cấu hình',
+    PAYMENT_CURRENCY_NOT_SUPPORTED: 'Cổng thanh toán không hỗ trợ đơn vị tiền tệ này',
+    PAYMENT_RETURN_URL_NOT_ALLOWED: 'URL quay lại sau thanh toán không hợp lệ',
+    PAYMENT_PROVIDER_ERROR: 'Không tạo được giao dịch với cổng thanh toán',
+    PAYMENT_REFUND_FAILED: 'Cổng thanh toán từ chối yêu cầu hoàn tiền',
+
+    // Subscription
+    SUBSCRIPTION_PLAN_NOT_FOUND: 'Không tìm thấy gói đăng ký',
+    SUBSCRIPTION_PLAN_PRODUCT_NOT_SUBSCRIPTION: 'Sản phẩm này không bán theo hình thức đăng ký',
+    SUBSCRIPTION_NOT_FOUND: 'Không tìm thấy gói đăng ký của bạn',
+    SUBSCRIPTION_ALREADY_EXISTS: 'Bạn đã đăng ký sản phẩm này',
+    SUBSCRIPTION_NOT_ACTIVE: 'Gói đăng ký không còn hiệu lực',
+    SUBSCRIPTION_NOT_CANCELING: 'Gói đăng ký không được đặt hủy vào cuối kỳ',
+    SUBSCRIPTION_NOT_PAST_DUE: 'Gói đăng ký không có kỳ gia hạn chờ thanh toán',
+
+    // File
+    FILE_NOT_FOUND: 'Không tìm thấy tệp',
+    FILE_ACCESS_FORBIDDEN: 'Bạn cần mua sản phẩm để tải tệp này',
+    DOWNLOAD_LINK_INVALID: 'Liên kết tải xuống không hợp lệ',
+    DOWNLOAD_LINK_EXPIRED: 'Liên kết tải xuống đã hết hạn',
+    UPLOAD_TOO_LARGE: 'Tệp vượt quá dung lượng cho phép',
+    UPLOAD_TYPE_NOT_ALLOWED: 'Loại tệp không được phép cho loại tài nguyên này',
+    UPLOAD_CONTENT_MISMATCH: 'Nội dung tệp không khớp với phần mở rộng',
+    UPLOAD_INVALID_IMAGE: 'Ảnh tải lên bị lỗi hoặc không được hỗ trợ',
+
     // Validation
     INVALID_INPUT: 'Dữ liệu gửi lên không hợp lệ',
     VALIDATION_ERROR: 'Lỗi kiểm tra dữ liệu',
@@ -119,6 +262,13 @@ export const ERROR_MESSAGES: Record<string, string> = {
 
     // Article
     ARTICLE_NOT_FOUND: 'Không tìm thấy bài viết',
+    INGESTION_JOB_NOT_FOUND: 'Bài viết không có tác vụ xử lý để chạy lại',
+    INGESTION_RETRY_NOT_ALLOWED: 'Chỉ có thể chạy lại bài viết xử lý thất bại',
+
+    // Schedule
+    INVALID_SCHEDULE_FREQUENCY: 'Tần suất phải là hourly, daily, weekly hoặc monthly',
+    INVALID_CRON_EXPRESSION: 'Biểu thức cron không hợp lệ',
+    INVALID_TIMEZONE: 'Múi giờ không hợp lệ (cần tên IANA, ví dụ Asia/Ho_Chi_Minh)',
 
     // Internal
     INTERNAL_ERROR: 'Lỗi hệ thống',
@@ -0,0 +1,50 @@
+import { calculateNextFetch, isValidCronExpression } from '../schedule-utils';
+import { DomainError, ERROR_CODES } from '../../shared/errors';
+
+describe('isValidCronExpression', () => {
+    it('accepts 5-field expressions', () => {
+        expect(isValidCronExpression('0 9 * * 1-5')).toBe(true);
+        expect(isValidCronExpression('*/15 * * * *')).toBe(true);
+    });
+
+    it('rejects a seconds field and malformed expressions', () => {
+        expect(isValidCronExpression('0 0 9 * * *')).toBe(false);
+        expect(isValidCronExpression('0 9 * *')).toBe(false);
+        expect(isValidCronExpression('61 9 * * *')).toBe(false);
+    });
+});
+
+describe('calculateNextFetch', () => {
+    const from = new Date('2024-03-10T12:30:00Z');
+
+    it('evaluates cron expressions in UTC by default', () => {
+        expect(calculateNextFetch('cron', '0 9 * * *', null, from)).toEqual(new Date('2024-03-11T09:00:00Z'));
+    });
+
+    it('evaluates cron expressions in the schedule timezone', () => {
+        // 09:00 in Ho Chi Minh City (UTC+7) is 02:00 UTC; today's run already passed
+        expect(calculateNextFetch('cron', '0 9 * * *', 'Asia/Ho_Chi_Minh', from)).toEqual(new Date('2024-03-11T02:00:00Z'));
+        // 09:00 in New York is still ahead today (UTC-4 after the DST switch that morning)
+        expect(calculateNextFetch('cron', '0 9 * * *', 'America/New_York', from)).toEqual(new Date('2024-03-10T13:00:00Z'));
+    });
+
+    it('adds preset frequencies to the start time', () => {
+        expect(calculateNextFetch('hourly', null, null, from)).toEqual(new Date('2024-03-10T13:30:00Z'));
+        expect(calculateNextFetch('weekly', null, null, from)).toEqual(new Date('2024-03-17T12:30:00Z'));
+    });
+
+    it('rejects unknown timezones, invalid expressions and frequencies', () => {
+        const codeOf = (fn: () => unknown) => {
+            try {
+                fn();
+            } catch (error) {
+                return error instanceof DomainError ? error.code : error;
+            }
+            return null;
+        };
+
+        expect(codeOf(() => calculateNextFetch('cron', '0 9 * * *', 'Mars/Olympus', from))).toBe(ERROR_CODES.INVALID_TIMEZONE);
+        expect(codeOf(() => calculateNextFetch('cron', '0 0 9 * * *', null, from))).toBe(ERROR_CODES.INVALID_CRON_EXPRESSION);
+        expect(codeOf(() => calculateNextFetch('yearly', null, null, from))).toBe(ERROR_CODES.INVALID_SCHEDULE_FREQUENCY);
+    });
+});
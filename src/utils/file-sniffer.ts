@@ -0,0 +1,101 @@
+/**
+ * Content type detection from magic bytes
+ * Used to reject uploads whose content does not match their extension
+ * (e.g. a ".png" that is really a zip archive)
+ */
+
+/**
+ * Number of leading bytes needed by sniffMimeType / looksLikeText
+ */
+export const SNIFF_BYTES = 4096;
+
+// Short magics can also begin ordinary uploads, so those only count once their header checks out
+const SIGNATURES: { mimeType: string; offset: number; bytes: number[]; check?: (head: Buffer) => boolean }[] = [
+    { mimeType: 'image/png', offset: 0, bytes: [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a] },
+    { mimeType: 'image/jpeg', offset: 0, bytes: [0xff, 0xd8, 0xff] },
+    { mimeType: 'image/gif', offset: 0, bytes: [0x47, 0x49, 0x46, 0x38] }, // GIF8
+    { mimeType: 'application/pdf', offset: 0, bytes: [0x25, 0x50, 0x44, 0x46, 0x2d] }, // %PDF-
+    { mimeType: 'application/zip', offset: 0, bytes: [0x50, 0x4b, 0x03, 0x04] },
+    { mimeType: 'application/zip', offset: 0, bytes: [0x50, 0x4b, 0x05, 0x06] }, // Empty archive
+    { mimeType: 'application/gzip', offset: 0, bytes: [0x1f, 0x8b, 0x08], check: hasGzipFlags }, // Deflate only
+    { mimeType: 'application/x-7z-compressed', offset: 0, bytes: [0x37, 0x7a, 0xbc, 0xaf, 0x27, 0x1c] },
+    { mimeType: 'application/vnd.rar', offset: 0, bytes: [0x52, 0x61, 0x72, 0x21, 0x1a, 0x07] },
+    { mimeType: 'application/x-executable', offset: 0, bytes: [0x7f, 0x45, 0x4c, 0x46] }, // ELF
+    { mimeType: 'application/x-msdownload', offset: 0, bytes: [0x4d, 0x5a], check: hasPeHeader }, // MZ (Windows PE)
+];
+
+/**
+ * Gzip header: reserved flag bits (5-7) must be zero
+ */
+function hasGzipFlags(head: Buffer): boolean {
+    return head.length >= 4 && (head[3] & 0xe0) === 0;
+}
+
+/**
+ * MZ stub pointing (e_lfanew at 0x3c) to a "PE\0\0" header inside the sniffed bytes
+ */
+function hasPeHeader(head: Buffer): boolean {
+    if (head.length < 0x40) {
+        return false;
+    }
+    return matchesAt(head, head.readUInt32LE(0x3c), [0x50, 0x45, 0x00, 0x00]);
+}
+
+/**
+ * MIME types that can be recognized from their signature
+ */
+export const SNIFFABLE_MIME_TYPES = new Set([
+    ...SIGNATURES.map(signature => signature.mimeType),
+    'image/webp',
+]);
+
+function matchesAt(buffer: Buffer, offset: number, bytes: number[]): boolean {
+    if (buffer.length < offset + bytes.length) {
+        return false;
+    }
+    return bytes.every((byte, i) => buffer[offset + i] === byte);
+}
+
+/**
+ * Detect a binary file type from its leading bytes (null if unrecognized)
+ */
+export function sniffMimeType(head: Buffer): string | null {
+    // WebP: RIFF....WEBP
+    if (matchesAt(head, 0, [0x52, 0x49, 0x46, 0x46]) && matchesAt(head, 8, [0x57, 0x45, 0x42, 0x50])) {
+        return 'image/webp';
+    }
+
+    const signature = SIGNATURES.find(s => matchesAt(head, s.offset, s.bytes) && (!s.check || s.check(head)));
+    return signature ? signature.mimeType : null;
+}
+
+/**
+ * Heuristic text check: valid UTF-8 without NUL or other binary control characters
+ */
+export function looksLikeText(head: Buffer): boolean {
+    // Ignore a multi-byte character cut off at the end of the sample
+    let end = head.length;
+    for (let i = Math.max(0, head.length - 3); i < head.length; i++) {
+        const byte = head[i];
+        const width = byte >= 0xf0 ? 4 : byte >= 0xe0 ? 3 : byte >= 0xc0 ? 2 : 1;
+        if (width > 1 && i + width > head.length) {
+            end = i;
+            break;
+        }
+    }
+
+    const sample = head.subarray(0, end);
+    try {
+        new TextDecoder('utf-8', { fatal: true }).decode(sample);
+    } catch {
+        return false;
+    }
+
+    for (const byte of sample) {
+        // Allow tab, LF, CR, FF, ESC
+        if (byte < 0x20 && ![0x09, 0x0a, 0x0c, 0x0d, 0x1b].includes(byte)) {
+            return false;
+        }
+    }
+    return true;
+}
@@ -0,0 +1,40 @@
+/**
+ * Parse a single-range HTTP Range header ("bytes=start-end", "bytes=start-", "bytes=-suffix")
+ * Returns the inclusive byte range, 'unsatisfiable' when it lies outside the file,
+ * or null when the header should be ignored (absent, malformed or multi-range)
+ */
+export function parseRangeHeader(
+    header: string | undefined,
+    size: number
+): { start: number; end: number } | 'unsatisfiable' | null {
+    if (!header) {
+        return null;
+    }
+
+    const match = header.trim().match(/^bytes=(\d*)-(\d*)$/);
+    if (!match || (match[1] === '' && match[2] === '')) {
+        return null;
+    }
+
+    let start: number;
+    let end: number;
+
+    if (match[1] === '') {
+        // Suffix range: last N bytes
+        const suffix = parseInt(match[2], 10);
+        if (suffix === 0) {
+            return 'unsatisfiable';
+        }
+        start = Math.max(size - suffix, 0);
+        end = size - 1;
+    } else {
+        start = parseInt(match[1], 10);
+        end = match[2] === '' ? size - 1 : Math.min(parseInt(match[2], 10), size - 1);
+    }
+
+    if (start >= size || start > end) {
+        return 'unsatisfiable';
+    }
+
+    return { start, end };
+}
@@ -0,0 +1,109 @@
+import { DomainError, ERROR_CODES } from '../shared/errors';
+
+/**
+ * Review gate for security scan results, shared by product and release approval
+ */
+
+export type ScanStatus = 'pending' | 'passed' | 'failed';
+
+/**
+ * Scan fields stored on products and releases
+ */
+export interface ScanState {
+    security_scan_status?: ScanStatus | null;
+    security_scan_result?: Record<string, any> | null;
+}
+
+export interface FailingMalwareVerdict {
+    artifact_id: string;
+    status: string;
+    signature: string | null;
+}
+
+type ScanBlocker =
+    // Scan never ran or has not finished
+    | { reason: 'pending' }
+    // Scan errored, found malware, or could not check every artifact
+    | {
+        reason: 'unsafe';
+        error: string | null;
+        verdicts: FailingMalwareVerdict[];
+        unreadable_artifact_ids: string[];
+    }
+    // Unsuppressed findings at or above the fail severity
+    | { reason: 'failed'; max_severity: string | null };
+
+const GATE_ERRORS = {
+    product: {
+        pending: ERROR_CODES.PRODUCT_SCAN_PENDING,
+        unsafe: ERROR_CODES.PRODUCT_MALWARE_DETECTED,
+        failed: ERROR_CODES.PRODUCT_SCAN_FAILED,
+    },
+    release: {
+        pending: ERROR_CODES.RELEASE_SCAN_PENDING,
+        unsafe: ERROR_CODES.RELEASE_MALWARE_DETECTED,
+        failed: ERROR_CODES.RELEASE_SCAN_FAILED,
+    },
+} as const;
+
+/**
+ * Find what keeps a scanned item from being approved (null when nothing does)
+ */
+function findScanBlocker(state: ScanState): ScanBlocker | null {
+    const result = state.security_scan_result;
+    if (!state.security_scan_status || state.security_scan_status === 'pending' || !result) {
+        return { reason: 'pending' };
+    }
+
+    const verdicts: FailingMalwareVerdict[] = (result.malware_verdicts || [])
+        .filter((verdict: any) => verdict.status === 'infected' || verdict.status === 'error')
+        .map((verdict: any) => ({
+            artifact_id: verdict.artifact_id,
+            status: verdict.status,
+            signature: verdict.signature || null,
+        }));
+    const unreadableArtifactIds: string[] = (result.findings || [])
+        .filter((finding: any) => finding.rule_id === 'artifact-unreadable')
+        .map((finding: any) => finding.artifact_id);
+
+    if (result.error || result.malware_detected || verdicts.length > 0 || unreadableArtifactIds.length > 0) {
+        return {
+            reason: 'unsafe',
+            error: result.error || null,
+            verdicts,
+            unreadable_artifact_ids: unreadableArtifactIds,
+        };
+    }
+
+    if (state.security_scan_status !== 'passed') {
+        return { reason: 'failed', max_severity: result.max_severity || null };
+    }
+    return null;
+}
+
+/**
+ * Block approval until the scan passed: finished without error or malware, every artifact
+ * checked and no unsuppressed finding at or above the fail severity
+ */
+export function assertScanApprovable(kind: 'product' | 'release', id: string, state: ScanState): void {
+    const blocker = findScanBlocker(state);
+    if (!blocker) {
+        return;
+    }
+
+    const subject = kind === 'product' ? { productId: id } : { releaseId: id };
+    const code = GATE_ERRORS[kind][blocker.reason];
+    switch (blocker.reason) {
+        case 'pending':
+            throw new DomainError(code, subject);
+        case 'unsafe':
+            throw new DomainError(code, {
+                ...subject,
+                error: blocker.error,
+                verdicts: blocker.verdicts,
+                unreadableArtifactIds: blocker.unreadable_artifact_ids,
+            });
+        case 'failed':
+            throw new DomainError(code, { ...subject, maxSeverity: blocker.max_severity });
+    }
+}
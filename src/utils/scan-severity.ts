@@ -0,0 +1,30 @@
+/**
+ * Severity levels for security scan findings, lowest first
+ */
+export const SCAN_SEVERITIES = ['info', 'low', 'medium', 'high', 'critical'] as const;
+
+export type ScanSeverity = typeof SCAN_SEVERITIES[number];
+
+/**
+ * Numeric rank of a severity (higher is more severe)
+ */
+export function severityRank(severity: ScanSeverity): number {
+    return SCAN_SEVERITIES.indexOf(severity);
+}
+
+/**
+ * Check whether a severity is at or above a threshold
+ */
+export function meetsSeverity(severity: ScanSeverity, threshold: ScanSeverity): boolean {
+    return severityRank(severity) >= severityRank(threshold);
+}
+
+/**
+ * Most severe of the given severities (null when empty)
+ */
+export function maxSeverity(severities: ScanSeverity[]): ScanSeverity | null {
+    return severities.reduce<ScanSeverity | null>(
+        (max, severity) => (max === null || severityRank(severity) > severityRank(max) ? severity : max),
+        null
+    );
+}
@@ -3,28 +3,90 @@
  * Business logic for schedule calculations
  */
 
+import cronParser from 'cron-parser';
+import { DomainError, ERROR_CODES } from '../shared/errors';
+
+/**
+ * Preset frequencies supported without a cron expression
+ */
+export const SCHEDULE_FREQUENCIES = ['hourly', 'daily', 'weekly', 'monthly'] as const;
+
+/**
+ * Frequency value stored for schedules driven by a cron expression
+ */
+export const CRON_FREQUENCY = 'cron';
+
+export const DEFAULT_SCHEDULE_TIMEZONE = 'UTC';
+
+/**
+ * Check whether a string is a valid IANA timezone (e.g. "Asia/Ho_Chi_Minh")
+ */
+export function isValidTimezone(timezone: string): boolean {
+    try {
+        new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+        return true;
+    } catch {
+        return false;
+    }
+}
+
 /**
- * Calculate next fetch time based on frequency
+ * Check whether a string is a valid 5-field cron expression
+ * A seconds field is not accepted, so schedules run at most once a minute
+ */
+export function isValidCronExpression(expression: string): boolean {
+    const fields = expression.trim().split(/\s+/);
+    if (fields.length !== 5) {
+        return false;
+    }
+
+    try {
+        cronParser.parseExpression(expression);
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Calculate next fetch time based on frequency or cron expression
  * Business logic: Determines when next fetch should occur
+ * Cron expressions are evaluated in the given IANA timezone
  */
-export function calculateNextFetch(frequency: string): Date {
-    const now = new Date();
+export function calculateNextFetch(
+    frequency: string,
+    cronExpression?: string | null,
+    timezone?: string | null,
+    from: Date = new Date()
+): Date {
+    const tz = timezone || DEFAULT_SCHEDULE_TIMEZONE;
+    if (!isValidTimezone(tz)) {
+        throw new DomainError(ERROR_CODES.INVALID_TIMEZONE, { timezone: tz });
+    }
+
+    if (cronExpression) {
+        if (!isValidCronExpression(cronExpression)) {
+            throw new DomainError(ERROR_CODES.INVALID_CRON_EXPRESSION, { cronExpression });
+        }
+        return cronParser.parseExpression(cronExpression, { currentDate: from, tz }).next().toDate();
+    }
+
+    const next = new Date(from);
     switch (frequency.toLowerCase()) {
         case 'daily':
-            now.setDate(now.getDate() + 1);
+            next.setDate(next.getDate() + 1);
             break;
         case 'weekly':
-            now.setDate(now.getDate() + 7);
+            next.setDate(next.getDate() + 7);
             break;
         case 'monthly':
-            now.setMonth(now.getMonth() + 1);
+            next.setMonth(next.getMonth() + 1);
             break;
         case 'hourly':
-            now.setHours(now.getHours() + 1);
+            next.setHours(next.getHours() + 1);
             break;
         default:
-            now.setDate(now.getDate() + 1); // Default to daily
+            throw new DomainError(ERROR_CODES.INVALID_SCHEDULE_FREQUENCY, { frequency });
     }
-    return now;
+    return next;
 }
-
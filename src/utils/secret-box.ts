@@ -0,0 +1,47 @@
+import crypto from 'crypto';
+
+/**
+ * Symmetric encryption for secrets stored in the database (AES-256-GCM)
+ * Format: "v1." + base64url(iv) + "." + base64url(auth tag) + "." + base64url(ciphertext)
+ * The key is derived from the given secret with SHA-256
+ */
+
+const VERSION = 'v1';
+
+function deriveKey(secret: string): Buffer {
+    return crypto.createHash('sha256').update(secret).digest();
+}
+
+/**
+ * Encrypt a plaintext secret
+ */
+export function encryptSecret(plaintext: string, secret: string): string {
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv('aes-256-gcm', deriveKey(secret), iv);
+    const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+    const tag = cipher.getAuthTag();
+
+    return [VERSION, iv.toString('base64url'), tag.toString('base64url'), ciphertext.toString('base64url')].join('.');
+}
+
+/**
+ * Decrypt a value produced by encryptSecret
+ * Returns null when the value is malformed, tampered with or encrypted with another secret
+ */
+export function decryptSecret(value: string, secret: string): string | null {
+    const [version, iv, tag, ciphertext, ...rest] = value.split('.');
+    if (version !== VERSION || !iv || !tag || ciphertext === undefined || rest.length > 0) {
+        return null;
+    }
+
+    try {
+        const decipher = crypto.createDecipheriv('aes-256-gcm', deriveKey(secret), Buffer.from(iv, 'base64url'));
+        decipher.setAuthTag(Buffer.from(tag, 'base64url'));
+        return Buffer.concat([
+            decipher.update(Buffer.from(ciphertext, 'base64url')),
+            decipher.final(),
+        ]).toString('utf8');
+    } catch {
+        return null;
+    }
+}
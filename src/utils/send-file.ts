@@ -0,0 +1,83 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+import storageService from '../services/storage.service';
+import { parseRangeHeader } from './http-range';
+
+export interface SendableFile {
+    fileUrl: string;
+    fileName: string; // Name to offer in Content-Disposition
+    mimeType: string;
+    size: number;
+    modifiedAt: Date;
+    disposition: 'inline' | 'attachment';
+    isPublic: boolean; // Whether responses may be cached by shared caches
+}
+
+/**
+ * Build a Content-Disposition header value safe for non-ASCII file names
+ */
+function contentDisposition(type: 'inline' | 'attachment', fileName: string): string {
+    const asciiName = fileName.replace(/[^\x20-\x7e]/g, '_').replace(/["\\]/g, '_');
+    return `${type}; filename="${asciiName}"; filename*=UTF-8''${encodeURIComponent(fileName)}`;
+}
+
+/**
+ * Byte range the request asks for (null for the whole file)
+ * Range is ignored when If-Range no longer matches the file
+ */
+export function requestedRange(
+    request: FastifyRequest,
+    file: SendableFile
+): { start: number; end: number } | 'unsatisfiable' | null {
+    const ifRange = request.headers['if-range'];
+    if (ifRange && ifRange !== fileEtag(file)) {
+        return null;
+    }
+    return parseRangeHeader(request.headers.range, file.size);
+}
+
+function fileEtag(file: SendableFile): string {
+    return `"${file.size.toString(16)}-${file.modifiedAt.getTime().toString(16)}"`;
+}
+
+/**
+ * Stream a stored file with content type, caching and Range support
+ */
+export async function sendStoredFile(request: FastifyRequest, reply: FastifyReply, file: SendableFile) {
+    const etag = fileEtag(file);
+    reply
+        .header('Content-Type', file.mimeType)
+        .header('Content-Disposition', contentDisposition(file.disposition, file.fileName))
+        .header('X-Content-Type-Options', 'nosniff')
+        .header('Accept-Ranges', 'bytes')
+        .header('ETag', etag)
+        .header('Last-Modified', file.modifiedAt.toUTCString())
+        .header('Cache-Control', file.isPublic ? 'public, max-age=86400' : 'private, no-store');
+
+    if (request.headers['if-none-match'] === etag) {
+        return reply.status(304).send();
+    }
+
+    const range = requestedRange(request, file);
+
+    if (range === 'unsatisfiable') {
+        return reply
+            .status(416)
+            .header('Content-Range', `bytes */${file.size}`)
+            .send();
+    }
+
+    if (range) {
+        reply
+            .status(206)
+            .header('Content-Range', `bytes ${range.start}-${range.end}/${file.size}`)
+            .header('Content-Length', range.end - range.start + 1);
+    } else {
+        reply.header('Content-Length', file.size);
+    }
+
+    if (request.method === 'HEAD') {
+        return reply.send();
+    }
+
+    return reply.send(await storageService.createReadStream(file.fileUrl, range || undefined));
+}
@@ -0,0 +1,54 @@
+import crypto from 'crypto';
+
+/**
+ * Compact HMAC-SHA256 signed tokens: base64url(JSON payload) + "." + base64url(signature)
+ * Payloads carry their own expiry in `exp` (unix seconds)
+ */
+
+export type SignedTokenPayload = Record<string, unknown> & { exp: number };
+
+function sign(data: string, secret: string): string {
+    return crypto.createHmac('sha256', secret).update(data).digest('base64url');
+}
+
+/**
+ * Sign a payload
+ */
+export function createSignedToken(payload: SignedTokenPayload, secret: string): string {
+    const data = Buffer.from(JSON.stringify(payload)).toString('base64url');
+    return `${data}.${sign(data, secret)}`;
+}
+
+/**
+ * Verify a token's signature and expiry
+ * Returns the payload, 'expired', or null when the token is malformed or tampered with
+ */
+export function verifySignedToken<T extends SignedTokenPayload>(
+    token: string,
+    secret: string,
+    now: Date = new Date()
+): T | 'expired' | null {
+    const [data, signature, ...rest] = token.split('.');
+    if (!data || !signature || rest.length > 0) {
+        return null;
+    }
+
+    const expected = Buffer.from(sign(data, secret));
+    const actual = Buffer.from(signature);
+    if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+        return null;
+    }
+
+    let payload: T;
+    try {
+        payload = JSON.parse(Buffer.from(data, 'base64url').toString('utf-8'));
+    } catch {
+        return null;
+    }
+
+    if (typeof payload?.exp !== 'number') {
+        return null;
+    }
+
+    return payload.exp * 1000 <= now.getTime() ? 'expired' : payload;
+}
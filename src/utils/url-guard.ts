@@ -0,0 +1,119 @@
+import dns from 'dns/promises';
+import { lookup as dnsLookup } from 'dns';
+import net from 'net';
+
+/**
+ * Guards for outgoing requests to user-supplied URLs
+ * Rejects non-HTTP(S) URLs and hosts resolving to loopback, private, link-local or
+ * otherwise internal addresses so users cannot make the server call internal services
+ */
+
+const PRIVATE_IPV4_RANGES: [string, number][] = [
+    ['0.0.0.0', 8],
+    ['10.0.0.0', 8],
+    ['100.64.0.0', 10],
+    ['127.0.0.0', 8],
+    ['169.254.0.0', 16],
+    ['172.16.0.0', 12],
+    ['192.0.0.0', 24],
+    ['192.168.0.0', 16],
+    ['198.18.0.0', 15],
+    ['224.0.0.0', 4],
+    ['240.0.0.0', 4],
+];
+
+function ipv4ToNumber(address: string): number {
+    return address.split('.').reduce((value, octet) => (value << 8) + parseInt(octet, 10), 0) >>> 0;
+}
+
+/**
+ * Whether an IP address is not publicly routable
+ */
+export function isPrivateAddress(address: string): boolean {
+    if (net.isIPv4(address)) {
+        const value = ipv4ToNumber(address);
+        return PRIVATE_IPV4_RANGES.some(([base, bits]) => {
+            const mask = bits === 0 ? 0 : (~0 << (32 - bits)) >>> 0;
+            return (value & mask) === (ipv4ToNumber(base) & mask);
+        });
+    }
+
+    if (net.isIPv6(address)) {
+        const normalized = address.toLowerCase();
+        const mapped = normalized.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+        if (mapped) {
+            return isPrivateAddress(mapped[1]);
+        }
+        return normalized === '::' || normalized === '::1'
+            || /^f[cd]/.test(normalized) // fc00::/7 unique local
+            || /^fe[89ab]/.test(normalized) // fe80::/10 link-local
+            || /^ff/.test(normalized); // multicast
+    }
+
+    return true;
+}
+
+/**
+ * Check that a URL is HTTP(S) and (unless allowPrivate) only resolves to public addresses
+ * Returns a reason when the URL is not allowed, null otherwise
+ */
+export async function checkOutboundUrl(rawUrl: string, allowPrivate: boolean = false): Promise<string | null> {
+    let url: URL;
+    try {
+        url = new URL(rawUrl);
+    } catch {
+        return 'Invalid URL';
+    }
+
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+        return 'Only http and https URLs are allowed';
+    }
+    if (url.username || url.password) {
+        return 'URLs must not contain credentials';
+    }
+    if (allowPrivate) {
+        return null;
+    }
+
+    const hostname = url.hostname.replace(/^\[|\]$/g, '');
+    let addresses: string[];
+    try {
+        addresses = net.isIP(hostname)
+            ? [hostname]
+            : (await dns.lookup(hostname, { all: true })).map(entry => entry.address);
+    } catch {
+        return `Host ${hostname} could not be resolved`;
+    }
+
+    if (addresses.length === 0 || addresses.some(isPrivateAddress)) {
+        return `Host ${hostname} resolves to a private address`;
+    }
+    return null;
+}
+
+/**
+ * dns.lookup replacement for HTTP(S) agents that fails when the host resolves to a private address
+ * The check runs on the same resolution the connection uses, so a host cannot pass
+ * checkOutboundUrl and then rebind to an internal address before the request
+ */
+export const publicOnlyLookup: net.LookupFunction = (hostname, options, callback) => {
+    dnsLookup(hostname, { ...options, all: true }, (error, addresses) => {
+        if (error) {
+            callback(error, '');
+            return;
+        }
+
+        if (addresses.length === 0 || addresses.some(entry => isPrivateAddress(entry.address))) {
+            const blocked: NodeJS.ErrnoException = new Error(`Host ${hostname} resolves to a private address`);
+            blocked.code = 'EADDRNOTAVAIL';
+            callback(blocked, '');
+            return;
+        }
+
+        if (options.all) {
+            callback(null, addresses);
+        } else {
+            callback(null, addresses[0].address, addresses[0].family);
+        }
+    });
+};